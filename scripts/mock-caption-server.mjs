@@ -0,0 +1,247 @@
+/**
+ * Local stand-in translation server for MeetingSync development
+ *
+ * Streams scripted captions over both transports supported by the app:
+ * - SSE:       GET /sessions/:session_id/captions?languages=en,es
+ * - WebSocket: ws://localhost:8787/captions, then send
+ *              { "type": "subscribe", "session_id": "...", "languages": ["en", "es"] }
+ *
+ * Usage:
+ *   npm run mock:captions
+ *   VITE_CAPTION_TRANSPORT=sse npm run dev   (or websocket)
+ *
+ * Env: PORT (default 8787), CAPTION_INTERVAL_MS (default 4000)
+ * Uses Node built-ins only, so no extra dependencies are needed.
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 8787);
+const INTERVAL_MS = Number(process.env.CAPTION_INTERVAL_MS || 4000);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const SPEAKERS = ['John Smith', 'Maria Garcia', 'David Chen', 'Sarah Johnson', 'Alex Rodriguez'];
+
+// Index-aligned scripts: line N is the same utterance in every language
+const SCRIPTS = {
+  en: [
+    'Hello everyone, thank you for joining today\'s meeting.',
+    'Let\'s discuss this quarter\'s performance and set next quarter\'s goals.',
+    'We exceeded our sales targets by 15%. Thanks to the entire team\'s efforts.',
+    'The marketing department is planning a new campaign.',
+    'Please feel free to share any questions or comments.'
+  ],
+  es: [
+    'Hola a todos, gracias por unirse a la reunión de hoy.',
+    'Hablemos sobre el rendimiento de este trimestre y establezcamos los objetivos del próximo.',
+    'Superamos nuestros objetivos de ventas en un 15%. Gracias a los esfuerzos de todo el equipo.',
+    'El departamento de marketing está planeando una nueva campaña.',
+    'Por favor, comparta libremente cualquier pregunta o comentario.'
+  ],
+  fr: [
+    'Bonjour tout le monde, merci de vous joindre à la réunion d\'aujourd\'hui.',
+    'Discutons des performances de ce trimestre et fixons les objectifs du prochain.',
+    'Nous avons dépassé nos objectifs de vente de 15%. Merci aux efforts de toute l\'équipe.',
+    'Le département marketing planifie une nouvelle campagne.',
+    'N\'hésitez pas à partager vos questions ou commentaires.'
+  ],
+  de: [
+    'Hallo alle zusammen, danke, dass Sie am heutigen Meeting teilnehmen.',
+    'Lassen Sie uns die Leistung dieses Quartals besprechen und die Ziele für das nächste setzen.',
+    'Wir haben unsere Verkaufsziele um 15% übertroffen. Dank der Bemühungen des gesamten Teams.',
+    'Die Marketingabteilung plant eine neue Kampagne.',
+    'Bitte teilen Sie gerne Fragen oder Kommentare mit.'
+  ]
+};
+
+function buildCaptions(sessionId, languages, index) {
+  const timestamp = new Date().toISOString();
+  const speaker = SPEAKERS[index % SPEAKERS.length];
+  const confidence = Number((0.75 + Math.random() * 0.23).toFixed(2)); // Occasionally below the default threshold
+
+  return languages.map(language => {
+    const script = SCRIPTS[language];
+    const line = SCRIPTS.en[index % SCRIPTS.en.length];
+    return {
+      id: `${sessionId}_${language}_${index}`,
+      session_id: sessionId,
+      timestamp,
+      text: script ? script[index % script.length] : `[${language}] ${line}`,
+      language,
+      confidence,
+      is_final: true,
+      speaker_name: speaker,
+      utterance_id: `${sessionId}_${index}`
+    };
+  });
+}
+
+// ============================================
+// Server-Sent Events
+// ============================================
+
+function handleSSE(req, res, sessionId, languages) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.write('retry: 2000\n\n');
+
+  let index = 0;
+  const timer = setInterval(() => {
+    for (const caption of buildCaptions(sessionId, languages, index)) {
+      res.write(`event: caption\ndata: ${JSON.stringify(caption)}\n\n`);
+    }
+    index += 1;
+  }, INTERVAL_MS);
+
+  console.log(`[mock-captions] SSE client subscribed: ${sessionId} [${languages.join(', ')}]`);
+  req.on('close', () => {
+    clearInterval(timer);
+    console.log(`[mock-captions] SSE client left: ${sessionId}`);
+  });
+}
+
+// ============================================
+// WebSocket (RFC 6455, text frames only)
+// ============================================
+
+function encodeFrame(text) {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Decode complete client frames from `buffer`; returns the unconsumed remainder
+ */
+function decodeFrames(buffer, onFrame) {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+
+    onFrame(opcode, payload);
+    offset = cursor + length;
+  }
+  return buffer.subarray(offset);
+}
+
+function handleUpgrade(req, socket) {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || !req.url?.startsWith('/captions')) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  let subscription = null;
+  let index = 0;
+  let pending = Buffer.alloc(0);
+
+  const timer = setInterval(() => {
+    if (!subscription) return;
+    for (const caption of buildCaptions(subscription.session_id, subscription.languages, index)) {
+      socket.write(encodeFrame(JSON.stringify({ type: 'caption', caption })));
+    }
+    index += 1;
+  }, INTERVAL_MS);
+
+  const close = () => {
+    clearInterval(timer);
+    socket.destroy();
+  };
+
+  socket.on('data', chunk => {
+    pending = decodeFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+      if (opcode === 0x8) {
+        close();
+      } else if (opcode === 0x9) {
+        socket.write(Buffer.concat([Buffer.from([0x8a, payload.length]), payload]));
+      } else if (opcode === 0x1) {
+        try {
+          const message = JSON.parse(payload.toString('utf8'));
+          if (message.type === 'subscribe' && message.session_id && Array.isArray(message.languages)) {
+            subscription = { session_id: message.session_id, languages: message.languages };
+            console.log(`[mock-captions] WebSocket subscribed: ${subscription.session_id} [${subscription.languages.join(', ')}]`);
+          }
+        } catch {
+          console.warn('[mock-captions] Ignoring non-JSON WebSocket message');
+        }
+      }
+    });
+  });
+  socket.on('close', () => clearInterval(timer));
+  socket.on('error', close);
+}
+
+// ============================================
+// HTTP Server
+// ============================================
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const match = url.pathname.match(/^\/sessions\/([^/]+)\/captions$/);
+
+  if (req.method === 'GET' && match) {
+    const languages = (url.searchParams.get('languages') || 'en').split(',').filter(Boolean);
+    handleSSE(req, res, decodeURIComponent(match[1]), languages);
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify({ error: 'Not found' }));
+});
+
+server.on('upgrade', handleUpgrade);
+
+server.listen(PORT, () => {
+  console.log(`[mock-captions] Listening on http://localhost:${PORT}`);
+  console.log(`[mock-captions]   SSE:       GET /sessions/:session_id/captions?languages=en,es`);
+  console.log(`[mock-captions]   WebSocket: ws://localhost:${PORT}/captions`);
+});
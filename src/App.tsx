@@ -1,5 +1,5 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { ZoomProvider, useZoom } from './context/ZoomContext';
 import { UserProvider, useUser } from './context/UserContext';
 import { SessionProvider, useSession } from './context/SessionContext';
@@ -10,6 +10,7 @@ import { HostSettings } from './components/screens/host/HostSettings';
 import { HostActive } from './components/screens/host/HostActive';
 import { HostSetup } from './components/screens/host/HostSetup';
 import { SessionSummary } from './components/screens/host/SessionSummary';
+import { OrphanedSessionModal } from './components/screens/host/OrphanedSessionModal';
 import { ParticipantLanguageSelect } from './components/screens/participant/ParticipantLanguageSelect';
 import { CompactParticipantCaptionView } from './components/screens/participant/CompactParticipantCaptionView';
 import { ParticipantError, ParticipantErrorType } from './components/screens/participant/ParticipantError';
@@ -22,6 +23,9 @@ import { UsageWarningModal, UsageWarningType } from './components/screens/modals
 import { AddPaymentMethodModal } from './components/screens/modals/AddPaymentMethodModal';
 import { ManagePaymentMethodModal } from './components/screens/modals/ManagePaymentMethodModal';
 import { SubscriptionTier } from './types';
+import { Toast, useToast } from './components/ui/Toast';
+import { getActiveTargetLanguages, getFallbackLanguage, isLanguageDisabled } from './utils/sessionLanguages';
+import { getLanguageDisplayName } from './utils/constants';
 import { TestModeSelector } from './components/TestModeSelector';
 import { ZoomAppContainer } from './components/ZoomAppContainer';
 import type { TestModeConfig } from './components/TestModeSelector';
@@ -69,7 +73,17 @@ function AppContent(props: AppContentProps): React.ReactElement | null {
   const testMode = props.testMode;
   const { isConnected, isLoading, error: zoomError, userContext } = useZoom();
   const { user, setPaymentMethodAdded } = useUser();
-  const { isActive } = useSession();
+  const {
+    session,
+    isActive,
+    orphanedSession,
+    resumeOrphanedSession,
+    endOrphanedSession,
+    publishLanguageSelection,
+    participantLanguageRequests,
+    admissionStatus
+  } = useSession();
+  const { toast, showToast } = useToast();
 
   // Screen state
     const [currentScreen, setCurrentScreen] = useState<AppScreen>('loading');
@@ -149,6 +163,58 @@ function AppContent(props: AppContentProps): React.ReactElement | null {
     }
   }, [isLoading, zoomError, isConnected, isHost, isActive, participantLanguage, testMode, hasInitialized]);
 
+  // Move a participant off a language the host removed or paused mid-session
+  useEffect(() => {
+    if (currentScreen !== 'participant-caption-view' || !participantLanguage || !session) return;
+    if (participantLanguage === session.source_language) return;
+    if (getActiveTargetLanguages(session).includes(participantLanguage)) return;
+
+    const fallbackLanguage = getFallbackLanguage(session, participantLanguage);
+    const reason = isLanguageDisabled(session, participantLanguage) ? 'paused' : 'removed';
+    console.log(`[App] Participant language ${participantLanguage} ${reason}, switching to ${fallbackLanguage}`);
+
+    setParticipantLanguage(fallbackLanguage);
+    showToast(
+      `The host ${reason} ${getLanguageDisplayName(participantLanguage)} captions. Switched to ${getLanguageDisplayName(fallbackLanguage)}.`,
+      'warning'
+    );
+  }, [currentScreen, participantLanguage, session, showToast]);
+
+  // Participant: announce the host's decision on language requests, whichever screen is open
+  const announcedRequestsRef = useRef<Record<string, string>>({});
+  useEffect(() => {
+    Object.entries(participantLanguageRequests).forEach(([code, status]) => {
+      if (announcedRequestsRef.current[code] === status) return;
+      announcedRequestsRef.current[code] = status;
+
+      const language = getLanguageDisplayName(code);
+      if (status === 'approved') showToast(`${language} captions were approved by the host.`, 'success');
+      if (status === 'denied') showToast(`The host declined the request for ${language}.`, 'warning');
+      if (status === 'expired') showToast(`The request for ${language} expired.`, 'info');
+    });
+  }, [participantLanguageRequests, showToast]);
+
+  // Participant: wait on the "session full" screen while queued, start captions once admitted
+  const isWaitingForSeat = currentScreen === 'participant-error' && participantErrorType === 'session_full';
+  useEffect(() => {
+    if (currentScreen === 'participant-caption-view' && admissionStatus?.status === 'queued') {
+      setParticipantErrorType('session_full');
+      setCurrentScreen('participant-error');
+    } else if (isWaitingForSeat && admissionStatus?.status === 'admitted') {
+      setCurrentScreen('participant-caption-view');
+    }
+  }, [currentScreen, isWaitingForSeat, admissionStatus?.status]);
+
+  // Participant: tell the host which caption language is being viewed (or waited for)
+  const viewingLanguage =
+    currentScreen === 'participant-caption-view' || isWaitingForSeat ? participantLanguage : null;
+  const publishedLanguageRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (viewingLanguage === publishedLanguageRef.current) return;
+    publishedLanguageRef.current = viewingLanguage;
+    publishLanguageSelection(viewingLanguage);
+  }, [viewingLanguage, publishLanguageSelection]);
+
   // Host screen handlers
 
   const handleStartSession = () => {
@@ -386,6 +452,18 @@ function AppContent(props: AppContentProps): React.ReactElement | null {
     }
   };
 
+  // Orphaned session recovery (session left running after a reload)
+  const handleResumeOrphanedSession = () => {
+    console.log('[App] Host resumed orphaned session');
+    resumeOrphanedSession();
+    setCurrentScreen('host-active');
+  };
+
+  const handleEndOrphanedSession = () => {
+    console.log('[App] Host ended orphaned session');
+    endOrphanedSession();
+  };
+
   const handleOpenTierModal = () => {
     console.log('[App] Opening tier selection modal');
     setTierModalContext('upgrade');
@@ -537,11 +615,24 @@ function AppContent(props: AppContentProps): React.ReactElement | null {
           onContactHost={() => {
             alert('Please contact the meeting host via Zoom chat for assistance.\n\nYou can also reach support at support@meetingsync.com');
           }}
-          onLeave={() => console.log('[App] Participant left')}
+          onLeave={
+            participantErrorType === 'session_full'
+              ? handleParticipantLeave
+              : () => console.log('[App] Participant left')
+          }
+          queuePosition={admissionStatus?.queue_position}
         />
       )}
 
       {/* Modals */}
+      {isHost && (
+        <OrphanedSessionModal
+          snapshot={orphanedSession}
+          onResume={handleResumeOrphanedSession}
+          onEnd={handleEndOrphanedSession}
+        />
+      )}
+
       <TierSelectionModal
         isOpen={showTierModal}
         onClose={() => setShowTierModal(false)}
@@ -551,6 +642,8 @@ function AppContent(props: AppContentProps): React.ReactElement | null {
         context={tierModalContext}
       />
 
+      <Toast {...toast} />
+
       <UsageWarningModal
         isOpen={showUsageWarningModal}
         onClose={() => setShowUsageWarningModal(false)}
@@ -6,6 +6,7 @@ import { Input } from '../ui/Input';
 import { Badge } from '../ui/Badge';
 import { useUser } from '../../context/UserContext';
 import { MOCK_SESSIONS } from '../../utils/mockData';
+import { getHistorySessions } from '../../utils/sessionHistory';
 import { LANGUAGES } from '../../utils/constants';
 import { SessionStatus } from '../../types';
 import { formatCurrency, formatDate } from '../../utils/constants';
@@ -20,6 +21,7 @@ import { ExportDataModal } from '../modals/ExportDataModal';
  *
  * Features:
  * - Monthly usage summary with progress bar
+ * - Sessions recorded on this device (sessionHistory.ts) before the sample history
  * - Session filtering (date range, meeting type, languages)
  * - Session search by title or host
  * - Session cards with full details
@@ -40,7 +42,7 @@ export function ActivityTab({ onViewAnalytics }: ActivityTabProps) {
   const [showExportModal, setShowExportModal] = useState(false);
 
   const [dateFrom, setDateFrom] = useState('2025-10-01');
-  const [dateTo, setDateTo] = useState('2025-10-31');
+  const [dateTo, setDateTo] = useState(() => new Date().toISOString().slice(0, 10));
   const [meetingTypeFilter, setMeetingTypeFilter] = useState('all');
   const [languageFilter, setLanguageFilter] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
@@ -57,14 +59,18 @@ export function ActivityTab({ onViewAnalytics }: ActivityTabProps) {
     setSelectedSessionId(null);
   };
 
+  // Recorded sessions first, then the sample history
+  const sessions = useMemo(() => [...(user ? getHistorySessions(user.id) : []), ...MOCK_SESSIONS], [user]);
+
   // Filter sessions (must be before conditional return)
   const filteredSessions = useMemo(() => {
-    return MOCK_SESSIONS.filter(session => {
-      // Date filter
+    return sessions.filter(session => {
+      // Date filter (the end date is inclusive)
       const sessionDate = new Date(session.date_time_start);
       const from = new Date(dateFrom);
       const to = new Date(dateTo);
-      if (sessionDate < from || sessionDate > to) return false;
+      to.setUTCDate(to.getUTCDate() + 1);
+      if (sessionDate < from || sessionDate >= to) return false;
 
       // Meeting type filter
       if (meetingTypeFilter !== 'all' && session.meeting_type !== meetingTypeFilter) return false;
@@ -79,7 +85,7 @@ export function ActivityTab({ onViewAnalytics }: ActivityTabProps) {
 
       return true;
     });
-  }, [dateFrom, dateTo, meetingTypeFilter, languageFilter, searchQuery]);
+  }, [sessions, dateFrom, dateTo, meetingTypeFilter, languageFilter, searchQuery]);
 
   // Calculate totals (must be before conditional return)
   // Remove unused totals for now
@@ -138,7 +144,7 @@ export function ActivityTab({ onViewAnalytics }: ActivityTabProps) {
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
               <div>
                 <p className="text-gray-600 dark:text-gray-400">Sessions</p>
-                <p className="text-2xl font-bold text-teal-600 dark:text-teal-400">{MOCK_SESSIONS.length}</p>
+                <p className="text-2xl font-bold text-teal-600 dark:text-teal-400">{sessions.length}</p>
               </div>
               <div>
                 <p className="text-gray-600 dark:text-gray-400">Average Duration</p>
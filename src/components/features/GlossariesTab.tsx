@@ -2,8 +2,20 @@ import { useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
-import { MOCK_GLOSSARIES } from '../../utils/mockData';
-import { Glossary } from '../../types';
+import { MOCK_GLOSSARIES, MOCK_GLOSSARY_ENTRIES } from '../../utils/mockData';
+import { Glossary, GlossaryEntry, GlossaryVersion } from '../../types';
+import { formatEntryTranslations, getEntryLanguages, withTermCount } from '../../utils/glossaryEntries';
+import {
+  GlossaryVersionContent,
+  GlossaryVersionHistories,
+  appendGlossaryVersion,
+  getGlossaryHistory,
+  getLatestVersion,
+  loadGlossaryVersions,
+  rollbackGlossary,
+  saveGlossaryVersions
+} from '../../utils/glossaryVersions';
+import { useUser } from '../../context/UserContext';
 import { GlossaryEditPage } from '../pages/GlossaryEditPage';
 import { GlossaryImportModal } from '../modals/GlossaryImportModal';
 import { GlossaryExportModal } from '../modals/GlossaryExportModal';
@@ -14,24 +26,65 @@ import { GlossaryExportModal } from '../modals/GlossaryExportModal';
  * Manage custom glossaries for domain-specific terminology.
  *
  * Features:
- * - Glossary list with term counts
+ * - Glossary list with term counts (derived from each glossary's entries)
  * - Upload new glossaries (CSV)
  * - View glossary terms
- * - Edit/delete glossaries
+ * - Edit/delete glossaries; every save is recorded as a version (see glossaryVersions.ts)
  * - Meeting type tags
  */
 
 type GlossariesView = 'main' | 'edit' | 'view-terms';
 
+const SAMPLE_TERM_COUNT = 4;
+
 export function GlossariesTab() {
-  const [glossaries, setGlossaries] = useState<Glossary[]>(MOCK_GLOSSARIES);
+  const { user } = useUser();
+  const [versionHistories, setVersionHistories] = useState<GlossaryVersionHistories>(loadGlossaryVersions);
+  // Sample glossaries resume from their latest saved version
+  const [glossaryDetails, setGlossaryDetails] = useState<Glossary[]>(() =>
+    MOCK_GLOSSARIES.map(glossary => {
+      const latest = getLatestVersion(versionHistories[glossary.id] ?? []);
+      return latest ? { ...glossary, name: latest.name, description: latest.description } : glossary;
+    })
+  );
+  const [glossaryEntries, setGlossaryEntries] = useState<Record<string, GlossaryEntry[]>>(() => {
+    const entries = { ...MOCK_GLOSSARY_ENTRIES };
+    Object.keys(versionHistories).forEach(glossaryId => {
+      const latest = getLatestVersion(versionHistories[glossaryId]);
+      if (latest) entries[glossaryId] = latest.entries;
+    });
+    return entries;
+  });
   const [currentView, setCurrentView] = useState<GlossariesView>('main');
   const [selectedGlossaryId, setSelectedGlossaryId] = useState<string | null>(null);
-  const [viewingGlossary, setViewingGlossary] = useState<Glossary | null>(null);
+  const [viewingGlossaryId, setViewingGlossaryId] = useState<string | null>(null);
   const [showImportModal, setShowImportModal] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
   const [exportGlossaryId, setExportGlossaryId] = useState<string | null>(null);
 
+  const glossaries = glossaryDetails.map(glossary => withTermCount(glossary, glossaryEntries[glossary.id] ?? []));
+  const viewingGlossary = glossaries.find(g => g.id === viewingGlossaryId) ?? null;
+  const viewingEntries = viewingGlossary ? glossaryEntries[viewingGlossary.id] ?? [] : [];
+
+  const author = { id: user?.id ?? '', name: user?.name ?? 'Unknown' };
+
+  const updateVersionHistories = (next: GlossaryVersionHistories) => {
+    setVersionHistories(next);
+    saveGlossaryVersions(next);
+  };
+
+  // Apply a version's content as the glossary's current state
+  const applyVersion = (version: GlossaryVersion) => {
+    setGlossaryDetails(prev =>
+      prev.map(g =>
+        g.id === version.glossary_id
+          ? { ...g, name: version.name, description: version.description, updated_at: version.created_at }
+          : g
+      )
+    );
+    setGlossaryEntries(prev => ({ ...prev, [version.glossary_id]: version.entries }));
+  };
+
   // Navigate to edit page
   const handleEditGlossary = (glossaryId: string) => {
     setSelectedGlossaryId(glossaryId);
@@ -44,7 +97,7 @@ export function GlossariesTab() {
   const handleBackToMain = () => {
     setCurrentView('main');
     setSelectedGlossaryId(null);
-    setViewingGlossary(null);
+    setViewingGlossaryId(null);
   };
 
   // Handle import
@@ -52,6 +105,53 @@ export function GlossariesTab() {
     setShowImportModal(true);
   };
 
+  // Create a glossary from an imported file
+  const handleImportComplete = (entries: GlossaryEntry[], fileName: string) => {
+    const now = new Date().toISOString();
+    const glossary = withTermCount(
+      {
+        id: `glossary_${Date.now()}`,
+        user_id: user?.id ?? '',
+        name: fileName.replace(/\.[^.]+$/, ''),
+        tags: [],
+        languages: getEntryLanguages(entries),
+        created_at: now,
+        updated_at: now
+      },
+      entries
+    );
+    setGlossaryDetails(prev => [glossary, ...prev]);
+    setGlossaryEntries(prev => ({ ...prev, [glossary.id]: entries }));
+    updateVersionHistories({
+      ...versionHistories,
+      [glossary.id]: appendGlossaryVersion([], { glossary_id: glossary.id, name: glossary.name, entries }, author)
+    });
+  };
+
+  // Save edits made on the edit page as a new version; null when nothing changed
+  const handleSaveGlossary = (content: GlossaryVersionContent): GlossaryVersion | null => {
+    const history = getGlossaryHistory(versionHistories, content.glossary_id);
+    const next = appendGlossaryVersion(history, content, author);
+    if (next === history) return null;
+
+    const version = next[next.length - 1];
+    updateVersionHistories({ ...versionHistories, [content.glossary_id]: next });
+    applyVersion(version);
+    return version;
+  };
+
+  // Restore an earlier version (saved as a new version); null when it matches the current one
+  const handleRollbackGlossary = (glossaryId: string, versionNumber: number): GlossaryVersion | null => {
+    const history = getGlossaryHistory(versionHistories, glossaryId);
+    const next = rollbackGlossary(history, versionNumber, author);
+    if (next === history) return null;
+
+    const version = next[next.length - 1];
+    updateVersionHistories({ ...versionHistories, [glossaryId]: next });
+    applyVersion(version);
+    return version;
+  };
+
   // Handle export
   const handleExport = (glossaryId: string) => {
     setExportGlossaryId(glossaryId);
@@ -61,7 +161,15 @@ export function GlossariesTab() {
   // Delete glossary
   const deleteGlossary = (glossaryId: string) => {
     if (confirm('Are you sure you want to delete this glossary?')) {
-      setGlossaries(prev => prev.filter(g => g.id !== glossaryId));
+      setGlossaryDetails(prev => prev.filter(g => g.id !== glossaryId));
+      setGlossaryEntries(prev => {
+        const next = { ...prev };
+        delete next[glossaryId];
+        return next;
+      });
+      const histories = { ...versionHistories };
+      delete histories[glossaryId];
+      updateVersionHistories(histories);
     }
   };
 
@@ -70,6 +178,11 @@ export function GlossariesTab() {
     return (
       <GlossaryEditPage
         glossaryId={selectedGlossaryId}
+        glossary={glossaries.find(g => g.id === selectedGlossaryId)}
+        entries={glossaryEntries[selectedGlossaryId] ?? []}
+        versions={getGlossaryHistory(versionHistories, selectedGlossaryId)}
+        onSave={handleSaveGlossary}
+        onRollback={version => handleRollbackGlossary(selectedGlossaryId, version)}
         onBack={handleBackToMain}
       />
     );
@@ -84,7 +197,7 @@ export function GlossariesTab() {
             Custom Glossaries
           </h2>
           <Button variant="primary" onClick={handleImport}>
-            + Upload New Glossary (CSV)
+            + Upload New Glossary
           </Button>
         </div>
       )}
@@ -95,7 +208,7 @@ export function GlossariesTab() {
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle>{viewingGlossary.name}</CardTitle>
-              <Button variant="secondary" size="sm" onClick={() => setViewingGlossary(null)}>
+              <Button variant="secondary" size="sm" onClick={() => setViewingGlossaryId(null)}>
                 ← Back to List
               </Button>
             </div>
@@ -128,36 +241,18 @@ export function GlossariesTab() {
                   Sample Terms
                 </h3>
                 <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 space-y-2 text-sm max-h-96 overflow-y-auto">
-                  {viewingGlossary.id === 'glossary_medical_001' && (
-                    <>
-                      <p><strong>Hypertension</strong> → Hipertensión (ES), Hypertension (FR)</p>
-                      <p><strong>Diabetes</strong> → Diabetes (ES), Diabète (FR)</p>
-                      <p><strong>MRI</strong> → Resonancia magnética (ES), IRM (FR)</p>
-                      <p><strong>Prescription</strong> → Receta (ES), Ordonnance (FR)</p>
-                      <p className="text-gray-600 dark:text-gray-400 italic">
-                        ...and {viewingGlossary.term_count - 4} more terms
-                      </p>
-                    </>
+                  {viewingEntries.slice(0, SAMPLE_TERM_COUNT).map(entry => (
+                    <p key={entry.id}>
+                      <strong>{entry.source_term}</strong> → {formatEntryTranslations(entry)}
+                    </p>
+                  ))}
+                  {viewingEntries.length === 0 && (
+                    <p className="text-gray-600 dark:text-gray-400 italic">No terms yet</p>
                   )}
-                  {viewingGlossary.id === 'glossary_product_001' && (
-                    <>
-                      <p><strong>SyncPro</strong> → SyncPro (all languages - brand name)</p>
-                      <p><strong>CloudSync</strong> → CloudSync (all languages - brand name)</p>
-                      <p><strong>Dashboard</strong> → Panel de control (ES), Tableau de bord (FR)</p>
-                      <p className="text-gray-600 dark:text-gray-400 italic">
-                        ...and {viewingGlossary.term_count - 3} more terms
-                      </p>
-                    </>
-                  )}
-                  {viewingGlossary.id === 'glossary_legal_001' && (
-                    <>
-                      <p><strong>Litigation</strong> → Litigio (ES), Contentieux (FR)</p>
-                      <p><strong>Plaintiff</strong> → Demandante (ES), Plaignant (FR)</p>
-                      <p><strong>Defendant</strong> → Demandado (ES), Défendeur (FR)</p>
-                      <p className="text-gray-600 dark:text-gray-400 italic">
-                        ...and {viewingGlossary.term_count - 3} more terms
-                      </p>
-                    </>
+                  {viewingGlossary.term_count > SAMPLE_TERM_COUNT && (
+                    <p className="text-gray-600 dark:text-gray-400 italic">
+                      ...and {viewingGlossary.term_count - SAMPLE_TERM_COUNT} more terms
+                    </p>
                   )}
                 </div>
               </div>
@@ -232,7 +327,7 @@ export function GlossariesTab() {
 
                 {/* Glossary Actions */}
                 <div className="flex gap-2 pt-2">
-                  <Button variant="primary" size="sm" onClick={() => setViewingGlossary(glossary)}>
+                  <Button variant="primary" size="sm" onClick={() => setViewingGlossaryId(glossary.id)}>
                     View Terms
                   </Button>
                   <Button variant="secondary" size="sm" onClick={() => handleEditGlossary(glossary.id)}>
@@ -267,6 +362,7 @@ export function GlossariesTab() {
         isOpen={showImportModal}
         onClose={() => setShowImportModal(false)}
         glossaryId="new"
+        onImport={handleImportComplete}
       />
 
       <GlossaryExportModal
@@ -277,6 +373,8 @@ export function GlossariesTab() {
         }}
         glossaryId={exportGlossaryId || ''}
         glossaryName={glossaries.find(g => g.id === exportGlossaryId)?.name || ''}
+        glossary={glossaries.find(g => g.id === exportGlossaryId)}
+        entries={exportGlossaryId ? glossaryEntries[exportGlossaryId] ?? [] : []}
       />
     </div>
   );
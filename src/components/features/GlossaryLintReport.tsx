@@ -0,0 +1,77 @@
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import {
+  GlossaryLintFix,
+  GlossaryLintIssue,
+  GlossaryLintSeverity,
+  GLOSSARY_LINT_FIX_LABELS,
+  GLOSSARY_LINT_SEVERITIES,
+  GLOSSARY_LINT_SEVERITY_LABELS
+} from '../../utils/glossaryLinter';
+
+export interface GlossaryLintReportProps {
+  issues: GlossaryLintIssue[];
+  onFix?: (issue: GlossaryLintIssue, fix: GlossaryLintFix) => void;
+  maxIssuesPerGroup?: number;
+}
+
+const SEVERITY_BADGES: Record<GlossaryLintSeverity, 'error' | 'warning' | 'info'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'info'
+};
+
+/**
+ * GlossaryLintReport Component
+ *
+ * Glossary lint results grouped by severity, with quick-fix buttons for
+ * issues that have one. Used by the import modal and the glossary editor.
+ */
+export function GlossaryLintReport({ issues, onFix, maxIssuesPerGroup = 20 }: GlossaryLintReportProps) {
+  if (issues.length === 0) {
+    return <p className="text-sm text-green-700 dark:text-green-400">No issues found.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {GLOSSARY_LINT_SEVERITIES.map(severity => {
+        const group = issues.filter(issue => issue.severity === severity);
+        if (group.length === 0) return null;
+
+        return (
+          <div key={severity} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Badge variant={SEVERITY_BADGES[severity]} size="sm">
+                {group.length}
+              </Badge>
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                {GLOSSARY_LINT_SEVERITY_LABELS[severity]}
+              </h4>
+            </div>
+            <ul className="divide-y divide-gray-100 dark:divide-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+              {group.slice(0, maxIssuesPerGroup).map(issue => (
+                <li key={issue.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <span className="text-sm text-gray-700 dark:text-gray-300">{issue.message}</span>
+                  {onFix && issue.fixes.length > 0 && (
+                    <div className="flex gap-2 flex-shrink-0">
+                      {issue.fixes.map(fix => (
+                        <Button key={fix} size="sm" variant="outline" onClick={() => onFix(issue, fix)}>
+                          {GLOSSARY_LINT_FIX_LABELS[fix]}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {group.length > maxIssuesPerGroup && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                …and {group.length - maxIssuesPerGroup} more
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
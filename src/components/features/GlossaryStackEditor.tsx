@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import type { GlossaryRef } from '../../types';
+import { getGlossaryStackErrors } from '../../utils/glossaryComposition';
+import {
+  formatGlossaryVersionLabel,
+  getGlossaryName,
+  listGlossaryVersions,
+  listLatestGlossaryVersions
+} from '../../utils/glossaryVersions';
+import { GlossaryStackPreviewModal } from '../modals/GlossaryStackPreviewModal';
+
+export interface GlossaryStackEditorProps {
+  glossaries: GlossaryRef[];
+  onChange: (glossaries: GlossaryRef[]) => void;
+  label?: string;
+  onUploadNew?: () => void; // Adds an "Upload New CSV" option to the add menu
+}
+
+const UPLOAD_NEW_VALUE = 'upload-new';
+
+/**
+ * GlossaryStackEditor Component
+ *
+ * Picks an ordered list of glossaries for a session or template: add,
+ * reorder (earlier glossaries win conflicts), pin each to a version, and
+ * open the merged view. Glossaries with lint errors are flagged, since they
+ * can't be used in a session until fixed.
+ */
+export function GlossaryStackEditor({ glossaries, onChange, label = 'Glossaries', onUploadNew }: GlossaryStackEditorProps) {
+  const [showPreview, setShowPreview] = useState(false);
+
+  const available = useMemo(() => listLatestGlossaryVersions(), []);
+  const rows = useMemo(
+    () => glossaries.map(ref => ({ ref, name: getGlossaryName(ref.glossary_id), versions: listGlossaryVersions(ref.glossary_id) })),
+    [glossaries]
+  );
+  const errorCounts = useMemo(
+    () => new Map(getGlossaryStackErrors(glossaries).map(item => [item.glossary_id, item.error_count])),
+    [glossaries]
+  );
+
+  const addOptions = [
+    { value: '', label: glossaries.length > 0 ? 'Add another glossary…' : 'None (add a glossary…)' },
+    ...available
+      .filter(version => !glossaries.some(ref => ref.glossary_id === version.glossary_id))
+      .map(version => ({ value: version.glossary_id, label: `${version.name} (${version.entries.length} terms)` })),
+    ...(onUploadNew ? [{ value: UPLOAD_NEW_VALUE, label: '+ Upload New CSV' }] : [])
+  ];
+
+  const handleAdd = (glossaryId: string) => {
+    if (!glossaryId) return;
+    if (glossaryId === UPLOAD_NEW_VALUE) {
+      onUploadNew?.();
+      return;
+    }
+    onChange([...glossaries, { glossary_id: glossaryId }]);
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const next = [...glossaries];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next);
+  };
+
+  const handleVersionChange = (index: number, value: string) => {
+    onChange(
+      glossaries.map((ref, i) => (i === index ? { glossary_id: ref.glossary_id, ...(value && { version: Number(value) }) } : ref))
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{label}</label>
+        {glossaries.length > 0 && (
+          <Button variant="tertiary" size="sm" onClick={() => setShowPreview(true)}>
+            View Merged Glossary
+          </Button>
+        )}
+      </div>
+
+      {glossaries.length > 1 && (
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          In order of precedence: where glossaries disagree on a term, the one higher in the list wins.
+        </p>
+      )}
+
+      {rows.map(({ ref, name, versions }, index) => {
+        const errorCount = errorCounts.get(ref.glossary_id) ?? 0;
+        return (
+          <div
+            key={ref.glossary_id}
+            className="flex flex-wrap items-center gap-2 p-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+          >
+            <span className="w-6 text-sm font-semibold text-gray-500 dark:text-gray-400">{index + 1}.</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{name}</p>
+              {errorCount > 0 && (
+                <p className="text-xs text-red-600 dark:text-red-400">
+                  {errorCount} error{errorCount !== 1 ? 's' : ''}; fix in Glossaries before using it in a session
+                </p>
+              )}
+            </div>
+            {versions.length > 0 && (
+              <div className="w-56">
+                <Select
+                  aria-label={`Version of ${name}`}
+                  value={ref.version !== undefined ? String(ref.version) : ''}
+                  onChange={(e) => handleVersionChange(index, e.target.value)}
+                  options={[
+                    { value: '', label: 'Latest' },
+                    ...[...versions].reverse().map(version => ({
+                      value: String(version.version),
+                      label: formatGlossaryVersionLabel(version)
+                    }))
+                  ]}
+                />
+              </div>
+            )}
+            <Button
+              variant="tertiary"
+              size="sm"
+              onClick={() => handleMove(index, -1)}
+              disabled={index === 0}
+              aria-label={`Move ${name} up`}
+            >
+              ↑
+            </Button>
+            <Button
+              variant="tertiary"
+              size="sm"
+              onClick={() => handleMove(index, 1)}
+              disabled={index === glossaries.length - 1}
+              aria-label={`Move ${name} down`}
+            >
+              ↓
+            </Button>
+            <Button
+              variant="tertiary"
+              size="sm"
+              onClick={() => onChange(glossaries.filter((_, i) => i !== index))}
+              aria-label={`Remove ${name}`}
+            >
+              ×
+            </Button>
+          </div>
+        );
+      })}
+
+      <Select aria-label="Add glossary" value="" onChange={(e) => handleAdd(e.target.value)} options={addOptions} />
+
+      <GlossaryStackPreviewModal isOpen={showPreview} onClose={() => setShowPreview(false)} glossaries={glossaries} />
+    </div>
+  );
+}
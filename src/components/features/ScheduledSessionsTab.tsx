@@ -0,0 +1,430 @@
+import { useMemo, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Badge } from '../ui/Badge';
+import { Toggle } from '../ui/Toggle';
+import { useToast, Toast } from '../ui/Toast';
+import { useUser } from '../../context/UserContext';
+import { useZoom } from '../../context/ZoomContext';
+import { LANGUAGES, MEETING_TYPES } from '../../utils/constants';
+import { GlossaryRef, MeetingType, ScheduledSession, ScheduledSessionConfig } from '../../types';
+import { formatGlossaryRef } from '../../utils/glossaryVersions';
+import { DEFAULT_TEMPLATE_SETTINGS, listUsableTemplates } from '../../utils/templateLibrary';
+import {
+  SCHEDULED_SESSION_STATUS_LABELS,
+  ScheduledSessionInput,
+  ScheduledSessionStatus,
+  createScheduledSession,
+  getScheduledSessionStatus,
+  loadScheduledSessions,
+  saveScheduledSessions,
+  sortScheduledSessions,
+  updateScheduledSession
+} from '../../utils/scheduledSessions';
+import { GlossaryStackEditor } from './GlossaryStackEditor';
+
+/**
+ * ScheduledSessionsTab Component
+ *
+ * Set up translation ahead of time for upcoming Zoom meetings. When the app
+ * opens in a scheduled meeting, HostSetup loads the configuration and, if
+ * auto-start is on, starts the session.
+ *
+ * Features:
+ * - Upcoming and past schedules with their status
+ * - Schedule from a template or from scratch
+ * - Schedule the meeting the app is currently open in
+ * - Edit and delete schedules
+ */
+
+const STATUS_BADGES: Record<ScheduledSessionStatus, 'success' | 'info' | 'neutral' | 'warning'> = {
+  ready: 'success',
+  upcoming: 'info',
+  started: 'neutral',
+  missed: 'warning'
+};
+
+/** ISO date -> value for a datetime-local input (local time) */
+function toDateTimeInput(iso: string): string {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(
+    date.getMinutes()
+  )}`;
+}
+
+export function ScheduledSessionsTab() {
+  const { user } = useUser();
+  const { meetingContext } = useZoom();
+  const { toast, showToast } = useToast();
+  const userId = user?.id ?? 'current_user';
+  const templates = useMemo(() => listUsableTemplates(user), [user]);
+
+  const [schedules, setSchedules] = useState<ScheduledSession[]>(() => loadScheduledSessions(userId));
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<ScheduledSession | null>(null);
+
+  // Form state for creating/editing
+  const [formMeetingId, setFormMeetingId] = useState('');
+  const [formMeetingUuid, setFormMeetingUuid] = useState('');
+  const [formTopic, setFormTopic] = useState('');
+  const [formStart, setFormStart] = useState('');
+  const [formTemplateId, setFormTemplateId] = useState('');
+  const [formMeetingType, setFormMeetingType] = useState<MeetingType>('general');
+  const [formSourceLanguage, setFormSourceLanguage] = useState('en');
+  const [formTargetLanguages, setFormTargetLanguages] = useState<string[]>([]);
+  const [formGlossaries, setFormGlossaries] = useState<GlossaryRef[]>([]);
+  const [formInstructions, setFormInstructions] = useState('');
+  const [formSettings, setFormSettings] = useState(DEFAULT_TEMPLATE_SETTINGS);
+  const [formAutoStart, setFormAutoStart] = useState(false);
+
+  const now = new Date();
+  const sorted = sortScheduledSessions(schedules);
+  const upcoming = sorted.filter(schedule => ['ready', 'upcoming'].includes(getScheduledSessionStatus(schedule, now)));
+  const past = sorted.filter(schedule => !upcoming.includes(schedule)).reverse();
+
+  const getLanguageName = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code.toUpperCase();
+
+  const updateSchedules = (next: ScheduledSession[]) => {
+    setSchedules(next);
+    saveScheduledSessions(userId, next);
+  };
+
+  const applyConfig = (config: ScheduledSessionConfig) => {
+    setFormMeetingType(config.meeting_type);
+    setFormSourceLanguage(config.source_language);
+    setFormTargetLanguages(config.target_languages);
+    setFormGlossaries(config.glossaries ?? []);
+    setFormInstructions(config.host_instructions || '');
+    setFormSettings({
+      tts_enabled: config.tts_enabled,
+      confidence_threshold: config.confidence_threshold,
+      low_confidence_policy: config.low_confidence_policy,
+      show_partial_results: config.show_partial_results
+    });
+  };
+
+  const resetForm = () => {
+    setFormMeetingId('');
+    setFormMeetingUuid('');
+    setFormTopic('');
+    setFormStart('');
+    setFormTemplateId('');
+    setFormAutoStart(false);
+    applyConfig({ ...DEFAULT_TEMPLATE_SETTINGS, meeting_type: 'general', source_language: 'en', target_languages: [] });
+  };
+
+  // Start scheduling, optionally for the meeting the app is open in
+  const startCreating = (forCurrentMeeting: boolean = false) => {
+    resetForm();
+    if (forCurrentMeeting && meetingContext) {
+      setFormMeetingId(meetingContext.meetingID);
+      setFormTopic(meetingContext.meetingTopic ?? '');
+      setFormStart(toDateTimeInput(new Date().toISOString()));
+    }
+    setEditingSchedule(null);
+    setIsCreating(true);
+  };
+
+  const startEditing = (schedule: ScheduledSession) => {
+    setIsCreating(false);
+    setEditingSchedule(schedule);
+    setFormMeetingId(schedule.meeting_id);
+    setFormMeetingUuid(schedule.meeting_uuid ?? '');
+    setFormTopic(schedule.meeting_topic ?? '');
+    setFormStart(toDateTimeInput(schedule.scheduled_start));
+    setFormTemplateId(schedule.template_id ?? '');
+    setFormAutoStart(schedule.auto_start);
+    applyConfig(schedule.config);
+  };
+
+  const cancelForm = () => {
+    setIsCreating(false);
+    setEditingSchedule(null);
+    resetForm();
+  };
+
+  // Load a template's configuration into the form
+  const handleTemplateChange = (templateId: string) => {
+    setFormTemplateId(templateId);
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+    applyConfig(template);
+    if (!formTopic) setFormTopic(template.name);
+  };
+
+  const toggleLanguage = (langCode: string) => {
+    setFormTargetLanguages(prev =>
+      prev.includes(langCode) ? prev.filter(code => code !== langCode) : [...prev, langCode]
+    );
+  };
+
+  const saveSchedule = () => {
+    const input: ScheduledSessionInput = {
+      meeting_id: formMeetingId.trim(),
+      meeting_uuid: formMeetingUuid.trim() || undefined,
+      meeting_topic: formTopic.trim() || undefined,
+      scheduled_start: formStart ? new Date(formStart).toISOString() : '',
+      template_id: formTemplateId || undefined,
+      config: {
+        ...formSettings,
+        meeting_type: formMeetingType,
+        source_language: formSourceLanguage,
+        target_languages: formTargetLanguages,
+        glossaries: formGlossaries.length > 0 ? formGlossaries : undefined,
+        host_instructions: formInstructions || undefined
+      },
+      auto_start: formAutoStart
+    };
+
+    try {
+      if (editingSchedule) {
+        updateSchedules(schedules.map(s => (s.id === editingSchedule.id ? updateScheduledSession(s, input) : s)));
+        showToast('Schedule updated', 'success');
+      } else {
+        updateSchedules([...schedules, createScheduledSession(input, userId)]);
+        showToast('Session scheduled', 'success');
+      }
+      cancelForm();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to save schedule', 'warning');
+    }
+  };
+
+  const deleteSchedule = (scheduleId: string) => {
+    if (confirm('Are you sure you want to delete this scheduled session?')) {
+      updateSchedules(schedules.filter(s => s.id !== scheduleId));
+    }
+  };
+
+  const renderSchedule = (schedule: ScheduledSession) => {
+    const status = getScheduledSessionStatus(schedule, now);
+    const template = templates.find(t => t.id === schedule.template_id);
+    const { config } = schedule;
+
+    return (
+      <Card key={schedule.id} variant="hover" padding="lg">
+        <div className="space-y-4">
+          {/* Schedule Header */}
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                {schedule.meeting_topic || `Meeting ${schedule.meeting_id}`}
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                {new Date(schedule.scheduled_start).toLocaleString()} · Meeting ID {schedule.meeting_id}
+                {schedule.meeting_uuid && ' (this occurrence only)'}
+              </p>
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              {schedule.auto_start && <Badge variant="info">Auto-start</Badge>}
+              <Badge variant={STATUS_BADGES[status]}>{SCHEDULED_SESSION_STATUS_LABELS[status]}</Badge>
+            </div>
+          </div>
+          {/* Schedule Details */}
+          <div className="border-t border-gray-100 dark:border-gray-700 pt-3 space-y-2 text-sm">
+            <p>
+              <strong>Languages:</strong> {getLanguageName(config.source_language)} → {config.target_languages.map(getLanguageName).join(', ')}
+            </p>
+            {config.glossaries?.length ? (
+              <p>
+                <strong>{config.glossaries.length > 1 ? 'Glossaries' : 'Glossary'}:</strong>{' '}
+                {config.glossaries.map(formatGlossaryRef).join(' → ')}
+              </p>
+            ) : null}
+            {template && (
+              <p>
+                <strong>Template:</strong> {template.name}
+              </p>
+            )}
+            {schedule.started_at && (
+              <p>
+                <strong>Started:</strong> {new Date(schedule.started_at).toLocaleString()}
+              </p>
+            )}
+          </div>
+          {/* Schedule Actions */}
+          <div className="flex gap-2 pt-2">
+            <Button variant="secondary" size="sm" onClick={() => startEditing(schedule)}>
+              {status === 'started' || status === 'missed' ? 'Reschedule' : 'Edit'}
+            </Button>
+            <Button variant="tertiary" size="sm" onClick={() => deleteSchedule(schedule.id)}>
+              Delete
+            </Button>
+          </div>
+        </div>
+      </Card>
+    );
+  };
+
+  return (
+    <>
+      {/* Create/Edit Form */}
+      {(isCreating || editingSchedule) && (
+        <Card variant="default" padding="lg">
+          <CardHeader>
+            <CardTitle>{isCreating ? 'Schedule Session' : 'Edit Scheduled Session'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {/* Meeting */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <Input
+                  type="text"
+                  label="Zoom Meeting ID"
+                  placeholder="e.g., 123 4567 8901"
+                  value={formMeetingId}
+                  onChange={(e) => setFormMeetingId(e.target.value)}
+                />
+                <Input
+                  type="datetime-local"
+                  label="Starts At"
+                  value={formStart}
+                  onChange={(e) => setFormStart(e.target.value)}
+                />
+              </div>
+              <Input
+                type="text"
+                label="Meeting Topic (Optional)"
+                placeholder="e.g., Quarterly Review"
+                value={formTopic}
+                onChange={(e) => setFormTopic(e.target.value)}
+              />
+              <Input
+                type="text"
+                label="Meeting UUID (Optional)"
+                placeholder="Only for one occurrence of a recurring meeting"
+                value={formMeetingUuid}
+                onChange={(e) => setFormMeetingUuid(e.target.value)}
+              />
+              {/* Template */}
+              <Select
+                label="Load Template"
+                value={formTemplateId}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+                options={[
+                  { value: '', label: 'None (configure below)' },
+                  ...templates.map(t => ({ value: t.id, label: t.sharing ? `${t.name} (shared)` : t.name }))
+                ]}
+              />
+              {/* Meeting Type */}
+              <Select
+                label="Meeting Type"
+                value={formMeetingType}
+                onChange={(e) => setFormMeetingType(e.target.value as MeetingType)}
+                options={MEETING_TYPES.map(type => ({
+                  value: type.value,
+                  label: type.label
+                }))}
+              />
+              {/* Source Language */}
+              <Select
+                label="Source Language"
+                value={formSourceLanguage}
+                onChange={(e) => setFormSourceLanguage(e.target.value)}
+                options={LANGUAGES.map(lang => ({
+                  value: lang.code,
+                  label: `${lang.flag} ${lang.name}`
+                }))}
+              />
+              {/* Target Languages */}
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Target Languages (Select multiple)
+                </label>
+                <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 bg-white dark:bg-gray-800 max-h-48 overflow-y-auto">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {LANGUAGES.map(lang => (
+                      <label key={lang.code} className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={formTargetLanguages.includes(lang.code)}
+                          onChange={() => toggleLanguage(lang.code)}
+                          className="w-4 h-4 text-teal-600 rounded"
+                        />
+                        <span className="text-sm text-gray-900 dark:text-gray-100 break-words">
+                          {lang.flag} {lang.name}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  Selected: {formTargetLanguages.length} language{formTargetLanguages.length !== 1 ? 's' : ''}. Your tier's
+                  language limit is checked when the session starts.
+                </p>
+              </div>
+              {/* Glossaries */}
+              <GlossaryStackEditor glossaries={formGlossaries} onChange={setFormGlossaries} />
+              {/* Host Instructions */}
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Host Instructions (Optional)
+                </label>
+                <textarea
+                  value={formInstructions}
+                  onChange={(e) => setFormInstructions(e.target.value)}
+                  placeholder="Instructions for participants..."
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none"
+                  rows={3}
+                />
+              </div>
+              {/* Auto-start */}
+              <Toggle
+                label="Start automatically"
+                description="Start translating as soon as MeetingSync opens in this meeting"
+                enabled={formAutoStart}
+                onChange={setFormAutoStart}
+              />
+              {/* Form Actions */}
+              <div className="flex gap-3">
+                <Button variant="primary" onClick={saveSchedule}>
+                  {isCreating ? 'Schedule Session' : 'Save Changes'}
+                </Button>
+                <Button variant="secondary" onClick={cancelForm}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      {/* Schedule List */}
+      {!isCreating && !editingSchedule && (
+        <div className="space-y-4">
+          {/* Toolbar */}
+          <div className="flex flex-wrap justify-end gap-2">
+            {meetingContext && (
+              <Button variant="outline" onClick={() => startCreating(true)}>
+                Schedule This Meeting
+              </Button>
+            )}
+            <Button variant="primary" onClick={() => startCreating()}>
+              Schedule Session
+            </Button>
+          </div>
+          <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100">Upcoming</h3>
+          {upcoming.length === 0 && (
+            <Card variant="default" padding="lg">
+              <CardContent>
+                <p className="text-center text-gray-600 dark:text-gray-400 py-8">
+                  No scheduled sessions. Schedule a meeting to have its translation ready when you open MeetingSync.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+          {upcoming.map(renderSchedule)}
+          {past.length > 0 && (
+            <>
+              <h3 className="pt-4 text-base font-semibold text-gray-900 dark:text-gray-100">Past</h3>
+              {past.map(renderSchedule)}
+            </>
+          )}
+        </div>
+      )}
+      <Toast {...toast} />
+    </>
+  );
+}
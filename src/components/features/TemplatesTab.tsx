@@ -1,14 +1,38 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { Select } from '../ui/Select';
 import { Badge } from '../ui/Badge';
-import { MOCK_TEMPLATES } from '../../utils/mockData';
+import { useToast, Toast } from '../ui/Toast';
+import { useUser } from '../../context/UserContext';
 import { LANGUAGES, MEETING_TYPES } from '../../utils/constants';
-import { Template, MeetingType } from '../../types';
+import { GlossaryRef, Template, TemplateFields, TemplateMember, TemplateSharing, MeetingType } from '../../types';
+import { formatGlossaryRef } from '../../utils/glossaryVersions';
+import {
+  DEFAULT_TEMPLATE_SETTINGS,
+  TEMPLATE_ROLE_LABELS,
+  TemplateUser,
+  assertTemplatePermission,
+  canPerformTemplateAction,
+  createTemplate,
+  duplicateTemplate,
+  getTemplateFields,
+  getTemplateRole,
+  loadPersonalTemplates,
+  loadSharedTemplates,
+  savePersonalTemplates,
+  saveSharedTemplates,
+  shareTemplate,
+  unshareTemplate,
+  updateTemplate
+} from '../../utils/templateLibrary';
+import { exportTemplates } from '../../utils/templateTransfer';
+import { GlossaryStackEditor } from './GlossaryStackEditor';
 import { TemplatePreviewPage } from '../pages/TemplatePreviewPage';
 import { TemplateStatsPage } from '../pages/TemplateStatsPage';
+import { TemplateShareModal } from '../modals/TemplateShareModal';
+import { TemplateImportDestination, TemplateImportModal } from '../modals/TemplateImportModal';
 
 /**
  * TemplatesTab Component
@@ -21,12 +45,23 @@ import { TemplateStatsPage } from '../pages/TemplateStatsPage';
  * - Edit existing templates
  * - Delete templates
  * - Template preview with all settings
+ * - Import/export template files
+ * - Account library: templates shared across the Zoom account, with
+ *   owner/editor/viewer permissions (see templateLibrary.ts)
  */
 
 type TemplatesView = 'main' | 'preview' | 'stats';
 
 export function TemplatesTab() {
-  const [templates, setTemplates] = useState<Template[]>(MOCK_TEMPLATES);
+  const { user } = useUser();
+  const { toast, showToast } = useToast();
+  const templateUser: TemplateUser = user ?? { id: 'current_user', name: 'You' };
+  const accountId = user?.zoom_account_id;
+
+  const [myTemplates, setMyTemplates] = useState<Template[]>(() => loadPersonalTemplates(templateUser.id));
+  const [sharedTemplates, setSharedTemplates] = useState<Template[]>(() => loadSharedTemplates(accountId));
+  const [sharingTemplate, setSharingTemplate] = useState<Template | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<Template | null>(null);
   const [currentView, setCurrentView] = useState<TemplatesView>('main');
@@ -37,9 +72,32 @@ export function TemplatesTab() {
   const [formMeetingType, setFormMeetingType] = useState<MeetingType>('general');
   const [formSourceLanguage, setFormSourceLanguage] = useState('en');
   const [formTargetLanguages, setFormTargetLanguages] = useState<string[]>([]);
-  const [formGlossaryId, setFormGlossaryId] = useState<string | null>(null);
+  const [formGlossaries, setFormGlossaries] = useState<GlossaryRef[]>([]);
   const [formInstructions, setFormInstructions] = useState('');
 
+  // Follow the signed-in user's templates and account library
+  useEffect(() => {
+    setMyTemplates(loadPersonalTemplates(templateUser.id));
+  }, [templateUser.id]);
+
+  useEffect(() => {
+    setSharedTemplates(loadSharedTemplates(accountId));
+  }, [accountId]);
+
+  const visibleSharedTemplates = sharedTemplates.filter(template => getTemplateRole(template, templateUser) !== null);
+  const templates = [...myTemplates, ...visibleSharedTemplates];
+
+  const updateMyTemplates = (next: Template[]) => {
+    setMyTemplates(next);
+    savePersonalTemplates(templateUser.id, next);
+  };
+
+  const updateSharedTemplates = (next: Template[]) => {
+    if (!accountId) return;
+    setSharedTemplates(next);
+    saveSharedTemplates(accountId, next);
+  };
+
   // Get language name
   const getLanguageName = (code: string) => {
     return LANGUAGES.find(l => l.code === code)?.name || code.toUpperCase();
@@ -65,7 +123,7 @@ export function TemplatesTab() {
     setFormMeetingType(template.meeting_type);
     setFormSourceLanguage(template.source_language);
     setFormTargetLanguages(template.target_languages);
-    setFormGlossaryId(template.glossary_id || null);
+    setFormGlossaries(template.glossaries ?? []);
     setFormInstructions(template.host_instructions || '');
   };
 
@@ -75,7 +133,7 @@ export function TemplatesTab() {
     setFormMeetingType('general');
     setFormSourceLanguage('en');
     setFormTargetLanguages([]);
-    setFormGlossaryId(null);
+    setFormGlossaries([]);
     setFormInstructions('');
   };
 
@@ -96,43 +154,112 @@ export function TemplatesTab() {
       alert('Please select at least one target language');
       return;
     }
-    const templateData: Omit<Template, 'id' | 'user_id' | 'created_at' | 'updated_at'> = {
-      name: formName,
+    if (editingTemplate) {
+      try {
+        assertTemplatePermission(editingTemplate, templateUser, 'edit');
+      } catch (error) {
+        showToast(error instanceof Error ? error.message : 'Failed to save template', 'error');
+        return;
+      }
+    }
+    const templateData: TemplateFields = {
+      ...(editingTemplate ? getTemplateFields(editingTemplate) : DEFAULT_TEMPLATE_SETTINGS),
+      name: formName.trim(),
       meeting_type: formMeetingType,
       source_language: formSourceLanguage,
       target_languages: formTargetLanguages,
-      glossary_id: formGlossaryId || undefined,
-      host_instructions: formInstructions || undefined,
-      tts_enabled: false,
-      confidence_threshold: 0.8,
-      show_partial_results: true
+      glossaries: formGlossaries.length > 0 ? formGlossaries : undefined,
+      host_instructions: formInstructions || undefined
     };
-    if (editingTemplate) {
-      setTemplates(prev => prev.map(t =>
-        t.id === editingTemplate.id
-          ? { ...t, ...templateData, updated_at: new Date().toISOString() }
-          : t
-      ));
+    if (editingTemplate?.sharing) {
+      updateSharedTemplates(sharedTemplates.map(t => (t.id === editingTemplate.id ? updateTemplate(t, templateData) : t)));
+    } else if (editingTemplate) {
+      updateMyTemplates(myTemplates.map(t => (t.id === editingTemplate.id ? updateTemplate(t, templateData) : t)));
     } else {
-      const newTemplate: Template = {
-        id: `template_${Date.now()}`,
-        user_id: 'current_user',
-        ...templateData,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-      setTemplates(prev => [...prev, newTemplate]);
+      updateMyTemplates([...myTemplates, createTemplate(templateData, templateUser)]);
     }
     cancelForm();
   };
 
   // Delete template
-  const deleteTemplate = (templateId: string) => {
-    if (confirm('Are you sure you want to delete this template?')) {
-      setTemplates(prev => prev.filter(t => t.id !== templateId));
+  const deleteTemplate = (template: Template) => {
+    try {
+      assertTemplatePermission(template, templateUser, 'delete');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to delete template', 'error');
+      return;
+    }
+    if (!confirm('Are you sure you want to delete this template?')) return;
+    if (template.sharing) {
+      updateSharedTemplates(sharedTemplates.filter(t => t.id !== template.id));
+    } else {
+      updateMyTemplates(myTemplates.filter(t => t.id !== template.id));
+    }
+  };
+
+  // Copy a template into My Templates
+  const handleDuplicate = (template: Template) => {
+    updateMyTemplates([...myTemplates, duplicateTemplate(template, templateUser)]);
+    showToast(`"${template.name}" copied to My Templates`, 'success');
+  };
+
+  const handleExport = (exported: Template[], fileName: string) => {
+    try {
+      const savedAs = exportTemplates(exported, fileName);
+      showToast(`Exported ${exported.length} template${exported.length !== 1 ? 's' : ''} as ${savedAs}`, 'success');
+    } catch (error) {
+      console.error('[TemplatesTab] Export failed:', error);
+      showToast('Export failed. Please try again.', 'error');
+    }
+  };
+
+  const handleImport = (imported: TemplateFields[], destination: TemplateImportDestination) => {
+    const created = imported.map(fields => createTemplate(fields, templateUser));
+    try {
+      if (destination === 'shared') {
+        updateSharedTemplates([...sharedTemplates, ...created.map(template => shareTemplate(template, templateUser))]);
+      } else {
+        updateMyTemplates([...myTemplates, ...created]);
+      }
+      showToast(
+        `Imported ${created.length} template${created.length !== 1 ? 's' : ''} into ${
+          destination === 'shared' ? 'the account library' : 'My Templates'
+        }`,
+        'success'
+      );
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Import failed', 'error');
+    }
+  };
+
+  // Share a template with the account, or update who it's shared with
+  const handleSaveSharing = (accountRole: TemplateSharing['account_role'], members: TemplateMember[]) => {
+    if (!sharingTemplate) return;
+    try {
+      const shared = shareTemplate(sharingTemplate, templateUser, accountRole, members);
+      if (sharingTemplate.sharing) {
+        updateSharedTemplates(sharedTemplates.map(t => (t.id === shared.id ? shared : t)));
+        showToast('Sharing settings saved', 'success');
+      } else {
+        updateMyTemplates(myTemplates.filter(t => t.id !== shared.id));
+        updateSharedTemplates([...sharedTemplates, shared]);
+        showToast(`"${shared.name}" is now in your account's template library`, 'success');
+      }
+      setSharingTemplate(null);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to share template', 'error');
     }
   };
 
+  // Move a shared template back to its owner's templates
+  const handleStopSharing = () => {
+    if (!sharingTemplate) return;
+    updateSharedTemplates(sharedTemplates.filter(t => t.id !== sharingTemplate.id));
+    updateMyTemplates([...myTemplates, unshareTemplate(sharingTemplate)]);
+    showToast(`"${sharingTemplate.name}" is no longer shared`, 'success');
+    setSharingTemplate(null);
+  };
+
   // Toggle target language
   const toggleLanguage = (langCode: string) => {
     setFormTargetLanguages(prev => {
@@ -170,12 +297,101 @@ export function TemplatesTab() {
     }
   };
 
+  // Only editors and owners can edit from the preview
+  const previewTemplate = templates.find(t => t.id === selectedTemplateId);
+  const canEditPreview =
+    previewTemplate !== undefined &&
+    canPerformTemplateAction(getTemplateRole(previewTemplate, templateUser), 'edit');
+
   // Handle use template
   const handleUseTemplate = (templateId: string) => {
     // In a real app, this would navigate to session creation with template pre-filled
     alert(`This would start a new session with template ${templateId}. Feature coming in next phase!`);
   };
 
+  const renderTemplateCard = (template: Template) => {
+    const role = getTemplateRole(template, templateUser);
+    const can = (action: Parameters<typeof canPerformTemplateAction>[1]) => canPerformTemplateAction(role, action);
+
+    return (
+      <Card key={template.id} variant="hover" padding="lg">
+        <div className="space-y-4">
+          {/* Template Header */}
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                {template.name}
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                Created: {new Date(template.created_at).toLocaleDateString()}
+                {template.sharing && ` · Shared by ${template.user_id === templateUser.id ? 'you' : template.sharing.owner_name}`}
+              </p>
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              {template.sharing && role && <Badge variant="neutral">{TEMPLATE_ROLE_LABELS[role]}</Badge>}
+              <Badge variant="info">
+                {getMeetingTypeName(template.meeting_type)}
+              </Badge>
+            </div>
+          </div>
+          {/* Template Details */}
+          <div className="border-t border-gray-100 dark:border-gray-700 pt-3 space-y-2 text-sm">
+            <p>
+              <strong>Languages:</strong> {getLanguageName(template.source_language)} → {template.target_languages.map(code => getLanguageName(code)).join(', ')}
+            </p>
+            {template.glossaries?.length ? (
+              <p>
+                <strong>{template.glossaries.length > 1 ? 'Glossaries' : 'Glossary'}:</strong>{' '}
+                {template.glossaries.map(formatGlossaryRef).join(' → ')}
+              </p>
+            ) : null}
+            {template.host_instructions && (
+              <p>
+                <strong>Instructions:</strong> {template.host_instructions.substring(0, 100)}{template.host_instructions.length > 100 ? '...' : ''}
+              </p>
+            )}
+          </div>
+          {/* Template Actions */}
+          <div className="flex flex-wrap gap-2 pt-2">
+            {can('use') && (
+              <Button variant="primary" size="sm" onClick={() => handleUseTemplate(template.id)}>
+                Use Template
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={() => handlePreview(template.id)}>
+              Preview
+            </Button>
+            {can('edit') && (
+              <Button variant="secondary" size="sm" onClick={() => startEditing(template)}>
+                Edit
+              </Button>
+            )}
+            {can('duplicate') && (
+              <Button variant="tertiary" size="sm" onClick={() => handleDuplicate(template)}>
+                Duplicate
+              </Button>
+            )}
+            {can('export') && (
+              <Button variant="tertiary" size="sm" onClick={() => handleExport([template], template.name)}>
+                Export
+              </Button>
+            )}
+            {can('share') && accountId && (
+              <Button variant="tertiary" size="sm" onClick={() => setSharingTemplate(template)}>
+                {template.sharing ? 'Sharing' : 'Share'}
+              </Button>
+            )}
+            {can('delete') && (
+              <Button variant="tertiary" size="sm" onClick={() => deleteTemplate(template)}>
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+      </Card>
+    );
+  };
+
   return (
     <>
       {/* Render preview page */}
@@ -183,7 +399,7 @@ export function TemplatesTab() {
         <TemplatePreviewPage
           templateId={selectedTemplateId!}
           onBack={handleBackToMain}
-          onEdit={handleEditFromPreview}
+          onEdit={canEditPreview ? handleEditFromPreview : undefined}
           onUse={() => handleUseTemplate(selectedTemplateId!)}
         />
       ) : currentView === 'stats' && selectedTemplateId ? (
@@ -273,6 +489,8 @@ export function TemplatesTab() {
                       Selected: {formTargetLanguages.length} language{formTargetLanguages.length !== 1 ? 's' : ''}
                     </p>
                   </div>
+                  {/* Glossaries */}
+                  <GlossaryStackEditor glossaries={formGlossaries} onChange={setFormGlossaries} />
                   {/* Host Instructions */}
                   <div className="space-y-2">
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -302,7 +520,24 @@ export function TemplatesTab() {
           {/* Template List */}
           {!isCreating && !editingTemplate && (
             <div className="space-y-4">
-              {templates.length === 0 && (
+              {/* Toolbar */}
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button variant="outline" onClick={() => setShowImportModal(true)}>
+                  Import
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleExport(templates, 'meetingsync-templates')}
+                  disabled={templates.length === 0}
+                >
+                  Export All
+                </Button>
+                <Button variant="primary" onClick={startCreating}>
+                  Create New Template
+                </Button>
+              </div>
+              <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100">My Templates</h3>
+              {myTemplates.length === 0 && (
                 <Card variant="default" padding="lg">
                   <CardContent>
                     <p className="text-center text-gray-600 dark:text-gray-400 py-8">
@@ -311,259 +546,40 @@ export function TemplatesTab() {
                   </CardContent>
                 </Card>
               )}
-              {templates.map(template => (
-                <Card key={template.id} variant="hover" padding="lg">
-                  <div className="space-y-4">
-                    {/* Template Header */}
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-                          {template.name}
-                        </h3>
-                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                          Created: {new Date(template.created_at).toLocaleDateString()}
+              {myTemplates.map(renderTemplateCard)}
+              {accountId && (
+                <>
+                  <h3 className="pt-4 text-base font-semibold text-gray-900 dark:text-gray-100">Account Library</h3>
+                  {visibleSharedTemplates.length === 0 && (
+                    <Card variant="default" padding="lg">
+                      <CardContent>
+                        <p className="text-center text-gray-600 dark:text-gray-400 py-8">
+                          No shared templates yet. Share a template so everyone in your account can use the same setup.
                         </p>
-                      </div>
-                      <Badge variant="info">
-                        {getMeetingTypeName(template.meeting_type)}
-                      </Badge>
-                    </div>
-                    {/* Template Details */}
-                    <div className="border-t border-gray-100 dark:border-gray-700 pt-3 space-y-2 text-sm">
-                      <p>
-                        <strong>Languages:</strong> {getLanguageName(template.source_language)} → {template.target_languages.map(code => getLanguageName(code)).join(', ')}
-                      </p>
-                      {template.glossary_id && (
-                        <p>
-                          <strong>Glossary:</strong> {template.glossary_name || 'Active'}
-                        </p>
-                      )}
-                      {template.host_instructions && (
-                        <p>
-                          <strong>Instructions:</strong> {template.host_instructions.substring(0, 100)}{template.host_instructions.length > 100 ? '...' : ''}
-                        </p>
-                      )}
-                    </div>
-                    {/* Template Actions */}
-                    <div className="flex gap-2 pt-2">
-                      <Button variant="primary" size="sm" onClick={() => handleUseTemplate(template.id)}>
-                        Use Template
-                      </Button>
-                      <Button variant="secondary" size="sm" onClick={() => handlePreview(template.id)}>
-                        Preview
-                      </Button>
-                      <Button variant="secondary" size="sm" onClick={() => startEditing(template)}>
-                        Edit
-                      </Button>
-                      <Button variant="tertiary" size="sm" onClick={() => deleteTemplate(template.id)}>
-                        Delete
-                      </Button>
-                    </div>
-                  </div>
-                </Card>
-              ))}
+                      </CardContent>
+                    </Card>
+                  )}
+                  {visibleSharedTemplates.map(renderTemplateCard)}
+                </>
+              )}
             </div>
           )}
         </>
       )}
-    </>
-  );
-  return (
-    <>
-      {/* Render preview page */}
-      {currentView === 'preview' && selectedTemplateId && (
-        <TemplatePreviewPage
-          templateId={selectedTemplateId!}
-          onBack={handleBackToMain}
-          onEdit={handleEditFromPreview}
-          onUse={() => handleUseTemplate(selectedTemplateId!)}
-        />
-      )}
-      {/* Render stats page */}
-      {currentView === 'stats' && selectedTemplateId && (
-        <TemplateStatsPage
-          templateId={selectedTemplateId!}
-          onBack={handleBackToMain}
-        />
-      )}
-      {/* Create/Edit Form */}
-      {(currentView === 'main') && (isCreating || editingTemplate) && (
-        <Card variant="default" padding="lg">
-          <CardHeader>
-            <CardTitle>
-              {isCreating ? 'Create New Template' : 'Edit Template'}
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-6">
-              {/* Template Name */}
-              <Input
-                type="text"
-                label="Template Name"
-                placeholder="e.g., Weekly Team Meeting"
-                value={formName}
-                onChange={(e) => setFormName(e.target.value)}
-              />
-              {/* Meeting Type */}
-              <Select
-                label="Meeting Type"
-                value={formMeetingType}
-                onChange={(e) => setFormMeetingType(e.target.value as MeetingType)}
-                options={MEETING_TYPES.map(type => ({
-                  value: type.value,
-                  label: type.label
-                }))}
-              />
-              {/* Source Language */}
-              <Select
-                label="Source Language"
-                value={formSourceLanguage}
-                onChange={(e) => setFormSourceLanguage(e.target.value)}
-                options={LANGUAGES.map(lang => ({
-                  value: lang.code,
-                  label: `${lang.flag} ${lang.name}`
-                }))}
-              />
-              {/* Target Languages */}
-              <div className="space-y-3">
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                  Target Languages (Select multiple)
-                </label>
-                {/* Tier Language Adjustment Notice */}
-                <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700 rounded-lg p-3">
-                  <div className="flex items-start gap-2">
-                    <div className="flex-shrink-0 mt-0.5">
-                      <svg className="w-4 h-4 text-blue-600 dark:text-blue-400" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
-                      </svg>
-                    </div>
-                    <div className="flex-1">
-                      <p className="text-xs text-blue-800 dark:text-blue-200">
-                        <strong>Note:</strong> Language selection may need adjustments depending on your active tier. 
-                        Starter tier allows up to 3 languages, Professional up to 8 languages, and Enterprise unlimited languages.
-                      </p>
-                    </div>
-                  </div>
-                </div>
-                <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 bg-white dark:bg-gray-800 max-h-48 overflow-y-auto">
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                    {LANGUAGES.slice(0, 12).map(lang => (
-                      <label key={lang.code} className="flex items-center gap-2 cursor-pointer">
-                        <input
-                          type="checkbox"
-                          checked={formTargetLanguages.includes(lang.code)}
-                          onChange={() => toggleLanguage(lang.code)}
-                          className="w-4 h-4 text-teal-600 rounded"
-                        />
-                        <span className="text-sm text-gray-900 dark:text-gray-100 break-words">
-                          {lang.flag} {lang.name}
-                        </span>
-                      </label>
-                    ))}
-                  </div>
-                </div>
-                <p className="text-xs text-gray-600 dark:text-gray-400">
-                  Selected: {formTargetLanguages.length} language{formTargetLanguages.length !== 1 ? 's' : ''}
-                </p>
-              </div>
-              {/* Host Instructions */}
-              <div className="space-y-2">
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                  Host Instructions (Optional)
-                </label>
-                <textarea
-                  value={formInstructions}
-                  onChange={(e) => setFormInstructions(e.target.value)}
-                  placeholder="Instructions for participants..."
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none"
-                  rows={3}
-                />
-              </div>
-              {/* Form Actions */}
-              <div className="flex gap-3">
-                <Button variant="primary" onClick={saveTemplate}>
-                  {isCreating ? 'Create Template' : 'Save Changes'}
-                </Button>
-                <Button variant="secondary" onClick={cancelForm}>
-                  Cancel
-                </Button>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-      {/* Template List */}
-      {!isCreating && !editingTemplate && (
-        <div className="space-y-4">
-          {/* Create New Template Button */}
-          <div className="flex justify-end">
-            <Button variant="primary" onClick={startCreating}>
-              Create New Template
-            </Button>
-          </div>
-          {templates.length === 0 && (
-            <Card variant="default" padding="lg">
-              <CardContent>
-                <p className="text-center text-gray-600 dark:text-gray-400 py-8">
-                  No templates yet. Create your first template to save time on recurring meetings!
-                </p>
-              </CardContent>
-            </Card>
-          )}
-          {templates.map(template => (
-            <Card key={template.id} variant="hover" padding="lg">
-              <div className="space-y-4">
-                {/* Template Header */}
-                <div className="flex items-start justify-between">
-                  <div>
-                    <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-                      {template.name}
-                    </h3>
-                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                      Created: {new Date(template.created_at).toLocaleDateString()}
-                    </p>
-                  </div>
-                  <Badge variant="info">
-                    {getMeetingTypeName(template.meeting_type)}
-                  </Badge>
-                </div>
-                {/* Template Details */}
-                <div className="border-t border-gray-100 dark:border-gray-700 pt-3 space-y-2 text-sm">
-                  <p>
-                    <strong>Languages:</strong> {getLanguageName(template.source_language)} → {template.target_languages.map(code => getLanguageName(code)).join(', ')}
-                  </p>
-                  {template.glossary_id && (
-                    <p>
-                      <strong>Glossary:</strong> {template.glossary_name || 'Active'}
-                    </p>
-                  )}
-                  {template.host_instructions && (
-                    <p>
-                      <strong>Instructions:</strong> {template.host_instructions.substring(0, 100)}{template.host_instructions.length > 100 ? '...' : ''}
-                    </p>
-                  )}
-                </div>
-                {/* Template Actions */}
-                <div className="flex gap-2 pt-2">
-                  <Button variant="primary" size="sm" onClick={() => handleUseTemplate(template.id)}>
-                    Use Template
-                  </Button>
-                  <Button variant="secondary" size="sm" onClick={() => handlePreview(template.id)}>
-                    Preview
-                  </Button>
-                  {/* Stats button removed: handleViewStats no longer exists */}
-                  <Button variant="secondary" size="sm" onClick={() => startEditing(template)}>
-                    Edit
-                  </Button>
-                  <Button variant="tertiary" size="sm" onClick={() => deleteTemplate(template.id)}>
-                    Delete
-                  </Button>
-                </div>
-              </div>
-            </Card>
-          ))}
-        </div>
-      )}
+      <TemplateShareModal
+        isOpen={sharingTemplate !== null}
+        onClose={() => setSharingTemplate(null)}
+        template={sharingTemplate}
+        onSave={handleSaveSharing}
+        onStopSharing={handleStopSharing}
+      />
+      <TemplateImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        canShare={accountId !== undefined}
+        onImport={handleImport}
+      />
+      <Toast {...toast} />
     </>
   );
 }
@@ -1,15 +1,19 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Modal } from '../ui/Modal';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { Checkbox } from '../ui/Checkbox';
 import { useToast, Toast } from '../ui/Toast';
+import type { Glossary, GlossaryEntry } from '../../types';
+import { GlossaryExportFormat, GLOSSARY_EXPORT_EXTENSIONS, exportGlossary } from '../../utils/glossaryExport';
 
 export interface GlossaryExportModalProps {
   isOpen: boolean;
   onClose: () => void;
   glossaryId: string;
   glossaryName: string;
+  glossary?: Glossary;
+  entries: GlossaryEntry[];
 }
 
 /**
@@ -17,22 +21,46 @@ export interface GlossaryExportModalProps {
  *
  * Simple modal for exporting glossary terms with format options.
  */
-export function GlossaryExportModal({ isOpen, onClose, glossaryId: _glossaryId, glossaryName }: GlossaryExportModalProps) {
+export function GlossaryExportModal({
+  isOpen,
+  onClose,
+  glossaryName,
+  glossary,
+  entries
+}: GlossaryExportModalProps) {
   const { toast, showToast } = useToast();
-  const [format, setFormat] = useState<'csv' | 'excel' | 'json'>('csv');
+  const [format, setFormat] = useState<GlossaryExportFormat>('csv');
   const [includeMetadata, setIncludeMetadata] = useState(true);
   const [includeNotes, setIncludeNotes] = useState(true);
   const [fileName, setFileName] = useState(glossaryName.toLowerCase().replace(/\s+/g, '_'));
   const [isExporting, setIsExporting] = useState(false);
 
+  // The modal stays mounted; follow the glossary it is opened for
+  useEffect(() => {
+    setFileName(glossaryName.toLowerCase().replace(/\s+/g, '_'));
+  }, [glossaryName]);
+
   const handleExport = () => {
+    if (entries.length === 0) {
+      showToast('This glossary has no terms to export', 'warning');
+      return;
+    }
+
     setIsExporting(true);
-    // Simulate export process
-    setTimeout(() => {
-      setIsExporting(false);
-      showToast(`Glossary exported as ${format.toUpperCase()}`, 'success');
+    try {
+      const savedAs = exportGlossary(
+        { glossary, entries },
+        { format, include_metadata: includeMetadata, include_notes: includeNotes },
+        fileName
+      );
+      showToast(`Glossary exported as ${savedAs}`, 'success');
       handleClose();
-    }, 1500);
+    } catch (error) {
+      console.error('[GlossaryExportModal] Export failed:', error);
+      showToast('Export failed. Please try again.', 'error');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const handleClose = () => {
@@ -43,18 +71,7 @@ export function GlossaryExportModal({ isOpen, onClose, glossaryId: _glossaryId,
     onClose();
   };
 
-  const getFileExtension = () => {
-    switch (format) {
-      case 'csv':
-        return '.csv';
-      case 'excel':
-        return '.xlsx';
-      case 'json':
-        return '.json';
-      default:
-        return '.csv';
-    }
-  };
+  const getFileExtension = () => GLOSSARY_EXPORT_EXTENSIONS[format];
 
   return (
     <>
@@ -66,7 +83,7 @@ export function GlossaryExportModal({ isOpen, onClose, glossaryId: _glossaryId,
               Export Glossary
             </h2>
             <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
-              Export "{glossaryName}" to a file
+              Export "{glossaryName}" ({entries.length} terms) to a file
             </p>
           </div>
 
@@ -104,7 +121,7 @@ export function GlossaryExportModal({ isOpen, onClose, glossaryId: _glossaryId,
             <label
               className={`
                 flex items-center p-4 border-2 rounded-lg cursor-pointer transition-all
-                ${format === 'excel'
+                ${format === 'xlsx'
                   ? 'border-teal-600 dark:border-teal-500 bg-teal-50 dark:bg-teal-900/20'
                   : 'border-gray-200 dark:border-gray-700 hover:border-teal-300'
                 }
@@ -113,9 +130,9 @@ export function GlossaryExportModal({ isOpen, onClose, glossaryId: _glossaryId,
               <input
                 type="radio"
                 name="format"
-                value="excel"
-                checked={format === 'excel'}
-                onChange={(e) => setFormat(e.target.value as 'excel')}
+                value="xlsx"
+                checked={format === 'xlsx'}
+                onChange={(e) => setFormat(e.target.value as 'xlsx')}
                 className="h-4 w-4 text-teal-600 focus:ring-teal-500"
               />
               <div className="ml-3">
@@ -150,6 +167,31 @@ export function GlossaryExportModal({ isOpen, onClose, glossaryId: _glossaryId,
                 </p>
               </div>
             </label>
+
+            <label
+              className={`
+                flex items-center p-4 border-2 rounded-lg cursor-pointer transition-all
+                ${format === 'tbx'
+                  ? 'border-teal-600 dark:border-teal-500 bg-teal-50 dark:bg-teal-900/20'
+                  : 'border-gray-200 dark:border-gray-700 hover:border-teal-300'
+                }
+              `}
+            >
+              <input
+                type="radio"
+                name="format"
+                value="tbx"
+                checked={format === 'tbx'}
+                onChange={(e) => setFormat(e.target.value as 'tbx')}
+                className="h-4 w-4 text-teal-600 focus:ring-teal-500"
+              />
+              <div className="ml-3">
+                <p className="font-medium text-gray-900 dark:text-gray-100">TBX</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  TermBase eXchange, for CAT tools and terminology systems
+                </p>
+              </div>
+            </label>
           </div>
 
           {/* Export Options */}
@@ -163,7 +205,7 @@ export function GlossaryExportModal({ isOpen, onClose, glossaryId: _glossaryId,
               checked={includeMetadata}
               onChange={(e) => setIncludeMetadata(e.target.checked)}
               label="Include metadata"
-              description="Language codes, tags, and creation dates"
+              description="Part of speech, approval status, tags, and creation dates"
             />
 
             <Checkbox
@@ -171,7 +213,7 @@ export function GlossaryExportModal({ isOpen, onClose, glossaryId: _glossaryId,
               checked={includeNotes}
               onChange={(e) => setIncludeNotes(e.target.checked)}
               label="Include notes"
-              description="Additional notes and context for each term"
+              description="Context notes for each term"
             />
           </div>
 
@@ -1,60 +1,150 @@
-import { useState } from 'react';
+import { useState, useRef, useMemo } from 'react';
 import { Modal } from '../ui/Modal';
 import { Button } from '../ui/Button';
 import { Select } from '../ui/Select';
 import { ProgressIndicator } from '../ui/ProgressIndicator';
 import { useToast, Toast } from '../ui/Toast';
 import { Badge } from '../ui/Badge';
+import type { GlossaryEntry } from '../../types';
+import { LANGUAGES } from '../../utils/constants';
+import {
+  GlossaryTable,
+  GlossaryColumnMapping,
+  GLOSSARY_FILE_ACCEPT,
+  readGlossaryFile,
+  detectColumnMapping,
+  mapGlossaryRows,
+  getColumnLabel,
+  getGlossaryDataRows
+} from '../../utils/glossaryParser';
+import { countTranslations, partitionNewGlossaryEntries } from '../../utils/glossaryEntries';
+import {
+  GlossaryLintFix,
+  GlossaryLintIssue,
+  applyGlossaryLintFix,
+  getLintIssueCounts,
+  lintGlossary
+} from '../../utils/glossaryLinter';
+import { GlossaryLintReport } from '../features/GlossaryLintReport';
 
 export interface GlossaryImportModalProps {
   isOpen: boolean;
   onClose: () => void;
   glossaryId?: string;
+  existingEntries?: GlossaryEntry[]; // Entries already in the glossary (existing translations are skipped)
+  defaultTargetLanguage?: string;
+  onImport?: (entries: GlossaryEntry[], fileName: string) => void;
 }
 
-// Mock preview data
-const PREVIEW_ROWS = [
-  { source: 'MRI', target: 'Resonancia Magnética', notes: 'Medical imaging' },
-  { source: 'CT Scan', target: 'Tomografía Computarizada', notes: 'Computed tomography' },
-  { source: 'Diagnosis', target: 'Diagnóstico', notes: 'Medical determination' },
-  { source: 'Prescription', target: 'Receta', notes: 'Written medication order' },
-  { source: 'Anesthesia', target: 'Anesthésie', notes: 'Loss of sensation' }
-];
+type OptionalColumn = 'notes' | 'language' | 'forbidden' | 'part_of_speech' | 'status';
+
+const PREVIEW_ROW_COUNT = 5;
+const MAX_LISTED_ERRORS = 8;
+const MAX_LISTED_LINT_ISSUES = 5;
 
 /**
  * GlossaryImportModal Component
  *
- * 3-step modal flow for importing glossary terms from CSV/Excel.
+ * 3-step modal flow for importing glossary terms from CSV, TSV, Excel (XLSX)
+ * or TBX files. Files are parsed in the browser (see glossaryParser.ts); rows
+ * sharing a source term are imported as one multilingual entry. The parsed
+ * entries are linted before import, with quick fixes applied to what gets
+ * imported.
  */
-export function GlossaryImportModal({ isOpen, onClose }: GlossaryImportModalProps) {
+export function GlossaryImportModal({
+  isOpen,
+  onClose,
+  existingEntries = [],
+  defaultTargetLanguage = 'es',
+  onImport
+}: GlossaryImportModalProps) {
   const { toast, showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [currentStep, setCurrentStep] = useState(1);
   const [fileName, setFileName] = useState('');
-  const [sourceColumn, setSourceColumn] = useState('Column A');
-  const [targetColumn, setTargetColumn] = useState('Column B');
-  const [notesColumn, setNotesColumn] = useState('Column C');
-  const [isImporting, setIsImporting] = useState(false);
+  const [table, setTable] = useState<GlossaryTable | null>(null);
+  const [mapping, setMapping] = useState<GlossaryColumnMapping | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  // Entries with lint fixes applied, kept only while they belong to the current parse
+  const [fixedEntries, setFixedEntries] = useState<{ base: GlossaryEntry[]; entries: GlossaryEntry[] } | null>(null);
 
   const steps = ['Upload File', 'Map Columns', 'Import Confirmation'];
 
-  // Mock stats
-  const termsToImport = 245;
-  const duplicatesFound = 12;
+  const columnOptions = useMemo(
+    () =>
+      table
+        ? (table.rows[0] ?? []).map((_, index) => ({ value: String(index), label: getColumnLabel(table, index) }))
+        : [],
+    [table]
+  );
+  const languageOptions = LANGUAGES.map(lang => ({ value: lang.code, label: `${lang.name} (${lang.code})` }));
+  const previewRows = table ? getGlossaryDataRows(table).slice(0, PREVIEW_ROW_COUNT) : [];
+
+  const parseResult = useMemo(
+    () => (table && mapping ? mapGlossaryRows(table, mapping) : { entries: [], errors: [] }),
+    [table, mapping]
+  );
+  const importEntries = fixedEntries?.base === parseResult.entries ? fixedEntries.entries : parseResult.entries;
+  const lintIssues = useMemo(() => lintGlossary(importEntries), [importEntries]);
+  const lintCounts = getLintIssueCounts(lintIssues);
+  const { added, duplicate_count: duplicateCount } = useMemo(
+    () => partitionNewGlossaryEntries(importEntries, existingEntries),
+    [importEntries, existingEntries]
+  );
+  const rowsWithErrors = new Set(parseResult.errors.map(error => error.row)).size;
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    try {
+      const parsed = await readGlossaryFile(file);
+      setTable(parsed);
+      setMapping(detectColumnMapping(parsed, defaultTargetLanguage));
+      setFileName(file.name);
+      showToast(`Read ${getGlossaryDataRows(parsed).length} rows from ${file.name}`, 'success');
+    } catch (error) {
+      console.error('[GlossaryImportModal] Failed to read file:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to read file', 'error');
+    } finally {
+      setIsReading(false);
+    }
+  };
 
   const handleFileSelect = () => {
-    // Simulate file selection
-    setFileName('medical_terms.csv');
-    showToast('File uploaded successfully', 'success');
+    fileInputRef.current?.click();
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) handleFile(file);
+    e.target.value = ''; // Allow re-selecting the same file
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const updateMapping = (field: OptionalColumn | 'source' | 'target', value: string) => {
+    if (!mapping) return;
+    const index = value === '' ? null : Number(value);
+    setMapping({ ...mapping, [field]: field === 'source' || field === 'target' ? index ?? 0 : index });
   };
 
   const handleNext = () => {
     if (currentStep === 1) {
-      if (!fileName) {
+      if (!table) {
         showToast('Please upload a file', 'warning');
         return;
       }
       setCurrentStep(2);
     } else if (currentStep === 2) {
+      if (mapping && mapping.source === mapping.target) {
+        showToast('Source and translation must be different columns', 'warning');
+        return;
+      }
       setCurrentStep(3);
     }
   };
@@ -66,21 +156,25 @@ export function GlossaryImportModal({ isOpen, onClose }: GlossaryImportModalProp
   };
 
   const handleImport = () => {
-    setIsImporting(true);
-    // Simulate import process
-    setTimeout(() => {
-      setIsImporting(false);
-      showToast(`${termsToImport - duplicatesFound} terms imported successfully`, 'success');
-      handleClose();
-    }, 2000);
+    if (added.length === 0) {
+      showToast('No new entries to import', 'warning');
+      return;
+    }
+    onImport?.(added, fileName);
+    showToast(`${added.length} entries imported successfully`, 'success');
+    handleClose();
+  };
+
+  const handleLintFix = (issue: GlossaryLintIssue, fix: GlossaryLintFix) => {
+    setFixedEntries({ base: parseResult.entries, entries: applyGlossaryLintFix(importEntries, issue, fix) });
   };
 
   const handleClose = () => {
     setCurrentStep(1);
+    setFixedEntries(null);
     setFileName('');
-    setSourceColumn('Column A');
-    setTargetColumn('Column B');
-    setNotesColumn('Column C');
+    setTable(null);
+    setMapping(null);
     onClose();
   };
 
@@ -94,7 +188,7 @@ export function GlossaryImportModal({ isOpen, onClose }: GlossaryImportModalProp
               Import Glossary Terms
             </h2>
             <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
-              Import terms from CSV or Excel file
+              Import terms from CSV, TSV, Excel or TBX file
             </p>
           </div>
 
@@ -107,15 +201,33 @@ export function GlossaryImportModal({ isOpen, onClose }: GlossaryImportModalProp
             {currentStep === 1 && (
               <div className="space-y-4">
                 <p className="text-gray-700 dark:text-gray-300">
-                  Upload a CSV or Excel file containing your glossary terms.
+                  Upload a CSV, TSV, Excel or TBX file containing your glossary terms.
                 </p>
 
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={GLOSSARY_FILE_ACCEPT}
+                  className="hidden"
+                  onChange={handleInputChange}
+                />
+
                 {/* File Upload Dropzone */}
                 <div
-                  className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-12 text-center hover:border-teal-500 dark:hover:border-teal-500 transition-colors cursor-pointer bg-gray-50 dark:bg-gray-800"
+                  className={`border-2 border-dashed rounded-lg p-12 text-center hover:border-teal-500 dark:hover:border-teal-500 transition-colors cursor-pointer bg-gray-50 dark:bg-gray-800 ${
+                    isDragging ? 'border-teal-500' : 'border-gray-300 dark:border-gray-600'
+                  }`}
                   onClick={handleFileSelect}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setIsDragging(true);
+                  }}
+                  onDragLeave={() => setIsDragging(false)}
+                  onDrop={handleDrop}
                 >
-                  {fileName ? (
+                  {isReading ? (
+                    <p className="text-gray-700 dark:text-gray-300">Reading file...</p>
+                  ) : fileName ? (
                     <div className="space-y-3">
                       <div className="mx-auto w-16 h-16 bg-teal-100 dark:bg-teal-900/30 rounded-full flex items-center justify-center">
                         <svg className="w-8 h-8 text-teal-600 dark:text-teal-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -139,7 +251,7 @@ export function GlossaryImportModal({ isOpen, onClose }: GlossaryImportModalProp
                           Click to upload or drag and drop
                         </p>
                         <p className="text-sm text-gray-600 dark:text-gray-400">
-                          CSV or Excel file (max 10MB)
+                          CSV, TSV, XLSX or TBX file (max 10MB)
                         </p>
                       </div>
                     </div>
@@ -162,7 +274,7 @@ export function GlossaryImportModal({ isOpen, onClose }: GlossaryImportModalProp
             )}
 
             {/* Step 2: Map Columns */}
-            {currentStep === 2 && (
+            {currentStep === 2 && table && mapping && (
               <div className="space-y-6">
                 <p className="text-gray-700 dark:text-gray-300">
                   Map your file columns to glossary fields:
@@ -171,46 +283,69 @@ export function GlossaryImportModal({ isOpen, onClose }: GlossaryImportModalProp
                 <div className="space-y-4">
                   <Select
                     label="Source Term Column"
-                    options={[
-                      { value: 'Column A', label: 'Column A' },
-                      { value: 'Column B', label: 'Column B' },
-                      { value: 'Column C', label: 'Column C' },
-                      { value: 'Column D', label: 'Column D' }
-                    ]}
-                    value={sourceColumn}
-                    onChange={(e) => setSourceColumn(e.target.value)}
+                    options={columnOptions}
+                    value={String(mapping.source)}
+                    onChange={(e) => updateMapping('source', e.target.value)}
                   />
 
                   <Select
                     label="Target Translation Column"
-                    options={[
-                      { value: 'Column A', label: 'Column A' },
-                      { value: 'Column B', label: 'Column B' },
-                      { value: 'Column C', label: 'Column C' },
-                      { value: 'Column D', label: 'Column D' }
-                    ]}
-                    value={targetColumn}
-                    onChange={(e) => setTargetColumn(e.target.value)}
+                    options={columnOptions}
+                    value={String(mapping.target)}
+                    onChange={(e) => updateMapping('target', e.target.value)}
                   />
 
                   <Select
                     label="Notes Column (Optional)"
-                    options={[
-                      { value: '', label: 'None' },
-                      { value: 'Column A', label: 'Column A' },
-                      { value: 'Column B', label: 'Column B' },
-                      { value: 'Column C', label: 'Column C' },
-                      { value: 'Column D', label: 'Column D' }
-                    ]}
-                    value={notesColumn}
-                    onChange={(e) => setNotesColumn(e.target.value)}
+                    options={[{ value: '', label: 'None' }, ...columnOptions]}
+                    value={mapping.notes === null ? '' : String(mapping.notes)}
+                    onChange={(e) => updateMapping('notes', e.target.value)}
+                  />
+
+                  <Select
+                    label="Language Column (Optional)"
+                    options={[{ value: '', label: 'None - same language for all rows' }, ...columnOptions]}
+                    value={mapping.language === null ? '' : String(mapping.language)}
+                    onChange={(e) => updateMapping('language', e.target.value)}
                   />
+
+                  <Select
+                    label="Forbidden Variants Column (Optional)"
+                    options={[{ value: '', label: 'None' }, ...columnOptions]}
+                    value={mapping.forbidden === null ? '' : String(mapping.forbidden)}
+                    onChange={(e) => updateMapping('forbidden', e.target.value)}
+                  />
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <Select
+                      label="Part of Speech Column (Optional)"
+                      options={[{ value: '', label: 'None' }, ...columnOptions]}
+                      value={mapping.part_of_speech === null ? '' : String(mapping.part_of_speech)}
+                      onChange={(e) => updateMapping('part_of_speech', e.target.value)}
+                    />
+
+                    <Select
+                      label="Status Column (Optional)"
+                      options={[{ value: '', label: 'None - all approved' }, ...columnOptions]}
+                      value={mapping.status === null ? '' : String(mapping.status)}
+                      onChange={(e) => updateMapping('status', e.target.value)}
+                    />
+                  </div>
+
+                  {mapping.language === null && (
+                    <Select
+                      label="Target Language"
+                      options={languageOptions}
+                      value={mapping.default_language}
+                      onChange={(e) => setMapping({ ...mapping, default_language: e.target.value })}
+                    />
+                  )}
                 </div>
 
                 {/* Preview */}
                 <div>
                   <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-3">
-                    Preview (First 5 rows)
+                    Preview (First {Math.min(PREVIEW_ROW_COUNT, previewRows.length)} rows)
                   </h4>
                   <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
                     <table className="w-full">
@@ -222,22 +357,28 @@ export function GlossaryImportModal({ isOpen, onClose }: GlossaryImportModalProp
                           <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700 dark:text-gray-300">
                             Translation
                           </th>
+                          <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700 dark:text-gray-300">
+                            Language
+                          </th>
                           <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700 dark:text-gray-300">
                             Notes
                           </th>
                         </tr>
                       </thead>
                       <tbody>
-                        {PREVIEW_ROWS.map((row, index) => (
-                          <tr key={index} className="border-t border-gray-100 dark:border-gray-800">
+                        {previewRows.map(({ row, cells }) => (
+                          <tr key={row} className="border-t border-gray-100 dark:border-gray-800">
                             <td className="px-4 py-2 text-sm text-gray-900 dark:text-gray-100">
-                              {row.source}
+                              {cells[mapping.source]}
                             </td>
                             <td className="px-4 py-2 text-sm text-gray-900 dark:text-gray-100">
-                              {row.target}
+                              {cells[mapping.target]}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
+                              {mapping.language !== null ? cells[mapping.language] : mapping.default_language}
                             </td>
                             <td className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
-                              {row.notes}
+                              {mapping.notes !== null ? cells[mapping.notes] : ''}
                             </td>
                           </tr>
                         ))}
@@ -245,6 +386,27 @@ export function GlossaryImportModal({ isOpen, onClose }: GlossaryImportModalProp
                     </table>
                   </div>
                 </div>
+
+                {/* Row validation */}
+                {parseResult.errors.length > 0 && (
+                  <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                    <p className="text-sm font-semibold text-red-900 dark:text-red-100 mb-2">
+                      {rowsWithErrors} {rowsWithErrors === 1 ? 'row has' : 'rows have'} problems and will be skipped:
+                    </p>
+                    <ul className="text-sm text-red-800 dark:text-red-200 space-y-1">
+                      {parseResult.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                        <li key={index}>
+                          Row {error.row}: {error.message}
+                        </li>
+                      ))}
+                    </ul>
+                    {parseResult.errors.length > MAX_LISTED_ERRORS && (
+                      <p className="mt-1 text-sm text-red-700 dark:text-red-300">
+                        ...and {parseResult.errors.length - MAX_LISTED_ERRORS} more
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             )}
 
@@ -274,36 +436,61 @@ export function GlossaryImportModal({ isOpen, onClose }: GlossaryImportModalProp
                     </span>
                   </div>
                   <div className="flex items-center justify-between">
-                    <span className="text-gray-700 dark:text-gray-300">Terms to import:</span>
+                    <span className="text-gray-700 dark:text-gray-300">Valid entries:</span>
                     <Badge variant="success" size="md">
-                      {termsToImport} terms
+                      {importEntries.length} entries ({countTranslations(importEntries)} translations)
                     </Badge>
                   </div>
-                  {duplicatesFound > 0 && (
+                  {rowsWithErrors > 0 && (
+                    <div className="flex items-center justify-between pt-3 border-t border-gray-200 dark:border-gray-700">
+                      <span className="text-gray-700 dark:text-gray-300">Rows with errors:</span>
+                      <Badge variant="error" size="md">
+                        {rowsWithErrors} rows (will be skipped)
+                      </Badge>
+                    </div>
+                  )}
+                  {duplicateCount > 0 && (
                     <div className="flex items-center justify-between pt-3 border-t border-gray-200 dark:border-gray-700">
                       <span className="text-gray-700 dark:text-gray-300">Duplicates found:</span>
                       <Badge variant="warning" size="md">
-                        {duplicatesFound} duplicates (will be skipped)
+                        {duplicateCount} duplicates (will be skipped)
                       </Badge>
                     </div>
                   )}
                   <div className="flex items-center justify-between pt-3 border-t border-gray-200 dark:border-gray-700">
                     <span className="font-semibold text-gray-900 dark:text-gray-100">
-                      New terms to add:
+                      Entries to add or extend:
                     </span>
                     <span className="text-xl font-bold text-teal-600 dark:text-teal-400">
-                      {termsToImport - duplicatesFound}
+                      {added.length}
                     </span>
                   </div>
                 </div>
 
-                {duplicatesFound > 0 && (
+                {/* Glossary Check */}
+                <div className="text-left space-y-3">
+                  <h4 className="font-semibold text-gray-900 dark:text-gray-100">
+                    Glossary Check · {lintCounts.error} errors, {lintCounts.warning} warnings
+                  </h4>
+                  {lintCounts.error > 0 && (
+                    <p className="text-sm text-red-700 dark:text-red-400">
+                      Approved terms with errors keep this glossary from being used in sessions until they are fixed.
+                    </p>
+                  )}
+                  <GlossaryLintReport
+                    issues={lintIssues}
+                    onFix={handleLintFix}
+                    maxIssuesPerGroup={MAX_LISTED_LINT_ISSUES}
+                  />
+                </div>
+
+                {duplicateCount > 0 && (
                   <div className="flex items-start gap-2 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg border border-yellow-200 dark:border-yellow-800 text-left">
                     <svg className="w-5 h-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                     </svg>
                     <p className="text-sm text-yellow-900 dark:text-yellow-100">
-                      {duplicatesFound} terms already exist in this glossary and will be skipped.
+                      {duplicateCount} translations already exist in this glossary and will be skipped.
                     </p>
                   </div>
                 )}
@@ -330,8 +517,8 @@ export function GlossaryImportModal({ isOpen, onClose }: GlossaryImportModalProp
                 <Button variant="outline" onClick={handleBack}>
                   Back
                 </Button>
-                <Button onClick={handleImport} isLoading={isImporting}>
-                  {isImporting ? 'Importing...' : 'Import Terms'}
+                <Button onClick={handleImport} disabled={added.length === 0}>
+                  Import Terms
                 </Button>
               </>
             )}
@@ -0,0 +1,129 @@
+import { useMemo } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import type { GlossaryRef } from '../../types';
+import { composeGlossaryStack } from '../../utils/glossaryComposition';
+import { isDoNotTranslate } from '../../utils/glossaryEngine';
+
+export interface GlossaryStackPreviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  glossaries: GlossaryRef[];
+}
+
+/**
+ * GlossaryStackPreviewModal Component
+ *
+ * The effective glossary of an ordered glossary list: every merged term with
+ * the glossary that supplied it (and each translation, where they differ),
+ * plus the conflicts resolved by precedence.
+ */
+export function GlossaryStackPreviewModal({ isOpen, onClose, glossaries }: GlossaryStackPreviewModalProps) {
+  const composition = useMemo(() => (isOpen ? composeGlossaryStack(glossaries) : null), [isOpen, glossaries]);
+  if (!composition) return null;
+
+  const layerName = (glossaryId: string) =>
+    composition.layers.find(layer => layer.glossary_id === glossaryId)?.name ?? glossaryId;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl">
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Merged Glossary</h2>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            {composition.layers.map((layer, index) => `${index + 1}. ${layer.name} (v${layer.version})`).join('  ·  ')}
+          </p>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Where glossaries disagree, the one listed first wins.
+          </p>
+        </div>
+
+        {/* Conflicts */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge variant={composition.conflicts.length > 0 ? 'warning' : 'success'} size="sm">
+              {composition.conflicts.length}
+            </Badge>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Conflicts</h3>
+          </div>
+          {composition.conflicts.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">These glossaries don't disagree on any term.</p>
+          ) : (
+            <ul className="max-h-40 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800 border border-yellow-200 dark:border-yellow-800 rounded-lg bg-yellow-50 dark:bg-yellow-900/20">
+              {composition.conflicts.map(conflict => (
+                <li
+                  key={`${conflict.source_term}_${conflict.language}_${conflict.overridden.glossary_id}`}
+                  className="px-3 py-2 text-sm text-yellow-900 dark:text-yellow-100"
+                >
+                  <strong>{conflict.source_term}</strong> ({conflict.language.toUpperCase()}): “{conflict.winner.term}” from{' '}
+                  {layerName(conflict.winner.glossary_id)} overrides “{conflict.overridden.term}” from{' '}
+                  {layerName(conflict.overridden.glossary_id)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Effective terms */}
+        <div className="max-h-96 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700 dark:text-gray-300">Source Term</th>
+                <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700 dark:text-gray-300">Translations</th>
+                <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700 dark:text-gray-300">Glossary</th>
+              </tr>
+            </thead>
+            <tbody>
+              {composition.entries.map(({ entry, glossary_id, translation_sources }) => (
+                <tr key={`${glossary_id}_${entry.id}`} className="border-t border-gray-100 dark:border-gray-800">
+                  <td className="px-3 py-2 align-top text-sm font-medium text-gray-900 dark:text-gray-100">
+                    {entry.source_term}
+                  </td>
+                  <td className="px-3 py-2 align-top text-sm text-gray-700 dark:text-gray-300">
+                    {isDoNotTranslate(entry) ? (
+                      <span>Kept as-is in all languages</span>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {Object.entries(entry.translations).map(([language, translation]) => (
+                          <span
+                            key={language}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700"
+                          >
+                            {translation.term} ({language.toUpperCase()})
+                            {translation_sources[language] !== glossary_id && (
+                              <span className="text-xs text-teal-700 dark:text-teal-300">
+                                · {layerName(translation_sources[language])}
+                              </span>
+                            )}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 align-top text-sm text-gray-600 dark:text-gray-400">{layerName(glossary_id)}</td>
+                </tr>
+              ))}
+              {composition.entries.length === 0 && (
+                <tr>
+                  <td colSpan={3} className="px-3 py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                    No approved terms in these glossaries
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-gray-700">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { Badge } from '../ui/Badge';
+import type { GlossaryEntry, GlossaryVersion } from '../../types';
+import { formatEntryTranslations, GLOSSARY_ENTRY_STATUS_LABELS } from '../../utils/glossaryEntries';
+import {
+  GLOSSARY_ENTRY_FIELD_LABELS,
+  diffGlossaryEntries,
+  findGlossaryVersion,
+  getLatestVersion
+} from '../../utils/glossaryVersions';
+
+export interface GlossaryVersionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  glossaryName: string;
+  versions: GlossaryVersion[];
+  onRollback?: (version: number) => void;
+}
+
+type DiffRowKind = 'added' | 'removed' | 'changed';
+
+const DIFF_ROW_STYLES: Record<DiffRowKind, string> = {
+  added: 'bg-green-50 dark:bg-green-900/20',
+  removed: 'bg-red-50 dark:bg-red-900/20',
+  changed: 'bg-yellow-50 dark:bg-yellow-900/20'
+};
+
+function EntryDetails({ entry }: { entry?: GlossaryEntry }) {
+  if (!entry) return <p className="text-sm text-gray-400 dark:text-gray-500">—</p>;
+
+  return (
+    <div className="text-sm">
+      <p className="font-medium text-gray-900 dark:text-gray-100">{entry.source_term}</p>
+      <p className="text-gray-700 dark:text-gray-300">{formatEntryTranslations(entry) || 'No translations'}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {GLOSSARY_ENTRY_STATUS_LABELS[entry.status]}
+        {entry.context_notes && ` · ${entry.context_notes}`}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * GlossaryVersionHistoryModal Component
+ *
+ * Lists every saved version of a glossary (author, time, change summary),
+ * compares any two versions side by side and rolls back to an earlier one.
+ * Rollback saves the old content as a new version, so it can itself be undone.
+ */
+export function GlossaryVersionHistoryModal({
+  isOpen,
+  onClose,
+  glossaryName,
+  versions,
+  onRollback
+}: GlossaryVersionHistoryModalProps) {
+  const latest = getLatestVersion(versions);
+  const [fromVersion, setFromVersion] = useState(1);
+  const [toVersion, setToVersion] = useState(1);
+
+  const latestVersion = latest?.version ?? 1;
+
+  // Default to comparing the latest version with the one before it
+  useEffect(() => {
+    if (!isOpen) return;
+    setFromVersion(Math.max(1, latestVersion - 1));
+    setToVersion(latestVersion);
+  }, [isOpen, latestVersion]);
+
+  const from = findGlossaryVersion(versions, fromVersion);
+  const to = findGlossaryVersion(versions, toVersion);
+  const diff = from && to ? diffGlossaryEntries(from.entries, to.entries) : null;
+  const versionOptions = [...versions].reverse().map(version => ({
+    value: String(version.version),
+    label: `Version ${version.version} · ${new Date(version.created_at).toLocaleDateString()}`
+  }));
+
+  const diffRows: Array<{ key: string; kind: DiffRowKind; before?: GlossaryEntry; after?: GlossaryEntry; note?: string }> =
+    diff
+      ? [
+          ...diff.removed.map(entry => ({ key: `removed_${entry.id}`, kind: 'removed' as const, before: entry })),
+          ...diff.changed.map(change => ({
+            key: `changed_${change.after.id}`,
+            kind: 'changed' as const,
+            before: change.before,
+            after: change.after,
+            note: change.fields.map(field => GLOSSARY_ENTRY_FIELD_LABELS[field]).join(', ')
+          })),
+          ...diff.added.map(entry => ({ key: `added_${entry.id}`, kind: 'added' as const, after: entry }))
+        ]
+      : [];
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl">
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Version History</h2>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            {glossaryName} · {versions.length} {versions.length === 1 ? 'version' : 'versions'}
+          </p>
+        </div>
+
+        {/* Versions */}
+        <div className="max-h-64 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-100 dark:divide-gray-800">
+          {versions.length === 0 && (
+            <p className="p-4 text-sm text-gray-600 dark:text-gray-400">No versions saved yet.</p>
+          )}
+          {[...versions].reverse().map(version => (
+            <div key={version.version} className="flex items-center justify-between gap-4 p-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-gray-900 dark:text-gray-100">Version {version.version}</span>
+                  {version.version === latestVersion && (
+                    <Badge variant="success" size="sm">
+                      Current
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-gray-700 dark:text-gray-300 truncate">{version.summary}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {version.author_name} · {new Date(version.created_at).toLocaleString()} · {version.entries.length} terms
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setFromVersion(version.version);
+                    setToVersion(latestVersion);
+                  }}
+                >
+                  Compare
+                </Button>
+                {onRollback && version.version !== latestVersion && (
+                  <Button size="sm" variant="secondary" onClick={() => onRollback(version.version)}>
+                    Roll Back
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Diff */}
+        {versions.length > 1 && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Select
+                label="Compare"
+                options={versionOptions}
+                value={String(fromVersion)}
+                onChange={(e) => setFromVersion(Number(e.target.value))}
+              />
+              <Select
+                label="With"
+                options={versionOptions}
+                value={String(toVersion)}
+                onChange={(e) => setToVersion(Number(e.target.value))}
+              />
+            </div>
+
+            {diff && (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="success" size="sm">{diff.added.length} added</Badge>
+                  <Badge variant="error" size="sm">{diff.removed.length} removed</Badge>
+                  <Badge variant="warning" size="sm">{diff.changed.length} changed</Badge>
+                  <Badge variant="neutral" size="sm">{diff.unchanged_count} unchanged</Badge>
+                </div>
+
+                {diffRows.length === 0 ? (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">These versions have the same terms.</p>
+                ) : (
+                  <div className="max-h-80 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <table className="w-full">
+                      <thead className="bg-gray-50 dark:bg-gray-800">
+                        <tr>
+                          <th className="w-1/2 px-3 py-2 text-left text-sm font-semibold text-gray-700 dark:text-gray-300">
+                            Version {fromVersion}
+                          </th>
+                          <th className="w-1/2 px-3 py-2 text-left text-sm font-semibold text-gray-700 dark:text-gray-300">
+                            Version {toVersion}
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {diffRows.map(row => (
+                          <tr key={row.key} className={`border-t border-gray-100 dark:border-gray-800 ${DIFF_ROW_STYLES[row.kind]}`}>
+                            <td className="px-3 py-2 align-top">
+                              <EntryDetails entry={row.before} />
+                            </td>
+                            <td className="px-3 py-2 align-top">
+                              <EntryDetails entry={row.after} />
+                              {row.note && (
+                                <p className="mt-1 text-xs text-yellow-800 dark:text-yellow-300">Changed: {row.note}</p>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-gray-700">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
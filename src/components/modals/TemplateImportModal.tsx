@@ -0,0 +1,197 @@
+import { useRef, useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { Badge } from '../ui/Badge';
+import { useToast, Toast } from '../ui/Toast';
+import type { TemplateFields } from '../../types';
+import { getLanguageByCode } from '../../utils/constants';
+import { formatGlossaryRef } from '../../utils/glossaryVersions';
+import { TEMPLATE_FILE_EXTENSION, TemplateImportResult, parseTemplateFile } from '../../utils/templateTransfer';
+
+export type TemplateImportDestination = 'personal' | 'shared';
+
+export interface TemplateImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  canShare: boolean; // Offer importing straight into the account library
+  onImport: (templates: TemplateFields[], destination: TemplateImportDestination) => void;
+}
+
+const MAX_LISTED_WARNINGS = 8;
+
+/**
+ * TemplateImportModal Component
+ *
+ * Imports templates from a template export file (see templateTransfer.ts)
+ * into the user's templates or the account library, listing what will be
+ * imported and any glossaries that couldn't be matched first.
+ */
+export function TemplateImportModal({ isOpen, onClose, canShare, onImport }: TemplateImportModalProps) {
+  const { toast, showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<TemplateImportResult | null>(null);
+  const [destination, setDestination] = useState<TemplateImportDestination>('personal');
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFile = async (file: File) => {
+    try {
+      setResult(parseTemplateFile(await file.text()));
+      setFileName(file.name);
+    } catch (error) {
+      console.error('[TemplateImportModal] Failed to read file:', error);
+      setResult(null);
+      setFileName('');
+      showToast(error instanceof Error ? error.message : 'Failed to read file', 'error');
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) handleFile(file);
+    e.target.value = ''; // Allow re-selecting the same file
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const handleClose = () => {
+    setFileName('');
+    setResult(null);
+    setDestination('personal');
+    onClose();
+  };
+
+  const handleImport = () => {
+    if (!result) {
+      showToast('Please choose a template file', 'warning');
+      return;
+    }
+    onImport(result.templates, destination);
+    handleClose();
+  };
+
+  const getLanguageName = (code: string) => getLanguageByCode(code)?.name ?? code.toUpperCase();
+
+  return (
+    <>
+      <Modal isOpen={isOpen} onClose={handleClose} size="lg">
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Import Templates</h2>
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              Import templates exported from MeetingSync ({TEMPLATE_FILE_EXTENSION} file)
+            </p>
+          </div>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${TEMPLATE_FILE_EXTENSION},application/json`}
+            className="hidden"
+            onChange={handleInputChange}
+          />
+
+          {/* File Upload Dropzone */}
+          <div
+            className={`border-2 border-dashed rounded-lg p-8 text-center hover:border-teal-500 dark:hover:border-teal-500 transition-colors cursor-pointer bg-gray-50 dark:bg-gray-800 ${
+              isDragging ? 'border-teal-500' : 'border-gray-300 dark:border-gray-600'
+            }`}
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+          >
+            <p className="font-medium text-gray-900 dark:text-gray-100">
+              {fileName || 'Click to upload or drag and drop'}
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {fileName ? 'Click to change file' : 'Template export file'}
+            </p>
+          </div>
+
+          {result && (
+            <>
+              {/* Templates */}
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="info" size="sm">
+                    {result.templates.length}
+                  </Badge>
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                    Template{result.templates.length !== 1 ? 's' : ''} to import
+                  </h3>
+                </div>
+                <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+                  {result.templates.map((template, index) => (
+                    <li key={index} className="px-3 py-2 text-sm">
+                      <p className="font-medium text-gray-900 dark:text-gray-100">{template.name}</p>
+                      <p className="text-gray-600 dark:text-gray-400">
+                        {getLanguageName(template.source_language)} →{' '}
+                        {template.target_languages.map(getLanguageName).join(', ')}
+                        {template.glossaries?.length ? ` · ${template.glossaries.map(formatGlossaryRef).join(' → ')}` : ''}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* Warnings */}
+              {result.warnings.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="warning" size="sm">
+                      {result.warnings.length}
+                    </Badge>
+                    <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Warnings</h3>
+                  </div>
+                  <ul className="space-y-1 p-3 border border-yellow-200 dark:border-yellow-800 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-900 dark:text-yellow-100">
+                    {result.warnings.slice(0, MAX_LISTED_WARNINGS).map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                    {result.warnings.length > MAX_LISTED_WARNINGS && (
+                      <li>…and {result.warnings.length - MAX_LISTED_WARNINGS} more</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              {/* Destination */}
+              {canShare && (
+                <Select
+                  label="Import into"
+                  value={destination}
+                  onChange={(e) => setDestination(e.target.value as TemplateImportDestination)}
+                  options={[
+                    { value: 'personal', label: 'My Templates' },
+                    { value: 'shared', label: 'Account Library (everyone can view)' }
+                  ]}
+                />
+              )}
+            </>
+          )}
+
+          {/* Actions */}
+          <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <Button variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleImport} disabled={!result}>
+              Import {result ? `${result.templates.length} Template${result.templates.length !== 1 ? 's' : ''}` : 'Templates'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+      <Toast {...toast} />
+    </>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import type { Template, TemplateMember, TemplateSharing } from '../../types';
+import { MOCK_ACCOUNT_MEMBERS } from '../../utils/mockData';
+import { TEMPLATE_ROLE_LABELS } from '../../utils/templateLibrary';
+
+export interface TemplateShareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  template: Template | null;
+  onSave: (accountRole: TemplateSharing['account_role'], members: TemplateMember[]) => void;
+  onStopSharing?: () => void; // Shown for templates already in the account library
+}
+
+const ROLE_OPTIONS: Array<{ value: TemplateMember['role']; label: string }> = [
+  { value: 'viewer', label: `${TEMPLATE_ROLE_LABELS.viewer} (use, duplicate, export)` },
+  { value: 'editor', label: `${TEMPLATE_ROLE_LABELS.editor} (also edit settings)` }
+];
+
+/**
+ * TemplateShareModal Component
+ *
+ * Share a template with the Zoom account: the access everyone in the account
+ * gets, plus colleagues granted editor access individually. Only the owner
+ * can open it.
+ */
+export function TemplateShareModal({ isOpen, onClose, template, onSave, onStopSharing }: TemplateShareModalProps) {
+  const [accountRole, setAccountRole] = useState<TemplateSharing['account_role']>('viewer');
+  const [members, setMembers] = useState<TemplateMember[]>([]);
+
+  // The modal stays mounted; follow the template it is opened for
+  useEffect(() => {
+    setAccountRole(template?.sharing?.account_role ?? 'viewer');
+    setMembers(template?.sharing?.members ?? []);
+  }, [template]);
+
+  if (!template) return null;
+
+  const isShared = template.sharing !== undefined;
+  const addableMembers = MOCK_ACCOUNT_MEMBERS.filter(
+    person => person.id !== template.user_id && !members.some(member => member.user_id === person.id)
+  );
+
+  const handleAddMember = (userId: string) => {
+    const person = MOCK_ACCOUNT_MEMBERS.find(item => item.id === userId);
+    if (person) setMembers(prev => [...prev, { user_id: person.id, name: person.name, role: 'editor' }]);
+  };
+
+  const handleRoleChange = (userId: string, role: TemplateMember['role']) => {
+    setMembers(prev => prev.map(member => (member.user_id === userId ? { ...member, role } : member)));
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            {isShared ? 'Sharing Settings' : 'Share with Account'}
+          </h2>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            “{template.name}” will be available to everyone in your Zoom account’s template library.
+          </p>
+        </div>
+
+        {/* Account access */}
+        <Select
+          label="Everyone in the account"
+          value={accountRole}
+          onChange={(e) => setAccountRole(e.target.value as TemplateSharing['account_role'])}
+          options={ROLE_OPTIONS}
+        />
+
+        {/* Individual access */}
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">People with more access</label>
+          {members.length === 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              No one has been given more access than the rest of the account.
+            </p>
+          )}
+          {members.map(member => (
+            <div key={member.user_id} className="flex items-center gap-2">
+              <span className="flex-1 min-w-0 text-sm text-gray-900 dark:text-gray-100 truncate">{member.name}</span>
+              <div className="w-56">
+                <Select
+                  aria-label={`Access for ${member.name}`}
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member.user_id, e.target.value as TemplateMember['role'])}
+                  options={ROLE_OPTIONS}
+                />
+              </div>
+              <Button
+                variant="tertiary"
+                size="sm"
+                onClick={() => setMembers(prev => prev.filter(item => item.user_id !== member.user_id))}
+                aria-label={`Remove ${member.name}`}
+              >
+                ×
+              </Button>
+            </div>
+          ))}
+          {addableMembers.length > 0 && (
+            <Select
+              aria-label="Add a person"
+              value=""
+              onChange={(e) => handleAddMember(e.target.value)}
+              options={[
+                { value: '', label: 'Add a person…' },
+                ...addableMembers.map(person => ({ value: person.id, label: `${person.name} (${person.email})` }))
+              ]}
+            />
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-col-reverse sm:flex-row sm:justify-between gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <div>
+            {isShared && onStopSharing && (
+              <Button variant="destructive" onClick={onStopSharing}>
+                Stop Sharing
+              </Button>
+            )}
+          </div>
+          <div className="flex flex-col-reverse sm:flex-row gap-3">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={() => onSave(accountRole, members)}>
+              {isShared ? 'Save Changes' : 'Share'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
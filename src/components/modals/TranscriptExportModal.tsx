@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Checkbox } from '../ui/Checkbox';
+import { useToast, Toast } from '../ui/Toast';
+import type { SessionDetail } from '../../utils/mockSessionDetails';
+import { getLanguageByCode } from '../../utils/constants';
+import {
+  DEFAULT_TRANSCRIPT_EXPORT_OPTIONS,
+  PDF_MAX_COLUMNS,
+  TRANSCRIPT_EXPORT_EXTENSIONS,
+  TranscriptExportFormat,
+  TranscriptExportOptions,
+  TranscriptTimeFormat,
+  exportTranscript,
+  getPdfUnsupportedLanguages
+} from '../../utils/transcriptExport';
+
+export interface TranscriptExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session: SessionDetail;
+}
+
+const FORMAT_OPTIONS: Array<{ value: TranscriptExportFormat; label: string; description: string }> = [
+  { value: 'txt', label: 'Text', description: 'Plain text, one block per line of the transcript' },
+  { value: 'srt', label: 'SRT', description: 'SubRip subtitles for video players and editors' },
+  { value: 'vtt', label: 'WebVTT', description: 'Web subtitles with speaker and language tags' },
+  { value: 'docx', label: 'Word', description: 'Microsoft Word document' },
+  { value: 'pdf', label: 'PDF', description: 'Languages side by side, for reading and printing' }
+];
+
+const SUBTITLE_FORMATS: TranscriptExportFormat[] = ['srt', 'vtt'];
+
+function getDefaultFileName(session: SessionDetail): string {
+  return `${session.meeting_title.toLowerCase().replace(/\s+/g, '_')}_${session.meeting_date}`;
+}
+
+/**
+ * TranscriptExportModal Component
+ *
+ * Downloads a session transcript as TXT, SRT, WebVTT, DOCX or a
+ * side-by-side PDF, with the languages, speaker/confidence details and
+ * timing to include (see transcriptExport.ts).
+ */
+export function TranscriptExportModal({ isOpen, onClose, session }: TranscriptExportModalProps) {
+  const { toast, showToast } = useToast();
+  const [options, setOptions] = useState<TranscriptExportOptions>(DEFAULT_TRANSCRIPT_EXPORT_OPTIONS);
+  const [timeOffset, setTimeOffset] = useState('0'); // Kept as typed so "-" can be entered
+  const [fileName, setFileName] = useState(getDefaultFileName(session));
+
+  // Every language the transcript can be read in: the meeting's language, then its translations
+  const languages = Array.from(new Set([session.source_language, ...session.target_languages]));
+  const isSubtitles = SUBTITLE_FORMATS.includes(options.format);
+  const pdfColumns = (options.include_original ? 1 : 0) + options.languages.length;
+  const pdfUnsupported = options.format === 'pdf' ? getPdfUnsupportedLanguages(session.transcript, options) : [];
+
+  const updateOptions = (updates: Partial<TranscriptExportOptions>) => {
+    setOptions(prev => ({ ...prev, ...updates }));
+  };
+
+  const toggleLanguage = (code: string, checked: boolean) => {
+    // Keep the session's language order
+    const selected = checked ? [...options.languages, code] : options.languages.filter(item => item !== code);
+    updateOptions({ languages: languages.filter(item => selected.includes(item)) });
+  };
+
+  const getLanguageName = (code: string) => getLanguageByCode(code)?.name ?? code.toUpperCase();
+
+  const handleClose = () => {
+    setOptions(DEFAULT_TRANSCRIPT_EXPORT_OPTIONS);
+    setTimeOffset('0');
+    setFileName(getDefaultFileName(session));
+    onClose();
+  };
+
+  const handleExport = () => {
+    try {
+      const savedAs = exportTranscript(
+        session,
+        { ...options, time_offset_seconds: Number(timeOffset) || 0 },
+        fileName
+      );
+      showToast(`Transcript downloaded as ${savedAs}`, 'success');
+      handleClose();
+    } catch (error) {
+      console.error('[TranscriptExportModal] Export failed:', error);
+      showToast(error instanceof Error ? error.message : 'Export failed. Please try again.', 'error');
+    }
+  };
+
+  return (
+    <>
+      <Modal isOpen={isOpen} onClose={handleClose} size="lg">
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Download Transcript</h2>
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              “{session.meeting_title}” ({session.transcript.length} lines)
+            </p>
+          </div>
+
+          {/* Format Selection */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Format</label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {FORMAT_OPTIONS.map(option => (
+                <label
+                  key={option.value}
+                  className={`
+                    flex items-center p-3 border-2 rounded-lg cursor-pointer transition-all
+                    ${options.format === option.value
+                      ? 'border-teal-600 dark:border-teal-500 bg-teal-50 dark:bg-teal-900/20'
+                      : 'border-gray-200 dark:border-gray-700 hover:border-teal-300'
+                    }
+                  `}
+                >
+                  <input
+                    type="radio"
+                    name="transcript-format"
+                    value={option.value}
+                    checked={options.format === option.value}
+                    onChange={() => updateOptions({ format: option.value })}
+                    className="h-4 w-4 text-teal-600 focus:ring-teal-500"
+                  />
+                  <div className="ml-3">
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{option.label}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Languages */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Languages</label>
+            <Checkbox
+              id="transcript-include-original"
+              checked={options.include_original}
+              onChange={(e) => updateOptions({ include_original: e.target.checked })}
+              label="Original"
+              description="What each speaker said, in the language they spoke"
+            />
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {languages.map(code => (
+                <Checkbox
+                  key={code}
+                  id={`transcript-language-${code}`}
+                  checked={options.languages.includes(code)}
+                  onChange={(e) => toggleLanguage(code, e.target.checked)}
+                  label={getLanguageName(code)}
+                />
+              ))}
+            </div>
+            {options.format === 'pdf' && pdfColumns > PDF_MAX_COLUMNS && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                The PDF fits up to {PDF_MAX_COLUMNS} languages side by side (including the original).
+              </p>
+            )}
+            {pdfUnsupported.length > 0 && (
+              <p className="text-sm text-yellow-700 dark:text-yellow-400">
+                {pdfUnsupported.map(getLanguageName).join(', ')} can't be shown in PDFs; use Word or Text for
+                {pdfUnsupported.length === 1 ? ' this language' : ' these languages'}.
+              </p>
+            )}
+          </div>
+
+          {/* Details */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Details</label>
+            <Checkbox
+              id="transcript-include-speakers"
+              checked={options.include_speakers}
+              onChange={(e) => updateOptions({ include_speakers: e.target.checked })}
+              label="Speaker names"
+            />
+            <Checkbox
+              id="transcript-include-confidence"
+              checked={options.include_confidence}
+              onChange={(e) => updateOptions({ include_confidence: e.target.checked })}
+              label="Confidence scores"
+              description={isSubtitles ? 'Added as notes in WebVTT, shown next to the speaker in SRT' : undefined}
+            />
+          </div>
+
+          {/* Timing */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Select
+              label="Timestamps"
+              value={isSubtitles ? 'elapsed' : options.time_format}
+              onChange={(e) => updateOptions({ time_format: e.target.value as TranscriptTimeFormat })}
+              disabled={isSubtitles}
+              options={[
+                { value: 'elapsed', label: 'Time since meeting start' },
+                { value: 'clock', label: `Time of day (meeting started ${session.start_time})` }
+              ]}
+            />
+            <Input
+              label="Time offset (seconds)"
+              type="number"
+              value={timeOffset}
+              onChange={(e) => setTimeOffset(e.target.value)}
+              helperText="Negative to match a recording that started after the meeting"
+            />
+          </div>
+
+          {/* File Name */}
+          <div>
+            <Input
+              label="File Name"
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+              placeholder="Enter file name"
+            />
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              Will be saved as: {fileName}
+              {TRANSCRIPT_EXPORT_EXTENSIONS[options.format]}
+            </p>
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <Button variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleExport}
+              disabled={
+                (!options.include_original && options.languages.length === 0) ||
+                (options.format === 'pdf' && pdfColumns > PDF_MAX_COLUMNS)
+              }
+            >
+              Download
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <Toast {...toast} />
+    </>
+  );
+}
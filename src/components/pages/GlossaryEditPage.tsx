@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
@@ -6,57 +6,99 @@ import { Badge } from '../ui/Badge';
 import { Breadcrumbs, BreadcrumbItem } from '../ui/Breadcrumbs';
 import { useToast, Toast } from '../ui/Toast';
 import { ConfirmationModal } from '../ui/ConfirmationModal';
-import { MOCK_GLOSSARIES } from '../../utils/mockData';
+import { MOCK_GLOSSARIES, MOCK_GLOSSARY_ENTRIES } from '../../utils/mockData';
+import type { Glossary, GlossaryEntry, GlossaryEntryStatus, GlossaryVersion, PartOfSpeech } from '../../types';
+import { LANGUAGES } from '../../utils/constants';
+import { exportGlossary } from '../../utils/glossaryExport';
+import type { GlossaryVersionContent } from '../../utils/glossaryVersions';
+import { GlossaryVersionHistoryModal } from '../modals/GlossaryVersionHistoryModal';
+import { GlossaryLintReport } from '../features/GlossaryLintReport';
+import {
+  GlossaryLintFix,
+  GlossaryLintIssue,
+  applyGlossaryLintFix,
+  getBlockingLintIssues,
+  getLintIssueCounts,
+  lintGlossary
+} from '../../utils/glossaryLinter';
+import {
+  PART_OF_SPEECH_LABELS,
+  GLOSSARY_ENTRY_STATUS_LABELS,
+  countTranslations,
+  findEntryBySource,
+  getTermKey,
+  removeEntryTranslation,
+  setEntryTranslation,
+  splitVariants
+} from '../../utils/glossaryEntries';
 
 export interface GlossaryEditPageProps {
   glossaryId: string;
   onBack: () => void;
+  glossary?: Glossary;
+  entries?: GlossaryEntry[];
+  versions?: GlossaryVersion[]; // Saved versions, oldest first
+  onSave?: (content: GlossaryVersionContent) => GlossaryVersion | null; // Returns the new version, null if nothing changed
+  onRollback?: (version: number) => GlossaryVersion | null;
 }
 
-interface GlossaryTerm {
-  id: string;
-  sourceTerm: string;
-  targetLanguage: string;
+interface NewEntryForm {
+  source_term: string;
+  language: string;
   translation: string;
-  notes: string;
+  forbidden_variants: string; // "; " separated
+  part_of_speech: PartOfSpeech | '';
+  context_notes: string;
+  status: GlossaryEntryStatus;
 }
 
-// Mock terms data for the first glossary
-const MOCK_TERMS: GlossaryTerm[] = [
-  { id: 'term_001', sourceTerm: 'MRI', targetLanguage: 'es', translation: 'Resonancia Magnética', notes: 'Medical imaging technique' },
-  { id: 'term_002', sourceTerm: 'CT Scan', targetLanguage: 'es', translation: 'Tomografía Computarizada', notes: 'Computed tomography' },
-  { id: 'term_003', sourceTerm: 'Diagnosis', targetLanguage: 'es', translation: 'Diagnóstico', notes: 'Medical determination' },
-  { id: 'term_004', sourceTerm: 'Prescription', targetLanguage: 'es', translation: 'Receta', notes: 'Written medication order' },
-  { id: 'term_005', sourceTerm: 'Anesthesia', targetLanguage: 'fr', translation: 'Anesthésie', notes: 'Loss of sensation' },
-  { id: 'term_006', sourceTerm: 'Surgery', targetLanguage: 'fr', translation: 'Chirurgie', notes: 'Operative procedure' },
-  { id: 'term_007', sourceTerm: 'Vital Signs', targetLanguage: 'de', translation: 'Vitalzeichen', notes: 'Basic health measurements' },
-  { id: 'term_008', sourceTerm: 'Blood Pressure', targetLanguage: 'de', translation: 'Blutdruck', notes: 'Arterial pressure' }
-];
+const EMPTY_ENTRY_FORM: NewEntryForm = {
+  source_term: '',
+  language: 'es',
+  translation: '',
+  forbidden_variants: '',
+  part_of_speech: '',
+  context_notes: '',
+  status: 'draft'
+};
 
 /**
  * GlossaryEditPage Component
  *
- * Allows editing glossary details and managing terms with inline editing.
+ * Allows editing glossary details and managing multilingual entries with
+ * inline editing. Adding a translation for a source term that already exists
+ * adds that language to the existing entry. Each save creates a glossary
+ * version; the history modal compares versions and rolls back. "Check
+ * Glossary" runs the linter with quick fixes; a glossary with errors can be
+ * saved but not used in sessions until they are fixed.
  */
-export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
+export function GlossaryEditPage({
+  glossaryId,
+  onBack,
+  glossary: glossaryProp,
+  entries: entriesProp,
+  versions = [],
+  onSave,
+  onRollback
+}: GlossaryEditPageProps) {
   const { toast, showToast } = useToast();
-  const glossary = MOCK_GLOSSARIES[0]; // Using first glossary as editable
+  const glossary = glossaryProp ?? MOCK_GLOSSARIES.find(g => g.id === glossaryId) ?? MOCK_GLOSSARIES[0];
 
   const [glossaryName, setGlossaryName] = useState(glossary.name);
-  const [glossaryDescription, setGlossaryDescription] = useState('Medical terminology for healthcare professionals');
-  const [terms, setTerms] = useState<GlossaryTerm[]>(MOCK_TERMS);
-// ...existing code...
+  const [glossaryDescription, setGlossaryDescription] = useState(glossary.description ?? '');
+  const [entries, setEntries] = useState<GlossaryEntry[]>(entriesProp ?? MOCK_GLOSSARY_ENTRIES[glossary.id] ?? []);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTerms, setSelectedTerms] = useState<Set<string>>(new Set());
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [termToDelete, setTermToDelete] = useState<string | null>(null);
   const [isAddingNew, setIsAddingNew] = useState(false);
-  const [newTerm, setNewTerm] = useState<Omit<GlossaryTerm, 'id'>>({
-    sourceTerm: '',
-    targetLanguage: 'es',
-    translation: '',
-    notes: ''
-  });
+  const [newEntry, setNewEntry] = useState<NewEntryForm>(EMPTY_ENTRY_FORM);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showLint, setShowLint] = useState(false);
+
+  // Re-run as entries change while the report is open, so fixed issues disappear
+  const lintIssues = useMemo(() => (showLint ? lintGlossary(entries) : []), [showLint, entries]);
+  const lintCounts = getLintIssueCounts(lintIssues);
 
   const breadcrumbItems: BreadcrumbItem[] = [
     { label: 'Home', onClick: onBack },
@@ -64,25 +106,71 @@ export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
     { label: 'Edit Glossary' }
   ];
 
-  // Filter terms by search query
-  const filteredTerms = terms.filter(term =>
-    term.sourceTerm.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    term.translation.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    term.targetLanguage.toLowerCase().includes(searchQuery.toLowerCase())
+  const languageName = (code: string) => LANGUAGES.find(lang => lang.code === code)?.name ?? code.toUpperCase();
+
+  // Filter entries by search query (source term, any translation or variant, language code)
+  const query = searchQuery.toLowerCase();
+  const filteredEntries = entries.filter(entry =>
+    entry.source_term.toLowerCase().includes(query) ||
+    Object.entries(entry.translations).some(([language, translation]) =>
+      language.includes(query) ||
+      translation.term.toLowerCase().includes(query) ||
+      translation.forbidden_variants.some(variant => variant.toLowerCase().includes(query))
+    )
   );
 
   const handleSaveChanges = () => {
-    showToast('Glossary changes saved successfully', 'success');
+    if (!onSave) {
+      showToast('Glossary changes saved successfully', 'success');
+      return;
+    }
+
+    const version = onSave({ glossary_id: glossary.id, name: glossaryName, description: glossaryDescription, entries });
+    const blockingCount = getBlockingLintIssues(entries).length;
+    if (version && blockingCount > 0) {
+      setShowLint(true);
+      showToast(
+        `Saved as version ${version.version}, but ${blockingCount} error${blockingCount !== 1 ? 's' : ''} must be fixed before this glossary can be used in a session`,
+        'warning'
+      );
+    } else if (version) {
+      showToast(`Saved as version ${version.version} (${version.summary})`, 'success');
+    } else {
+      showToast('No changes to save', 'info');
+    }
+  };
+
+  // Unsaved edits on the page are replaced by the restored content
+  const handleRollback = (versionNumber: number) => {
+    const version = onRollback?.(versionNumber);
+    if (!version) {
+      showToast(`Version ${versionNumber} matches the current glossary`, 'info');
+      return;
+    }
+
+    setGlossaryName(version.name);
+    setGlossaryDescription(version.description ?? '');
+    setEntries(version.entries);
+    setSelectedTerms(new Set());
+    setShowHistory(false);
+    showToast(`Rolled back to version ${versionNumber}, saved as version ${version.version}`, 'success');
+  };
+
+  const handleLintFix = (issue: GlossaryLintIssue, fix: GlossaryLintFix) => {
+    const next = applyGlossaryLintFix(entries, issue, fix);
+    const remaining = new Set(next.map(entry => entry.id));
+    setEntries(next);
+    setSelectedTerms(prev => new Set(Array.from(prev).filter(id => remaining.has(id))));
   };
 
-  const handleDeleteTerm = (termId: string) => {
-    setTermToDelete(termId);
+  const handleDeleteTerm = (entryId: string) => {
+    setTermToDelete(entryId);
     setShowDeleteConfirm(true);
   };
 
   const confirmDeleteTerm = () => {
     if (termToDelete) {
-      setTerms(terms.filter(t => t.id !== termToDelete));
+      setEntries(entries.filter(e => e.id !== termToDelete));
       showToast('Term deleted', 'success');
       setShowDeleteConfirm(false);
       setTermToDelete(null);
@@ -90,27 +178,56 @@ export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
   };
 
   const handleAddNewTerm = () => {
-    if (!newTerm.sourceTerm || !newTerm.translation) {
+    const sourceTerm = newEntry.source_term.trim();
+    const translation = newEntry.translation.trim();
+    if (!sourceTerm || !translation) {
       showToast('Source term and translation are required', 'error');
       return;
     }
 
-    const term: GlossaryTerm = {
-      id: `term_${Date.now()}`,
-      ...newTerm
-    };
-    setTerms([...terms, term]);
+    const variants = splitVariants(newEntry.forbidden_variants);
+    if (variants.some(variant => getTermKey(variant) === getTermKey(translation))) {
+      showToast('A forbidden variant cannot match the translation', 'error');
+      return;
+    }
+
+    const existing = findEntryBySource(entries, sourceTerm);
+    if (existing) {
+      // Same concept in another language: extend the existing entry
+      const updated = setEntryTranslation(existing, newEntry.language, { term: translation, forbidden_variants: variants });
+      setEntries(entries.map(e => (e.id === existing.id ? updated : e)));
+      showToast(`${languageName(newEntry.language)} translation saved to "${existing.source_term}"`, 'success');
+    } else {
+      const entry: GlossaryEntry = {
+        id: `term_${Date.now()}`,
+        source_term: sourceTerm,
+        translations: { [newEntry.language]: { term: translation, forbidden_variants: variants } },
+        ...(newEntry.part_of_speech && { part_of_speech: newEntry.part_of_speech }),
+        context_notes: newEntry.context_notes.trim(),
+        status: newEntry.status
+      };
+      setEntries([...entries, entry]);
+      showToast('Term added successfully', 'success');
+    }
     setIsAddingNew(false);
-    setNewTerm({ sourceTerm: '', targetLanguage: 'es', translation: '', notes: '' });
-    showToast('Term added successfully', 'success');
+    setNewEntry(EMPTY_ENTRY_FORM);
+  };
+
+  const handleRemoveTranslation = (entry: GlossaryEntry, language: string) => {
+    setEntries(entries.map(e => (e.id === entry.id ? removeEntryTranslation(e, language) : e)));
   };
 
-  const handleToggleSelect = (termId: string) => {
+  const handleToggleStatus = (entry: GlossaryEntry) => {
+    const status: GlossaryEntryStatus = entry.status === 'approved' ? 'draft' : 'approved';
+    setEntries(entries.map(e => (e.id === entry.id ? { ...e, status } : e)));
+  };
+
+  const handleToggleSelect = (entryId: string) => {
     const newSelected = new Set(selectedTerms);
-    if (newSelected.has(termId)) {
-      newSelected.delete(termId);
+    if (newSelected.has(entryId)) {
+      newSelected.delete(entryId);
     } else {
-      newSelected.add(termId);
+      newSelected.add(entryId);
     }
     setSelectedTerms(newSelected);
   };
@@ -120,7 +237,7 @@ export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
       showToast('No terms selected', 'warning');
       return;
     }
-    setTerms(terms.filter(t => !selectedTerms.has(t.id)));
+    setEntries(entries.filter(e => !selectedTerms.has(e.id)));
     setSelectedTerms(new Set());
     showToast(`${selectedTerms.size} terms deleted`, 'success');
   };
@@ -130,7 +247,13 @@ export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
       showToast('No terms selected', 'warning');
       return;
     }
-    showToast(`Exporting ${selectedTerms.size} terms...`, 'success');
+    const selected = entries.filter(e => selectedTerms.has(e.id));
+    const savedAs = exportGlossary(
+      { glossary: { ...glossary, name: glossaryName, description: glossaryDescription }, entries: selected },
+      { format: 'csv', include_metadata: true, include_notes: true },
+      `${glossaryName.toLowerCase().replace(/\s+/g, '_')}_selected`
+    );
+    showToast(`Exported ${selected.length} terms to ${savedAs}`, 'success');
   };
 
   return (
@@ -149,7 +272,19 @@ export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
 
           <Breadcrumbs items={breadcrumbItems} className="mb-4" />
 
-          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Edit Glossary</h1>
+          <div className="flex items-center justify-between">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Edit Glossary</h1>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowLint(true)}>
+                Check Glossary
+              </Button>
+              {versions.length > 0 && (
+                <Button variant="outline" onClick={() => setShowHistory(true)}>
+                  Version History (v{versions[versions.length - 1].version})
+                </Button>
+              )}
+            </div>
+          </div>
         </div>
 
         {/* Glossary Details Form */}
@@ -181,11 +316,37 @@ export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
           </CardContent>
         </Card>
 
+        {/* Glossary Check */}
+        {showLint && (
+          <Card className="mb-6">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>
+                  Glossary Check · {lintCounts.error} errors, {lintCounts.warning} warnings, {lintCounts.info} suggestions
+                </CardTitle>
+                <Button variant="tertiary" size="sm" onClick={() => setShowLint(false)}>
+                  Close
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {lintCounts.error > 0 && (
+                <p className="mb-4 text-sm text-red-700 dark:text-red-400">
+                  Errors in approved terms block this glossary from being used in sessions.
+                </p>
+              )}
+              <GlossaryLintReport issues={lintIssues} onFix={handleLintFix} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Terms Management */}
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
-              <CardTitle>Terms ({terms.length})</CardTitle>
+              <CardTitle>
+                Terms ({entries.length}) · {countTranslations(entries)} translations
+              </CardTitle>
               <Button onClick={() => setIsAddingNew(true)}>
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
@@ -224,10 +385,10 @@ export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
                     <th className="text-left py-3 px-4 w-12">
                       <input
                         type="checkbox"
-                        checked={selectedTerms.size === filteredTerms.length && filteredTerms.length > 0}
+                        checked={selectedTerms.size === filteredEntries.length && filteredEntries.length > 0}
                         onChange={(e) => {
                           if (e.target.checked) {
-                            setSelectedTerms(new Set(filteredTerms.map(t => t.id)));
+                            setSelectedTerms(new Set(filteredEntries.map(entry => entry.id)));
                           } else {
                             setSelectedTerms(new Set());
                           }
@@ -239,13 +400,13 @@ export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
                       Source Term
                     </th>
                     <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
-                      Target Language
+                      Translations
                     </th>
                     <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
-                      Translation
+                      Status
                     </th>
                     <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
-                      Notes
+                      Context Notes
                     </th>
                     <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
                       Actions
@@ -255,43 +416,67 @@ export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
                 <tbody>
                   {/* Add New Term Row */}
                   {isAddingNew && (
-                    <tr className="border-b border-gray-100 dark:border-gray-800 bg-teal-50 dark:bg-teal-900/20">
+                    <tr className="border-b border-gray-100 dark:border-gray-800 bg-teal-50 dark:bg-teal-900/20 align-top">
                       <td className="py-3 px-4"></td>
-                      <td className="py-3 px-4">
+                      <td className="py-3 px-4 space-y-2">
                         <input
                           type="text"
-                          value={newTerm.sourceTerm}
-                          onChange={(e) => setNewTerm({ ...newTerm, sourceTerm: e.target.value })}
+                          value={newEntry.source_term}
+                          onChange={(e) => setNewEntry({ ...newEntry, source_term: e.target.value })}
                           placeholder="Enter term"
                           className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-sm"
                         />
-                      </td>
-                      <td className="py-3 px-4">
                         <select
-                          value={newTerm.targetLanguage}
-                          onChange={(e) => setNewTerm({ ...newTerm, targetLanguage: e.target.value })}
+                          value={newEntry.part_of_speech}
+                          onChange={(e) => setNewEntry({ ...newEntry, part_of_speech: e.target.value as PartOfSpeech | '' })}
                           className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-sm"
                         >
-                          <option value="es">Spanish</option>
-                          <option value="fr">French</option>
-                          <option value="de">German</option>
-                          <option value="zh">Chinese</option>
+                          <option value="">Part of speech</option>
+                          {(Object.keys(PART_OF_SPEECH_LABELS) as PartOfSpeech[]).map(pos => (
+                            <option key={pos} value={pos}>{PART_OF_SPEECH_LABELS[pos]}</option>
+                          ))}
                         </select>
                       </td>
-                      <td className="py-3 px-4">
+                      <td className="py-3 px-4 space-y-2">
+                        <select
+                          value={newEntry.language}
+                          onChange={(e) => setNewEntry({ ...newEntry, language: e.target.value })}
+                          className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-sm"
+                        >
+                          {LANGUAGES.map(lang => (
+                            <option key={lang.code} value={lang.code}>{lang.name}</option>
+                          ))}
+                        </select>
                         <input
                           type="text"
-                          value={newTerm.translation}
-                          onChange={(e) => setNewTerm({ ...newTerm, translation: e.target.value })}
+                          value={newEntry.translation}
+                          onChange={(e) => setNewEntry({ ...newEntry, translation: e.target.value })}
                           placeholder="Enter translation"
                           className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-sm"
                         />
+                        <input
+                          type="text"
+                          value={newEntry.forbidden_variants}
+                          onChange={(e) => setNewEntry({ ...newEntry, forbidden_variants: e.target.value })}
+                          placeholder="Forbidden variants (separate with ;)"
+                          className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-sm"
+                        />
+                      </td>
+                      <td className="py-3 px-4">
+                        <select
+                          value={newEntry.status}
+                          onChange={(e) => setNewEntry({ ...newEntry, status: e.target.value as GlossaryEntryStatus })}
+                          className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-sm"
+                        >
+                          <option value="draft">{GLOSSARY_ENTRY_STATUS_LABELS.draft}</option>
+                          <option value="approved">{GLOSSARY_ENTRY_STATUS_LABELS.approved}</option>
+                        </select>
                       </td>
                       <td className="py-3 px-4">
                         <input
                           type="text"
-                          value={newTerm.notes}
-                          onChange={(e) => setNewTerm({ ...newTerm, notes: e.target.value })}
+                          value={newEntry.context_notes}
+                          onChange={(e) => setNewEntry({ ...newEntry, context_notes: e.target.value })}
                           placeholder="Optional notes"
                           className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-sm"
                         />
@@ -306,45 +491,82 @@ export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
                   )}
 
                   {/* Existing Terms */}
-                  {filteredTerms.map((term) => (
-                    <tr key={term.id} className="border-b border-gray-100 dark:border-gray-800 last:border-0">
+                  {filteredEntries.map((entry) => (
+                    <tr key={entry.id} className="border-b border-gray-100 dark:border-gray-800 last:border-0 align-top">
                       <td className="py-3 px-4">
                         <input
                           type="checkbox"
-                          checked={selectedTerms.has(term.id)}
-                          onChange={() => handleToggleSelect(term.id)}
+                          checked={selectedTerms.has(entry.id)}
+                          onChange={() => handleToggleSelect(entry.id)}
                           className="rounded"
                         />
                       </td>
                       <td className="py-3 px-4 text-sm text-gray-900 dark:text-gray-100">
-                        {term.sourceTerm}
+                        <p className="font-medium">{entry.source_term}</p>
+                        {entry.part_of_speech && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {PART_OF_SPEECH_LABELS[entry.part_of_speech]}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm">
+                        {entry.do_not_translate ? (
+                          <span className="text-gray-600 dark:text-gray-400 italic">Do not translate</span>
+                        ) : (
+                          <ul className="space-y-1">
+                            {Object.entries(entry.translations).map(([language, translation]) => (
+                              <li key={language} className="flex items-start gap-2">
+                                <Badge variant="neutral" size="sm">
+                                  {language.toUpperCase()}
+                                </Badge>
+                                <span className="text-gray-900 dark:text-gray-100">
+                                  {translation.term}
+                                  {translation.forbidden_variants.length > 0 && (
+                                    <span className="block text-xs text-red-600 dark:text-red-400">
+                                      Not: {translation.forbidden_variants.join(', ')}
+                                    </span>
+                                  )}
+                                </span>
+                                <button
+                                  onClick={() => handleRemoveTranslation(entry, language)}
+                                  className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                                  aria-label={`Remove ${languageName(language)} translation`}
+                                >
+                                  ×
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                       </td>
                       <td className="py-3 px-4">
-                        <Badge variant="neutral" size="sm">
-                          {term.targetLanguage.toUpperCase()}
+                        <Badge variant={entry.status === 'approved' ? 'success' : 'warning'} size="sm">
+                          {GLOSSARY_ENTRY_STATUS_LABELS[entry.status]}
                         </Badge>
                       </td>
-                      <td className="py-3 px-4 text-sm text-gray-900 dark:text-gray-100">
-                        {term.translation}
-                      </td>
                       <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400">
-                        {term.notes}
+                        {entry.context_notes}
                       </td>
                       <td className="py-3 px-4 text-right">
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          onClick={() => handleDeleteTerm(term.id)}
-                        >
-                          Delete
-                        </Button>
+                        <div className="flex gap-1 justify-end">
+                          <Button size="sm" variant="outline" onClick={() => handleToggleStatus(entry)}>
+                            {entry.status === 'approved' ? 'Mark Draft' : 'Approve'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleDeleteTerm(entry.id)}
+                          >
+                            Delete
+                          </Button>
+                        </div>
                       </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
 
-              {filteredTerms.length === 0 && (
+              {filteredEntries.length === 0 && (
                 <div className="text-center py-8 text-gray-500 dark:text-gray-400">
                   No terms found
                 </div>
@@ -375,6 +597,15 @@ export function GlossaryEditPage({ onBack }: GlossaryEditPageProps) {
         variant="danger"
       />
 
+      {/* Version History */}
+      <GlossaryVersionHistoryModal
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        glossaryName={glossaryName}
+        versions={versions}
+        onRollback={onRollback ? handleRollback : undefined}
+      />
+
       {/* Toast */}
       <Toast {...toast} />
     </div>
@@ -1,12 +1,15 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
 import { Select } from '../ui/Select';
 import { Breadcrumbs, BreadcrumbItem } from '../ui/Breadcrumbs';
 import { useToast, Toast } from '../ui/Toast';
+import { TranscriptExportModal } from '../modals/TranscriptExportModal';
 import { MOCK_SESSION_DETAIL } from '../../utils/mockSessionDetails';
+import { getSessionDetail } from '../../utils/sessionHistory';
 import { getLanguageByCode } from '../../utils/constants';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from '../../utils/captionConfidence';
 
 export interface SessionDetailPageProps {
   sessionId?: string;
@@ -24,15 +27,15 @@ export interface SessionDetailPageProps {
  * - Language selector for viewing translations
  * - Confidence badges
  * - Participants list
- * - Download options (recording, transcript)
+ * - Download options (recording, transcript as TXT, SRT, WebVTT, DOCX or PDF)
  */
-export function SessionDetailPage({ onBack }: SessionDetailPageProps) {
+export function SessionDetailPage({ sessionId, onBack }: SessionDetailPageProps) {
   const { toast, showToast } = useToast();
   const [selectedTranslationLang, setSelectedTranslationLang] = useState<string>('');
-  const [transcriptFormat, setTranscriptFormat] = useState<string>('txt');
+  const [isTranscriptExportOpen, setIsTranscriptExportOpen] = useState(false);
 
-  // Get session data (using mock data)
-  const session = MOCK_SESSION_DETAIL;
+  // Recorded sessions come from the history; others show the sample session
+  const session = useMemo(() => (sessionId && getSessionDetail(sessionId)) || MOCK_SESSION_DETAIL, [sessionId]);
 
   // Breadcrumbs navigation
   const breadcrumbItems: BreadcrumbItem[] = [
@@ -57,10 +60,6 @@ export function SessionDetailPage({ onBack }: SessionDetailPageProps) {
     showToast('Recording download started', 'success');
   };
 
-  const handleDownloadTranscript = () => {
-    showToast(`Transcript downloaded as ${transcriptFormat.toUpperCase()}`, 'success');
-  };
-
   // Available languages for translation dropdown
   const translationLanguages = session.target_languages.map((code) => {
     const lang = getLanguageByCode(code);
@@ -120,6 +119,12 @@ export function SessionDetailPage({ onBack }: SessionDetailPageProps) {
                 {Math.round(session.metrics.avg_confidence * 100)}%
               </p>
               <p className="text-sm text-gray-600 dark:text-gray-400">Avg. Confidence</p>
+              {session.metrics.low_confidence_rate !== undefined && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {Math.round(session.metrics.low_confidence_rate * 100)}% below the{' '}
+                  {session.metrics.confidence_threshold ?? DEFAULT_CONFIDENCE_THRESHOLD}% threshold
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -351,22 +356,12 @@ export function SessionDetailPage({ onBack }: SessionDetailPageProps) {
                       Full Transcript
                     </p>
                     <p className="text-sm text-gray-600 dark:text-gray-400">
-                      All languages and translations
+                      TXT, SRT, WebVTT, Word or side-by-side PDF
                     </p>
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
-                  <Select
-                    options={[
-                      { value: 'txt', label: 'TXT' },
-                      { value: 'srt', label: 'SRT' },
-                      { value: 'vtt', label: 'VTT' }
-                    ]}
-                    value={transcriptFormat}
-                    onChange={(e) => setTranscriptFormat(e.target.value)}
-                    className="w-28"
-                  />
-                  <Button variant="outline" onClick={handleDownloadTranscript}>
+                  <Button variant="outline" onClick={() => setIsTranscriptExportOpen(true)}>
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path
                         strokeLinecap="round"
@@ -384,6 +379,12 @@ export function SessionDetailPage({ onBack }: SessionDetailPageProps) {
         </Card>
       </div>
 
+      <TranscriptExportModal
+        isOpen={isTranscriptExportOpen}
+        onClose={() => setIsTranscriptExportOpen(false)}
+        session={session}
+      />
+
       {/* Toast notifications */}
       <Toast {...toast} />
     </div>
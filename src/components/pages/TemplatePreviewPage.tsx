@@ -7,6 +7,14 @@ import { useToast, Toast } from '../ui/Toast';
 import { ConfirmationModal } from '../ui/ConfirmationModal';
 import { MOCK_TEMPLATES } from '../../utils/mockData';
 import { getLanguageByCode } from '../../utils/constants';
+import { formatGlossaryRef } from '../../utils/glossaryVersions';
+import type { LowConfidencePolicy } from '../../types';
+
+const LOW_CONFIDENCE_POLICY_LABELS: Record<LowConfidencePolicy, string> = {
+  flag: 'Marked "?"',
+  dim: 'Greyed out',
+  hide: 'Hidden'
+};
 
 export interface TemplatePreviewPageProps {
   templateId: string;
@@ -51,12 +59,9 @@ export function TemplatePreviewPage({ onBack, onEdit, onUse }: TemplatePreviewPa
     }
   };
 
+  // Only offered when the user may edit the template
   const handleEdit = () => {
-    if (onEdit) {
-      onEdit();
-    } else {
-      showToast('Opening template editor...', 'info');
-    }
+    onEdit?.();
   };
 
   const handleDuplicate = () => {
@@ -203,10 +208,16 @@ export function TemplatePreviewPage({ onBack, onEdit, onUse }: TemplatePreviewPa
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Glossary Attached
+                    Glossaries Attached
                   </p>
-                  {template.glossary_id ? (
-                    <Badge variant="success">Product Names</Badge>
+                  {template.glossaries?.length ? (
+                    <div className="flex flex-wrap gap-1">
+                      {template.glossaries.map(ref => (
+                        <Badge key={ref.glossary_id} variant="success">
+                          {formatGlossaryRef(ref)}
+                        </Badge>
+                      ))}
+                    </div>
                   ) : (
                     <p className="text-gray-500 dark:text-gray-500">None</p>
                   )}
@@ -285,6 +296,20 @@ export function TemplatePreviewPage({ onBack, onEdit, onUse }: TemplatePreviewPa
                     </Badge>
                   </div>
 
+                  <div className="flex items-center justify-between py-2 border-b border-gray-100 dark:border-gray-800">
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-gray-100">
+                        Low-Confidence Translations
+                      </p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        How participants see translations below the threshold
+                      </p>
+                    </div>
+                    <Badge variant="info">
+                      {LOW_CONFIDENCE_POLICY_LABELS[template.low_confidence_policy]}
+                    </Badge>
+                  </div>
+
                   <div className="flex items-center justify-between py-2">
                     <div>
                       <p className="font-medium text-gray-900 dark:text-gray-100">
@@ -313,9 +338,11 @@ export function TemplatePreviewPage({ onBack, onEdit, onUse }: TemplatePreviewPa
                 <Button variant="primary" onClick={handleUseTemplate}>
                   Use This Template
                 </Button>
-                <Button variant="outline" onClick={handleEdit}>
-                  Edit Template
-                </Button>
+                {onEdit && (
+                  <Button variant="outline" onClick={handleEdit}>
+                    Edit Template
+                  </Button>
+                )}
                 <Button variant="outline" onClick={handleDuplicate}>
                   Duplicate
                 </Button>
@@ -4,12 +4,21 @@ import { Button } from '../../ui/Button';
 import { Badge } from '../../ui/Badge';
 import { NavigationHeader, NavigationAction } from '../../ui/NavigationHeader';
 import { SidebarCompactLayout } from '../../ui/SidebarLayout';
+import { ConfirmationModal } from '../../ui/ConfirmationModal';
+import { useToast, Toast } from '../../ui/Toast';
 // ...existing code...
 import { HelpModal } from '../modals/HelpModal';
+import LanguageRequestApprovalModal from './LanguageRequestApprovalModal';
+import ParticipantQuotaModal from './ParticipantQuotaModal';
 import { useUser } from '../../../context/UserContext';
-import { useSession } from '../../../context/SessionContext';
+import { useSession, LanguageAvailabilityChange } from '../../../context/SessionContext';
 import { useZoom } from '../../../context/ZoomContext';
 import { LANGUAGES } from '../../../utils/constants';
+import { getActiveTargetLanguages, isLanguageDisabled } from '../../../utils/sessionLanguages';
+import { estimateLanguageRequestCost, getPendingLanguageRequests } from '../../../utils/languageRequests';
+import { summarizeGlossaryHits } from '../../../utils/glossaryEngine';
+import { formatGlossaryRef } from '../../../utils/glossaryVersions';
+import { LOW_CONFIDENCE_ALERT_RATE, getConfidencePolicy, getRollingLowConfidenceRate } from '../../../utils/captionConfidence';
 // ...existing code...
 
 /**
@@ -22,6 +31,9 @@ import { LANGUAGES } from '../../../utils/constants';
  * - Quick actions (Share URL, Pause, End)
  * - Participant tracking with language breakdown
  * - Translation health monitoring
+ * - Per-language disable/enable and removal (viewers move to a fallback language)
+ * - Participant language request queue with approval and cost preview
+ * - Rolling low-confidence caption rate, with a prompt to ask speakers to slow down
  * - Secondary actions (settings, preview, help)
  */
 
@@ -44,19 +56,36 @@ export function HostActive({ onEnd, onSettings, onViewAsParticipant }: HostActiv
     participantsTotal,
     pauseSession,
     resumeSession,
-    stopSession
+    stopSession,
+    removeLanguageFromSession,
+    setLanguageEnabled,
+    languageRequests,
+    approveLanguageRequest,
+    denyLanguageRequest,
+    approveAllLanguageRequests,
+    admissionQueue,
+    pendingBracketApproval,
+    approveParticipantBracket,
+    denyParticipantBracket,
+    glossaryEntries,
+    glossaryConflicts,
+    glossaryHits,
+    captions
   } = useSession();
   const { shareApp } = useZoom();
 
   const [showParticipants, setShowParticipants] = useState(false);
   // ...existing code...
   const [showHelpModal, setShowHelpModal] = useState(false);
+  const [languageToRemove, setLanguageToRemove] = useState<string | null>(null);
+  const [reviewRequestId, setReviewRequestId] = useState<string | null>(null);
+  const { toast, showToast } = useToast();
 
-  // Group participants by language
+  // Group participants by the language they report viewing (via the app message bus)
   const participantsByLanguage = useMemo(() => {
     const grouped: Record<string, typeof participants> = {};
 
-    participants.forEach(participant => {
+    participants.filter(participant => participant.is_viewing).forEach(participant => {
       const lang = participant.selected_language;
       if (!grouped[lang]) {
         grouped[lang] = [];
@@ -108,7 +137,7 @@ export function HostActive({ onEnd, onSettings, onViewAsParticipant }: HostActiv
     const baseUrl = `https://meetingsync.zoom.us/meeting/${meetingId}`;
     
     // Generate language-specific URLs
-    const participantUrls = session.target_languages.map((lang: string) => {
+    const participantUrls = getActiveTargetLanguages(session).map((lang: string) => {
       const langName = getLanguageName(lang);
       return {
         language: langName,
@@ -140,6 +169,39 @@ export function HostActive({ onEnd, onSettings, onViewAsParticipant }: HostActiv
     });
   };
 
+  // Tell the host where viewers of a removed/disabled language were moved
+  const announceLanguageChange = (change: LanguageAvailabilityChange | null, action: string) => {
+    if (!change) return;
+
+    const languageName = getLanguageName(change.language_code);
+    const movedCount = change.moved_participants.length;
+    const movedText = movedCount > 0
+      ? ` ${movedCount} participant${movedCount === 1 ? '' : 's'} moved to ${getLanguageName(change.fallback_language)}.`
+      : '';
+    showToast(`${languageName} ${action}.${movedText}`, 'info');
+  };
+
+  // Handle per-language disable/enable
+  const handleToggleLanguage = (langCode: string) => {
+    if (!session) return;
+
+    const enable = isLanguageDisabled(session, langCode);
+    const change = setLanguageEnabled(langCode, enable);
+    if (enable) {
+      showToast(`${getLanguageName(langCode)} re-enabled`, 'success');
+    } else {
+      announceLanguageChange(change, 'paused');
+    }
+  };
+
+  // Handle language removal (after confirmation)
+  const handleConfirmRemoveLanguage = () => {
+    if (!languageToRemove) return;
+
+    announceLanguageChange(removeLanguageFromSession(languageToRemove), 'removed');
+    setLanguageToRemove(null);
+  };
+
   // Handle pause/resume
   const handlePauseResume = () => {
     if (isPaused) {
@@ -182,6 +244,20 @@ export function HostActive({ onEnd, onSettings, onViewAsParticipant }: HostActiv
     );
   }
 
+  // Participant language requests, most requested first
+  const pendingRequests = getPendingLanguageRequests(languageRequests);
+  const reviewRequest = pendingRequests.find(request => request.id === reviewRequestId);
+  const reviewLanguage = reviewRequest ? LANGUAGES.find(lang => lang.code === reviewRequest.language_code) : undefined;
+  const reviewCost = reviewRequest ? estimateLanguageRequestCost(session, reviewRequest.language_code) : undefined;
+
+  // Glossary effectiveness for this session
+  const glossarySummary = glossaryEntries.length > 0 ? summarizeGlossaryHits(glossaryHits, glossaryEntries) : null;
+
+  // Recognition quality of the latest captions
+  const confidenceRate = getRollingLowConfidenceRate(captions, session);
+  const confidenceThreshold = getConfidencePolicy(session).threshold;
+  const isConfidenceLow = confidenceRate.rate > LOW_CONFIDENCE_ALERT_RATE;
+
   return (
     <SidebarCompactLayout 
       className="bg-gray-50 dark:bg-gray-900"
@@ -223,7 +299,7 @@ export function HostActive({ onEnd, onSettings, onViewAsParticipant }: HostActiv
           <div className="space-y-3">
             <div className="flex items-center gap-2">
               <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
-                {isPaused ? 'PAUSED' : 'ACTIVE'} - Translating {getLanguageName(session.source_language)} → {session.target_languages.length} languages
+                {isPaused ? 'PAUSED' : 'ACTIVE'} - Translating {getLanguageName(session.source_language)} → {getActiveTargetLanguages(session).length} languages
               </h2>
             </div>
 
@@ -243,6 +319,97 @@ export function HostActive({ onEnd, onSettings, onViewAsParticipant }: HostActiv
         </CardContent>
       </Card>
 
+      {/* Language Requests */}
+      {pendingRequests.length > 0 && (
+        <Card variant="default" padding="lg">
+          <CardHeader>
+            <CardTitle>Language Requests</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {pendingRequests.map(request => (
+                <div
+                  key={request.id}
+                  className="flex items-center justify-between gap-2 p-2 rounded-lg bg-purple-50 dark:bg-purple-900/20"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {getLanguageName(request.language_code)}
+                    </span>
+                    <Badge variant="info" size="sm">
+                      {request.requesters.length} {request.requesters.length === 1 ? 'request' : 'requests'}
+                    </Badge>
+                  </div>
+                  <Button variant="primary" size="sm" onClick={() => setReviewRequestId(request.id)}>
+                    Review
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Glossary */}
+      {glossarySummary && (
+        <Card variant="default" padding="lg">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Glossary</CardTitle>
+              <Badge variant="info" size="sm">
+                {glossarySummary.terms_used}/{glossarySummary.term_count} terms used
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {glossarySummary.total_hits === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                No glossary terms have come up in captions yet.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {glossarySummary.total_hits} glossary {glossarySummary.total_hits === 1 ? 'hit' : 'hits'} in captions
+                </p>
+                {glossarySummary.top_terms.map(term => (
+                  <div key={term.term_id} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-900 dark:text-gray-100">{term.source_term}</span>
+                    <span className="text-gray-600 dark:text-gray-400">
+                      {term.total}× {term.replaced > 0 && `(${term.replaced} corrected)`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Caption Quality */}
+      {confidenceRate.sample_size > 0 && (
+        <Card variant="default" padding="lg">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Caption Quality</CardTitle>
+              <Badge variant={isConfidenceLow ? 'warning' : 'success'} size="sm">
+                {Math.round(confidenceRate.rate * 100)}% low confidence
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {Math.round(confidenceRate.rate * confidenceRate.sample_size)} of the last {confidenceRate.sample_size}{' '}
+              captions were below the {confidenceThreshold}% confidence threshold.
+            </p>
+            {isConfidenceLow && (
+              <p className="mt-2 text-sm text-yellow-700 dark:text-yellow-400">
+                Speech is hard to recognize right now. Consider asking speakers to slow down and speak one at a time.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Card variant="default" padding="lg">
         <CardHeader>
@@ -314,6 +481,11 @@ export function HostActive({ onEnd, onSettings, onViewAsParticipant }: HostActiv
         >
           <CardTitle>
             Participants ({participantsViewing} viewing)
+            {admissionQueue.length > 0 && (
+              <Badge variant="warning" size="sm" className="ml-2">
+                {admissionQueue.length} waiting
+              </Badge>
+            )}
           </CardTitle>
           <span className="text-gray-500 dark:text-gray-400">
             {showParticipants ? '[Collapse ▲]' : '[Expand ▼]'}
@@ -369,15 +541,37 @@ export function HostActive({ onEnd, onSettings, onViewAsParticipant }: HostActiv
               <Badge variant="success">Excellent</Badge>
             </div>
 
-            <div className="flex items-center justify-between">
+            <div className="space-y-2">
               <span className="text-sm text-gray-700 dark:text-gray-300">Languages Active:</span>
-              <div className="flex flex-wrap gap-2 max-w-full sm:max-w-xs">
-                {session.target_languages.map(langCode => (
-                  <Badge key={langCode} variant="info">
-                    {langCode.toUpperCase()}
-                  </Badge>
-                ))}
-              </div>
+              <ul className="space-y-2">
+                {session.target_languages.map(langCode => {
+                  const disabled = isLanguageDisabled(session, langCode);
+                  const viewerCount = participantsByLanguage[langCode]?.length || 0;
+                  return (
+                    <li key={langCode} className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Badge variant={disabled ? 'neutral' : 'info'}>
+                          {langCode.toUpperCase()}
+                        </Badge>
+                        <span className={`text-sm truncate ${disabled ? 'text-gray-400 dark:text-gray-500 line-through' : 'text-gray-700 dark:text-gray-300'}`}>
+                          {getLanguageName(langCode)}
+                        </span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                          {disabled ? 'Paused' : `${viewerCount} viewing`}
+                        </span>
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <Button variant="outline" size="sm" onClick={() => handleToggleLanguage(langCode)}>
+                          {disabled ? 'Enable' : 'Disable'}
+                        </Button>
+                        <Button variant="tertiary" size="sm" onClick={() => setLanguageToRemove(langCode)}>
+                          Remove
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
             </div>
 
             <div className="flex items-center justify-between">
@@ -385,12 +579,25 @@ export function HostActive({ onEnd, onSettings, onViewAsParticipant }: HostActiv
               <Badge variant="success">&lt;1 second</Badge>
             </div>
 
-            {session.glossary_id && (
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-700 dark:text-gray-300">Glossary:</span>
-                <Badge variant="info">{session.glossary_name || 'Active'}</Badge>
+            {session.glossaries?.length ? (
+              <div className="flex items-start justify-between gap-2">
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  {session.glossaries.length > 1 ? 'Glossaries:' : 'Glossary:'}
+                </span>
+                <div className="flex flex-col items-end gap-1">
+                  {session.glossaries.map(ref => (
+                    <Badge key={ref.glossary_id} variant="info">
+                      {formatGlossaryRef(ref)}
+                    </Badge>
+                  ))}
+                  {glossaryConflicts.length > 0 && (
+                    <span className="text-xs text-yellow-700 dark:text-yellow-400">
+                      {glossaryConflicts.length} conflict{glossaryConflicts.length !== 1 ? 's' : ''} resolved by glossary order
+                    </span>
+                  )}
+                </div>
               </div>
-            )}
+            ) : null}
           </div>
         </CardContent>
       </Card>
@@ -411,6 +618,59 @@ export function HostActive({ onEnd, onSettings, onViewAsParticipant }: HostActiv
           isOpen={showHelpModal}
           onClose={() => setShowHelpModal(false)}
         />
+
+        {/* Remove Language Confirmation */}
+        <ConfirmationModal
+          isOpen={languageToRemove !== null}
+          onClose={() => setLanguageToRemove(null)}
+          onConfirm={handleConfirmRemoveLanguage}
+          title={`Remove ${languageToRemove ? getLanguageName(languageToRemove) : ''}?`}
+          message="Translation into this language stops now. Participants viewing it will be moved to another language. Billing up to this point is kept."
+          confirmText="Remove Language"
+          variant="danger"
+        />
+
+        {/* Language Request Approval */}
+        {reviewRequest && reviewLanguage && reviewCost && (
+          <LanguageRequestApprovalModal
+            isOpen={true}
+            onClose={() => setReviewRequestId(null)}
+            onApprove={() => {
+              approveLanguageRequest(reviewRequest.id);
+              setReviewRequestId(null);
+            }}
+            onDeny={() => {
+              denyLanguageRequest(reviewRequest.id);
+              setReviewRequestId(null);
+            }}
+            onApproveAll={() => {
+              approveAllLanguageRequests();
+              setReviewRequestId(null);
+            }}
+            requestedLanguage={reviewLanguage}
+            requesters={reviewRequest.requesters}
+            estimatedCost={reviewCost.hourly_cost}
+            currentLanguageCount={reviewCost.current_language_count}
+            tierLimit={reviewCost.tier_limit}
+          />
+        )}
+
+        {/* New participant multiplier bracket */}
+        {pendingBracketApproval && (
+          <ParticipantQuotaModal
+            isOpen={true}
+            onClose={denyParticipantBracket}
+            onApprove={approveParticipantBracket}
+            onDeny={denyParticipantBracket}
+            pendingParticipant={{ name: pendingBracketApproval.participant_name }}
+            currentCount={pendingBracketApproval.current_count}
+            currentMultiplier={pendingBracketApproval.from_multiplier}
+            nextMultiplier={pendingBracketApproval.to_multiplier}
+            projectedCostDelta={pendingBracketApproval.hourly_cost_delta}
+          />
+        )}
+
+        <Toast {...toast} />
       </div>
     </SidebarCompactLayout>
   );
@@ -4,6 +4,7 @@ import { NavigationHeader } from '../../ui/NavigationHeader';
 import { SidebarSettingsLayout } from '../../ui/SidebarLayout';
 import { ActivityTab } from '../../features/ActivityTab';
 import { TemplatesTab } from '../../features/TemplatesTab';
+import { ScheduledSessionsTab } from '../../features/ScheduledSessionsTab';
 import { GlossariesTab } from '../../features/GlossariesTab';
 import { AccountTab } from '../../features/AccountTab';
 import { PreferencesTab } from '../../features/PreferencesTab';
@@ -16,9 +17,10 @@ import { PreferencesTab } from '../../features/PreferencesTab';
  * Tabs:
  * 1. Activity - Session history and usage stats (Wordly-style)
  * 2. Templates - Saved session configurations
- * 3. Glossaries - Custom terminology management
- * 4. Account - Billing, invoices, subscription
- * 5. Preferences - App settings and notifications
+ * 3. Scheduled - Translation preconfigured for upcoming meetings
+ * 4. Glossaries - Custom terminology management
+ * 5. Account - Billing, invoices, subscription
+ * 6. Preferences - App settings and notifications
  */
 
 interface HostSettingsProps {
@@ -40,6 +42,11 @@ export function HostSettings({ onBack, defaultTab = 'activity', onAddPaymentMeth
       label: 'Templates',
       content: <TemplatesTab />
     },
+    {
+      id: 'scheduled',
+      label: 'Scheduled',
+      content: <ScheduledSessionsTab />
+    },
     {
       id: 'glossaries',
       label: 'Glossaries',
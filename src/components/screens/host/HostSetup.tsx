@@ -16,12 +16,21 @@ import { useSession } from '../../../context/SessionContext';
 import { useZoom } from '../../../context/ZoomContext';
 import { LANGUAGES, MEETING_TYPES, GLOSSARIES_BY_TYPE, calculateParticipantMultiplier } from '../../../utils/constants';
 import { pricingConfig } from '../../../utils/pricingManager';
-import { MOCK_TEMPLATES, MOCK_GLOSSARIES } from '../../../utils/mockData';
-import { MeetingType, SubscriptionTier } from '../../../types';
+import { MOCK_GLOSSARIES } from '../../../utils/mockData';
+import { GlossaryRef, LowConfidencePolicy, MeetingType, SubscriptionTier, TemplateFields } from '../../../types';
 import { TierConfirmationModal } from '../modals/TierConfirmationModal';
 import { canChangeTier } from '../../../utils/tierLockUtils';
 import { CreateTemplateModal } from '../modals/CreateTemplateModal';
 import { UploadGlossaryModal } from '../modals/UploadGlossaryModal';
+import { GlossaryStackEditor } from '../../features/GlossaryStackEditor';
+import { getGlossaryStackErrors } from '../../../utils/glossaryComposition';
+import { createTemplate, listUsableTemplates, loadPersonalTemplates, savePersonalTemplates } from '../../../utils/templateLibrary';
+import {
+  findScheduledSession,
+  loadScheduledSessions,
+  markScheduledSessionStarted,
+  saveScheduledSessions
+} from '../../../utils/scheduledSessions';
 
 /**
  * HostSetup Screen (Screens 1A & 1B)
@@ -32,6 +41,8 @@ import { UploadGlossaryModal } from '../modals/UploadGlossaryModal';
  *
  * Features:
  * - Template loading (quick start)
+ * - Scheduled sessions: the configuration scheduled for this meeting is
+ *   loaded automatically (and started, if the schedule says so)
  * - Meeting type selector with glossary suggestions
  * - Language selection (source + multiple targets)
  * - Tier selection (PAYG only)
@@ -54,6 +65,7 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
 
   // Configuration state
   const [selectedTemplate, setSelectedTemplate] = useState<string>('none');
+  const [templates, setTemplates] = useState(() => listUsableTemplates(user));
   const [meetingType, setMeetingType] = useState<MeetingType>('general');
   const [selectedTier, setSelectedTier] = useState<SubscriptionTier | null>(user?.subscription_tier || null);
   const [sourceLanguage, setSourceLanguage] = useState<string>('en');
@@ -67,8 +79,9 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
   // Advanced options state
   const [ttsEnabled, setTtsEnabled] = useState(true);
   const [confidenceThreshold, setConfidenceThreshold] = useState(80);
+  const [lowConfidencePolicy, setLowConfidencePolicy] = useState<LowConfidencePolicy>('flag');
   const [showPartialResults, setShowPartialResults] = useState(true);
-  const [selectedGlossary, setSelectedGlossary] = useState<string | null>(null);
+  const [selectedGlossaries, setSelectedGlossaries] = useState<GlossaryRef[]>([]); // Ordered by precedence
   const [hostInstructions, setHostInstructions] = useState<string>('');
 
   // Modal states
@@ -80,6 +93,14 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
   // Track if we're waiting for session to start
   const [isStarting, setIsStarting] = useState(false);
 
+  // Schedule for the meeting the app is open in
+  const scheduledSession = useMemo(
+    () => (user && meetingContext ? findScheduledSession(loadScheduledSessions(user.id), meetingContext) : null),
+    [user, meetingContext]
+  );
+  const appliedScheduleIdRef = useRef<string | null>(null);
+  const [isAutoStartPending, setIsAutoStartPending] = useState(false);
+
   // Track language loading state (simulated for skeleton display)
   const [isLoadingLanguages, setIsLoadingLanguages] = useState(true);
 
@@ -153,37 +174,60 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
       return;
     }
 
-    const template = MOCK_TEMPLATES.find(t => t.id === selectedTemplate);
+    const template = templates.find(t => t.id === selectedTemplate);
     if (!template) return;
 
     setMeetingType(template.meeting_type);
     setSourceLanguage(template.source_language);
     setTargetLanguages(template.target_languages);
-    if (template.glossary_id) {
-      setSelectedGlossary(template.glossary_id);
+    if (template.glossaries?.length) {
+      setSelectedGlossaries(template.glossaries);
     }
     if (template.host_instructions) {
       setHostInstructions(template.host_instructions);
     }
+    setTtsEnabled(template.tts_enabled);
+    setConfidenceThreshold(template.confidence_threshold);
+    setLowConfidencePolicy(template.low_confidence_policy);
+    setShowPartialResults(template.show_partial_results);
 
     console.log('[HostSetup] Loaded template:', template.name);
-  }, [selectedTemplate]);
+  }, [selectedTemplate, templates]);
+
+  // Load the scheduled configuration (once per schedule, so later edits stick)
+  useEffect(() => {
+    if (!scheduledSession || appliedScheduleIdRef.current === scheduledSession.id) return;
+    appliedScheduleIdRef.current = scheduledSession.id;
+
+    const { config } = scheduledSession;
+    setMeetingType(config.meeting_type);
+    setSourceLanguage(config.source_language);
+    setTargetLanguages(config.target_languages);
+    setSelectedGlossaries(config.glossaries ?? []);
+    setHostInstructions(config.host_instructions ?? '');
+    setTtsEnabled(config.tts_enabled);
+    setConfidenceThreshold(config.confidence_threshold);
+    setLowConfidencePolicy(config.low_confidence_policy);
+    setShowPartialResults(config.show_partial_results);
+    if (scheduledSession.auto_start) setIsAutoStartPending(true);
+
+    console.log('[HostSetup] Loaded scheduled session for meeting', scheduledSession.meeting_id);
+  }, [scheduledSession]);
+
+  // Lint errors in any selected glossary block starting the session
+  const glossaryErrorCount = useMemo(
+    () => getGlossaryStackErrors(selectedGlossaries).reduce((sum, item) => sum + item.error_count, 0),
+    [selectedGlossaries]
+  );
+  const isSuggestedGlossarySelected = selectedGlossaries.some(ref => ref.glossary_id === suggestedGlossary?.id);
 
   // Auto-suggest glossary when meeting type changes
   useEffect(() => {
-    if (suggestedGlossary && !selectedGlossary) {
+    if (suggestedGlossary && !isSuggestedGlossarySelected) {
       // Don't auto-select, just show suggestion
       console.log('[HostSetup] Suggested glossary:', suggestedGlossary.name);
     }
-  }, [suggestedGlossary, selectedGlossary]);
-
-  // Check if user wants to upload glossary
-  useEffect(() => {
-    if (selectedGlossary === 'upload-new') {
-      setShowUploadGlossaryModal(true);
-      setSelectedGlossary(null); // Reset dropdown
-    }
-  }, [selectedGlossary]);
+  }, [suggestedGlossary, isSuggestedGlossarySelected]);
 
   // Navigate to active screen when session becomes active
   useEffect(() => {
@@ -359,6 +403,15 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
       return;
     }
 
+    if (glossaryErrorCount > 0) {
+      console.log('[HostSetup] ❌ Selected glossaries have lint errors');
+      showToast(
+        `The selected glossaries have ${glossaryErrorCount} error${glossaryErrorCount !== 1 ? 's' : ''}. Fix them in Glossaries or remove the glossary.`,
+        'error'
+      );
+      return;
+    }
+
     // NEW: If PAYG user hasn't set tier yet, set it now (first session of billing period)
     if (isPAYG && !isDailyFreeTier && !user?.subscription_tier && selectedTier) {
       console.log('[HostSetup] 📌 Setting tier for first session of billing period:', selectedTier);
@@ -381,39 +434,63 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
       source_language: sourceLanguage,
       target_languages: targetLanguages,
       meeting_type: meetingType,
-      glossary_id: selectedGlossary || undefined,
+      glossaries: selectedGlossaries,
       meeting_title: meetingContext?.meetingTopic,
       allow_language_requests: allowLanguageRequests,
       allow_participant_overage: allowParticipantOverage,
-      tts_enabled: ttsEnabled
+      tts_enabled: ttsEnabled,
+      show_partial_results: showPartialResults,
+      confidence_threshold: confidenceThreshold,
+      low_confidence_policy: lowConfidencePolicy
     });
 
     console.log('[HostSetup] startSession completed, waiting for isActive to become true...');
     // Navigation will happen automatically in useEffect when isActive becomes true
+
+    // A schedule is used up once its session starts
+    if (scheduledSession && user) {
+      saveScheduledSessions(user.id, markScheduledSessionStarted(loadScheduledSessions(user.id), scheduledSession.id));
+    }
   };
 
+  // Auto-start runs the render after the scheduled configuration is applied,
+  // through a ref so it sees that render's handleStart
+  const handleStartRef = useRef(handleStart);
+  handleStartRef.current = handleStart;
+  useEffect(() => {
+    if (!isAutoStartPending) return;
+    setIsAutoStartPending(false);
+    console.log('[HostSetup] Auto-starting scheduled session');
+    handleStartRef.current();
+  }, [isAutoStartPending]);
+
   // Use suggested glossary
   const useSuggestedGlossary = () => {
-    if (suggestedGlossary) {
-      setSelectedGlossary(suggestedGlossary.id);
+    if (suggestedGlossary && !isSuggestedGlossarySelected) {
+      setSelectedGlossaries(prev => [...prev, { glossary_id: suggestedGlossary.id }]);
     }
   };
 
   // Handle save template
-  const handleSaveTemplate = (template: any) => {
-    console.log('[HostSetup] Template saved:', template);
-    // In production, this would save to backend
-    // For now, just apply the template to current session
-    setMeetingType(template.meeting_type);
-    setSourceLanguage(template.source_language);
-    setTargetLanguages(template.target_languages);
-    if (template.glossary_id) {
-      setSelectedGlossary(template.glossary_id);
-    }
-    if (template.host_instructions) {
-      setHostInstructions(template.host_instructions);
-    }
+  const handleSaveTemplate = (fields: TemplateFields) => {
+    // The modal doesn't ask for advanced options; keep the ones set up here
+    const templateUser = user ?? { id: 'current_user', name: 'You' };
+    const template = createTemplate(
+      {
+        ...fields,
+        tts_enabled: ttsEnabled,
+        confidence_threshold: confidenceThreshold,
+        low_confidence_policy: lowConfidencePolicy,
+        show_partial_results: showPartialResults
+      },
+      templateUser
+    );
+    savePersonalTemplates(templateUser.id, [...loadPersonalTemplates(templateUser.id), template]);
+    setTemplates(listUsableTemplates(templateUser));
+    setSelectedTemplate(template.id); // Applies it to the current session
     setShowCreateTemplateModal(false);
+    showToast(`Template "${template.name}" saved`, 'success');
+    console.log('[HostSetup] Template saved:', template.name);
   };
 
   // Handle upload glossary
@@ -422,7 +499,7 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
     // In production, this would upload to backend and return glossary ID
     // For now, just create a temporary ID and use it
     const tempGlossaryId = `temp-${Date.now()}`;
-    setSelectedGlossary(tempGlossaryId);
+    setSelectedGlossaries(prev => [...prev, { glossary_id: tempGlossaryId }]);
     setShowUploadGlossaryModal(false);
     alert(`Glossary "${glossary.name}" uploaded successfully with ${glossary.termCount} terms!`);
   };
@@ -459,6 +536,18 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
         </CardHeader>
         <CardContent>
           <div className="space-y-6">
+            {/* Scheduled Session */}
+            {scheduledSession && (
+              <div className="bg-teal-50 dark:bg-teal-900/20 border border-teal-200 dark:border-teal-700 rounded-lg p-4">
+                <p className="text-sm text-teal-900 dark:text-teal-100">
+                  Loaded the translation scheduled for{' '}
+                  <strong>{scheduledSession.meeting_topic || 'this meeting'}</strong> (
+                  {new Date(scheduledSession.scheduled_start).toLocaleString()})
+                  {scheduledSession.auto_start ? '; starting automatically.' : '. Review it and start when ready.'}
+                </p>
+              </div>
+            )}
+
             {/* Template Selector */}
             <Select
               label="Load Template"
@@ -466,7 +555,7 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
               onChange={(e) => setSelectedTemplate(e.target.value)}
               options={[
                 { value: 'none', label: 'None (Start Fresh)' },
-                ...MOCK_TEMPLATES.map(t => ({ value: t.id, label: t.name })),
+                ...templates.map(t => ({ value: t.id, label: t.sharing ? `${t.name} (shared)` : t.name })),
                 { value: 'create-new', label: '+ Create New Template' }
               ]}
               aria-label="Load template for quick setup. Choose a saved template to automatically fill language and meeting settings"
@@ -486,14 +575,14 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
             />
 
             {/* Glossary Suggestion */}
-            {suggestedGlossary && !selectedGlossary && (
+            {suggestedGlossary && !isSuggestedGlossarySelected && (
               <div className="bg-teal-50 dark:bg-teal-900/20 border border-teal-200 dark:border-teal-700 rounded-lg p-4">
                 <p className="text-sm text-teal-900 dark:text-teal-100 mb-3">
                   Suggested Glossary: <strong>{suggestedGlossary.name}</strong> ({suggestedGlossary.term_count} terms)
                 </p>
                 <div className="flex gap-3">
                   <Button variant="primary" size="sm" onClick={useSuggestedGlossary}>
-                    Use This Glossary
+                    {selectedGlossaries.length > 0 ? 'Add This Glossary' : 'Use This Glossary'}
                   </Button>
                   <Button variant="secondary" size="sm" onClick={() => setShowAdvanced(true)}>
                     Choose Different
@@ -960,6 +1049,16 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
                 <p className="text-xs text-gray-500 dark:text-gray-400">
                   Filter low-confidence translations (0-100%)
                 </p>
+                <Select
+                  label="Below the threshold"
+                  value={lowConfidencePolicy}
+                  onChange={(e) => setLowConfidencePolicy(e.target.value as LowConfidencePolicy)}
+                  options={[
+                    { value: 'flag', label: 'Mark with "?"' },
+                    { value: 'dim', label: 'Grey out' },
+                    { value: 'hide', label: 'Hide' }
+                  ]}
+                />
               </div>
 
               {/* Show Partial Results */}
@@ -976,21 +1075,19 @@ export function HostSetup({ onStart, onCancel, onSettings, onOpenTierModal }: Ho
                 />
               </div>
 
-              {/* Glossary Selector */}
-              <Select
-                label="Glossary"
-                value={selectedGlossary || ''}
-                onChange={(e) => setSelectedGlossary(e.target.value || null)}
-                options={[
-                  { value: '', label: 'None' },
-                  ...MOCK_GLOSSARIES.map(g => ({
-                    value: g.id,
-                    label: `${g.name} (${g.term_count} terms)`
-                  })),
-                  { value: 'upload-new', label: '+ Upload New CSV' }
-                ]}
+              {/* Glossary Selector - ordered, earlier glossaries win conflicts */}
+              <GlossaryStackEditor
+                glossaries={selectedGlossaries}
+                onChange={setSelectedGlossaries}
+                onUploadNew={() => setShowUploadGlossaryModal(true)}
               />
 
+              {glossaryErrorCount > 0 && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  The selected glossaries have {glossaryErrorCount} error{glossaryErrorCount !== 1 ? 's' : ''} and can't be used until they are fixed.
+                </p>
+              )}
+
               {/* Overage Permissions - Only show for PAYG users */}
               {!isDailyFreeTier && (
                 <div className="space-y-4 border-t border-gray-200 dark:border-gray-600 pt-4">
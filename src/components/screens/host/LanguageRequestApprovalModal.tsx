@@ -1,5 +1,5 @@
 import React from 'react';
-import { Language } from '../../../types';
+import { Language, LanguageRequester } from '../../../types';
 import { Button } from '../../ui/Button';
 import { Modal } from '../../ui/Modal';
 
@@ -10,32 +10,27 @@ interface LanguageRequestApprovalModalProps {
   onDeny: () => void;
   onApproveAll?: () => void;
   requestedLanguage: Language;
-  requestingParticipant: {
-    name: string;
-    reason?: string;
-  };
-  estimatedCost: number;
+  requesters: Pick<LanguageRequester, 'participant_name' | 'reason'>[]; // Batched requests for this language
+  estimatedCost: number; // Additional cost per hour if approved (0 when within the tier limit)
   currentLanguageCount: number;
   tierLimit: number;
   isLoading?: boolean;
 }
 
 /**
- * Modal shown to host when participant requests additional language
- * Requires host approval and shows additional costs
+ * Modal shown to host when participants request an additional language
+ * Requires host approval and previews the overage cost
  * 
  * Usage Example:
  * ```tsx
- * const { addLanguageToSession } = useSession();
- * 
- * const handleApprove = () => {
- *   // Add the approved language to the session for all participants
- *   addLanguageToSession(requestedLanguage.code);
- *   onClose();
- * };
+ * const { approveLanguageRequest, denyLanguageRequest } = useSession();
+ * const preview = estimateLanguageRequestCost(session, request.language_code);
  * 
  * <LanguageRequestApprovalModal
- *   onApprove={handleApprove}
+ *   onApprove={() => approveLanguageRequest(request.id)}
+ *   onDeny={() => denyLanguageRequest(request.id)}
+ *   requesters={request.requesters}
+ *   estimatedCost={preview.hourly_cost}
  *   // ... other props
  * />
  * ```
@@ -47,13 +42,14 @@ const LanguageRequestApprovalModal: React.FC<LanguageRequestApprovalModalProps>
   onDeny,
   onApproveAll,
   requestedLanguage,
-  requestingParticipant,
+  requesters,
   estimatedCost,
   currentLanguageCount,
   tierLimit,
   isLoading = false
 }) => {
   const overageCount = Math.max(0, currentLanguageCount - tierLimit + 1);
+  const requesterCount = requesters.length;
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="">
@@ -68,7 +64,9 @@ const LanguageRequestApprovalModal: React.FC<LanguageRequestApprovalModalProps>
               Language Request Approval
             </h2>
             <p className="text-sm text-gray-600">
-              Participant requesting additional language beyond tier limits
+              {requesterCount === 1
+                ? 'A participant is requesting an additional language'
+                : `${requesterCount} participants are requesting an additional language`}
             </p>
           </div>
         </div>
@@ -97,24 +95,28 @@ const LanguageRequestApprovalModal: React.FC<LanguageRequestApprovalModalProps>
           <h3 className="text-sm font-medium text-blue-700 mb-3">
             Request Details
           </h3>
-          <div className="space-y-3">
-            <div className="flex items-center gap-3">
-              <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
-                <span className="text-white text-sm font-medium">
-                  {requestingParticipant.name.charAt(0).toUpperCase()}
-                </span>
-              </div>
-              <div>
-                <p className="font-medium text-gray-900">{requestingParticipant.name}</p>
-                <p className="text-sm text-blue-600">Requesting participant</p>
+          <div className="space-y-3 max-h-48 overflow-y-auto">
+            {requesters.map((requester, index) => (
+              <div key={`${requester.participant_name}-${index}`}>
+                <div className="flex items-center gap-3">
+                  <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
+                    <span className="text-white text-sm font-medium">
+                      {requester.participant_name.charAt(0).toUpperCase()}
+                    </span>
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">{requester.participant_name}</p>
+                    <p className="text-sm text-blue-600">Requesting participant</p>
+                  </div>
+                </div>
+                {requester.reason && (
+                  <div className="mt-2 p-3 bg-white rounded border">
+                    <p className="text-sm font-medium text-gray-700 mb-1">Reason provided:</p>
+                    <p className="text-sm text-gray-600 italic">"{requester.reason}"</p>
+                  </div>
+                )}
               </div>
-            </div>
-            {requestingParticipant.reason && (
-              <div className="mt-3 p-3 bg-white rounded border">
-                <p className="text-sm font-medium text-gray-700 mb-1">Reason provided:</p>
-                <p className="text-sm text-gray-600 italic">"{requestingParticipant.reason}"</p>
-              </div>
-            )}
+            ))}
           </div>
         </div>
 
@@ -146,6 +148,7 @@ const LanguageRequestApprovalModal: React.FC<LanguageRequestApprovalModalProps>
         </div>
 
         {/* Cost Impact */}
+        {overageCount > 0 ? (
         <div className="bg-amber-50 border-l-4 border-amber-400 p-4 mb-6">
           <div className="flex items-start">
             <span className="text-amber-400 mt-0.5 mr-3 text-lg">💰</span>
@@ -167,6 +170,13 @@ const LanguageRequestApprovalModal: React.FC<LanguageRequestApprovalModalProps>
             </div>
           </div>
         </div>
+        ) : (
+          <div className="bg-green-50 border-l-4 border-green-400 p-4 mb-6">
+            <p className="text-sm text-green-800">
+              This language fits within your tier limit - no additional cost.
+            </p>
+          </div>
+        )}
 
         {/* Decision Context */}
         <div className="bg-gray-50 rounded-lg p-4 mb-6">
@@ -0,0 +1,78 @@
+import { Modal } from '../../ui/Modal';
+import { Button } from '../../ui/Button';
+import { formatCurrency, formatDateTime } from '../../../utils/constants';
+import type { SessionSnapshot } from '../../../utils/sessionPersistence';
+
+export interface OrphanedSessionModalProps {
+  snapshot: SessionSnapshot | null;
+  onResume: () => void;
+  onEnd: () => void;
+}
+
+/**
+ * OrphanedSessionModal Component
+ *
+ * Shown to the host when a session was left running after the app closed
+ * (stale snapshot or a different meeting). The host must either resume it or
+ * end it; ending bills only up to the last recorded moment.
+ */
+export function OrphanedSessionModal({ snapshot, onResume, onEnd }: OrphanedSessionModalProps) {
+  if (!snapshot) return null;
+
+  const { session, duration, saved_at } = snapshot;
+  const minutes = Math.floor(duration / 60);
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onEnd}
+      title="Unfinished Session Found"
+      size="sm"
+      closeOnBackdrop={false}
+      closeOnEscape={false}
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          A translation session was still running when MeetingSync last closed.
+          Resume it or end it now so billing stops.
+        </p>
+
+        <dl className="bg-gray-50 dark:bg-gray-900/50 rounded-lg p-4 grid grid-cols-2 gap-3 text-sm">
+          <div className="col-span-2">
+            <dt className="text-gray-600 dark:text-gray-400">Meeting</dt>
+            <dd className="font-semibold text-gray-900 dark:text-gray-100 truncate">{session.meeting_title}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-600 dark:text-gray-400">Started</dt>
+            <dd className="font-medium text-gray-900 dark:text-gray-100">{formatDateTime(session.date_time_start)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-600 dark:text-gray-400">Last active</dt>
+            <dd className="font-medium text-gray-900 dark:text-gray-100">{formatDateTime(new Date(saved_at).toISOString())}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-600 dark:text-gray-400">Duration</dt>
+            <dd className="font-medium text-gray-900 dark:text-gray-100">{minutes} min</dd>
+          </div>
+          <div>
+            <dt className="text-gray-600 dark:text-gray-400">Cost so far</dt>
+            <dd className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(session.cost)}</dd>
+          </div>
+        </dl>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Time since the session was last active is not billed.
+        </p>
+
+        <div className="flex gap-3 justify-end pt-2">
+          <Button variant="outline" onClick={onEnd}>
+            End Session
+          </Button>
+          <Button variant="primary" onClick={onResume}>
+            Resume Session
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -12,14 +12,16 @@ interface ParticipantQuotaModalProps {
     email?: string;
   };
   currentCount: number;
-  quotaLimit: number;
-  costPerAdditionalParticipant: number;
+  currentMultiplier: number;
+  nextMultiplier: number;
+  projectedCostDelta: number; // Additional cost per hour at the next multiplier
   isLoading?: boolean;
 }
 
 /**
- * Modal shown to host when 101st participant tries to join
- * Requires host approval and shows additional costs
+ * Modal shown to host the first time a join would move the session into a
+ * new participant multiplier bracket (e.g. the 101st participant)
+ * Requires host approval and shows the projected additional cost
  */
 const ParticipantQuotaModal: React.FC<ParticipantQuotaModalProps> = ({
   isOpen,
@@ -28,11 +30,12 @@ const ParticipantQuotaModal: React.FC<ParticipantQuotaModalProps> = ({
   onDeny,
   pendingParticipant,
   currentCount,
-  quotaLimit,
-  costPerAdditionalParticipant,
+  currentMultiplier,
+  nextMultiplier,
+  projectedCostDelta,
   isLoading = false
 }) => {
-  const overageCount = Math.max(0, currentCount - quotaLimit + 1); // +1 for the pending participant
+  const rateIncrease = `+${Math.round((nextMultiplier - currentMultiplier) * 100)}%`;
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="">
@@ -47,7 +50,7 @@ const ParticipantQuotaModal: React.FC<ParticipantQuotaModalProps> = ({
               Participant Quota Exceeded
             </h2>
             <p className="text-sm text-gray-600">
-              Allow additional participant beyond {quotaLimit} limit?
+              Allow participant #{currentCount + 1} into the session?
             </p>
           </div>
         </div>
@@ -85,16 +88,16 @@ const ParticipantQuotaModal: React.FC<ParticipantQuotaModalProps> = ({
               <p className="font-semibold text-gray-900">{currentCount}</p>
             </div>
             <div>
-              <span className="text-gray-600">Quota Limit:</span>
-              <p className="font-semibold text-gray-900">{quotaLimit}</p>
+              <span className="text-gray-600">Current Multiplier:</span>
+              <p className="font-semibold text-gray-900">{currentMultiplier.toFixed(2)}x</p>
             </div>
             <div>
-              <span className="text-gray-600">Overage Count:</span>
-              <p className="font-semibold text-orange-600">{overageCount}</p>
+              <span className="text-gray-600">New Multiplier:</span>
+              <p className="font-semibold text-orange-600">{nextMultiplier.toFixed(2)}x</p>
             </div>
             <div>
               <span className="text-gray-600">Rate Increase:</span>
-              <p className="font-semibold text-orange-600">+25%</p>
+              <p className="font-semibold text-orange-600">{rateIncrease}</p>
             </div>
           </div>
         </div>
@@ -108,15 +111,12 @@ const ParticipantQuotaModal: React.FC<ParticipantQuotaModalProps> = ({
                 Additional Costs Apply
               </h4>
               <p className="text-sm text-amber-700 mt-1">
-                Allowing participants beyond {quotaLimit} will trigger a 25% rate increase 
-                for the entire session duration.
+                Allowing this participant moves the session to the {nextMultiplier.toFixed(2)}x
+                participant bracket. You won't be asked again until the next bracket.
               </p>
               <div className="mt-2 p-2 bg-amber-100 rounded text-sm">
                 <p className="font-medium text-amber-800">
-                  Additional cost per participant: ${costPerAdditionalParticipant.toFixed(2)}/hour
-                </p>
-                <p className="text-amber-700">
-                  Total overage cost: ${(overageCount * costPerAdditionalParticipant).toFixed(2)}/hour
+                  Projected additional cost: ${projectedCostDelta.toFixed(2)}/hour
                 </p>
               </div>
             </div>
@@ -132,8 +132,8 @@ const ParticipantQuotaModal: React.FC<ParticipantQuotaModalProps> = ({
             You enabled participant overage permissions in session setup. You can:
           </p>
           <ul className="mt-2 text-sm text-gray-600 space-y-1">
-            <li>• <strong>Approve:</strong> Allow participant to join with increased rates</li>
-            <li>• <strong>Deny:</strong> Participant will see "Session Full" message</li>
+            <li>• <strong>Approve:</strong> Allow participants to join with increased rates</li>
+            <li>• <strong>Deny:</strong> New participants see a "Session Full" message and wait for a spot</li>
           </ul>
         </div>
 
@@ -144,7 +144,7 @@ const ParticipantQuotaModal: React.FC<ParticipantQuotaModalProps> = ({
             disabled={isLoading}
             className="bg-orange-600 hover:bg-orange-700"
           >
-            {isLoading ? 'Processing...' : 'Approve (+25% Rate)'}
+            {isLoading ? 'Processing...' : `Approve (${rateIncrease} Rate)`}
           </Button>
           <Button
             variant="secondary"
@@ -159,7 +159,7 @@ const ParticipantQuotaModal: React.FC<ParticipantQuotaModalProps> = ({
         <div className="mt-4 pt-4 border-t border-gray-200">
           <p className="text-xs text-gray-500">
             💡 Tip: You can disable participant overage permissions in future sessions 
-            to automatically limit participants to {quotaLimit}.
+            to automatically cap the session at its base participant limit.
           </p>
         </div>
       </div>
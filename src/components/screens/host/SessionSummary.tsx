@@ -7,7 +7,7 @@ import { SidebarCompactLayout } from '../../ui/SidebarLayout';
 import { HelpModal } from '../modals/HelpModal';
 import { useSession } from '../../../context/SessionContext';
 import { useUser } from '../../../context/UserContext';
-import { getLanguageDisplayName } from '../../../utils/constants';
+import { getLanguageDisplayName, formatCurrency } from '../../../utils/constants';
 
 /**
  * SessionSummary Screen - Shown after host ends a session
@@ -29,7 +29,13 @@ interface SessionSummaryProps {
 }
 
 export function SessionSummary({ onStartNewSession, onReturnToDashboard, onOpenTierModal, onSettings }: SessionSummaryProps) {
-  const { session, duration, cost } = useSession();
+  const { session: liveSession, lastEndedSession, duration: liveDuration, cost: liveCost } = useSession();
+  // The live session is cleared shortly after stopping; fall back to its finalized copy
+  const session = liveSession ?? lastEndedSession;
+  const duration = liveSession ? liveDuration : Math.round((lastEndedSession?.duration_hours || 0) * 3600);
+  const cost = liveSession ? liveCost : lastEndedSession?.cost || 0;
+  const overages = session?.overages || [];
+  const multiplierData = session?.participant_multiplier_data;
   const { user, isPAYG, isDailyFreeTier, dailyMinutesRemaining } = useUser();
   const [showHelpModal, setShowHelpModal] = useState(false);
 
@@ -136,6 +142,50 @@ export function SessionSummary({ onStartNewSession, onReturnToDashboard, onOpenT
               </div>
             ) : null}
 
+            {/* Participant Pricing */}
+            {isPAYG && !isDailyFreeTier && multiplierData?.billing_mode && (
+              <div className="py-3 border-b border-gray-200 dark:border-gray-700 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-gray-700 dark:text-gray-300">Participant Pricing</span>
+                  <Badge variant="neutral">
+                    {multiplierData.billing_mode === 'peak' ? 'Peak count' : 'Time-weighted'} · {multiplierData.multiplier.toFixed(2)}x
+                  </Badge>
+                </div>
+                {multiplierData.brackets?.filter(bracket => bracket.minutes > 0).map((bracket) => (
+                  <div key={bracket.multiplier} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600 dark:text-gray-400">
+                      {bracket.multiplier.toFixed(2)}x (up to {bracket.peak_participant_count} participants)
+                    </span>
+                    <span className="text-gray-900 dark:text-gray-100">{Math.round(bracket.minutes)} min</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Overage Breakdown */}
+            {isPAYG && !isDailyFreeTier && overages.length > 0 && (
+              <div className="py-3 border-b border-gray-200 dark:border-gray-700 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-600 dark:text-gray-400">Base cost</span>
+                  <span className="text-gray-900 dark:text-gray-100">{formatCurrency(session?.base_cost || 0)}</span>
+                </div>
+                {overages.map((overage) => {
+                  const minutesActive = (overage.removed_at_minutes ?? duration / 60) - overage.added_at_minutes;
+                  return (
+                    <div
+                      key={`${overage.language_code}-${overage.added_at_minutes}`}
+                      className="flex items-center justify-between text-sm"
+                    >
+                      <span className="text-gray-600 dark:text-gray-400">
+                        {getLanguageName(overage.language_code)} overage ({Math.max(0, Math.round(minutesActive))} min @ {formatCurrency(overage.overage_rate)}/hr)
+                      </span>
+                      <span className="text-gray-900 dark:text-gray-100">{formatCurrency(overage.calculated_cost)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Source Language */}
             <div className="flex items-center justify-between py-3 border-b border-gray-200 dark:border-gray-700">
               <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
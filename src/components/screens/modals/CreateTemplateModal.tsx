@@ -5,20 +5,14 @@ import { Input } from '../../ui/Input';
 import { Select } from '../../ui/Select';
 import { Checkbox } from '../../ui/Checkbox';
 import { LANGUAGES, MEETING_TYPES } from '../../../utils/constants';
-import { MOCK_GLOSSARIES } from '../../../utils/mockData';
-import { MeetingType } from '../../../types';
+import { GlossaryRef, MeetingType, TemplateFields } from '../../../types';
+import { DEFAULT_TEMPLATE_SETTINGS } from '../../../utils/templateLibrary';
+import { GlossaryStackEditor } from '../../features/GlossaryStackEditor';
 
 export interface CreateTemplateModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (template: {
-    name: string;
-    meeting_type: MeetingType;
-    source_language: string;
-    target_languages: string[];
-    glossary_id: string | null;
-    host_instructions: string;
-  }) => void;
+  onSave: (template: TemplateFields) => void;
 }
 
 /**
@@ -32,7 +26,7 @@ export function CreateTemplateModal({ isOpen, onClose, onSave }: CreateTemplateM
   const [meetingType, setMeetingType] = useState<MeetingType>('general');
   const [sourceLanguage, setSourceLanguage] = useState('en');
   const [targetLanguages, setTargetLanguages] = useState<string[]>([]);
-  const [selectedGlossary, setSelectedGlossary] = useState<string | null>(null);
+  const [selectedGlossaries, setSelectedGlossaries] = useState<GlossaryRef[]>([]);
   const [hostInstructions, setHostInstructions] = useState('');
   const [languageSearch, setLanguageSearch] = useState('');
 
@@ -67,12 +61,13 @@ export function CreateTemplateModal({ isOpen, onClose, onSave }: CreateTemplateM
     }
 
     onSave({
-      name: templateName,
+      ...DEFAULT_TEMPLATE_SETTINGS,
+      name: templateName.trim(),
       meeting_type: meetingType,
       source_language: sourceLanguage,
       target_languages: targetLanguages,
-      glossary_id: selectedGlossary,
-      host_instructions: hostInstructions
+      ...(selectedGlossaries.length > 0 && { glossaries: selectedGlossaries }),
+      ...(hostInstructions && { host_instructions: hostInstructions })
     });
 
     // Reset form
@@ -80,7 +75,7 @@ export function CreateTemplateModal({ isOpen, onClose, onSave }: CreateTemplateM
     setMeetingType('general');
     setSourceLanguage('en');
     setTargetLanguages([]);
-    setSelectedGlossary(null);
+    setSelectedGlossaries([]);
     setHostInstructions('');
     setLanguageSearch('');
   };
@@ -91,7 +86,7 @@ export function CreateTemplateModal({ isOpen, onClose, onSave }: CreateTemplateM
     setMeetingType('general');
     setSourceLanguage('en');
     setTargetLanguages([]);
-    setSelectedGlossary(null);
+    setSelectedGlossaries([]);
     setHostInstructions('');
     setLanguageSearch('');
     onClose();
@@ -188,18 +183,11 @@ export function CreateTemplateModal({ isOpen, onClose, onSave }: CreateTemplateM
           </p>
         </div>
 
-        {/* Glossary */}
-        <Select
-          label="Glossary (Optional)"
-          value={selectedGlossary || ''}
-          onChange={(e) => setSelectedGlossary(e.target.value || null)}
-          options={[
-            { value: '', label: 'None' },
-            ...MOCK_GLOSSARIES.map(g => ({
-              value: g.id,
-              label: `${g.name} (${g.term_count} terms)`
-            }))
-          ]}
+        {/* Glossaries */}
+        <GlossaryStackEditor
+          label="Glossaries (Optional)"
+          glossaries={selectedGlossaries}
+          onChange={setSelectedGlossaries}
         />
 
         {/* Host Instructions */}
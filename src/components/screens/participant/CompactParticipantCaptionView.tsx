@@ -4,9 +4,11 @@ import { Button } from '../../ui/Button';
 import { Badge } from '../../ui/Badge';
 import { useSession } from '../../../context/SessionContext';
 // User context no longer needed - TTS available for all tiers
-import { useZoom } from '../../../context/ZoomContext';
 import { LANGUAGES } from '../../../utils/constants';
+import { getCaptionRevisionKey, getVisibleCaptions } from '../../../utils/captionRevisions';
+import { applyConfidencePolicy, getConfidencePolicy, getLowConfidenceMark } from '../../../utils/captionConfidence';
 import { Caption } from '../../../types';
+import { useTextToSpeech } from '../../../hooks/useTextToSpeech';
 
 /**
  * Compact Participant Caption View - Optimized for Small Sidebar
@@ -14,8 +16,13 @@ import { Caption } from '../../../types';
  * Key Features:
  * - Minimal UI footprint for sidebar integration
  * - Audio management: Original Zoom audio vs TTS translation
+ * - Text-to-speech of new captions (speechSynthesis) with voice, rate and pitch
  * - Primary focus: Translation display and TTS control
  * - Collapsible controls to save space
+ * - Interim captions revised in place (dimmed until final), hidden when the
+ *   host turned partial results off
+ * - Captions below the host's confidence threshold hidden, greyed out or
+ *   marked with "?"
  * - WCAG 2.1 AA accessible
  * - Production-ready with realistic mock data
  */
@@ -26,20 +33,33 @@ interface CompactParticipantCaptionViewProps {
   onLeave: () => void;
 }
 
-// Compact TTS state for sidebar with realistic defaults
-interface TTSState {
-  isPlaying: boolean;
-  volume: number;
-  isAvailable: boolean;
-  originalAudioLevel: number; // Zoom original audio level when TTS is active
-}
+// Zoom original audio level while translations are spoken
+const DEFAULT_ORIGINAL_AUDIO_LEVEL = 0.3;
+
+// Caption text with glossary terms underlined (source term shown on hover)
+function renderCaptionText(caption: Caption): React.ReactNode {
+  const spans = caption.glossary_spans;
+  if (!spans || spans.length === 0) return caption.text;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, index) => {
+    if (span.start > cursor) parts.push(caption.text.slice(cursor, span.start));
+    parts.push(
+      <span
+        key={index}
+        className="underline decoration-dotted decoration-teal-500 underline-offset-2"
+        title={`Glossary term: ${span.source_term}`}
+      >
+        {caption.text.slice(span.start, span.end)}
+      </span>
+    );
+    cursor = span.end;
+  });
+  if (cursor < caption.text.length) parts.push(caption.text.slice(cursor));
 
-const defaultTTSState: TTSState = {
-  isPlaying: false,
-  volume: 0.8,
-  isAvailable: true,
-  originalAudioLevel: 0.3, // Lower original audio when TTS is active
-};
+  return parts;
+}
 
 export function CompactParticipantCaptionView({
   selectedLanguage,
@@ -47,7 +67,7 @@ export function CompactParticipantCaptionView({
   onLeave
 }: CompactParticipantCaptionViewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  const { session, captions = [], currentCaption } = useSession();
+  const { session, captions = [], captionTransportStatus } = useSession();
   
   // Focus management and page title
   useEffect(() => {
@@ -64,25 +84,15 @@ export function CompactParticipantCaptionView({
     };
   }, [session?.meeting_title]);
   // Free tier now has access to all TTS features as per pricing configuration
-  const zoomContext = useZoom();
   
   // Compact States
-  const [ttsState, setTtsState] = useState<TTSState>({
-    ...defaultTTSState,
-    isAvailable: false
-  });
-
-  // Force TTS to be available if session.tts_enabled is true
-  useEffect(() => {
-    setTtsState((prev) => ({ ...prev, isAvailable: Boolean(session?.tts_enabled) }));
-  }, [session?.tts_enabled]);
+  const isTTSAvailable = Boolean(session?.tts_enabled);
+  const [originalAudioLevel, setOriginalAudioLevel] = useState(DEFAULT_ORIGINAL_AUDIO_LEVEL);
   const [showControls, setShowControls] = useState(true);
   const [fontSize, setFontSize] = useState<'small' | 'medium' | 'large'>('medium');
-  const [isConnected, setIsConnected] = useState(true);
-  const [currentlyPlaying, setCurrentlyPlaying] = useState<string | null>(null);
-  
+  const isConnected = captionTransportStatus === 'open';
+
   const captionsEndRef = useRef<HTMLDivElement>(null);
-  const ttsAudioRef = useRef<HTMLAudioElement | null>(null);
 
   // Get clean language name (remove prefixes like "ES Spanish" -> "Spanish")
   const getLanguageName = useCallback((code: string): string => {
@@ -106,358 +116,38 @@ export function CompactParticipantCaptionView({
     return speakers[Math.floor(Math.random() * speakers.length)];
   }, []);
 
-  // Enhanced multilingual mock data for the 12 most popular languages
-  const getMultilingualMockCaptions = useCallback((languageCode: string) => {
-    const now = new Date();
-    const speakers = ['John Smith', 'Maria Garcia', 'David Chen', 'Sarah Johnson', 'Alex Rodriguez'];
-    
-  const mockDataByLanguage: Record<string, string[]> = {
-      'en': [
-        'Hello everyone, thank you for joining today\'s meeting.',
-        'Let\'s discuss this quarter\'s performance and set next quarter\'s goals.',
-        'We exceeded our sales targets by 15%. Thanks to the entire team\'s efforts.',
-        'The marketing department is planning a new campaign.',
-        'Customer satisfaction survey results came out better than expected.',
-        'We need to complete the project plan by next week.',
-        'Please feel free to share any questions or comments.'
-      ],
-      'es': [
-        'Hola a todos, gracias por unirse a la reunión de hoy.',
-        'Hablemos sobre el rendimiento de este trimestre y establezcamos los objetivos del próximo.',
-        'Superamos nuestros objetivos de ventas en un 15%. Gracias a los esfuerzos de todo el equipo.',
-        'El departamento de marketing está planeando una nueva campaña.',
-        'Los resultados de la encuesta de satisfacción del cliente salieron mejor de lo esperado.',
-        'Necesitamos completar el plan del proyecto para la próxima semana.',
-        'Por favor, comparta libremente cualquier pregunta o comentario.'
-      ],
-      'fr': [
-        'Bonjour tout le monde, merci de vous joindre à la réunion d\'aujourd\'hui.',
-        'Discutons des performances de ce trimestre et fixons les objectifs du prochain.',
-        'Nous avons dépassé nos objectifs de vente de 15%. Merci aux efforts de toute l\'équipe.',
-        'Le département marketing planifie une nouvelle campagne.',
-        'Les résultats de l\'enquête de satisfaction client sont sortis mieux que prévu.',
-        'Nous devons terminer le plan de projet d\'ici la semaine prochaine.',
-        'N\'hésitez pas à partager vos questions ou commentaires.'
-      ],
-      'de': [
-        'Hallo alle zusammen, danke, dass Sie am heutigen Meeting teilnehmen.',
-        'Lassen Sie uns die Leistung dieses Quartals besprechen und die Ziele für das nächste setzen.',
-        'Wir haben unsere Verkaufsziele um 15% übertroffen. Dank der Bemühungen des gesamten Teams.',
-        'Die Marketingabteilung plant eine neue Kampagne.',
-        'Die Ergebnisse der Kundenzufriedenheitsumfrage fielen besser aus als erwartet.',
-        'Wir müssen den Projektplan bis nächste Woche fertigstellen.',
-        'Bitte teilen Sie gerne Fragen oder Kommentare mit.'
-      ],
-      'pt': [
-        'Olá pessoal, obrigado por participarem da reunião de hoje.',
-        'Vamos discutir o desempenho deste trimestre e definir as metas do próximo.',
-        'Superamos nossas metas de vendas em 15%. Graças aos esforços de toda a equipe.',
-        'O departamento de marketing está planejando uma nova campanha.',
-        'Os resultados da pesquisa de satisfação do cliente saíram melhor que o esperado.',
-        'Precisamos completar o plano do projeto até a próxima semana.',
-        'Por favor, sintam-se à vontade para compartilhar perguntas ou comentários.'
-      ],
-      'zh': [
-        '大家好，感谢大家参加今天的会议。',
-        '让我们讨论本季度的业绩并设定下季度的目标。',
-        '我们超额完成了销售目标15%。感谢整个团队的努力。',
-        '市场部正在策划一个新的营销活动。',
-        '客户满意度调查结果比预期要好。',
-        '我们需要在下周前完成项目计划。',
-        '请随时分享任何问题或意见。'
-      ],
-      'ja': [
-        'こんにちは皆さん、今日の会議にご参加いただきありがとうございます。',
-        'この四半期の業績について話し合い、来四半期の目標を設定しましょう。',
-        '売上目標を15%上回りました。チーム全体の努力のおかげです。',
-        'マーケティング部門では新しいキャンペーンを計画しています。',
-        '顧客満足度調査の結果は予想より良好でした。',
-        '来週までにプロジェクト計画を完成させる必要があります。',
-        'ご質問やコメントがございましたら、お気軽にお聞かせください。'
-      ],
-      'ko': [
-        '안녕하세요 여러분, 오늘 회의에 참석해 주셔서 감사합니다.',
-        '이번 분기 실적에 대해 논의하고 다음 분기 목표를 설정하겠습니다.',
-        '매출 목표를 15% 초과 달성했습니다. 팀 전체의 노력 덕분입니다.',
-        '마케팅 부서에서 새로운 캠페인을 기획하고 있습니다.',
-        '고객 만족도 조사 결과가 예상보다 좋게 나왔습니다.',
-        '다음 주까지 프로젝트 계획서를 완성해야 합니다.',
-        '질문이나 의견이 있으시면 언제든지 말씀해 주세요.'
-      ],
-      'ar': [
-        'مرحباً بالجميع، شكراً لانضمامكم لاجتماع اليوم.',
-        'دعونا نناقش أداء هذا الربع ونضع أهداف الربع القادم.',
-        'تجاوزنا أهداف المبيعات بنسبة 15%. بفضل جهود الفريق بأكمله.',
-        'قسم التسويق يخطط لحملة جديدة.',
-        'نتائج استطلاع رضا العملاء جاءت أفضل من المتوقع.',
-        'نحتاج لإكمال خطة المشروع بحلول الأسبوع القادم.',
-        'يرجى مشاركة أي أسئلة أو تعليقات بحرية.'
-      ],
-      'hi': [
-        'सभी को नमस्कार, आज की बैठक में शामिल होने के लिए धन्यवाद।',
-        'आइए इस तिमाही के प्रदर्शन पर चर्चा करें और अगली तिमाही के लक्ष्य निर्धारित करें।',
-        'हमने अपने बिक्री लक्ष्यों को 15% से अधिक पार किया है। पूरी टीम के प्रयासों के लिए धन्यवाद।',
-        'मार्केटिंग विभाग एक नए अभियान की योजना बना रहा है।',
-        'ग्राहक संतुष्टि सर्वेक्षण के परिणाम अपेक्षा से बेहतर आए हैं।',
-        'हमें अगले सप्ताह तक प्रोजेक्ट प्लान पूरा करना होगा।',
-        'कृपया कोई भी प्रश्न या टिप्पणी साझा करने में संकोच न करें।'
-      ],
-      'ru': [
-        'Привет всем, спасибо за участие в сегодняшней встрече.',
-        'Давайте обсудим результаты этого квартала и поставим цели на следующий.',
-        'Мы превысили наши цели продаж на 15%. Благодаря усилиям всей команды.',
-        'Отдел маркетинга планирует новую кампанию.',
-        'Результаты опроса удовлетворенности клиентов оказались лучше ожидаемых.',
-        'Нам нужно завершить план проекта к следующей неделе.',
-        'Пожалуйста, не стесняйтесь делиться вопросами или комментариями.'
-      ],
-      'it': [
-        'Ciao a tutti, grazie per aver partecipato alla riunione di oggi.',
-        'Discutiamo delle prestazioni di questo trimestre e impostiamo gli obiettivi del prossimo.',
-        'Abbiamo superato i nostri obiettivi di vendita del 15%. Grazie agli sforzi di tutto il team.',
-        'Il dipartimento marketing sta pianificando una nuova campagna.',
-        'I risultati del sondaggio sulla soddisfazione dei clienti sono risultati migliori del previsto.',
-        'Dobbiamo completare il piano del progetto entro la prossima settimana.',
-        'Non esitate a condividere domande o commenti.'
-      ]
-      ,
-      'tr': [
-        'Herkese merhaba, bugünkü toplantıya katıldığınız için teşekkürler.',
-        'Bu çeyreğin performansını tartışalım ve gelecek çeyrek için hedefler belirleyelim.',
-        'Satış hedeflerimizi %15 aştık. Tüm ekibin çabalarına teşekkürler.',
-        'Pazarlama departmanı yeni bir kampanya planlıyor.',
-        'Müşteri memnuniyeti anketi beklenenden daha iyi sonuçlandı.',
-        'Proje planını gelecek haftaya kadar tamamlamamız gerekiyor.',
-        'Lütfen sorularınızı veya yorumlarınızı paylaşmaktan çekinmeyin.'
-      ],
-      'vi': [
-        'Xin chào mọi người, cảm ơn đã tham gia cuộc họp hôm nay.',
-        'Hãy thảo luận về hiệu suất quý này và đặt mục tiêu cho quý tới.',
-        'Chúng ta đã vượt mục tiêu doanh số 15%. Cảm ơn nỗ lực của cả đội.',
-        'Phòng marketing đang lên kế hoạch cho chiến dịch mới.',
-        'Kết quả khảo sát sự hài lòng của khách hàng tốt hơn mong đợi.',
-        'Chúng ta cần hoàn thành kế hoạch dự án trước tuần sau.',
-        'Vui lòng chia sẻ bất kỳ câu hỏi hoặc ý kiến nào.'
-      ],
-      'pl': [
-        'Witam wszystkich, dziękuję za udział w dzisiejszym spotkaniu.',
-        'Omówmy wyniki tego kwartału i ustalmy cele na kolejny.',
-        'Przekroczyliśmy cele sprzedażowe o 15%. Dzięki wysiłkom całego zespołu.',
-        'Dział marketingu planuje nową kampanię.',
-        'Wyniki ankiety satysfakcji klientów są lepsze niż oczekiwano.',
-        'Musimy ukończyć plan projektu do przyszłego tygodnia.',
-        'Proszę śmiało zadawać pytania lub zgłaszać uwagi.'
-      ],
-      'nl': [
-        'Hallo allemaal, bedankt voor jullie aanwezigheid bij de vergadering van vandaag.',
-        'Laten we de prestaties van dit kwartaal bespreken en doelen stellen voor het volgende.',
-        'We hebben onze verkoopdoelen met 15% overtroffen. Dank aan het hele team.',
-        'De marketingafdeling plant een nieuwe campagne.',
-        'De resultaten van het klanttevredenheidsonderzoek waren beter dan verwacht.',
-        'We moeten het projectplan uiterlijk volgende week afronden.',
-        'Voel je vrij om vragen of opmerkingen te delen.'
-      ],
-      'th': [
-        'สวัสดีทุกคน ขอบคุณที่เข้าร่วมประชุมวันนี้',
-        'เรามาพูดคุยเกี่ยวกับผลประกอบการไตรมาสนี้และตั้งเป้าหมายสำหรับไตรมาสหน้า',
-        'เราทำยอดขายเกินเป้าหมาย 15% ขอบคุณความพยายามของทุกคนในทีม',
-        'ฝ่ายการตลาดกำลังวางแผนแคมเปญใหม่',
-        'ผลสำรวจความพึงพอใจของลูกค้าดีกว่าที่คาดไว้',
-        'เราต้องทำแผนโครงการให้เสร็จภายในสัปดาห์หน้า',
-        'หากมีคำถามหรือข้อคิดเห็นใด ๆ กรุณาแจ้งได้เลย'
-      ],
-      'sv': [
-        'Hej allihopa, tack för att ni deltar i dagens möte.',
-        'Låt oss diskutera detta kvartals resultat och sätta mål för nästa.',
-        'Vi överträffade våra försäljningsmål med 15%. Tack till hela teamet.',
-        'Marknadsavdelningen planerar en ny kampanj.',
-        'Resultaten från kundnöjdhetsundersökningen var bättre än väntat.',
-        'Vi måste slutföra projektplanen till nästa vecka.',
-        'Dela gärna med er av frågor eller kommentarer.'
-      ],
-      'el': [
-        'Γεια σε όλους, ευχαριστώ που ήρθατε στη σημερινή συνάντηση.',
-        'Ας συζητήσουμε την απόδοση αυτού του τριμήνου και να θέσουμε στόχους για το επόμενο.',
-        'Υπερβήκαμε τους στόχους πωλήσεων κατά 15%. Ευχαριστώ όλη την ομάδα.',
-        'Το τμήμα μάρκετινγκ σχεδιάζει μια νέα καμπάνια.',
-        'Τα αποτελέσματα της έρευνας ικανοποίησης πελατών ήταν καλύτερα από το αναμενόμενο.',
-        'Πρέπει να ολοκληρώσουμε το σχέδιο του έργου μέχρι την επόμενη εβδομάδα.',
-        'Παρακαλώ μοιραστείτε ερωτήσεις ή σχόλια.'
-      ],
-      'cs': [
-        'Dobrý den všem, děkuji za účast na dnešní schůzce.',
-        'Pojďme diskutovat o výsledcích tohoto čtvrtletí a stanovit cíle na příští.',
-        'Překročili jsme prodejní cíle o 15 %. Díky úsilí celého týmu.',
-        'Marketingové oddělení plánuje novou kampaň.',
-        'Výsledky průzkumu spokojenosti zákazníků byly lepší, než se očekávalo.',
-        'Musíme dokončit projektový plán do příštího týdne.',
-        'Neváhejte sdílet jakékoli dotazy nebo připomínky.'
-      ],
-      'hu': [
-        'Üdvözlök mindenkit, köszönöm, hogy eljöttek a mai megbeszélésre.',
-        'Beszéljük meg az aktuális negyedév teljesítményét, és tűzzük ki a következő negyedév céljait.',
-        'Az értékesítési céljainkat 15%-kal túlteljesítettük. Köszönet az egész csapatnak.',
-        'A marketing osztály új kampányt tervez.',
-        'Az ügyfél-elégedettségi felmérés eredményei jobbak lettek a vártnál.',
-        'A projekttervet a jövő hétig be kell fejeznünk.',
-        'Kérem, osszák meg kérdéseiket vagy észrevételeiket.'
-      ],
-      'ro': [
-        'Bună ziua tuturor, mulțumesc că ați venit la ședința de azi.',
-        'Să discutăm performanța acestui trimestru și să stabilim obiectivele pentru următorul.',
-        'Am depășit obiectivele de vânzări cu 15%. Mulțumesc întregii echipe.',
-        'Departamentul de marketing planifică o nouă campanie.',
-        'Rezultatele sondajului de satisfacție a clienților au fost mai bune decât se aștepta.',
-        'Trebuie să finalizăm planul de proiect până săptămâna viitoare.',
-        'Vă rog să împărtășiți orice întrebări sau comentarii.'
-      ],
-      'da': [
-        'Hej alle sammen, tak fordi I deltager i dagens møde.',
-        'Lad os diskutere dette kvartals resultater og sætte mål for det næste.',
-        'Vi har overgået vores salgsmål med 15%. Tak til hele teamet.',
-        'Marketingafdelingen planlægger en ny kampagne.',
-        'Resultaterne af kundetilfredshedsundersøgelsen var bedre end forventet.',
-        'Vi skal have færdiggjort projektplanen inden næste uge.',
-        'Del gerne spørgsmål eller kommentarer.'
-      ],
-      'fi': [
-        'Hei kaikki, kiitos että osallistuitte tämän päivän kokoukseen.',
-        'Keskustellaan tämän neljänneksen tuloksista ja asetetaan tavoitteet seuraavalle.',
-        'Ylitimme myyntitavoitteemme 15 prosentilla. Kiitos koko tiimille.',
-        'Markkinointiosasto suunnittelee uutta kampanjaa.',
-        'Asiakastyytyväisyyskyselyn tulokset olivat odotettua paremmat.',
-        'Projektisuunnitelma pitää saada valmiiksi ensi viikkoon mennessä.',
-        'Kysykää tai kommentoikaa vapaasti.'
-      ]
-    };
-
-    const texts = mockDataByLanguage[languageCode] || mockDataByLanguage['en'];
-    const confidenceValues = [0.95, 0.92, 0.97, 0.89, 0.94, 0.91, 0.96];
-    
-    return texts.map((text, index) => ({
-      id: `${languageCode}_mock_${String(index + 1).padStart(3, '0')}`,
-      session_id: 'session_active',
-      timestamp: new Date(now.getTime() - (6 - index) * 60 * 1000).toISOString(),
-      text,
-      language: languageCode,
-      speaker_name: speakers[index % speakers.length],
-      confidence: confidenceValues[index] || 0.93,
-      is_final: index < texts.length - 1 // Last caption is still being processed
-    }));
-  }, []);
-
-  // Filter captions by selected language with enhanced data
+  // Filter captions by selected language (fed by the session's caption transport)
+  const showPartialResults = session?.show_partial_results ?? true;
+  const confidencePolicy = React.useMemo(() => getConfidencePolicy(session), [session]);
   const filteredCaptions = React.useMemo(() => {
     if (!Array.isArray(captions)) return [];
-    
-    // Popular languages with rich mock data to demonstrate the interface
-    const supportedMockLanguages = [
-      'en', 'es', 'fr', 'de', 'pt', 'zh', 'ja', 'ko', 'ar', 'hi', 'ru', 'it',
-      'tr', 'vi', 'pl', 'nl', 'th', 'sv', 'el', 'cs', 'hu', 'ro', 'da', 'fi'
-    ];
-    
-    if (supportedMockLanguages.includes(selectedLanguage)) {
-      const mockCaptions = getMultilingualMockCaptions(selectedLanguage);
-      const existingCaptions = captions
-        .filter((caption: Caption) => caption.language === selectedLanguage)
-        .map((caption: Caption) => ({
-          ...caption,
-          speaker_name: caption.speaker_name || getRandomSpeakerName(),
-          confidence: caption.confidence || Math.random() * 0.3 + 0.7
-        }));
-      
-      // Combine existing captions with mock data
-      const allCaptions = [...existingCaptions, ...mockCaptions];
-      return allCaptions.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-    }
-    
-    return captions
+
+    const visible = getVisibleCaptions(captions, showPartialResults)
       .filter((caption: Caption) => caption.language === selectedLanguage)
       .map((caption: Caption) => ({
         ...caption,
         // Add speaker names if missing (realistic mock data)
-        speaker_name: caption.speaker_name || getRandomSpeakerName(),
-        // Ensure confidence is realistic
-        confidence: caption.confidence || Math.random() * 0.3 + 0.7 // 0.7-1.0
+        speaker_name: caption.speaker_name || getRandomSpeakerName()
       }))
       .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-  }, [captions, selectedLanguage, getMultilingualMockCaptions, getRandomSpeakerName]);
+    return applyConfidencePolicy(visible, confidencePolicy);
+  }, [captions, showPartialResults, confidencePolicy, selectedLanguage, getRandomSpeakerName]);
+  const latestCaption = filteredCaptions.length > 0 ? filteredCaptions[filteredCaptions.length - 1] : null;
 
-  // Audio Management Functions with error handling
-  const handleTTSToggle = useCallback(async () => {
-    if (!ttsState.isAvailable) return;
-    
-    try {
-      if (!ttsState.isPlaying) {
-        // Start TTS and lower original Zoom audio
-        // Note: adjustAudioLevel is hypothetical - would integrate with real Zoom SDK
-        if (zoomContext && 'adjustAudioLevel' in zoomContext) {
-          await (zoomContext as any).adjustAudioLevel(ttsState.originalAudioLevel);
-        }
-        
-        setTtsState((prev: TTSState) => ({ ...prev, isPlaying: true }));
-        setCurrentlyPlaying(currentCaption?.id || filteredCaptions[filteredCaptions.length - 1]?.id || null);
-        
-        // Mock TTS audio for demonstration
-        if (ttsAudioRef.current) {
-          ttsAudioRef.current.volume = ttsState.volume;
-          // In real implementation, this would play synthesized speech
-          console.log('[TTS] Started playing:', currentCaption?.text || 'Latest caption');
-        }
-      } else {
-        // Stop TTS and restore original Zoom audio
-        if (zoomContext && 'adjustAudioLevel' in zoomContext) {
-          await (zoomContext as any).adjustAudioLevel(1.0);
-        }
-        
-        setTtsState((prev: TTSState) => ({ ...prev, isPlaying: false }));
-        setCurrentlyPlaying(null);
-        
-        if (ttsAudioRef.current) {
-          ttsAudioRef.current.pause();
-        }
-        console.log('[TTS] Stopped playing');
-      }
-    } catch (error) {
-      console.error('[TTS] Audio control failed:', error);
-      // Reset state on error
-      setTtsState((prev: TTSState) => ({ ...prev, isPlaying: false }));
-      setCurrentlyPlaying(null);
-    }
-  }, [ttsState.isPlaying, ttsState.isAvailable, currentCaption, filteredCaptions, zoomContext, ttsState.originalAudioLevel, ttsState.volume]);
+  // Text-to-speech of the captions shown, while the host allows it
+  const tts = useTextToSpeech({ enabled: isTTSAvailable, captions: filteredCaptions, language: selectedLanguage });
+  const currentlyPlaying = tts.speaking_id;
 
-  const handleVolumeChange = useCallback((volume: number) => {
-    setTtsState((prev: TTSState) => ({ ...prev, volume }));
-    if (ttsAudioRef.current) {
-      ttsAudioRef.current.volume = volume;
-    }
-  }, []);
-
-  const handleOriginalAudioChange = useCallback(async (level: number) => {
-    setTtsState((prev: TTSState) => ({ ...prev, originalAudioLevel: level }));
-    if (ttsState.isPlaying && zoomContext && 'adjustAudioLevel' in zoomContext) {
-      try {
-        await (zoomContext as any).adjustAudioLevel(level);
-        console.log('[Audio] Zoom audio level adjusted to', level);
-      } catch (error) {
-        console.error('[Audio] Failed to adjust Zoom audio:', error);
-      }
-    }
-  }, [ttsState.isPlaying, zoomContext]);
+  // Audio Management Functions
+  const handleTTSToggle = useCallback(() => {
+    if (!isTTSAvailable) return;
 
-  // Handle individual caption playback
-  const handleCaptionToggle = useCallback((captionId: string, text: string) => {
-    if (!ttsState.isAvailable) return;
-    
-    if (currentlyPlaying === captionId) {
-      setCurrentlyPlaying(null);
-      console.log('[TTS] Stopped playing caption');
+    if (tts.isListening) {
+      tts.stopListening();
     } else {
-      setCurrentlyPlaying(captionId);
-      console.log('[TTS] Playing caption:', text);
-      // In real implementation, this would synthesize and play the specific text
+      tts.startListening();
     }
-  }, [currentlyPlaying, ttsState.isAvailable]);
+  }, [isTTSAvailable, tts]);
 
   // Auto-scroll to latest caption
   useEffect(() => {
@@ -466,15 +156,6 @@ export function CompactParticipantCaptionView({
     }
   }, [filteredCaptions]);
 
-  // Simulate connection status changes
-  useEffect(() => {
-    const interval = setInterval(() => {
-      // Mostly connected with occasional brief disconnections (realistic)
-      setIsConnected(Math.random() > 0.05); // 95% connected
-    }, 5000);
-    return () => clearInterval(interval);
-  }, []);
-
   // Keyboard shortcuts for accessibility
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -602,22 +283,22 @@ export function CompactParticipantCaptionView({
           {/* Primary TTS Control */}
           <div className="flex items-center justify-between">
             <Button
-              variant={ttsState.isPlaying ? "secondary" : "primary"}
+              variant={tts.isListening ? "secondary" : "primary"}
               size="sm"
               onClick={handleTTSToggle}
               disabled={!session?.tts_enabled}
               className="flex items-center gap-1 text-xs"
-              aria-label={ttsState.isPlaying ? 'Pause text-to-speech' : 'Listen to text-to-speech'}
-              title={`${ttsState.isPlaying ? 'Pause' : 'Listen'} TTS (Ctrl+P)`}
+              aria-label={tts.isListening ? 'Pause text-to-speech' : 'Listen to text-to-speech'}
+              title={`${tts.isListening ? 'Pause' : 'Listen'} TTS (Ctrl+P)`}
             >
               <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-                {ttsState.isPlaying ? (
+                {tts.isListening ? (
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6" />
                 ) : (
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h2l7-7V5l-7 7z" />
                 )}
               </svg>
-              {ttsState.isPlaying ? 'Pause' : 'Listen'}
+              {tts.isListening ? 'Pause' : 'Listen'}
             </Button>
 
             <select
@@ -633,7 +314,7 @@ export function CompactParticipantCaptionView({
           </div>
 
           {/* Audio Mixing Controls */}
-          {ttsState.isAvailable && (
+          {isTTSAvailable && (
             <div className="space-y-2">
               <div className="text-xs text-gray-600 dark:text-gray-300 font-medium">Audio Mix</div>
               
@@ -646,13 +327,13 @@ export function CompactParticipantCaptionView({
                   min="0"
                   max="1"
                   step="0.1"
-                  value={ttsState.volume}
-                  onChange={(e) => handleVolumeChange(parseFloat(e.target.value))}
+                  value={tts.settings.volume}
+                  onChange={(e) => tts.updateSettings({ volume: parseFloat(e.target.value) })}
                   className="flex-1 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-teal-600 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2"
                   aria-label="Translation voice volume"
                 />
                 <span className="text-xs text-gray-700 dark:text-gray-300 w-8 text-right" aria-live="polite">
-                  {Math.round(ttsState.volume * 100)}%
+                  {Math.round(tts.settings.volume * 100)}%
                 </span>
               </div>
 
@@ -665,18 +346,71 @@ export function CompactParticipantCaptionView({
                   min="0"
                   max="1"
                   step="0.1"
-                  value={ttsState.originalAudioLevel}
-                  onChange={(e) => handleOriginalAudioChange(parseFloat(e.target.value))}
+                  value={originalAudioLevel}
+                  onChange={(e) => setOriginalAudioLevel(parseFloat(e.target.value))}
                   className="flex-1 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
                   aria-label="Original meeting audio level"
                 />
                 <span className="text-xs text-gray-700 dark:text-gray-300 w-8 text-right" aria-live="polite">
-                  {Math.round(ttsState.originalAudioLevel * 100)}%
+                  {Math.round(originalAudioLevel * 100)}%
                 </span>
               </div>
 
               <div className="text-xs text-gray-600 dark:text-gray-400" role="status">
-                Original audio {ttsState.isPlaying ? 'lowered' : 'normal'} during translation playback
+                Original audio {tts.isListening ? 'lowered' : 'normal'} during translation playback
+                {tts.skipped_count > 0 && ` • ${tts.skipped_count} skipped to keep up`}
+              </div>
+
+              {/* Voice */}
+              <div className="text-xs text-gray-600 dark:text-gray-300 font-medium pt-1">Voice</div>
+              <select
+                value={tts.settings.voice_id ?? ''}
+                onChange={(e) => tts.updateSettings({ voice_id: e.target.value || null })}
+                className="w-full text-xs bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                aria-label="Translation voice"
+              >
+                <option value="">Default voice</option>
+                {tts.voices.map(voice => (
+                  <option key={voice.id} value={voice.id}>
+                    {voice.name}
+                  </option>
+                ))}
+              </select>
+
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-gray-700 dark:text-gray-300 w-8" htmlFor="tts-rate">Rate</label>
+                <input
+                  id="tts-rate"
+                  type="range"
+                  min="0.5"
+                  max="2"
+                  step="0.1"
+                  value={tts.settings.rate}
+                  onChange={(e) => tts.updateSettings({ rate: parseFloat(e.target.value) })}
+                  className="flex-1 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-teal-600 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2"
+                  aria-label="Speech rate"
+                />
+                <span className="text-xs text-gray-700 dark:text-gray-300 w-8 text-right">
+                  {tts.settings.rate.toFixed(1)}×
+                </span>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-gray-700 dark:text-gray-300 w-8" htmlFor="tts-pitch">Pitch</label>
+                <input
+                  id="tts-pitch"
+                  type="range"
+                  min="0"
+                  max="2"
+                  step="0.1"
+                  value={tts.settings.pitch}
+                  onChange={(e) => tts.updateSettings({ pitch: parseFloat(e.target.value) })}
+                  className="flex-1 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-teal-600 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2"
+                  aria-label="Speech pitch"
+                />
+                <span className="text-xs text-gray-700 dark:text-gray-300 w-8 text-right">
+                  {tts.settings.pitch.toFixed(1)}
+                </span>
               </div>
             </div>
           )}
@@ -715,7 +449,7 @@ export function CompactParticipantCaptionView({
         {/* Compact Caption Cards */}
         {filteredCaptions.map((caption, index) => (
           <Card
-            key={caption.id}
+            key={getCaptionRevisionKey(caption)}
             variant={index === filteredCaptions.length - 1 ? 'selected' : 'default'}
             padding="sm"
             className={`${index === filteredCaptions.length - 1 ? 'animate-fadeIn' : ''} ${
@@ -740,8 +474,15 @@ export function CompactParticipantCaptionView({
                 )}
 
                 {/* Caption Text */}
-                <p className={`${fontSizeClasses[fontSize]} text-gray-900 dark:text-gray-100 leading-tight`}>
-                  {caption.text}
+                <p
+                  className={`${fontSizeClasses[fontSize]} leading-tight ${
+                    caption.is_final ? 'text-gray-900 dark:text-gray-100' : 'italic text-gray-500 dark:text-gray-400'
+                  }${getLowConfidenceMark(caption, confidencePolicy) === 'dim' ? ' opacity-50' : ''}`}
+                >
+                  {renderCaptionText(caption)}
+                  {getLowConfidenceMark(caption, confidencePolicy) === 'flag' && (
+                    <span className="ml-1 text-yellow-600 dark:text-yellow-400" title="Low confidence">?</span>
+                  )}
                 </p>
 
                 {/* Metadata Row */}
@@ -754,7 +495,10 @@ export function CompactParticipantCaptionView({
                   </span>
                   
                   <div className="flex items-center gap-1">
-                    {caption.confidence && (
+                    {!caption.is_final && (
+                      <span className="text-xs italic text-gray-500 dark:text-gray-400">Updating…</span>
+                    )}
+                    {caption.is_final && caption.confidence !== undefined && (
                       <Badge
                         variant={caption.confidence > 0.8 ? 'success' : caption.confidence > 0.6 ? 'warning' : 'error'}
                         className="text-xs px-1 py-0"
@@ -764,9 +508,9 @@ export function CompactParticipantCaptionView({
                     )}
                     
                     {/* Individual Play Button */}
-                    {ttsState.isAvailable && (
+                    {isTTSAvailable && (
                       <button
-                        onClick={() => handleCaptionToggle(caption.id, caption.text)}
+                        onClick={() => tts.toggleCaption(caption)}
                         className="p-0.5 text-teal-600 hover:text-teal-700 dark:text-teal-400 dark:hover:text-teal-300 transition-colors focus:outline-none focus:ring-1 focus:ring-teal-500 focus:ring-offset-1 rounded"
                         aria-label={currentlyPlaying === caption.id ? 'Stop listening to caption' : 'Listen to caption'}
                         title={currentlyPlaying === caption.id ? 'Stop TTS' : 'Listen with TTS'}
@@ -792,17 +536,24 @@ export function CompactParticipantCaptionView({
       </div>
 
       {/* Current Caption Overlay (Bottom) */}
-      {currentCaption && currentCaption.language === selectedLanguage && (
+      {latestCaption && (
         <div className="bg-gradient-to-t from-gray-900/95 to-gray-900/80 backdrop-blur-sm p-3 border-t border-teal-500 dark:border-teal-400">
-          {currentCaption.speaker_name && (
+          {latestCaption.speaker_name && (
             <p className="text-teal-300 text-xs font-medium mb-1 text-center truncate">
-              {currentCaption.speaker_name}
+              {latestCaption.speaker_name}
             </p>
           )}
-          <p className={`${fontSizeClasses[fontSize]} font-medium text-white leading-tight text-center`}>
-            {currentCaption.text}
+          <p
+            className={`${fontSizeClasses[fontSize]} font-medium leading-tight text-center ${
+              latestCaption.is_final ? 'text-white' : 'italic text-white/70'
+            }${getLowConfidenceMark(latestCaption, confidencePolicy) === 'dim' ? ' opacity-50' : ''}`}
+          >
+            {renderCaptionText(latestCaption)}
+            {getLowConfidenceMark(latestCaption, confidencePolicy) === 'flag' && (
+              <span className="ml-1 text-yellow-300" title="Low confidence">?</span>
+            )}
           </p>
-          {currentlyPlaying === currentCaption.id && (
+          {currentlyPlaying === latestCaption.id && (
             <div className="flex justify-center mt-1">
               {/* Animated SVG Waveform */}
               <svg width="48" height="16" viewBox="0 0 48 16" fill="none" xmlns="http://www.w3.org/2000/svg" className="animate-pulse">
@@ -843,9 +594,6 @@ export function CompactParticipantCaptionView({
           Leave Session
         </Button>
       </div>
-
-      {/* Hidden Audio Element */}
-      <audio ref={ttsAudioRef} style={{ display: 'none' }} />
     </div>
   );
 }
\ No newline at end of file
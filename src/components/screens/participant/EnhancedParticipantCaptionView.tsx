@@ -5,6 +5,9 @@ import { Badge } from '../../ui/Badge';
 import { useSession } from '../../../context/SessionContext';
 // User context no longer needed - all TTS features available to all tiers
 import { LANGUAGES } from '../../../utils/constants';
+import { getCaptionRevisionKey, getVisibleCaptions } from '../../../utils/captionRevisions';
+import { applyConfidencePolicy, getConfidencePolicy, getLowConfidenceMark } from '../../../utils/captionConfidence';
+import { useTextToSpeech } from '../../../hooks/useTextToSpeech';
 // ...existing code...
 
 /**
@@ -13,10 +16,14 @@ import { LANGUAGES } from '../../../utils/constants';
  * Advanced real-time caption display with TTS integration.
  *
  * Features:
- * - Text-to-Speech (TTS) audio playback
- * - Audio controls (play/pause, volume, speed)
+ * - Text-to-Speech (TTS) of new captions via speechSynthesis
+ * - Audio controls (play/pause, voice, volume, rate, pitch)
  * - Enhanced caption display with speaker identification
  * - Real-time translation with confidence scores
+ * - Interim captions revised in place (dimmed until final), hidden when the
+ *   host turned partial results off
+ * - Captions below the host's confidence threshold hidden, greyed out or
+ *   marked with "?"
  * - Session information and controls
  * - Accessibility options
  */
@@ -27,13 +34,7 @@ interface EnhancedParticipantCaptionViewProps {
   onLeave: () => void;
 }
 
-// Mock TTS and audio data
-const mockTTSState = {
-  isPlaying: false,
-  volume: 0.8,
-  isAvailable: true
-};
-
+// Mock audio levels for the playback visualization
 const mockAudioLevels = [0.3, 0.7, 0.2, 0.9, 0.4, 0.6, 0.8, 0.1, 0.5, 0.3];
 
 export function EnhancedParticipantCaptionView({
@@ -66,8 +67,7 @@ export function EnhancedParticipantCaptionView({
   const [sessionDuration, setSessionDuration] = useState(0);
   
   // TTS Controls
-  const [ttsState, setTtsState] = useState(mockTTSState);
-  const [currentlyPlaying, setCurrentlyPlaying] = useState<string | null>(null);
+  const isTTSAvailable = Boolean(session?.tts_enabled);
   const [audioLevels, setAudioLevels] = useState(mockAudioLevels);
   
   // UI States
@@ -76,16 +76,11 @@ export function EnhancedParticipantCaptionView({
   const [bookmarkedCaptions, setBookmarkedCaptions] = useState<string[]>([]);
   
   const captionsEndRef = useRef<HTMLDivElement>(null);
-  const ttsAudioRef = useRef<HTMLAudioElement | null>(null);
 
   // Handle leave with confirmation
   const handleLeave = () => {
     if (confirm('Are you sure you want to stop viewing translated captions? You can rejoin anytime during the meeting.')) {
-      // Stop any playing audio
-      if (ttsAudioRef.current) {
-        ttsAudioRef.current.pause();
-      }
-      onLeave();
+      onLeave(); // Speech stops when the view unmounts
     }
   };
 
@@ -104,33 +99,30 @@ export function EnhancedParticipantCaptionView({
     return name;
   };
 
-  // Filter captions by selected language
-  const filteredCaptions = captions.filter(caption => caption.language === selectedLanguage);
+  // Filter captions by selected language (interim captions only with partial results on)
+  // and the host's confidence policy
+  const confidencePolicy = getConfidencePolicy(session);
+  const filteredCaptions = applyConfidencePolicy(
+    getVisibleCaptions(captions, session?.show_partial_results ?? true).filter(
+      caption => caption.language === selectedLanguage
+    ),
+    confidencePolicy
+  );
+  const latestCaption = filteredCaptions.length > 0 ? filteredCaptions[filteredCaptions.length - 1] : null;
+
+  // TTS Functions (new captions are spoken while listening, if the host allows TTS)
+  const tts = useTextToSpeech({ enabled: isTTSAvailable, captions: filteredCaptions, language: selectedLanguage });
+  const currentlyPlaying = tts.speaking_id;
 
-  // TTS Functions
   const handleTTSToggle = useCallback(() => {
-  if (!ttsState.isAvailable) return;
-    
-    setTtsState(prev => ({ ...prev, isPlaying: !prev.isPlaying }));
-    
-    if (ttsAudioRef.current) {
-      if (ttsState.isPlaying) {
-        ttsAudioRef.current.pause();
-        setCurrentlyPlaying(null);
-      } else {
-        // In a real implementation, this would use Web Speech API or audio files
-        console.log('[TTS] Playing current caption with TTS');
-        setCurrentlyPlaying(currentCaption?.id || null);
-      }
-    }
-  }, [ttsState.isPlaying, ttsState.isAvailable, currentCaption]);
+    if (!isTTSAvailable) return;
 
-  const handleVolumeChange = (volume: number) => {
-    setTtsState(prev => ({ ...prev, volume }));
-    if (ttsAudioRef.current) {
-      ttsAudioRef.current.volume = volume;
+    if (tts.isListening) {
+      tts.stopListening();
+    } else {
+      tts.startListening();
     }
-  };
+  }, [isTTSAvailable, tts]);
 
 
 
@@ -263,7 +255,7 @@ export function EnhancedParticipantCaptionView({
         </div>
 
         {/* Audio Visualization Bar */}
-        {ttsState.isPlaying && (
+        {currentlyPlaying && (
           <div className="mt-2 flex items-center justify-center gap-1">
             {audioLevels.map((level, index) => (
               <div
@@ -291,15 +283,15 @@ export function EnhancedParticipantCaptionView({
         <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-4 py-3">
           <div className="flex items-center justify-between max-w-4xl mx-auto">
             {/* TTS Controls */}
-            <div className="flex items-center gap-4">
+            <div className="flex flex-wrap items-center gap-4">
               <Button
-                variant={ttsState.isPlaying ? "secondary" : "primary"}
+                variant={tts.isListening ? "secondary" : "primary"}
                 size="sm"
                 onClick={handleTTSToggle}
-                disabled={!ttsState.isAvailable}
+                disabled={!isTTSAvailable}
                 className="flex items-center gap-2"
               >
-                {ttsState.isPlaying ? (
+                {tts.isListening ? (
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6" />
                   </svg>
@@ -308,7 +300,7 @@ export function EnhancedParticipantCaptionView({
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h1.586a1 1 0 01.707.293l2.414 2.414a1 1 0 00.707.293H15" />
                   </svg>
                 )}
-                {ttsState.isPlaying ? 'Pause' : 'Listen'}
+                {tts.isListening ? 'Pause' : 'Listen'}
               </Button>
 
               {/* Volume Control - now available for all tiers */}
@@ -321,12 +313,59 @@ export function EnhancedParticipantCaptionView({
                   min="0"
                   max="1"
                   step="0.1"
-                  value={ttsState.volume}
-                  onChange={(e) => handleVolumeChange(parseFloat(e.target.value))}
+                  value={tts.settings.volume}
+                  onChange={(e) => tts.updateSettings({ volume: parseFloat(e.target.value) })}
                   className="w-20 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-teal-600"
+                  aria-label="Speech volume"
+                />
+                <span className="text-xs text-gray-500 min-w-[2rem]">{Math.round(tts.settings.volume * 100)}%</span>
+              </div>
+
+              {/* Voice, Rate and Pitch */}
+              <select
+                value={tts.settings.voice_id ?? ''}
+                onChange={(e) => tts.updateSettings({ voice_id: e.target.value || null })}
+                className="text-sm bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 max-w-[10rem]"
+                aria-label="Voice"
+              >
+                <option value="">Default voice</option>
+                {tts.voices.map(voice => (
+                  <option key={voice.id} value={voice.id}>
+                    {voice.name}
+                  </option>
+                ))}
+              </select>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500">Rate</span>
+                <input
+                  type="range"
+                  min="0.5"
+                  max="2"
+                  step="0.1"
+                  value={tts.settings.rate}
+                  onChange={(e) => tts.updateSettings({ rate: parseFloat(e.target.value) })}
+                  className="w-16 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-teal-600"
+                  aria-label="Speech rate"
+                />
+                <span className="text-xs text-gray-500 min-w-[2rem]">{tts.settings.rate.toFixed(1)}×</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500">Pitch</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="2"
+                  step="0.1"
+                  value={tts.settings.pitch}
+                  onChange={(e) => tts.updateSettings({ pitch: parseFloat(e.target.value) })}
+                  className="w-16 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-teal-600"
+                  aria-label="Speech pitch"
                 />
-                <span className="text-xs text-gray-500 min-w-[2rem]">{Math.round(ttsState.volume * 100)}%</span>
+                <span className="text-xs text-gray-500 min-w-[2rem]">{tts.settings.pitch.toFixed(1)}</span>
               </div>
+              {tts.skipped_count > 0 && (
+                <span className="text-xs text-gray-500">{tts.skipped_count} skipped to keep up</span>
+              )}
             </div>
 
             {/* Display Controls */}
@@ -395,7 +434,7 @@ export function EnhancedParticipantCaptionView({
                   <p className="text-gray-600 dark:text-gray-400">
                     Waiting for translated captions in {getLanguageName(selectedLanguage)}
                   </p>
-                  {ttsState.isAvailable && (
+                  {isTTSAvailable && (
                     <p className="text-sm text-teal-600 dark:text-teal-400">
                       🔊 Audio translation ready - click listen to hear captions
                     </p>
@@ -408,7 +447,7 @@ export function EnhancedParticipantCaptionView({
           {/* Enhanced Caption History */}
           {filteredCaptions.map((caption, index) => (
             <Card
-              key={caption.id}
+              key={getCaptionRevisionKey(caption)}
               variant={index === filteredCaptions.length - 1 ? 'selected' : 'default'}
               padding="lg"
               className={`${index === filteredCaptions.length - 1 ? 'animate-fadeIn' : ''} ${
@@ -435,8 +474,15 @@ export function EnhancedParticipantCaptionView({
                   )}
 
                   {/* Caption Text */}
-                  <p className={`${fontSizeClasses[fontSize]} font-medium text-gray-900 dark:text-gray-100 leading-relaxed`}>
+                  <p
+                    className={`${fontSizeClasses[fontSize]} font-medium leading-relaxed ${
+                      caption.is_final ? 'text-gray-900 dark:text-gray-100' : 'italic text-gray-500 dark:text-gray-400'
+                    }${getLowConfidenceMark(caption, confidencePolicy) === 'dim' ? ' opacity-50' : ''}`}
+                  >
                     {caption.text}
+                    {getLowConfidenceMark(caption, confidencePolicy) === 'flag' && (
+                      <span className="ml-1 text-yellow-600 dark:text-yellow-400" title="Low confidence">?</span>
+                    )}
                   </p>
 
                   {/* Caption Actions and Metadata */}
@@ -449,7 +495,8 @@ export function EnhancedParticipantCaptionView({
                           second: '2-digit'
                         })}
                       </span>
-                      {caption.confidence && (
+                      {!caption.is_final && <span className="italic">Updating…</span>}
+                      {caption.is_final && caption.confidence && (
                         <Badge
                           variant={caption.confidence > 0.8 ? 'success' : caption.confidence > 0.6 ? 'warning' : 'error'}
                           className="text-xs"
@@ -476,16 +523,9 @@ export function EnhancedParticipantCaptionView({
                       </button>
 
                       {/* Play TTS Button */}
-                      {ttsState.isAvailable && (
+                      {isTTSAvailable && (
                         <button
-                          onClick={() => {
-                            if (currentlyPlaying === caption.id) {
-                              setCurrentlyPlaying(null);
-                            } else {
-                              setCurrentlyPlaying(caption.id);
-                              console.log('[TTS] Playing caption:', caption.text);
-                            }
-                          }}
+                          onClick={() => tts.toggleCaption(caption)}
                           className="p-1 text-teal-600 hover:text-teal-700 dark:text-teal-400 dark:hover:text-teal-300 transition-colors"
                           aria-label="Play caption audio"
                         >
@@ -518,7 +558,7 @@ export function EnhancedParticipantCaptionView({
             </div>
             <div className="p-4 space-y-3">
               {filteredCaptions.map((caption) => (
-                <div key={caption.id} className="text-sm p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <div key={getCaptionRevisionKey(caption)} className="text-sm p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
                   <div className="flex items-center justify-between mb-1">
                     <span className="text-xs text-gray-500 dark:text-gray-400">
                       {new Date(caption.timestamp).toLocaleTimeString()}
@@ -538,18 +578,25 @@ export function EnhancedParticipantCaptionView({
       </div>
 
       {/* Current Caption Overlay (Floating Bottom) */}
-      {currentCaption && currentCaption.language === selectedLanguage && (
+      {latestCaption && (
         <div className="fixed bottom-0 left-0 right-0 bg-gradient-to-t from-gray-900/95 to-gray-900/80 backdrop-blur-sm p-6 border-t-2 border-teal-500 dark:border-teal-400 z-10">
           <div className="max-w-4xl mx-auto">
-            {currentCaption.speaker_name && (
+            {latestCaption.speaker_name && (
               <p className="text-teal-300 text-sm font-medium mb-1 text-center">
-                {currentCaption.speaker_name}
+                {latestCaption.speaker_name}
               </p>
             )}
-            <p className={`${fontSizeClasses[fontSize]} font-semibold text-white leading-relaxed text-center drop-shadow-lg`}>
-              {currentCaption.text}
+            <p
+              className={`${fontSizeClasses[fontSize]} font-semibold leading-relaxed text-center drop-shadow-lg ${
+                latestCaption.is_final ? 'text-white' : 'italic text-white/70'
+              }${getLowConfidenceMark(latestCaption, confidencePolicy) === 'dim' ? ' opacity-50' : ''}`}
+            >
+              {latestCaption.text}
+              {getLowConfidenceMark(latestCaption, confidencePolicy) === 'flag' && (
+                <span className="ml-1 text-yellow-300" title="Low confidence">?</span>
+              )}
             </p>
-            {currentlyPlaying === currentCaption.id && (
+            {currentlyPlaying === latestCaption.id && (
               <div className="flex justify-center mt-2">
                 <div className="flex items-center gap-1">
                   {audioLevels.slice(0, 5).map((level, index) => (
@@ -586,9 +633,6 @@ export function EnhancedParticipantCaptionView({
           </Card>
         </div>
       )}
-
-      {/* Hidden Audio Element for TTS */}
-      <audio ref={ttsAudioRef} style={{ display: 'none' }} />
       </div>
     </div>
   );
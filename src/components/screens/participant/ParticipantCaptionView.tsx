@@ -4,6 +4,8 @@ import { Button } from '../../ui/Button';
 import { Badge } from '../../ui/Badge';
 import { useSession } from '../../../context/SessionContext';
 import { LANGUAGES } from '../../../utils/constants';
+import { getCaptionRevisionKey, getVisibleCaptions } from '../../../utils/captionRevisions';
+import { applyConfidencePolicy, getConfidencePolicy, getLowConfidenceMark } from '../../../utils/captionConfidence';
 
 /**
  * ParticipantCaptionView Screen (Screen 7)
@@ -13,6 +15,10 @@ import { LANGUAGES } from '../../../utils/constants';
  * Features:
  * - Large, readable caption text
  * - Auto-scroll as new captions arrive
+ * - Interim captions revised in place (dimmed until final), hidden when the
+ *   host turned partial results off
+ * - Captions below the host's confidence threshold hidden, greyed out or
+ *   marked with "?"
  * - Connection status indicator
  * - Language switcher
  * - Font size adjustment
@@ -30,7 +36,7 @@ export function ParticipantCaptionView({
   onChangeLanguage,
   onLeave
 }: ParticipantCaptionViewProps) {
-  const { session, captions, currentCaption } = useSession();
+  const { session, captions } = useSession();
   const [fontSize, setFontSize] = useState<'small' | 'medium' | 'large'>('medium');
   const [isConnected, setIsConnected] = useState(true);
   const captionsEndRef = useRef<HTMLDivElement>(null);
@@ -65,7 +71,14 @@ export function ParticipantCaptionView({
   };
 
   // Filter captions by selected language
-  const filteredCaptions = captions.filter(caption => caption.language === selectedLanguage);
+  const confidencePolicy = getConfidencePolicy(session);
+  const filteredCaptions = applyConfidencePolicy(
+    getVisibleCaptions(captions, session?.show_partial_results ?? true).filter(
+      caption => caption.language === selectedLanguage
+    ),
+    confidencePolicy
+  );
+  const latestCaption = filteredCaptions.length > 0 ? filteredCaptions[filteredCaptions.length - 1] : null;
 
   // Auto-scroll to latest caption
   useEffect(() => {
@@ -199,7 +212,7 @@ export function ParticipantCaptionView({
         {/* Caption History */}
         {filteredCaptions.map((caption, index) => (
           <Card
-            key={caption.id}
+            key={getCaptionRevisionKey(caption)}
             variant={index === filteredCaptions.length - 1 ? 'selected' : 'default'}
             padding="lg"
             className={index === filteredCaptions.length - 1 ? 'animate-fadeIn' : ''}
@@ -207,8 +220,15 @@ export function ParticipantCaptionView({
             <CardContent>
               <div className="space-y-2">
                 {/* Caption Text */}
-                <p className={`${fontSizeClasses[fontSize]} font-medium text-gray-900 dark:text-gray-100 leading-relaxed`}>
+                <p
+                  className={`${fontSizeClasses[fontSize]} font-medium leading-relaxed ${
+                    caption.is_final ? 'text-gray-900 dark:text-gray-100' : 'italic text-gray-500 dark:text-gray-400'
+                  }${getLowConfidenceMark(caption, confidencePolicy) === 'dim' ? ' opacity-50' : ''}`}
+                >
                   {caption.text}
+                  {getLowConfidenceMark(caption, confidencePolicy) === 'flag' && (
+                    <span className="ml-1 text-yellow-600 dark:text-yellow-400" title="Low confidence">?</span>
+                  )}
                 </p>
 
                 {/* Caption Metadata */}
@@ -221,7 +241,8 @@ export function ParticipantCaptionView({
                       second: '2-digit'
                     })}
                   </span>
-                  {caption.confidence && (
+                  {!caption.is_final && <span className="italic">Updating…</span>}
+                  {caption.is_final && caption.confidence && (
                     <Badge
                       variant={caption.confidence > 0.8 ? 'success' : caption.confidence > 0.6 ? 'warning' : 'error'}
                     >
@@ -239,10 +260,17 @@ export function ParticipantCaptionView({
       </div>
 
       {/* Current Caption Overlay (Most Recent - Always Visible) */}
-      {currentCaption && currentCaption.language === selectedLanguage && (
+      {latestCaption && (
         <div className="sticky bottom-0 bg-gradient-to-t from-gray-900/95 to-gray-900/80 backdrop-blur-sm p-6 border-t-2 border-teal-500 dark:border-teal-400">
-          <p className={`${fontSizeClasses[fontSize]} font-semibold text-white leading-relaxed text-center drop-shadow-lg`}>
-            {currentCaption.text}
+          <p
+            className={`${fontSizeClasses[fontSize]} font-semibold leading-relaxed text-center drop-shadow-lg ${
+              latestCaption.is_final ? 'text-white' : 'italic text-white/70'
+            }${getLowConfidenceMark(latestCaption, confidencePolicy) === 'dim' ? ' opacity-50' : ''}`}
+          >
+            {latestCaption.text}
+            {getLowConfidenceMark(latestCaption, confidencePolicy) === 'flag' && (
+              <span className="ml-1 text-yellow-300" title="Low confidence">?</span>
+            )}
           </p>
         </div>
       )}
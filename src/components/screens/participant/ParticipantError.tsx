@@ -13,6 +13,7 @@ import { Button } from '../../ui/Button';
  * - Connection failed
  * - Language not available
  * - Session ended
+ * - Session full (waiting in the host's admission queue)
  */
 
 export type ParticipantErrorType =
@@ -21,6 +22,7 @@ export type ParticipantErrorType =
   | 'connection_failed'
   | 'language_unavailable'
   | 'session_ended'
+  | 'session_full'
   | 'generic';
 
 interface ParticipantErrorProps {
@@ -28,13 +30,15 @@ interface ParticipantErrorProps {
   onRetry?: () => void;
   onContactHost?: () => void;
   onLeave?: () => void;
+  queuePosition?: number; // session_full: 1-based place in the admission queue
 }
 
 export function ParticipantError({
   errorType,
   onRetry,
   onContactHost,
-  onLeave
+  onLeave,
+  queuePosition
 }: ParticipantErrorProps) {
   // Error content configuration
   const errorContent: Record<
@@ -101,6 +105,18 @@ export function ParticipantError({
         { label: 'Return to Home', variant: 'primary', onClick: onLeave }
       ]
     },
+    session_full: {
+      icon: '',
+      title: 'Session Full',
+      message: 'This translation session has reached its participant limit.',
+      details: queuePosition
+        ? `You are number ${queuePosition} in line. Captions will start automatically as soon as a spot opens up.`
+        : 'You are in line. Captions will start automatically as soon as a spot opens up.',
+      actions: [
+        { label: 'Contact Host', variant: 'secondary', onClick: onContactHost },
+        { label: 'Leave', variant: 'tertiary', onClick: onLeave }
+      ]
+    },
     generic: {
       icon: '',
       title: 'Something Went Wrong',
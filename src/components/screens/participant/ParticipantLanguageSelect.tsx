@@ -7,8 +7,16 @@ import { NavigationHeader } from '../../ui/NavigationHeader';
 import { useSession } from '../../../context/SessionContext';
 import { LANGUAGES } from '../../../utils/constants';
 import { pricingConfig } from '../../../utils/pricingManager';
+import { getActiveTargetLanguages } from '../../../utils/sessionLanguages';
 import RequestLanguageModal from './RequestLanguageModal';
-import { Language } from '../../../types';
+import { Language, LanguageRequestStatus } from '../../../types';
+
+const REQUEST_STATUS_STYLES: Record<LanguageRequestStatus, string> = {
+  pending: 'bg-blue-100 dark:bg-blue-900/20 border-blue-200 dark:border-blue-700 text-blue-800 dark:text-blue-200',
+  approved: 'bg-green-100 dark:bg-green-900/20 border-green-200 dark:border-green-700 text-green-800 dark:text-green-200',
+  denied: 'bg-red-100 dark:bg-red-900/20 border-red-200 dark:border-red-700 text-red-800 dark:text-red-200',
+  expired: 'bg-gray-100 dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300'
+};
 
 interface ParticipantLanguageSelectProps {
   onLanguageSelect: (languageCode: string) => void;
@@ -17,15 +25,11 @@ interface ParticipantLanguageSelectProps {
 }
 
 export function ParticipantLanguageSelect({ onLanguageSelect, onCancel, onRequestLanguage }: ParticipantLanguageSelectProps) {
-  const { session, addLanguagesToSession } = useSession();
+  const { session, requestLanguage, participantLanguageRequests } = useSession();
   const { isDailyFreeTier } = useUser();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedLanguage, setSelectedLanguage] = useState<string | null>(null);
   const [showRequestModal, setShowRequestModal] = useState(false);
-  const [requestedLanguages, setRequestedLanguages] = useState<string[]>([]);
-  const [showSuccessMessage, setShowSuccessMessage] = useState(false);
-  // Force re-render counter to ensure UI updates after language changes
-  const [forceUpdateCounter, setForceUpdateCounter] = useState(0);
   // Ref for the Free Tier disabled button
   const freeTierDisabledBtnRef = useRef<HTMLButtonElement | null>(null);
 
@@ -46,8 +50,9 @@ export function ParticipantLanguageSelect({ onLanguageSelect, onCancel, onReques
     
     // For participants, we show ALL currently approved languages for this session
     // The tier limits are enforced at the host level when approving new language requests
-    // Here we just display what's already been approved and available
-    const approvedLanguages = LANGUAGES.filter(lang => session.target_languages.includes(lang.code));
+    // Here we just display what's already been approved and available (languages the host paused are hidden)
+    const activeLanguages = getActiveTargetLanguages(session);
+    const approvedLanguages = LANGUAGES.filter(lang => activeLanguages.includes(lang.code));
     console.log('[ParticipantLanguageSelect] All approved languages for session:', approvedLanguages.map(l => `${l.code}: ${l.name}`));
     
     // Log tier information for debugging
@@ -62,7 +67,7 @@ export function ParticipantLanguageSelect({ onLanguageSelect, onCancel, onReques
     console.log('[ParticipantLanguageSelect] Final available languages:', approvedLanguages.map(l => `${l.code}: ${l.name}`));
     
     return approvedLanguages;
-  }, [session?.target_languages?.join(','), isDailyFreeTier, forceUpdateCounter]);
+  }, [session?.target_languages?.join(','), session?.disabled_languages, isDailyFreeTier]);
 
   // Filter languages based on search
   const filteredLanguages = useMemo(() => {
@@ -114,51 +119,6 @@ export function ParticipantLanguageSelect({ onLanguageSelect, onCancel, onReques
     }
   };
 
-  // Handle refresh languages (simulate host auto-approval)
-  const handleRefreshLanguages = () => {
-    console.log('[ParticipantLanguageSelect] === REFRESH LANGUAGES STARTED ===');
-    console.log('[ParticipantLanguageSelect] isLanguageRequestsEnabled:', isLanguageRequestsEnabled);
-    console.log('[ParticipantLanguageSelect] requestedLanguages:', requestedLanguages);
-    console.log('[ParticipantLanguageSelect] Current session before refresh:', session);
-    console.log('[ParticipantLanguageSelect] Current availableLanguages before refresh:', availableLanguages.map(l => `${l.code}: ${l.name}`));
-    
-    if (!isLanguageRequestsEnabled) {
-      console.log('[ParticipantLanguageSelect] Language requests disabled, aborting');
-      return; // Don't allow any action if language requests are disabled
-    }
-    
-    if (requestedLanguages.length > 0) {
-      const approvedLanguages = [...requestedLanguages];
-      console.log('[ParticipantLanguageSelect] Processing approved languages:', approvedLanguages);
-      
-      // Simulate host auto-approval by adding all requested languages to session at once
-      // This prevents race conditions that occurred with forEach + addLanguageToSession
-      console.log('[ParticipantLanguageSelect] Calling addLanguagesToSession with:', approvedLanguages);
-      addLanguagesToSession(approvedLanguages);
-      
-      // Clear the requested languages list and show success
-      console.log('[ParticipantLanguageSelect] Clearing requested languages and showing success');
-      setRequestedLanguages([]);
-      setShowSuccessMessage(true);
-      
-      // Force UI update to ensure languages appear
-      console.log('[ParticipantLanguageSelect] Forcing UI update');
-      setForceUpdateCounter(prev => prev + 1);
-      
-      // Hide success message after 3 seconds
-      setTimeout(() => {
-        console.log('[ParticipantLanguageSelect] Hiding success message');
-        setShowSuccessMessage(false);
-      }, 3000);
-      
-      console.log('[ParticipantLanguageSelect] === REFRESH LANGUAGES COMPLETED ===');
-    } else {
-      console.log('[ParticipantLanguageSelect] No requested languages, showing request modal');
-      // If no requested languages, show the request modal
-      setShowRequestModal(true);
-    }
-  };
-
   // Get language name (ensure clean display without language codes)
   const getLanguageName = (code: string) => {
     const language = LANGUAGES.find(l => l.code === code);
@@ -203,23 +163,17 @@ export function ParticipantLanguageSelect({ onLanguageSelect, onCancel, onReques
       />
       
       <div className="max-w-md mx-auto p-6 pt-20">
-        {/* Success Message */}
-        {showSuccessMessage && (
-          <div className="mb-4 p-3 bg-green-100 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg">
-            <p className="text-sm text-green-800 dark:text-green-200 text-center">
-              ✅ New languages approved and added to the session!
+        {/* Language Request Status (updated by the host's decisions) */}
+        {Object.entries(participantLanguageRequests).map(([code, status]) => (
+          <div key={code} className={`mb-4 p-3 border rounded-lg ${REQUEST_STATUS_STYLES[status]}`}>
+            <p className="text-sm text-center">
+              {status === 'pending' && `⏳ Waiting for the host to approve ${getLanguageName(code)}...`}
+              {status === 'approved' && `✅ ${getLanguageName(code)} was approved and added to the session!`}
+              {status === 'denied' && `The host declined the request for ${getLanguageName(code)}.`}
+              {status === 'expired' && `The request for ${getLanguageName(code)} expired without a response.`}
             </p>
           </div>
-        )}
-
-        {/* Pending Requests Info */}
-        {requestedLanguages.length > 0 && !showSuccessMessage && (
-          <div className="mb-4 p-3 bg-blue-100 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700 rounded-lg">
-            <p className="text-sm text-blue-800 dark:text-blue-200 text-center">
-              📝 {requestedLanguages.length} language{requestedLanguages.length !== 1 ? 's' : ''} requested and approved! Click refresh to access.
-            </p>
-          </div>
-        )}
+        ))}
 
         {/* Search Bar */}
         <div className="mb-6">
@@ -307,13 +261,10 @@ export function ParticipantLanguageSelect({ onLanguageSelect, onCancel, onReques
           {!isDailyFreeTier && isLanguageRequestsEnabled && (
             <Button
               variant="outline"
-              onClick={handleRefreshLanguages}
+              onClick={handleRequestCustomLanguage}
               className="w-full"
             >
-              {requestedLanguages.length > 0 
-                ? `🔄 Refresh Languages (${requestedLanguages.length} approved)`
-                : '+ Request Different Language'
-              }
+              + Request Different Language
             </Button>
           )}
           {!isDailyFreeTier && !isLanguageRequestsEnabled && (
@@ -343,18 +294,15 @@ export function ParticipantLanguageSelect({ onLanguageSelect, onCancel, onReques
         <RequestLanguageModal
           isOpen={showRequestModal}
           onClose={() => setShowRequestModal(false)}
-          onRequestLanguage={(language: Language) => {
-            // Track the requested language for mock auto-approval
-            setRequestedLanguages(prev => [...prev, language.code]);
-            
+          onRequestLanguage={(language: Language, reason?: string) => {
+            requestLanguage(language.code, reason);
+
             if (onRequestLanguage) {
               onRequestLanguage(language);
             }
             setShowRequestModal(false);
           }}
-          currentLanguages={session?.target_languages?.map(code => 
-            LANGUAGES.find(lang => lang.code === code)
-          ).filter(Boolean) as Language[] || []}
+          currentLanguages={availableLanguages}
         />
       )}
     </div>
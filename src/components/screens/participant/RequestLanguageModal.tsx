@@ -8,7 +8,7 @@ interface RequestLanguageModalProps {
   isOpen: boolean;
   onClose: () => void;
   currentLanguages: Language[];
-  onRequestLanguage: (language: Language) => void;
+  onRequestLanguage: (language: Language, reason?: string) => void;
   isPending?: boolean;
 }
 
@@ -48,7 +48,7 @@ const RequestLanguageModal: React.FC<RequestLanguageModalProps> = ({
 
   const handleSubmitRequest = () => {
     if (selectedLanguage) {
-      onRequestLanguage(selectedLanguage);
+      onRequestLanguage(selectedLanguage, requestReason.trim() || undefined);
       setSelectedLanguage(null);
       setRequestReason('');
       onClose();
@@ -11,6 +11,8 @@
  * - Dynamic UI text based on pricing values
  */
 
+import type { ParticipantBillingMode } from '../types';
+
 export interface FreeTierConfig {
   dailyMinutes: number;
   translationLimit: number; // Number of target languages (translations)
@@ -46,6 +48,9 @@ export interface ParticipantScalingConfig {
   multiplierRate: number; // Multiplier increase per bracket
   maxMultiplier?: number; // Optional cap on multiplier
   formula: string; // Human-readable formula description
+  // 'time_weighted': each interval is billed at the bracket active during it
+  // 'peak': the session's peak bracket is applied to the whole duration
+  billingMode: ParticipantBillingMode;
 }
 
 export interface UITextConfig {
@@ -240,7 +245,8 @@ export const DEFAULT_PRICING_CONFIG: PricingConfiguration = {
     baseThreshold: 100,
     incrementSize: 100,
     multiplierRate: 0.25,
-    formula: '1.0 + (CEILING((participants - 100) / 100) × 0.25)'
+    formula: '1.0 + (CEILING((participants - 100) / 100) × 0.25)',
+    billingMode: 'time_weighted'
   },
 
   uiText: {
@@ -363,6 +369,9 @@ export function validatePricingConfig(config: PricingConfiguration): string[] {
   if (config.participantScaling.multiplierRate < 0) {
     errors.push('Participant scaling multiplier rate cannot be negative');
   }
+  if (!['time_weighted', 'peak'].includes(config.participantScaling.billingMode)) {
+    errors.push('Participant scaling billing mode must be "time_weighted" or "peak"');
+  }
 
   return errors;
 }
\ No newline at end of file
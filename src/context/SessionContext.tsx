@@ -1,24 +1,102 @@
-import { createContext, useContext, useState, ReactNode, useCallback, useEffect, useRef } from 'react';
-import { Session, MeetingType, Participant, Caption } from '../types';
+import { createContext, useContext, useState, ReactNode, useCallback, useEffect, useRef, useMemo } from 'react';
+import {
+  Session,
+  MeetingType,
+  Participant,
+  Caption,
+  GlossaryEntry,
+  GlossaryRef,
+  LanguageRequest,
+  LanguageRequester,
+  LanguageRequestStatus,
+  LowConfidencePolicy
+} from '../types';
 import { MOCK_SESSION_ACTIVE, MOCK_PARTICIPANTS, MOCK_CAPTIONS } from '../utils/mockData';
 import { useUser } from './UserContext';
 import { useZoom } from './ZoomContext';
-import { calculateParticipantMultiplier, PRICING_TIERS } from '../utils/constants';
+import { getActiveTargetLanguages, getFallbackLanguage } from '../utils/sessionLanguages';
+import { pricingConfig } from '../utils/pricingManager';
+import {
+  SessionMeter,
+  SessionClock,
+  systemClock,
+  computeSessionMeter,
+  getSessionBillingFields
+} from '../utils/sessionMeter';
+import { CaptionTransport, CaptionTransportStatus, createCaptionTransport } from '../utils/captionTransport';
+import { GlossaryEngine, GlossaryHitCounts } from '../utils/glossaryEngine';
+import {
+  GlossaryConflict,
+  composeGlossaryStack,
+  getGlossaryStackErrors,
+  pinGlossaryStack
+} from '../utils/glossaryComposition';
+import { AppMessageBus, AppMessage, SessionConfigUpdate, createAppMessageBus } from '../utils/appMessageBus';
+import {
+  BracketApprovals,
+  INITIAL_BRACKET_APPROVALS,
+  ParticipantAdmissionStatus,
+  PendingBracketApproval,
+  decideParticipantAdmission,
+  projectBracketCostDelta
+} from '../utils/participantAdmission';
+import {
+  enqueueLanguageRequest,
+  resolveLanguageRequest,
+  getExpiredLanguageRequests,
+  getPendingLanguageRequests
+} from '../utils/languageRequests';
+import {
+  SessionSnapshot,
+  saveSessionSnapshot,
+  loadSessionSnapshot,
+  clearSessionSnapshot,
+  classifySessionSnapshot,
+  SNAPSHOT_HEARTBEAT_MS
+} from '../utils/sessionPersistence';
+import {
+  TranscriptRecorder,
+  buildSessionDetail,
+  clearRecordedTranscript,
+  loadRecordedTranscript
+} from '../utils/transcriptRecorder';
+import { addSessionToHistory } from '../utils/sessionHistory';
+import { mergeCaption } from '../utils/captionRevisions';
+import {
+  DEFAULT_CONFIDENCE_THRESHOLD,
+  DEFAULT_LOW_CONFIDENCE_POLICY,
+  getConfidencePolicy,
+  getLowConfidenceRate
+} from '../utils/captionConfidence';
 
 /**
  * Session Context
  *
  * Manages active translation session state including:
- * - Session configuration (languages, meeting type, glossary)
+ * - Session configuration (languages, meeting type, glossaries)
  * - Real-time participants and their language preferences
- * - Live captions streaming
+ * - Live captions streaming (via a pluggable CaptionTransport), with the
+ *   session's merged glossaries enforced on each caption (GlossaryEngine);
+ *   interim captions are revised in place (captionRevisions.ts)
  * - Session start/stop controls
- * - Cost tracking
+ * - Cost tracking (derived from a SessionMeter event log)
+ * - Persistence across side panel reloads (orphaned session recovery)
+ * - Full transcript recording (TranscriptRecorder); stopped sessions are
+ *   added to the activity history with their transcript and low-confidence
+ *   rate (captionConfidence.ts)
+ * - Zoom meeting events: participants follow real join/leave events and the
+ *   session is stopped (and billed) when the meeting ends
+ * - Host/participant messaging (AppMessageBus): the host broadcasts session
+ *   config; participants report their caption language back to the host
+ * - Participant admission: new participants join through a queue that enforces
+ *   the participant cap (overage disallowed) or host approval of each new
+ *   multiplier bracket (overage allowed); see participantAdmission.ts
  */
 
 interface SessionContextValue {
   // Session state
   session: Session | null;
+  lastEndedSession: Session | null; // Finalized copy of the most recently stopped session
   isActive: boolean;
   isPaused: boolean;
   duration: number; // in seconds
@@ -32,6 +110,10 @@ interface SessionContextValue {
   // Captions
   captions: Caption[];
   currentCaption: Caption | null;
+  captionTransportStatus: CaptionTransportStatus;
+  glossaryEntries: GlossaryEntry[]; // Effective entries of the session's glossaries being enforced (drafts excluded)
+  glossaryConflicts: GlossaryConflict[]; // Terms the session's glossaries disagree on (earlier glossaries win)
+  glossaryHits: GlossaryHitCounts; // Per-term glossary hits in final captions this session
 
   // Session controls
   startSession: (config: SessionConfig) => Promise<void>;
@@ -40,25 +122,64 @@ interface SessionContextValue {
   stopSession: () => Promise<void>;
   updateLanguages: (languages: string[]) => void;
   updateMeetingType: (type: MeetingType) => void;
-  updateGlossary: (glossaryId: string | null) => void;
+  updateGlossaries: (glossaries: GlossaryRef[]) => void;
   addLanguageToSession: (languageCode: string) => void;
   addLanguagesToSession: (languageCodes: string[]) => void;
+  removeLanguageFromSession: (languageCode: string) => LanguageAvailabilityChange | null;
+  setLanguageEnabled: (languageCode: string, enabled: boolean) => LanguageAvailabilityChange | null;
 
-  // Real-time updates (mock)
+  // Session recovery (after a side panel reload)
+  orphanedSession: SessionSnapshot | null;
+  resumeOrphanedSession: () => void;
+  endOrphanedSession: () => void;
+
+  // Real-time updates (driven by Zoom participant events)
   addParticipant: (participant: Participant) => void;
   removeParticipant: (participantId: string) => void;
   addCaption: (caption: Caption) => void;
+
+  // Language requests
+  languageRequests: LanguageRequest[]; // Host: request queue (pending and resolved)
+  approveLanguageRequest: (requestId: string) => void;
+  denyLanguageRequest: (requestId: string) => void;
+  approveAllLanguageRequests: () => void; // Also auto-approves later requests this session
+  requestLanguage: (languageCode: string, reason?: string) => void; // Participant: ask the host for a language
+  participantLanguageRequests: Record<string, LanguageRequestStatus>; // Participant: own requests by language
+
+  // Participant admission (allow_participant_overage)
+  admissionQueue: Participant[]; // Host: participants waiting for a seat, in order
+  pendingBracketApproval: PendingBracketApproval | null; // Host: join that would enter a new multiplier bracket
+  approveParticipantBracket: () => void;
+  denyParticipantBracket: () => void;
+  admissionStatus: { status: ParticipantAdmissionStatus; queue_position?: number } | null; // Participant: own status
+
+  // Host <-> participant messaging
+  publishLanguageSelection: (languageCode: string | null) => void; // Participant: tell the host what we view (null = stopped)
+  sendAppMessage: (message: AppMessage) => Promise<void>;
+  onAppMessage: AppMessageBus['onMessage'];
 }
 
 export interface SessionConfig {
   source_language: string;
   target_languages: string[];
   meeting_type: MeetingType;
-  glossary_id?: string;
+  glossaries?: GlossaryRef[]; // Ordered by precedence; unpinned glossaries are pinned to their latest version
   meeting_title?: string;
   allow_language_requests?: boolean;
   allow_participant_overage?: boolean;
   tts_enabled?: boolean;
+  show_partial_results?: boolean;
+  confidence_threshold?: number;
+  low_confidence_policy?: LowConfidencePolicy;
+}
+
+/**
+ * Result of removing or disabling a target language mid-session
+ */
+export interface LanguageAvailabilityChange {
+  language_code: string;
+  fallback_language: string; // Where viewers of language_code were moved
+  moved_participants: Participant[];
 }
 
 const SessionContext = createContext<SessionContextValue | undefined>(undefined);
@@ -67,6 +188,9 @@ const SessionContext = createContext<SessionContextValue | undefined>(undefined)
  * SessionProvider Component
  *
  * Manages active translation session state and real-time updates.
+ * Captions arrive through `captionTransport` (defaults to the transport
+ * selected by VITE_CAPTION_TRANSPORT). Billing time is read from `clock`
+ * (defaults to the system clock).
  *
  * @example
  * ```tsx
@@ -79,47 +203,109 @@ const SessionContext = createContext<SessionContextValue | undefined>(undefined)
  * }
  * ```
  */
-export function SessionProvider({ children }: { children: ReactNode}) {
+export function SessionProvider({
+  children,
+  captionTransport,
+  messageBus,
+  clock
+}: {
+  children: ReactNode;
+  captionTransport?: CaptionTransport;
+  messageBus?: AppMessageBus;
+  clock?: SessionClock;
+}) {
   const { user, addDailyFreeMinutes, addUnpaidUsage, isDailyFreeTier, dailyMinutesRemaining } = useUser();
-  const { meetingContext, userContext } = useZoom();
+  const { meetingContext, userContext, onMeetingEvent } = useZoom();
+
+  const isParticipantRole = userContext?.role === 'attendee';
 
   // Initialize with mock session if participant role (for test mode)
   const [session, setSession] = useState<Session | null>(() => {
     // Check if participant role from the start
-    if (userContext?.role === 'attendee') {
+    if (isParticipantRole) {
       console.log('[SessionContext] Initializing with mock session (participant role detected)');
       return MOCK_SESSION_ACTIVE;
     }
     return null;
   });
+  // Billing engine: time and cost are derived from its event log
+  const [meter] = useState(() => new SessionMeter(clock ?? systemClock));
   const [isPaused, setIsPaused] = useState(false);
   const [duration, setDuration] = useState(0); // in seconds
   const [participants, setParticipants] = useState<Participant[]>(() => {
     // Initialize with mock participants if participant role
-    if (userContext?.role === 'attendee') {
+    if (isParticipantRole) {
       return MOCK_PARTICIPANTS;
     }
     return [];
   });
   const [captions, setCaptions] = useState<Caption[]>(() => {
     // Initialize with mock captions if participant role
-    if (userContext?.role === 'attendee') {
+    if (isParticipantRole) {
       return MOCK_CAPTIONS;
     }
     return [];
   });
+  // Full transcript of the host's session (the caption list only keeps the latest captions)
+  const [transcriptRecorder] = useState(() => new TranscriptRecorder());
+  const [lastEndedSession, setLastEndedSession] = useState<Session | null>(null);
+  const [orphanedSession, setOrphanedSession] = useState<SessionSnapshot | null>(null);
+
+  // Read the persisted host session once the Zoom meeting and user are known:
+  // the snapshot is classified against this meeting, and attendees never restore it
+  const restoreCheckedRef = useRef(false);
+  useEffect(() => {
+    if (restoreCheckedRef.current || !meetingContext || !userContext) return;
+    restoreCheckedRef.current = true;
+    if (isParticipantRole) return;
+
+    const snapshot = loadSessionSnapshot();
+    if (!snapshot) return;
+
+    const state = classifySessionSnapshot(snapshot, meetingContext.meetingID);
+    if (!state) {
+      clearSessionSnapshot();
+      clearRecordedTranscript(snapshot.session.id);
+      return;
+    }
+
+    console.log(`[SessionContext] Found persisted session ${snapshot.session.id} (${state})`);
+    if (state === 'orphaned') {
+      setOrphanedSession(snapshot);
+      return;
+    }
+
+    const { id, source_language, date_time_start } = snapshot.session;
+    meter.load(snapshot.meter_events);
+    transcriptRecorder.start(id, source_language, date_time_start);
+    setSession(snapshot.session);
+    setIsPaused(snapshot.session.status === 'paused');
+    setDuration(meter.getBreakdown().elapsed_seconds);
+    setParticipants(snapshot.participants);
+    setCaptions(snapshot.captions);
+  }, [meetingContext, userContext, isParticipantRole, meter, transcriptRecorder]);
 
   const isActive = session?.status === 'active' || session?.status === 'paused';
 
+  // Caption transport is created once per provider
+  const [transport] = useState<CaptionTransport>(() => captionTransport ?? createCaptionTransport());
+  const [captionTransportStatus, setCaptionTransportStatus] = useState<CaptionTransportStatus>(transport.status);
+
+  // Host/participant message bus is created once per provider
+  const [bus] = useState<AppMessageBus>(() => messageBus ?? createAppMessageBus());
+
   // Use ref to store stopSession to avoid dependency issues in timer effect
   const stopSessionRef = useRef<(() => Promise<void>) | null>(null);
 
+  // Daily free tier warning is shown once per session
+  const freeTierWarningShownRef = useRef(false);
+
   // Calculate current session cost
   const cost = session ? session.cost : 0;
 
   // Participant counts
   const participantsTotal = participants.length;
-  const participantsViewing = participants.length; // Simplified for mock data
+  const participantsViewing = participants.filter(p => p.is_viewing).length;
 
   // Current caption (most recent)
   const currentCaption = captions.length > 0 ? captions[captions.length - 1] : null;
@@ -140,8 +326,28 @@ export function SessionProvider({ children }: { children: ReactNode}) {
       return;
     }
 
+    // Glossaries with lint errors can't be activated (HostSetup reports them before starting)
+    const glossaryErrors = getGlossaryStackErrors(config.glossaries ?? []);
+    if (glossaryErrors.length > 0) {
+      console.error('[SessionContext] ❌ Cannot start session - glossaries have errors:', glossaryErrors);
+      return;
+    }
+
     console.log('[SessionContext] ✅ All requirements met, creating session...');
 
+    const tier = user.subscription_tier || 'starter';
+
+    meter.reset();
+    meter.record({
+      type: 'start',
+      tier,
+      billed: user.billing_type === 'payg',
+      languages: config.target_languages,
+      participant_ids: [],
+      participant_billing_mode: pricingConfig.getParticipantBillingMode()
+    });
+    freeTierWarningShownRef.current = false;
+
     // Create new session with V1 pricing fields initialized
   const newSession: Session = {
       id: `session_${Date.now()}`,
@@ -153,30 +359,32 @@ export function SessionProvider({ children }: { children: ReactNode}) {
       meeting_type: config.meeting_type,
       source_language: config.source_language,
       target_languages: config.target_languages,
-      glossary_id: config.glossary_id,
+      disabled_languages: [],
+      // Pin glossary versions so the session stays reproducible after later edits
+      glossaries: config.glossaries?.length ? pinGlossaryStack(config.glossaries) : undefined,
       participant_count_total: 0,
       participant_count_viewing: 0,
-      tier: user.subscription_tier || 'starter',
+      tier,
       billing_type: user.billing_type,
-      cost: 0,
       status: 'active',
       created_at: new Date().toISOString(),
-      // V1 Pricing Fields
-      base_cost: 0,
-      participant_multiplier_value: 1.0,
-      participant_multiplier_data: calculateParticipantMultiplier(1),
-      overages: [],
-      overage_cost: 0,
-      peak_participant_count: 0,
+      // V1 Pricing Fields (cost, multiplier, overages) from the meter;
+      // languages configured beyond the tier limit are overage from minute 0
+      ...getSessionBillingFields(meter.getBreakdown()),
       // Overage permissions
   allow_language_requests: config.allow_language_requests,
   allow_participant_overage: config.allow_participant_overage,
-  tts_enabled: config.tts_enabled ?? false
+  tts_enabled: config.tts_enabled ?? false,
+  show_partial_results: config.show_partial_results ?? true,
+  confidence_threshold: config.confidence_threshold ?? DEFAULT_CONFIDENCE_THRESHOLD,
+  low_confidence_policy: config.low_confidence_policy ?? DEFAULT_LOW_CONFIDENCE_POLICY
     };
 
     console.log('[SessionContext] Created newSession object:', newSession);
 
+    transcriptRecorder.start(newSession.id, newSession.source_language, newSession.date_time_start);
     setSession(newSession);
+    setLastEndedSession(null);
     setIsPaused(false);
     setDuration(0);
     setParticipants([]);
@@ -189,7 +397,7 @@ export function SessionProvider({ children }: { children: ReactNode}) {
     //   method: 'POST',
     //   body: JSON.stringify(newSession)
     // });
-  }, [user, meetingContext, userContext]);
+  }, [user, meetingContext, userContext, meter, transcriptRecorder]);
 
   /**
    * Pause the current session
@@ -197,11 +405,12 @@ export function SessionProvider({ children }: { children: ReactNode}) {
   const pauseSession = useCallback(() => {
     if (!session) return;
 
+    meter.record({ type: 'pause' });
     setSession(prev => prev ? { ...prev, status: 'paused' } : null);
     setIsPaused(true);
 
     console.log('[SessionContext] Session paused');
-  }, [session]);
+  }, [session, meter]);
 
   /**
    * Resume a paused session
@@ -209,11 +418,31 @@ export function SessionProvider({ children }: { children: ReactNode}) {
   const resumeSession = useCallback(() => {
     if (!session) return;
 
+    meter.record({ type: 'resume' });
     setSession(prev => prev ? { ...prev, status: 'active' } : null);
     setIsPaused(false);
 
     console.log('[SessionContext] Session resumed');
-  }, [session]);
+  }, [session, meter]);
+
+  /**
+   * Record an ended session against the user's free minutes or unpaid usage
+   */
+  const recordSessionUsage = useCallback((endedSession: Session) => {
+    // Track daily free tier usage or PAYG usage
+    if (user?.is_free_tier && endedSession.duration_hours) {
+      // Daily Free Tier: Track minutes used
+      const minutesUsed = Math.ceil(endedSession.duration_hours * 60);
+      addDailyFreeMinutes(minutesUsed);
+      console.log('[SessionContext] Daily free tier: Used', minutesUsed, 'minutes');
+    } else if (!user?.is_free_tier) {
+      // PAYG users: Add session cost to unpaid usage (postpaid model)
+      if (endedSession.cost > 0) {
+        addUnpaidUsage(endedSession.cost);
+        console.log('[SessionContext] Added session cost to unpaid usage:', endedSession.cost);
+      }
+    }
+  }, [user?.is_free_tier, addDailyFreeMinutes, addUnpaidUsage]);
 
   /**
    * Stop the current session
@@ -221,17 +450,32 @@ export function SessionProvider({ children }: { children: ReactNode}) {
   const stopSession = useCallback(async () => {
     if (!session) return;
 
+    meter.record({ type: 'stop' });
+    const breakdown = meter.getBreakdown();
+    const transcript = transcriptRecorder.getLines();
+
     const endedSession: Session = {
       ...session,
+      ...getSessionBillingFields(breakdown),
       date_time_end: new Date().toISOString(),
-      duration_hours: duration / 3600, // convert seconds to hours
+      duration_hours: breakdown.elapsed_seconds / 3600, // convert seconds to hours
       status: 'ended',
       participant_count_total: participantsTotal,
-      participant_count_viewing: participantsViewing
+      participant_count_viewing: participantsViewing,
+      low_confidence_rate: getLowConfidenceRate(
+        transcript.map(line => line.confidence),
+        getConfidencePolicy(session).threshold
+      )
     };
 
     setSession(endedSession);
+    setLastEndedSession(endedSession);
     setIsPaused(false);
+    setDuration(breakdown.elapsed_seconds);
+    clearSessionSnapshot();
+
+    addSessionToHistory(endedSession, buildSessionDetail(endedSession, transcript, participants));
+    transcriptRecorder.clear();
 
     console.log('[SessionContext] Session stopped:', {
       id: endedSession.id,
@@ -239,19 +483,7 @@ export function SessionProvider({ children }: { children: ReactNode}) {
       cost: endedSession.cost
     });
 
-    // Track daily free tier usage or PAYG usage
-    if (user?.is_free_tier && endedSession.duration_hours) {
-      // Daily Free Tier: Track minutes used
-      const minutesUsed = Math.ceil(endedSession.duration_hours * 60);
-      addDailyFreeMinutes(minutesUsed);
-      console.log('[SessionContext] Daily free tier: Used', minutesUsed, 'minutes');
-    } else if (!user?.is_free_tier) {
-      // PAYG users: Add session cost to unpaid usage (postpaid model)
-      if (endedSession.cost > 0) {
-        addUnpaidUsage(endedSession.cost);
-        console.log('[SessionContext] Added session cost to unpaid usage:', endedSession.cost);
-      }
-    }
+    recordSessionUsage(endedSession);
 
     // In real implementation, call backend API:
     // await fetch(`/api/sessions/${session.id}/stop`, {
@@ -266,20 +498,86 @@ export function SessionProvider({ children }: { children: ReactNode}) {
       setCaptions([]);
       setDuration(0);
     }, 1000);
-  }, [session, duration, participantsTotal, participantsViewing, user?.is_free_tier, addDailyFreeMinutes, addUnpaidUsage]);
+  }, [session, meter, participants, participantsTotal, participantsViewing, recordSessionUsage, transcriptRecorder]);
 
   // Keep ref updated with latest stopSession
   useEffect(() => {
     stopSessionRef.current = stopSession;
   }, [stopSession]);
 
+  /**
+   * Resume an orphaned session from its last snapshot.
+   * Time the app was away is not billed: the meter is paused at the last
+   * heartbeat and resumed now.
+   */
+  const resumeOrphanedSession = useCallback(() => {
+    if (!orphanedSession) return;
+
+    meter.load(orphanedSession.meter_events);
+    if (orphanedSession.session.status === 'active') {
+      meter.record({ type: 'pause', at: orphanedSession.saved_at });
+      meter.record({ type: 'resume' });
+    }
+
+    const { id, source_language, date_time_start } = orphanedSession.session;
+    transcriptRecorder.start(id, source_language, date_time_start);
+    setSession({ ...orphanedSession.session, last_updated: Date.now() });
+    setIsPaused(orphanedSession.session.status === 'paused');
+    setDuration(meter.getBreakdown().elapsed_seconds);
+    setParticipants(orphanedSession.participants);
+    setCaptions(orphanedSession.captions);
+    setOrphanedSession(null);
+
+    console.log('[SessionContext] Orphaned session resumed:', orphanedSession.session.id);
+  }, [orphanedSession, meter, transcriptRecorder]);
+
+  /**
+   * End an orphaned session, billing up to its last snapshot
+   */
+  const endOrphanedSession = useCallback(() => {
+    if (!orphanedSession) return;
+
+    const { session: orphan, participants: orphanParticipants, meter_events, saved_at } = orphanedSession;
+    const breakdown = computeSessionMeter([...meter_events, { type: 'stop', at: saved_at }], saved_at);
+    const transcript = loadRecordedTranscript(orphan.id);
+    const endedSession: Session = {
+      ...orphan,
+      ...getSessionBillingFields(breakdown),
+      date_time_end: new Date(saved_at).toISOString(),
+      duration_hours: breakdown.elapsed_seconds / 3600,
+      status: 'ended',
+      participant_count_total: orphanParticipants.length,
+      participant_count_viewing: orphanParticipants.filter(p => p.is_viewing).length,
+      low_confidence_rate: getLowConfidenceRate(
+        transcript.map(line => line.confidence),
+        getConfidencePolicy(orphan).threshold
+      )
+    };
+
+    recordSessionUsage(endedSession);
+    addSessionToHistory(endedSession, buildSessionDetail(endedSession, transcript, orphanParticipants));
+    clearRecordedTranscript(orphan.id);
+    clearSessionSnapshot();
+    setOrphanedSession(null);
+
+    console.log('[SessionContext] Orphaned session ended:', {
+      id: endedSession.id,
+      duration: endedSession.duration_hours,
+      cost: endedSession.cost
+    });
+  }, [orphanedSession, recordSessionUsage]);
+
   /**
    * Update target languages during active session
    */
   const updateLanguages = useCallback((languages: string[]) => {
     setSession(prev => {
       if (!prev) return null;
-      return { ...prev, target_languages: languages };
+      return {
+        ...prev,
+        target_languages: languages,
+        disabled_languages: (prev.disabled_languages || []).filter(code => languages.includes(code))
+      };
     });
 
     console.log('[SessionContext] Languages updated:', languages);
@@ -298,15 +596,21 @@ export function SessionProvider({ children }: { children: ReactNode}) {
   }, []);
 
   /**
-   * Update glossary during active session
+   * Replace the session's glossaries during an active session (pinned to their current versions)
    */
-  const updateGlossary = useCallback((glossaryId: string | null) => {
+  const updateGlossaries = useCallback((glossaries: GlossaryRef[]) => {
+    const glossaryErrors = getGlossaryStackErrors(glossaries);
+    if (glossaryErrors.length > 0) {
+      console.error('[SessionContext] ❌ Cannot switch glossaries - they have errors:', glossaryErrors);
+      return;
+    }
+
     setSession(prev => {
       if (!prev) return null;
-      return { ...prev, glossary_id: glossaryId || undefined };
+      return { ...prev, glossaries: glossaries.length > 0 ? pinGlossaryStack(glossaries) : undefined };
     });
 
-    console.log('[SessionContext] Glossary updated:', glossaryId);
+    console.log('[SessionContext] Glossaries updated:', glossaries);
   }, []);
 
   /**
@@ -373,10 +677,94 @@ export function SessionProvider({ children }: { children: ReactNode}) {
     });
   }, []);
 
+  /**
+   * Move participants viewing `languageCode` to `fallbackLanguage`
+   * @returns The participants that were moved (before the move)
+   */
+  const moveParticipantsToFallback = useCallback((languageCode: string, fallbackLanguage: string) => {
+    const moved = participants.filter(p => p.selected_language === languageCode);
+    if (moved.length > 0) {
+      setParticipants(prev => prev.map(p =>
+        p.selected_language === languageCode
+          ? { ...p, selected_language: fallbackLanguage, language_selected: fallbackLanguage }
+          : p
+      ));
+      console.log(`[SessionContext] Moved ${moved.length} participant(s) from ${languageCode} to ${fallbackLanguage}`);
+    }
+    return moved;
+  }, [participants]);
+
+  /**
+   * Remove a language from the active session.
+   * Its overage interval (if any) is closed; billing history is kept.
+   */
+  const removeLanguageFromSession = useCallback((languageCode: string): LanguageAvailabilityChange | null => {
+    if (!session || !session.target_languages.includes(languageCode)) {
+      console.warn('[SessionContext] Language not in session:', languageCode);
+      return null;
+    }
+
+    const targetLanguages = session.target_languages.filter(code => code !== languageCode);
+    const disabledLanguages = (session.disabled_languages || []).filter(code => code !== languageCode);
+    const fallbackLanguage = getFallbackLanguage(session, languageCode);
+
+    setSession({
+      ...session,
+      target_languages: targetLanguages,
+      disabled_languages: disabledLanguages,
+      last_updated: Date.now()
+    });
+
+    console.log('[SessionContext] Language removed from session:', languageCode);
+    return {
+      language_code: languageCode,
+      fallback_language: fallbackLanguage,
+      moved_participants: moveParticipantsToFallback(languageCode, fallbackLanguage)
+    };
+  }, [session, moveParticipantsToFallback]);
+
+  /**
+   * Temporarily disable or re-enable a target language.
+   * Disabling closes its overage interval; enabling opens a new one if over the limit.
+   * @returns The fallback applied when disabling, null otherwise
+   */
+  const setLanguageEnabled = useCallback((languageCode: string, enabled: boolean): LanguageAvailabilityChange | null => {
+    if (!session || !session.target_languages.includes(languageCode)) {
+      console.warn('[SessionContext] Language not in session:', languageCode);
+      return null;
+    }
+
+    const currentlyDisabled = session.disabled_languages || [];
+    if (currentlyDisabled.includes(languageCode) !== enabled) {
+      return null; // Already in the requested state
+    }
+
+    const disabledLanguages = enabled
+      ? currentlyDisabled.filter(code => code !== languageCode)
+      : [...currentlyDisabled, languageCode];
+
+    setSession({
+      ...session,
+      disabled_languages: disabledLanguages,
+      last_updated: Date.now()
+    });
+
+    console.log(`[SessionContext] Language ${enabled ? 'enabled' : 'disabled'}:`, languageCode);
+    if (enabled) return null;
+
+    const fallbackLanguage = getFallbackLanguage(session, languageCode);
+    return {
+      language_code: languageCode,
+      fallback_language: fallbackLanguage,
+      moved_participants: moveParticipantsToFallback(languageCode, fallbackLanguage)
+    };
+  }, [session, moveParticipantsToFallback]);
+
   /**
    * Add a participant to the session
    */
   const addParticipant = useCallback((participant: Participant) => {
+    meter.record({ type: 'participant_join', participant_id: participant.id });
     setParticipants(prev => {
       // Check if participant already exists
       if (prev.find(p => p.id === participant.id)) {
@@ -386,93 +774,696 @@ export function SessionProvider({ children }: { children: ReactNode}) {
     });
 
     console.log('[SessionContext] Participant added:', participant.name);
-  }, []);
+  }, [meter]);
 
   /**
    * Remove a participant from the session
    */
   const removeParticipant = useCallback((participantId: string) => {
+    meter.record({ type: 'participant_leave', participant_id: participantId });
     setParticipants(prev => prev.filter(p => p.id !== participantId));
 
     console.log('[SessionContext] Participant removed:', participantId);
+  }, [meter]);
+
+  /**
+   * Participant admission (host) - enforce the participant cap, or ask the host
+   * before each new multiplier bracket when overage is allowed
+   */
+  const sessionId = isActive ? session?.id : undefined;
+  const sessionRef = useRef<Session | null>(session);
+  const participantsRef = useRef<Participant[]>(participants);
+  const [admissionQueue, setAdmissionQueue] = useState<Participant[]>([]);
+  const admissionQueueRef = useRef<Participant[]>([]);
+  const sentQueuePositionsRef = useRef<Map<string, number>>(new Map()); // Last queue position sent to each queued participant
+  const [pendingBracketApproval, setPendingBracketApproval] = useState<PendingBracketApproval | null>(null);
+  const pendingBracketApprovalRef = useRef<PendingBracketApproval | null>(null);
+  const bracketApprovalsRef = useRef<BracketApprovals>(INITIAL_BRACKET_APPROVALS);
+
+  useEffect(() => {
+    sessionRef.current = session;
+  }, [session]);
+
+  useEffect(() => {
+    participantsRef.current = participants;
+  }, [participants]);
+
+  const updateAdmissionQueue = useCallback((update: (queue: Participant[]) => Participant[]) => {
+    admissionQueueRef.current = update(admissionQueueRef.current);
+    setAdmissionQueue(admissionQueueRef.current);
+  }, []);
+
+  const updatePendingBracketApproval = useCallback((pending: PendingBracketApproval | null) => {
+    pendingBracketApprovalRef.current = pending;
+    setPendingBracketApproval(pending);
+  }, []);
+
+  const notifyAdmission = useCallback((participantId: string, status: ParticipantAdmissionStatus, queuePosition?: number) => {
+    bus
+      .send({ type: 'participant_admission', participant_id: participantId, status, queue_position: queuePosition })
+      .catch(error => console.error('[SessionContext] Failed to send admission update:', error));
+  }, [bus]);
+
+  /**
+   * Admit queued participants in order until one has to wait (cap, host prompt or denied bracket)
+   */
+  const processAdmissionQueue = useCallback(() => {
+    const current = sessionRef.current;
+    if (!current) return;
+
+    while (admissionQueueRef.current.length > 0 && !pendingBracketApprovalRef.current) {
+      const next = admissionQueueRef.current[0];
+      const decision = decideParticipantAdmission(current, participantsRef.current.length, bracketApprovalsRef.current);
+
+      if (decision.action === 'admit') {
+        updateAdmissionQueue(queue => queue.slice(1));
+        participantsRef.current = [...participantsRef.current, next];
+        addParticipant(next);
+        notifyAdmission(next.id, 'admitted');
+        continue;
+      }
+
+      if (decision.action === 'prompt') {
+        updatePendingBracketApproval({
+          participant_id: next.id,
+          participant_name: next.name,
+          current_count: participantsRef.current.length,
+          from_multiplier: decision.from_multiplier,
+          to_multiplier: decision.to_multiplier,
+          hourly_cost_delta: projectBracketCostDelta(current, decision.from_multiplier, decision.to_multiplier)
+        });
+        console.log('[SessionContext] New participant bracket - waiting for host approval:', decision.to_multiplier);
+      }
+      break;
+    }
+
+    // Only participants whose position changed are told
+    const sent = sentQueuePositionsRef.current;
+    sentQueuePositionsRef.current = new Map(
+      admissionQueueRef.current.map((participant, index) => {
+        if (sent.get(participant.id) !== index + 1) notifyAdmission(participant.id, 'queued', index + 1);
+        return [participant.id, index + 1];
+      })
+    );
+  }, [addParticipant, notifyAdmission, updateAdmissionQueue, updatePendingBracketApproval]);
+
+  /**
+   * Route a new participant through the admission queue; already admitted
+   * participants are left as they are and queued ones are updated in place
+   */
+  const requestAdmission = useCallback((participant: Participant) => {
+    if (participantsRef.current.some(p => p.id === participant.id)) return;
+
+    if (admissionQueueRef.current.some(p => p.id === participant.id)) {
+      updateAdmissionQueue(queue => queue.map(p => (p.id === participant.id ? { ...p, ...participant } : p)));
+      // Asking again (e.g. after a reload) re-sends their position
+      sentQueuePositionsRef.current.delete(participant.id);
+      processAdmissionQueue();
+      return;
+    }
+
+    updateAdmissionQueue(queue => [...queue, participant]);
+    processAdmissionQueue();
+  }, [updateAdmissionQueue, processAdmissionQueue]);
+
+  const leaveAdmissionQueue = useCallback((participantId: string) => {
+    if (!admissionQueueRef.current.some(p => p.id === participantId)) return;
+
+    updateAdmissionQueue(queue => queue.filter(p => p.id !== participantId));
+    if (pendingBracketApprovalRef.current?.participant_id === participantId) {
+      updatePendingBracketApproval(null);
+    }
+    processAdmissionQueue();
+  }, [updateAdmissionQueue, updatePendingBracketApproval, processAdmissionQueue]);
+
+  /**
+   * Host decision on crossing into a new multiplier bracket
+   */
+  const approveParticipantBracket = useCallback(() => {
+    const pending = pendingBracketApprovalRef.current;
+    if (!pending) return;
+
+    bracketApprovalsRef.current = { ...bracketApprovalsRef.current, approved: pending.to_multiplier };
+    updatePendingBracketApproval(null);
+    processAdmissionQueue();
+  }, [updatePendingBracketApproval, processAdmissionQueue]);
+
+  const denyParticipantBracket = useCallback(() => {
+    const pending = pendingBracketApprovalRef.current;
+    if (!pending) return;
+
+    const { denied } = bracketApprovalsRef.current;
+    bracketApprovalsRef.current = {
+      ...bracketApprovalsRef.current,
+      denied: denied === null ? pending.to_multiplier : Math.min(denied, pending.to_multiplier)
+    };
+    updatePendingBracketApproval(null);
+    processAdmissionQueue();
+  }, [updatePendingBracketApproval, processAdmissionQueue]);
+
+  // Seats freed by leaving participants go to the queue
+  useEffect(() => {
+    processAdmissionQueue();
+  }, [participants.length, processAdmissionQueue]);
+
+  // Each session starts with an empty queue and no bracket decisions
+  useEffect(() => {
+    if (!sessionId) return;
+
+    return () => {
+      updateAdmissionQueue(() => []);
+      sentQueuePositionsRef.current = new Map();
+      updatePendingBracketApproval(null);
+      bracketApprovalsRef.current = INITIAL_BRACKET_APPROVALS;
+    };
+  }, [sessionId, updateAdmissionQueue, updatePendingBracketApproval]);
+
+  // Participant: this user's admission status, as reported by the host
+  const [admissionStatus, setAdmissionStatus] = useState<{ status: ParticipantAdmissionStatus; queue_position?: number } | null>(null);
+
+  /**
+   * Zoom meeting events - track participants and stop billing when the meeting ends
+   */
+  const sessionSourceLanguage = session?.source_language;
+  useEffect(() => {
+    if (isParticipantRole || !sessionId || !sessionSourceLanguage) return;
+
+    return onMeetingEvent(event => {
+      switch (event.type) {
+        case 'meeting_ended':
+          console.log('[SessionContext] Meeting ended - stopping session');
+          stopSessionRef.current?.();
+          break;
+
+        case 'participant_joined':
+          if (event.participant.participantUUID === userContext?.userId) break;
+          requestAdmission({
+            id: event.participant.participantUUID,
+            session_id: sessionId,
+            name: event.participant.screenName,
+            language_selected: sessionSourceLanguage,
+            selected_language: sessionSourceLanguage,
+            connection_status: 'connected',
+            is_viewing: false,
+            joined_at: new Date().toISOString()
+          });
+          break;
+
+        case 'participant_left':
+          leaveAdmissionQueue(event.participant.participantUUID);
+          removeParticipant(event.participant.participantUUID);
+          break;
+      }
+    });
+  }, [
+    isParticipantRole,
+    sessionId,
+    sessionSourceLanguage,
+    userContext?.userId,
+    onMeetingEvent,
+    requestAdmission,
+    leaveAdmissionQueue,
+    removeParticipant
+  ]);
+
+  /**
+   * Message bus - connect as host or participant once Zoom has identified the user
+   */
+  const busSenderId = userContext?.userId;
+  useEffect(() => {
+    if (!busSenderId) return;
+
+    bus
+      .connect({ sender_id: busSenderId, role: isParticipantRole ? 'participant' : 'host' })
+      .then(() => {
+        // Late joiners ask the host for the current session config
+        if (isParticipantRole) bus.send({ type: 'session_config_request' });
+      })
+      .catch(error => console.error('[SessionContext] Message bus connection failed:', error));
+
+    return () => {
+      bus.disconnect();
+    };
+  }, [bus, busSenderId, isParticipantRole]);
+
+  // Settings participants mirror, serialized so changes to any of them trigger a re-broadcast
+  const sessionConfigMessage = session
+    ? JSON.stringify({
+        session_id: session.id,
+        config: {
+          status: session.status,
+          source_language: session.source_language,
+          target_languages: session.target_languages,
+          disabled_languages: session.disabled_languages ?? [],
+          tts_enabled: session.tts_enabled,
+          show_partial_results: session.show_partial_results,
+          confidence_threshold: session.confidence_threshold,
+          low_confidence_policy: session.low_confidence_policy,
+          allow_language_requests: session.allow_language_requests,
+          allow_participant_overage: session.allow_participant_overage,
+          glossaries: session.glossaries
+        } satisfies SessionConfigUpdate
+      })
+    : '';
+  const sessionConfigMessageRef = useRef('');
+
+  const broadcastSessionConfig = useCallback(() => {
+    if (!sessionConfigMessageRef.current) return;
+    bus
+      .send({ type: 'session_config', ...JSON.parse(sessionConfigMessageRef.current) })
+      .catch(error => console.error('[SessionContext] Failed to broadcast session config:', error));
+  }, [bus]);
+
+  useEffect(() => {
+    sessionConfigMessageRef.current = sessionConfigMessage;
+    if (!isParticipantRole && sessionConfigMessage) broadcastSessionConfig();
+  }, [isParticipantRole, sessionConfigMessage, broadcastSessionConfig]);
+
+  /**
+   * Host: record what each participant is viewing
+   */
+  const applyParticipantLanguage = useCallback((participantId: string, languageCode: string | null) => {
+    setParticipants(prev =>
+      prev.map(p =>
+        p.id === participantId
+          ? {
+              ...p,
+              language_selected: languageCode ?? p.language_selected,
+              selected_language: languageCode ?? p.selected_language,
+              is_viewing: languageCode !== null
+            }
+          : p
+      )
+    );
+    console.log('[SessionContext] Participant language:', participantId, languageCode);
+  }, []);
+
+  /**
+   * Language requests (host) - queue of participant requests for languages not in the session
+   */
+  const activeSessionId = isActive ? session?.id : undefined;
+  const [languageRequests, setLanguageRequests] = useState<LanguageRequest[]>([]);
+  const languageRequestsRef = useRef<LanguageRequest[]>([]);
+  const autoApproveLanguageRequestsRef = useRef(false);
+
+  // Ref and state are updated together so message handlers always see the latest queue
+  const updateLanguageRequests = useCallback((update: (queue: LanguageRequest[]) => LanguageRequest[]) => {
+    languageRequestsRef.current = update(languageRequestsRef.current);
+    setLanguageRequests(languageRequestsRef.current);
   }, []);
 
+  // Participant: outcome of this user's own requests, by language code
+  const [participantLanguageRequests, setParticipantLanguageRequests] = useState<Record<string, LanguageRequestStatus>>({});
+
+  /**
+   * Tell the requesters of a language about its new status
+   */
+  const notifyLanguageRequesters = useCallback((
+    update: { request_id: string; language_code: string; status: LanguageRequestStatus; participant_ids: string[] }
+  ) => {
+    // The host viewing as a participant requests locally
+    if (userContext?.userId && update.participant_ids.includes(userContext.userId)) {
+      setParticipantLanguageRequests(prev => ({ ...prev, [update.language_code]: update.status }));
+    }
+    bus
+      .send({ type: 'language_request_update', ...update })
+      .catch(error => console.error('[SessionContext] Failed to send language request update:', error));
+  }, [bus, userContext?.userId]);
+
+  const resolveRequest = useCallback((requestId: string, status: 'approved' | 'denied' | 'expired') => {
+    const request = languageRequestsRef.current.find(r => r.id === requestId && r.status === 'pending');
+    if (!request) return;
+
+    if (status === 'approved') {
+      const current = sessionRef.current;
+      if (current?.disabled_languages?.includes(request.language_code)) {
+        setSession(prev => prev ? {
+          ...prev,
+          disabled_languages: (prev.disabled_languages ?? []).filter(code => code !== request.language_code),
+          last_updated: Date.now()
+        } : prev);
+      } else {
+        addLanguageToSession(request.language_code);
+      }
+    }
+
+    updateLanguageRequests(queue => resolveLanguageRequest(queue, requestId, status));
+    notifyLanguageRequesters({
+      request_id: requestId,
+      language_code: request.language_code,
+      status,
+      participant_ids: request.requesters.map(r => r.participant_id)
+    });
+    console.log(`[SessionContext] Language request ${status}:`, request.language_code, `(${request.requesters.length} requesters)`);
+  }, [addLanguageToSession, updateLanguageRequests, notifyLanguageRequesters]);
+
+  const approveLanguageRequest = useCallback((requestId: string) => resolveRequest(requestId, 'approved'), [resolveRequest]);
+  const denyLanguageRequest = useCallback((requestId: string) => resolveRequest(requestId, 'denied'), [resolveRequest]);
+
+  /**
+   * Approve every pending request, and any that arrive later in this session
+   */
+  const approveAllLanguageRequests = useCallback(() => {
+    autoApproveLanguageRequestsRef.current = true;
+    getPendingLanguageRequests(languageRequestsRef.current).forEach(request => resolveRequest(request.id, 'approved'));
+  }, [resolveRequest]);
+
+  /**
+   * Host: handle a participant's request
+   */
+  const receiveLanguageRequest = useCallback((requester: LanguageRequester, languageCode: string) => {
+    const current = sessionRef.current;
+    if (!current || (current.status !== 'active' && current.status !== 'paused')) return;
+
+    const immediateStatus: LanguageRequestStatus | null = !current.allow_language_requests
+      ? 'denied'
+      : getActiveTargetLanguages(current).includes(languageCode)
+        ? 'approved'
+        : null;
+    if (immediateStatus) {
+      notifyLanguageRequesters({
+        request_id: `langreq_${Date.now()}_${languageCode}`,
+        language_code: languageCode,
+        status: immediateStatus,
+        participant_ids: [requester.participant_id]
+      });
+      return;
+    }
+
+    updateLanguageRequests(queue =>
+      enqueueLanguageRequest(queue, { session_id: current.id, language_code: languageCode, requester })
+    );
+    console.log('[SessionContext] Language request queued:', languageCode, 'from', requester.participant_name);
+
+    if (autoApproveLanguageRequestsRef.current) {
+      const pending = languageRequestsRef.current.find(r => r.status === 'pending' && r.language_code === languageCode);
+      if (pending) resolveRequest(pending.id, 'approved');
+    }
+  }, [updateLanguageRequests, notifyLanguageRequesters, resolveRequest]);
+
+  /**
+   * Participant: request a language from the host
+   */
+  const requestLanguage = useCallback((languageCode: string, reason?: string) => {
+    const participantName = userContext?.screenName || userContext?.displayName || 'Participant';
+    setParticipantLanguageRequests(prev => ({ ...prev, [languageCode]: 'pending' }));
+
+    if (!isParticipantRole) {
+      // Host viewing as a participant: no message round trip needed
+      receiveLanguageRequest(
+        {
+          participant_id: userContext?.userId ?? 'host',
+          participant_name: participantName,
+          reason,
+          requested_at: new Date().toISOString()
+        },
+        languageCode
+      );
+      return;
+    }
+
+    bus
+      .send({ type: 'language_request', participant_name: participantName, language_code: languageCode, reason })
+      .catch(error => console.error('[SessionContext] Failed to send language request:', error));
+  }, [bus, isParticipantRole, userContext?.userId, userContext?.screenName, userContext?.displayName, receiveLanguageRequest]);
+
+  /**
+   * Expire unanswered requests; pending requests also expire when the session ends
+   */
+  const hasPendingLanguageRequests = languageRequests.some(r => r.status === 'pending');
+  useEffect(() => {
+    if (!hasPendingLanguageRequests) return;
+
+    const interval = setInterval(() => {
+      getExpiredLanguageRequests(languageRequestsRef.current).forEach(request => resolveRequest(request.id, 'expired'));
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [hasPendingLanguageRequests, resolveRequest]);
+
+  useEffect(() => {
+    if (!activeSessionId) return;
+
+    return () => {
+      getPendingLanguageRequests(languageRequestsRef.current).forEach(request => resolveRequest(request.id, 'expired'));
+      updateLanguageRequests(() => []);
+      autoApproveLanguageRequestsRef.current = false;
+    };
+  }, [activeSessionId, resolveRequest, updateLanguageRequests]);
+
+  /**
+   * Message bus - incoming messages
+   */
+  useEffect(() => {
+    return bus.onMessage((message, sender) => {
+      switch (message.type) {
+        case 'session_config':
+          if (!isParticipantRole || sender.role !== 'host') break;
+          // glossaries is dropped from the JSON when cleared, so it is copied explicitly
+          setSession(prev =>
+            prev
+              ? { ...prev, ...message.config, glossaries: message.config.glossaries, last_updated: Date.now() }
+              : prev
+          );
+          break;
+
+        case 'session_config_request':
+          if (!isParticipantRole) broadcastSessionConfig();
+          break;
+
+        case 'participant_language':
+          if (isParticipantRole || !activeSessionId) break;
+          if (message.language_code !== null) {
+            // Participants already in the meeting before the session started never produced a join event
+            requestAdmission({
+              id: sender.sender_id,
+              session_id: activeSessionId,
+              name: message.participant_name,
+              language_selected: message.language_code,
+              selected_language: message.language_code,
+              connection_status: 'connected',
+              is_viewing: true,
+              joined_at: new Date().toISOString()
+            });
+          } else {
+            leaveAdmissionQueue(sender.sender_id);
+          }
+          applyParticipantLanguage(sender.sender_id, message.language_code);
+          break;
+
+        case 'language_request':
+          if (isParticipantRole) break;
+          receiveLanguageRequest(
+            {
+              participant_id: sender.sender_id,
+              participant_name: message.participant_name,
+              reason: message.reason,
+              requested_at: new Date().toISOString()
+            },
+            message.language_code
+          );
+          break;
+
+        case 'participant_admission':
+          if (!isParticipantRole || message.participant_id !== userContext?.userId) break;
+          setAdmissionStatus({ status: message.status, queue_position: message.queue_position });
+          break;
+
+        case 'language_request_update':
+          if (!isParticipantRole || !userContext?.userId || !message.participant_ids.includes(userContext.userId)) break;
+          setParticipantLanguageRequests(prev => ({ ...prev, [message.language_code]: message.status }));
+          break;
+      }
+    });
+  }, [
+    bus,
+    isParticipantRole,
+    activeSessionId,
+    userContext?.userId,
+    broadcastSessionConfig,
+    requestAdmission,
+    leaveAdmissionQueue,
+    applyParticipantLanguage,
+    receiveLanguageRequest
+  ]);
+
+  /**
+   * Participant: announce the caption language being viewed
+   */
+  const publishLanguageSelection = useCallback((languageCode: string | null) => {
+    if (!isParticipantRole) return;
+
+    bus
+      .send({
+        type: 'participant_language',
+        participant_name: userContext?.screenName || userContext?.displayName || 'Participant',
+        language_code: languageCode
+      })
+      .catch(error => console.error('[SessionContext] Failed to publish language selection:', error));
+  }, [bus, isParticipantRole, userContext?.screenName, userContext?.displayName]);
+
+  const sendAppMessage = useCallback((message: AppMessage) => bus.send(message), [bus]);
+
+  /**
+   * Glossary - enforce the session glossary's terms in incoming captions
+   */
+  // Keyed by content: participants receive a new (equal) array with every config broadcast
+  const glossaryStackKey = JSON.stringify(session?.glossaries ?? []);
+  const glossaryComposition = useMemo(
+    () => composeGlossaryStack(JSON.parse(glossaryStackKey) as GlossaryRef[]),
+    [glossaryStackKey]
+  );
+  const glossaryEngine = useMemo(
+    () => new GlossaryEngine(glossaryComposition.entries.map(item => item.entry)),
+    [glossaryComposition]
+  );
+  const glossaryEngineRef = useRef(glossaryEngine);
+  const [glossaryHits, setGlossaryHits] = useState<GlossaryHitCounts>({});
+
+  useEffect(() => {
+    glossaryEngineRef.current = glossaryEngine;
+    setGlossaryHits(glossaryEngine.getHitCounts());
+  }, [glossaryEngine]);
+
+  // Hit counts are per session
+  useEffect(() => {
+    if (!sessionId) return;
+    glossaryEngineRef.current.resetHitCounts();
+    setGlossaryHits({});
+  }, [sessionId]);
+
   /**
    * Add a new caption to the stream
    */
   const addCaption = useCallback((caption: Caption) => {
+    const engine = glossaryEngineRef.current;
+    const applied = engine.apply(caption);
+    if (applied.is_final && applied.glossary_spans?.length) setGlossaryHits(engine.getHitCounts());
+    transcriptRecorder.record(applied);
+
     setCaptions(prev => {
-      // Keep only last 50 captions for performance
-      const newCaptions = [...prev, caption];
+      // Keep only last 50 captions for performance (the recorder keeps the full transcript)
+      const newCaptions = mergeCaption(prev, applied);
       return newCaptions.slice(-50);
     });
-  }, []);
+  }, [transcriptRecorder]);
 
   /**
-   * Duration timer - runs when session is active and not paused
+   * Caption stream - forward transport events into the caption list
    */
   useEffect(() => {
-    if (!isActive || isPaused) return;
+    const unsubscribeCaption = transport.onCaption(addCaption);
+    const unsubscribeStatus = transport.onStatusChange(setCaptionTransportStatus);
 
-    const interval = setInterval(() => {
-      setDuration(prev => {
-        const newDuration = prev + 1;
-
-        // Daily Free Tier: 15-minute limit (900 seconds)
-        if (isDailyFreeTier) {
-          const DAILY_FREE_LIMIT = Math.floor((dailyMinutesRemaining || 15) * 60); // Remaining minutes in seconds
-          const WARNING_THRESHOLD = DAILY_FREE_LIMIT - 120; // 2 minutes before limit
-
-          // Show warning at 2 minutes remaining
-          if (newDuration === WARNING_THRESHOLD) {
-            console.warn('[SessionContext] Daily free tier: 2 minutes remaining');
-            alert('Daily Free Tier: 2 minutes remaining. Upgrade to PAYG for unlimited usage.');
-          }
+    return () => {
+      unsubscribeCaption();
+      unsubscribeStatus();
+    };
+  }, [transport, addCaption]);
 
-          // Auto-end session when daily limit reached
-          if (newDuration >= DAILY_FREE_LIMIT) {
-            console.warn('[SessionContext] Daily free tier limit reached - auto-ending session');
-            alert('Daily Free Tier: 15-minute limit reached. Session has ended. You can start a new session tomorrow or upgrade to PAYG.');
-            stopSessionRef.current?.();
-            return DAILY_FREE_LIMIT; // Cap at limit
-          }
-        }
+  // Source + target languages the transport should deliver
+  const subscribedLanguages = session ? [session.source_language, ...getActiveTargetLanguages(session)].join(',') : '';
+  const subscribedLanguagesRef = useRef<string[]>([]);
 
-        return newDuration;
-      });
+  useEffect(() => {
+    subscribedLanguagesRef.current = subscribedLanguages ? subscribedLanguages.split(',') : [];
+  }, [subscribedLanguages]);
 
-      // Update cost every second using V1 pricing (with participant multiplier)
-      setSession(prev => {
-        if (!prev || !user) return prev;
+  // Only stream while the session is running (paused sessions stop translating)
+  const streamingSessionId = session?.status === 'active' ? session.id : null;
 
-        const durationHours = (duration + 1) / 3600;
-        let newCost = 0;
+  useEffect(() => {
+    if (!streamingSessionId) return;
 
-        if (user.billing_type === 'payg') {
-          // V1 PAYG: Calculate with participant multiplier
-          const tier = prev.tier;
-          const tierData = PRICING_TIERS[tier];
-          const multiplierData = calculateParticipantMultiplier(participantsTotal || 1);
+    transport.connect({ session_id: streamingSessionId, languages: subscribedLanguagesRef.current });
+    console.log('[SessionContext] Caption transport connected for session:', streamingSessionId);
 
-          // Base cost = rate × duration × participant multiplier
-          newCost = tierData.price_per_hour * durationHours * multiplierData.multiplier;
+    return () => {
+      transport.disconnect();
+    };
+  }, [transport, streamingSessionId]);
 
-          // TODO: Add overage costs when languages are added mid-session
-          // const overageCost = calculateSessionCost(tier, durationHours, participantsTotal, prev.overages || []);
-        }
-        // Note: Subscription billing removed - PAYG-only model
+  useEffect(() => {
+    if (!streamingSessionId) return;
+    transport.updateLanguages(subscribedLanguagesRef.current);
+  }, [transport, streamingSessionId, subscribedLanguages]);
 
-        return {
-          ...prev,
-          cost: parseFloat(newCost.toFixed(2)),
-          participant_multiplier_value: calculateParticipantMultiplier(participantsTotal || 1).multiplier,
-          peak_participant_count: Math.max(prev.peak_participant_count || 0, participantsTotal)
-        };
-      });
+  /**
+   * Persist the running session so a side panel reload can rehydrate it
+   */
+  useEffect(() => {
+    if (isParticipantRole || !session || !isActive) return;
+
+    const save = () =>
+      saveSessionSnapshot({ session, duration, participants, captions, meter_events: meter.getEvents() });
+    save();
+
+    // Keep the heartbeat fresh while nothing changes (the meter stops while paused)
+    const interval = setInterval(save, SNAPSHOT_HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [isParticipantRole, session, isActive, duration, participants, captions, meter]);
+
+  /**
+   * Apply the meter's current breakdown to duration and session billing fields
+   */
+  const applyMeterBreakdown = useCallback(() => {
+    const breakdown = meter.getBreakdown();
+    if (breakdown.status === 'idle' || breakdown.status === 'ended') return breakdown;
+
+    setDuration(breakdown.elapsed_seconds);
+    setSession(prev => (prev ? { ...prev, ...getSessionBillingFields(breakdown) } : prev));
+    return breakdown;
+  }, [meter]);
+
+  /**
+   * Language billing - record active language changes (add/remove/disable/enable) on the meter
+   */
+  const activeLanguagesKey = session ? getActiveTargetLanguages(session).join(',') : '';
+  useEffect(() => {
+    const breakdown = meter.getBreakdown();
+    if (breakdown.status === 'idle' || breakdown.status === 'ended') return;
+
+    const nextLanguages = activeLanguagesKey ? activeLanguagesKey.split(',') : [];
+    breakdown.active_languages
+      .filter(code => !nextLanguages.includes(code))
+      .forEach(code => meter.record({ type: 'language_remove', language_code: code }));
+    nextLanguages
+      .filter(code => !breakdown.active_languages.includes(code))
+      .forEach(code => meter.record({ type: 'language_add', language_code: code }));
+
+    applyMeterBreakdown();
+  }, [meter, activeLanguagesKey, applyMeterBreakdown]);
+
+  /**
+   * Meter refresh - renders elapsed time and cost every second while active
+   */
+  useEffect(() => {
+    if (!isActive || isPaused) return;
+
+    const interval = setInterval(() => {
+      const breakdown = applyMeterBreakdown();
+      if (breakdown.status !== 'active' || !isDailyFreeTier) return;
+
+      // Daily Free Tier: limit is the remaining daily minutes
+      const dailyFreeLimit = Math.floor((dailyMinutesRemaining || 15) * 60);
+
+      // Show warning at 2 minutes remaining
+      if (!freeTierWarningShownRef.current && breakdown.elapsed_seconds >= dailyFreeLimit - 120) {
+        freeTierWarningShownRef.current = true;
+        console.warn('[SessionContext] Daily free tier: 2 minutes remaining');
+        alert('Daily Free Tier: 2 minutes remaining. Upgrade to PAYG for unlimited usage.');
+      }
+
+      // Auto-end session when daily limit reached
+      if (breakdown.elapsed_seconds >= dailyFreeLimit) {
+        console.warn('[SessionContext] Daily free tier limit reached - auto-ending session');
+        alert('Daily Free Tier: 15-minute limit reached. Session has ended. You can start a new session tomorrow or upgrade to PAYG.');
+        stopSessionRef.current?.();
+      }
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [isActive, isPaused, duration, isDailyFreeTier, dailyMinutesRemaining, user?.billing_type]);
+  }, [isActive, isPaused, isDailyFreeTier, dailyMinutesRemaining, applyMeterBreakdown]);
 
   /**
    * Load mock session for testing (for participant role in test mode)
@@ -495,6 +1486,7 @@ export function SessionProvider({ children }: { children: ReactNode}) {
 
   const value: SessionContextValue = {
     session,
+    lastEndedSession,
     isActive,
     isPaused,
     duration,
@@ -504,17 +1496,40 @@ export function SessionProvider({ children }: { children: ReactNode}) {
     participantsTotal,
     captions,
     currentCaption,
+    captionTransportStatus,
+    glossaryEntries: glossaryEngine.getEntries(),
+    glossaryConflicts: glossaryComposition.conflicts,
+    glossaryHits,
     startSession,
     pauseSession,
     resumeSession,
     stopSession,
     updateLanguages,
     updateMeetingType,
-    updateGlossary,
+    updateGlossaries,
     addLanguageToSession,
     addLanguagesToSession,
+    removeLanguageFromSession,
+    setLanguageEnabled,
+    orphanedSession,
+    resumeOrphanedSession,
+    endOrphanedSession,
     addParticipant,
     removeParticipant,
+    admissionQueue,
+    pendingBracketApproval,
+    approveParticipantBracket,
+    denyParticipantBracket,
+    admissionStatus,
+    languageRequests,
+    approveLanguageRequest,
+    denyLanguageRequest,
+    approveAllLanguageRequests,
+    requestLanguage,
+    participantLanguageRequests,
+    publishLanguageSelection,
+    sendAppMessage,
+    onAppMessage: bus.onMessage.bind(bus),
     addCaption
   };
 
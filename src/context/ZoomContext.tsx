@@ -1,5 +1,7 @@
 import { createContext, useContext, ReactNode } from 'react';
 import { useZoomSDK, UseZoomSDKReturn } from '../hooks/useZoomSDK';
+import type { ZoomDriver } from '../utils/zoomDriver';
+import type { TestModeConfig } from '../components/TestModeSelector';
 
 /**
  * Zoom Context
@@ -12,6 +14,7 @@ import { useZoomSDK, UseZoomSDKReturn } from '../hooks/useZoomSDK';
  * - Meeting context (meeting ID, topic, UUID)
  * - User context (user ID, name, role, email)
  * - SDK control methods (connect, disconnect, refresh, share)
+ * - Swappable driver: real Zoom Apps SDK or scriptable mock
  */
 
 interface ZoomContextValue extends UseZoomSDKReturn {}
@@ -34,8 +37,16 @@ const ZoomContext = createContext<ZoomContextValue | undefined>(undefined);
  * }
  * ```
  */
-export function ZoomProvider({ children, testConfig }: { children: ReactNode; testConfig?: any }) {
-  const zoomSDK = useZoomSDK(testConfig);
+export function ZoomProvider({
+  children,
+  testConfig,
+  driver
+}: {
+  children: ReactNode;
+  testConfig?: TestModeConfig | null;
+  driver?: ZoomDriver;
+}) {
+  const zoomSDK = useZoomSDK(testConfig, driver);
 
   return (
     <ZoomContext.Provider value={zoomSDK}>
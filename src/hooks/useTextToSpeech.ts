@@ -0,0 +1,151 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Caption } from '../types';
+import {
+  DEFAULT_SPEECH_SETTINGS,
+  SpeechEngine,
+  SpeechQueue,
+  SpeechQueueState,
+  SpeechSettings,
+  SpeechVoice,
+  createSpeechEngine,
+  getVoicesForLanguage
+} from '../utils/textToSpeech';
+
+/**
+ * Text-to-Speech Hook
+ *
+ * Reads a participant's captions aloud through a `SpeechQueue` (see
+ * utils/textToSpeech). While listening, every new final caption is queued;
+ * listening starts with the latest caption shown. Only available when the
+ * host enabled TTS for the session.
+ *
+ * Voice, rate, pitch and volume are the participant's choice and are kept
+ * on this device. A chosen voice applies to the language it speaks; other
+ * languages use the default voice.
+ */
+
+export const TTS_SETTINGS_KEY = 'meetingsync-tts-settings';
+
+export interface UseTextToSpeechOptions {
+  enabled: boolean; // The session's tts_enabled
+  captions: Caption[]; // Captions shown to the participant, oldest first
+  language: string;
+}
+
+export interface UseTextToSpeechReturn extends SpeechQueueState {
+  isListening: boolean;
+  voices: SpeechVoice[]; // Voices for the language
+  settings: SpeechSettings;
+  startListening: () => void;
+  stopListening: () => void;
+  toggleCaption: (caption: Caption) => void;
+  updateSettings: (settings: Partial<SpeechSettings>) => void;
+}
+
+function loadSpeechSettings(): SpeechSettings {
+  try {
+    const raw = localStorage.getItem(TTS_SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SPEECH_SETTINGS, ...(JSON.parse(raw) as Partial<SpeechSettings>) } : DEFAULT_SPEECH_SETTINGS;
+  } catch (error) {
+    console.warn('[useTextToSpeech] Discarding unreadable settings:', error);
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+}
+
+/**
+ * useTextToSpeech Hook
+ *
+ * @example
+ * ```tsx
+ * const tts = useTextToSpeech({ enabled: Boolean(session?.tts_enabled), captions: filteredCaptions, language });
+ *
+ * <Button onClick={tts.isListening ? tts.stopListening : tts.startListening}>Listen</Button>
+ * ```
+ */
+export function useTextToSpeech({ enabled, captions, language }: UseTextToSpeechOptions): UseTextToSpeechReturn {
+  const [engine] = useState<SpeechEngine>(() => createSpeechEngine());
+  const [queue] = useState(() => new SpeechQueue(engine));
+  const [queueState, setQueueState] = useState<SpeechQueueState>(() => queue.getState());
+  const [allVoices, setAllVoices] = useState<SpeechVoice[]>(() => engine.getVoices());
+  const [settings, setSettings] = useState<SpeechSettings>(loadSpeechSettings);
+  const [isListening, setIsListening] = useState(false);
+
+  const listening = isListening && enabled;
+  const voices = useMemo(() => getVoicesForLanguage(allVoices, language), [allVoices, language]);
+
+  useEffect(() => queue.onChange(setQueueState), [queue]);
+
+  useEffect(
+    () => engine.onVoicesChanged(() => setAllVoices(engine.getVoices())),
+    [engine]
+  );
+
+  // Stop speaking when unmounted
+  useEffect(() => () => queue.stop(), [queue]);
+
+  useEffect(() => {
+    const voiceId = voices.some(voice => voice.id === settings.voice_id) ? settings.voice_id : null;
+    queue.setSettings({ ...settings, voice_id: voiceId });
+  }, [queue, settings, voices]);
+
+  // Queue new captions while listening
+  useEffect(() => {
+    if (listening) captions.forEach(caption => queue.enqueue(caption));
+  }, [queue, listening, captions]);
+
+  // Stop when listening ends, and stop replays too when the host turns TTS off
+  useEffect(() => {
+    if (!listening) queue.stop();
+  }, [queue, listening]);
+  useEffect(() => {
+    if (!enabled) queue.stop();
+  }, [queue, enabled]);
+
+  const startListening = useCallback(() => {
+    if (!enabled) return;
+    // Start from the latest caption rather than reading out the backlog
+    queue.pass(captions.filter(caption => caption.is_final).slice(0, -1));
+    setIsListening(true);
+    console.log('[useTextToSpeech] Listening with', engine.kind, 'engine');
+  }, [enabled, queue, captions, engine]);
+
+  const stopListening = useCallback(() => {
+    setIsListening(false);
+    console.log('[useTextToSpeech] Stopped listening');
+  }, []);
+
+  const toggleCaption = useCallback(
+    (caption: Caption) => {
+      if (!enabled) return;
+      if (queueState.speaking_id === caption.id) {
+        queue.stop();
+      } else {
+        queue.speakNow(caption);
+      }
+    },
+    [enabled, queue, queueState.speaking_id]
+  );
+
+  const updateSettings = useCallback((updates: Partial<SpeechSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...updates };
+      try {
+        localStorage.setItem(TTS_SETTINGS_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.warn('[useTextToSpeech] Failed to save settings:', error);
+      }
+      return next;
+    });
+  }, []);
+
+  return {
+    ...queueState,
+    isListening: listening,
+    voices,
+    settings,
+    startListening,
+    stopListening,
+    toggleCaption,
+    updateSettings
+  };
+}
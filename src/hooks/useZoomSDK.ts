@@ -1,66 +1,92 @@
 import { useState, useEffect, useCallback } from 'react';
-// ZOOM SDK DISABLED FOR GUI DEVELOPMENT
-// import zoomSdk from '@zoom/appssdk';
+import {
+  ZoomDriver,
+  ZoomMeetingContext,
+  ZoomUserContext,
+  ZoomRunningContext,
+  ZoomMeetingEventListener,
+  createZoomDriver
+} from '../utils/zoomDriver';
+import type { TestModeConfig } from '../components/TestModeSelector';
+
+export type { ZoomMeetingContext, ZoomUserContext, ZoomMeetingEvent } from '../utils/zoomDriver';
 
 /**
  * Zoom SDK Hook
  *
- * ⚠️ ZOOM SDK DISABLED - GUI DEVELOPMENT MODE
- *
- * This hook now returns MOCK DATA ONLY for GUI testing.
- * Real Zoom SDK integration is disabled until GUI is finalized.
+ * Connects to the Zoom client through a `ZoomDriver` (see utils/zoomDriver):
+ * the real @zoom/appssdk inside Zoom, or the scriptable mock driver in the
+ * browser and in tests. The driver is chosen once, when the hook mounts.
  *
  * Features:
- * - Mock connection state (always connected)
- * - Mock meeting context
- * - Mock user context
- * - No actual Zoom SDK calls
+ * - Connection state (loading, connected, error)
+ * - Meeting context (meeting ID, topic, UUID)
+ * - User context (user ID, name, role)
+ * - Running context (inMeeting, inWebinar, ...)
+ * - Share app with all participants
+ * - Meeting events (role/running-context changes are applied to state here;
+ *   other consumers subscribe with `onMeetingEvent`)
  */
 
-export interface ZoomMeetingContext {
-  meetingID: string;
-  meetingTopic?: string;
-  meetingUUID?: string;
-}
-
-export interface ZoomUserContext {
-  userId: string;
-  displayName?: string;
-  email?: string;
-  role?: 'host' | 'cohost' | 'attendee';
-  accountId?: string;
-  screenName?: string;
-}
-
 export interface ZoomSDKState {
   isConnected: boolean;
   isLoading: boolean;
   error: string | null;
   meetingContext: ZoomMeetingContext | null;
   userContext: ZoomUserContext | null;
+  runningContext: ZoomRunningContext | null;
+  isAppShared: boolean;
 }
 
 export interface UseZoomSDKReturn extends ZoomSDKState {
+  driver: ZoomDriver;
   connect: () => Promise<void>;
   disconnect: () => void;
   refreshMeetingContext: () => Promise<void>;
   refreshUserContext: () => Promise<void>;
   shareApp: () => Promise<void>;
+  onMeetingEvent: (listener: ZoomMeetingEventListener) => () => void;
+}
+
+const INITIAL_STATE: ZoomSDKState = {
+  isConnected: false,
+  isLoading: true,
+  error: null,
+  meetingContext: null,
+  userContext: null,
+  runningContext: null,
+  isAppShared: false
+};
+
+/**
+ * Build the default driver; test mode picks the mock user's role
+ */
+function createDefaultDriver(testConfig?: TestModeConfig | null): ZoomDriver {
+  const isParticipant = testConfig?.role === 'participant';
+  const userName = isParticipant ? 'Participant User' : 'Host User';
+
+  return createZoomDriver(testConfig ? 'mock' : undefined, {
+    user: {
+      // Each participant tab needs its own ID so app messages between tabs are not treated as self-sent
+      ...(isParticipant ? { userId: `mock-participant-${Math.random().toString(36).slice(2, 8)}` } : {}),
+      role: isParticipant ? 'attendee' : 'host',
+      displayName: userName,
+      screenName: userName
+    }
+  });
 }
 
 /**
  * useZoomSDK Hook
  *
+ * @param testConfig - Test mode selection (forces the mock driver with its role)
+ * @param driver - Explicit driver (e.g. a scripted MockZoomDriver in tests)
  * @returns {UseZoomSDKReturn} Zoom SDK state and methods
  *
  * @example
  * ```tsx
  * function MyComponent() {
- *   const { isConnected, meetingContext, userContext, connect } = useZoomSDK();
- *
- *   useEffect(() => {
- *     connect();
- *   }, []);
+ *   const { isConnected, meetingContext, userContext } = useZoomSDK();
  *
  *   if (!isConnected) return <div>Connecting to Zoom...</div>;
  *
@@ -73,118 +99,56 @@ export interface UseZoomSDKReturn extends ZoomSDKState {
  * }
  * ```
  */
-export function useZoomSDK(testConfig?: any): UseZoomSDKReturn {
-  // GUI DEVELOPMENT MODE: Initialize as already connected with mock data
-  // Determine role from testConfig
-  const mockRole = testConfig?.role === 'participant' ? 'attendee' : 'host';
-  const mockUserName = testConfig?.role === 'participant' ? 'Participant User' : 'Host User';
-
-  const [state, setState] = useState<ZoomSDKState>({
-    isConnected: true,  // Always connected in GUI development mode
-    isLoading: false,
-    error: null,
-    meetingContext: {
-      meetingID: 'mock-meeting-123',
-      meetingTopic: 'Mock Meeting for Development',
-      meetingUUID: 'mock-uuid-456'
-    },
-    userContext: {
-      userId: 'mock-user-001',
-      displayName: mockUserName,
-      email: 'test@meetingsync.local',
-      role: mockRole,
-      accountId: 'mock-account-789',
-      screenName: mockUserName
-    }
-  });
+export function useZoomSDK(testConfig?: TestModeConfig | null, driver?: ZoomDriver): UseZoomSDKReturn {
+  const [zoomDriver] = useState<ZoomDriver>(() => driver ?? createDefaultDriver(testConfig));
+  const [state, setState] = useState<ZoomSDKState>(INITIAL_STATE);
 
   /**
-   * Connect function - ensures mock data is set
+   * Configure the driver and load meeting/user context
    */
   const connect = useCallback(async () => {
-    // ========================================
-    // ZOOM SDK DISABLED FOR GUI DEVELOPMENT
-    // ========================================
-    console.log('[useZoomSDK] 🔧 GUI Development Mode - Using Mock Data (Zoom SDK Disabled)');
-
-    // Set state with mock data (important for when disconnect was called)
-    setState({
-      isConnected: true,
-      isLoading: false,
-      error: null,
-      meetingContext: {
-        meetingID: 'mock-meeting-123',
-        meetingTopic: 'Mock Meeting for Development',
-        meetingUUID: 'mock-uuid-456'
-      },
-      userContext: {
-        userId: 'mock-user-001',
-        displayName: mockUserName,
-        email: 'test@meetingsync.local',
-        role: mockRole,
-        accountId: 'mock-account-789',
-        screenName: mockUserName
-      }
-    });
-
-    console.log('[useZoomSDK] Mock data connected successfully');
-
-    // ========================================
-    // SIMULATE ZOOM NATIVE CONTROLS IN TEST MODE
-    // ========================================
-    // Detect clicks on the Zoom app header area and show helpful message
-    // This simulates the native Zoom settings button behavior
-    const handleNativeSettingsClick = (event: MouseEvent) => {
-      // Check if click is in the top header area (roughly top 60px)
-      if (event.clientY < 60) {
-        console.log('[useZoomSDK] Detected click in native Zoom header area');
-
-        // Show informative alert about native controls
-        setTimeout(() => {
-          alert(
-            'Native Zoom Controls\n\n' +
-            'The controls at the very top of this window (gear icon, close button) are provided by Zoom.\n\n' +
-            'In this test mode, they are not functional.\n\n' +
-            'Please use the Settings gear icon inside the app (in the teal header below) to access settings.\n\n' +
-            'These native controls will work when the app runs inside a real Zoom meeting.'
-          );
-        }, 100);
-      }
-    };
-
-    // Add event listener for clicks in header area
-    document.addEventListener('click', handleNativeSettingsClick);
-
-    // Store cleanup function
-    (window as any).__zoomHeaderCleanup = () => {
-      document.removeEventListener('click', handleNativeSettingsClick);
-    };
-  }, [mockRole, mockUserName]);
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const { runningContext } = await zoomDriver.initialize();
+      const [meetingContext, userContext] = await Promise.all([
+        zoomDriver.getMeetingContext(),
+        zoomDriver.getUserContext()
+      ]);
+
+      setState({
+        isConnected: true,
+        isLoading: false,
+        error: null,
+        meetingContext,
+        userContext,
+        runningContext,
+        isAppShared: false
+      });
+
+      console.log('[useZoomSDK] Connected:', {
+        driver: zoomDriver.kind,
+        runningContext,
+        meetingID: meetingContext.meetingID,
+        role: userContext.role
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to connect to Zoom';
+      console.error('[useZoomSDK] Connection failed:', error);
+      setState({ ...INITIAL_STATE, isLoading: false, error: message });
+    }
+  }, [zoomDriver]);
 
   /**
    * Disconnect from Zoom SDK
    */
   const disconnect = useCallback(() => {
-    setState({
-      isConnected: false,
-      isLoading: false,
-      error: null,
-      meetingContext: null,
-      userContext: null
-    });
-
-    // Clean up native header click listener
-    if ((window as any).__zoomHeaderCleanup) {
-      (window as any).__zoomHeaderCleanup();
-      delete (window as any).__zoomHeaderCleanup;
-    }
-
+    setState({ ...INITIAL_STATE, isLoading: false });
     console.log('[useZoomSDK] Disconnected');
   }, []);
 
   /**
    * Refresh meeting context (useful when meeting info changes)
-   * DISABLED FOR GUI DEVELOPMENT - Returns mock data
    */
   const refreshMeetingContext = useCallback(async () => {
     if (!state.isConnected) {
@@ -192,12 +156,16 @@ export function useZoomSDK(testConfig?: any): UseZoomSDKReturn {
       return;
     }
 
-    console.log('[useZoomSDK] Mock: Meeting context refreshed (no real SDK call)');
-  }, [state.isConnected]);
+    try {
+      const meetingContext = await zoomDriver.getMeetingContext();
+      setState(prev => ({ ...prev, meetingContext }));
+    } catch (error) {
+      console.error('[useZoomSDK] Failed to refresh meeting context:', error);
+    }
+  }, [state.isConnected, zoomDriver]);
 
   /**
    * Refresh user context (useful after authorization changes)
-   * DISABLED FOR GUI DEVELOPMENT - Returns mock data
    */
   const refreshUserContext = useCallback(async () => {
     if (!state.isConnected) {
@@ -205,12 +173,17 @@ export function useZoomSDK(testConfig?: any): UseZoomSDKReturn {
       return;
     }
 
-    console.log('[useZoomSDK] Mock: User context refreshed (no real SDK call)');
-  }, [state.isConnected]);
+    try {
+      const userContext = await zoomDriver.getUserContext();
+      setState(prev => ({ ...prev, userContext }));
+    } catch (error) {
+      console.error('[useZoomSDK] Failed to refresh user context:', error);
+    }
+  }, [state.isConnected, zoomDriver]);
 
   /**
    * Share app with other meeting participants
-   * DISABLED FOR GUI DEVELOPMENT - Mock implementation
+   * @throws If the driver call fails (callers show their own error message)
    */
   const shareApp = useCallback(async () => {
     if (!state.isConnected) {
@@ -218,8 +191,42 @@ export function useZoomSDK(testConfig?: any): UseZoomSDKReturn {
       return;
     }
 
-    console.log('[useZoomSDK] Mock: App shared successfully (no real SDK call)');
-  }, [state.isConnected]);
+    await zoomDriver.shareApp();
+    console.log('[useZoomSDK] App shared with all participants');
+  }, [state.isConnected, zoomDriver]);
+
+  /**
+   * Subscribe to meeting events from the driver
+   */
+  const onMeetingEvent = useCallback(
+    (listener: ZoomMeetingEventListener) => zoomDriver.onMeetingEvent(listener),
+    [zoomDriver]
+  );
+
+  /**
+   * Keep user/running context and share state in step with meeting events
+   */
+  useEffect(() => {
+    return zoomDriver.onMeetingEvent(event => {
+      switch (event.type) {
+        case 'role_changed':
+          setState(prev => ({
+            ...prev,
+            userContext: prev.userContext
+              ? { ...prev.userContext, role: event.role, screenName: event.screenName ?? prev.userContext.screenName }
+              : prev.userContext
+          }));
+          break;
+        case 'running_context_changed':
+          setState(prev => ({ ...prev, runningContext: event.runningContext }));
+          break;
+        case 'app_shared':
+        case 'app_unshared':
+          setState(prev => ({ ...prev, isAppShared: event.type === 'app_shared' }));
+          break;
+      }
+    });
+  }, [zoomDriver]);
 
   /**
    * Auto-connect on mount
@@ -231,14 +238,16 @@ export function useZoomSDK(testConfig?: any): UseZoomSDKReturn {
     return () => {
       disconnect();
     };
-  }, []); // Remove dependencies to prevent re-running
+  }, [connect, disconnect]);
 
   return {
     ...state,
+    driver: zoomDriver,
     connect,
     disconnect,
     refreshMeetingContext,
     refreshUserContext,
-    shareApp
+    shareApp,
+    onMeetingEvent
   };
 }
@@ -14,6 +14,7 @@ export interface User {
   name: string;
   email: string;
   zoom_account_type: ZoomAccountType;
+  zoom_account_id?: string; // Zoom account the user belongs to; templates are shared within it
   billing_type: BillingType; // Always 'payg' - subscription removed
   subscription_tier?: SubscriptionTier; // PAYG tier (starter/professional/enterprise)
   tier_selected_date?: string; // ISO date string when tier was last selected (for monthly lock-in)
@@ -52,6 +53,7 @@ export interface BillingStatus {
 
 export type SessionStatus = 'not_started' | 'active' | 'paused' | 'ended';
 export type MeetingType = 'general' | 'medical' | 'technical' | 'legal' | 'business' | 'academic' | 'custom';
+export type LowConfidencePolicy = 'hide' | 'dim' | 'flag'; // How participants see captions below the confidence threshold
 
 export interface Session {
   id: string;
@@ -65,8 +67,8 @@ export interface Session {
   meeting_type: MeetingType;
   source_language: string;
   target_languages: string[];
-  glossary_id?: string;
-  glossary_name?: string;
+  disabled_languages?: string[]; // Target languages temporarily paused by the host (not translated or billed)
+  glossaries?: GlossaryRef[]; // Ordered by precedence; versions are pinned when the session starts
   participant_count_total: number;
   participant_count_viewing: number;
   tier: SubscriptionTier;
@@ -86,9 +88,41 @@ export interface Session {
   allow_language_requests?: boolean; // Host allows participants to request additional languages
   allow_participant_overage?: boolean; // Host allows more than 100 participants
   tts_enabled?: boolean; // Host enables Text-to-Speech (TTS) for this session
+  show_partial_results?: boolean; // Participants see interim captions while they are revised (default true)
+  confidence_threshold?: number; // Percentage (0-100); final captions below it are low-confidence (default 80)
+  low_confidence_policy?: LowConfidencePolicy; // Default 'flag'
+  low_confidence_rate?: number; // Share of the transcript below the threshold (0-1), recorded when the session ends
   last_updated?: number; // Timestamp to force React re-renders when session data changes
 }
 
+// ============================================
+// LANGUAGE REQUESTS
+// ============================================
+
+export type LanguageRequestStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+export interface LanguageRequester {
+  participant_id: string;
+  participant_name: string;
+  reason?: string;
+  requested_at: string;
+}
+
+/**
+ * A participant request for a language the session does not translate yet.
+ * Requests for the same language are batched while pending.
+ */
+export interface LanguageRequest {
+  id: string;
+  session_id: string;
+  language_code: string;
+  status: LanguageRequestStatus;
+  requesters: LanguageRequester[]; // Everyone who asked for this language (requester count = length)
+  created_at: string;
+  expires_at: string; // Pending requests expire if the host does not respond
+  resolved_at?: string;
+}
+
 // ============================================
 // TEMPLATES
 // ============================================
@@ -100,15 +134,65 @@ export interface Template {
   source_language: string;
   target_languages: string[];
   meeting_type: MeetingType;
-  glossary_id?: string;
-  glossary_name?: string; // Name of associated glossary
+  glossaries?: GlossaryRef[]; // Ordered by precedence
   tts_enabled: boolean;
   confidence_threshold: number;
+  low_confidence_policy: LowConfidencePolicy;
   show_partial_results: boolean;
   host_instructions?: string;
   last_used?: string;
   created_at: string;
   updated_at?: string; // Optional updated timestamp
+  sharing?: TemplateSharing; // Set for templates in the account's shared library
+}
+
+/** Template settings, without identity, ownership or usage metadata */
+export type TemplateFields = Omit<Template, 'id' | 'user_id' | 'created_at' | 'updated_at' | 'last_used' | 'sharing'>;
+
+export type TemplateRole = 'owner' | 'editor' | 'viewer';
+
+export interface TemplateMember {
+  user_id: string;
+  name: string;
+  role: Exclude<TemplateRole, 'owner'>;
+}
+
+/**
+ * Sharing of a template in an account's shared library. Everyone in the
+ * account gets `account_role`; members listed explicitly can be granted more.
+ */
+export interface TemplateSharing {
+  account_id: string;
+  owner_name: string; // The owner is the template's user_id
+  account_role: Exclude<TemplateRole, 'owner'>;
+  members: TemplateMember[];
+  shared_at: string;
+}
+
+// ============================================
+// SCHEDULED SESSIONS
+// ============================================
+
+/** Session settings applied when a scheduled session's meeting opens */
+export type ScheduledSessionConfig = Omit<TemplateFields, 'name'>;
+
+/**
+ * Translation preconfigured for an upcoming Zoom meeting; HostSetup loads it
+ * when the app opens in the matching meeting (see scheduledSessions.ts)
+ */
+export interface ScheduledSession {
+  id: string;
+  user_id: string;
+  meeting_id: string; // Zoom meeting ID; recurring meetings share it
+  meeting_uuid?: string; // Ties the schedule to one occurrence of the meeting
+  meeting_topic?: string;
+  scheduled_start: string; // ISO date string
+  template_id?: string; // Template the configuration was loaded from
+  config: ScheduledSessionConfig;
+  auto_start: boolean; // Start translating as soon as the app opens in the meeting
+  started_at?: string; // Set once a session has been started from the schedule
+  created_at: string;
+  updated_at?: string;
 }
 
 // ============================================
@@ -120,7 +204,7 @@ export interface Glossary {
   user_id: string;
   name: string;
   description?: string; // Optional description for glossary
-  term_count: number;
+  term_count: number; // Derived from the glossary's entries (see withTermCount)
   tags: string[];
   meeting_type_tags?: string[]; // Tags for meeting types this glossary is used for
   languages: string[];
@@ -128,6 +212,54 @@ export interface Glossary {
   updated_at: string;
 }
 
+export type GlossaryEntryStatus = 'draft' | 'approved';
+
+export type PartOfSpeech = 'noun' | 'proper_noun' | 'verb' | 'adjective' | 'adverb' | 'phrase' | 'acronym' | 'other';
+
+export interface GlossaryTranslation {
+  term: string;
+  forbidden_variants: string[]; // Renderings that must not be used in this language
+}
+
+/**
+ * One glossary concept: a source term and its translations in every target language
+ */
+export interface GlossaryEntry {
+  id: string;
+  source_term: string;
+  translations: Record<string, GlossaryTranslation>; // Keyed by target language code
+  part_of_speech?: PartOfSpeech;
+  context_notes: string;
+  status: GlossaryEntryStatus; // Draft entries are not enforced in sessions
+  do_not_translate?: boolean; // Keep the source term as-is in every language (brand names, product codes)
+}
+
+/**
+ * Snapshot of a glossary taken on every save. Versions are never edited or
+ * deleted; a rollback saves the old content as a new version.
+ */
+export interface GlossaryVersion {
+  glossary_id: string;
+  version: number; // 1-based, increments with every save
+  author_id: string;
+  author_name: string;
+  created_at: string;
+  summary: string; // What changed since the previous version, e.g. "2 added, 1 changed"
+  restored_from?: number; // Version this one rolled back to
+  name: string;
+  description?: string;
+  entries: GlossaryEntry[];
+}
+
+/**
+ * A glossary in a session's or template's ordered glossary list. Where
+ * glossaries disagree on a term, the earlier one wins (see glossaryComposition.ts).
+ */
+export interface GlossaryRef {
+  glossary_id: string;
+  version?: number; // Pinned version; the latest when unset
+}
+
 // ============================================
 // LANGUAGES
 // ============================================
@@ -167,12 +299,30 @@ export interface LanguageOverage {
   calculated_cost: number; // Total cost for this overage (updated when removed or session ends)
 }
 
+export type ParticipantBillingMode = 'time_weighted' | 'peak';
+
 export interface ParticipantMultiplier {
-  participant_count: number; // Current participant count
-  multiplier: number; // Calculated multiplier value (e.g., 1.0, 1.25, 1.5)
+  participant_count: number; // Current participant count (peak count in 'peak' billing mode)
+  multiplier: number; // Calculated multiplier value (e.g., 1.0, 1.25, 1.5); time-weighted average in 'time_weighted' mode
   base_threshold: number; // Base threshold (100 participants)
   increment_threshold: number; // Increment per threshold (100 participants)
   increment_rate: number; // Rate increase per increment (0.25)
+  billing_mode?: ParticipantBillingMode; // How the multiplier was applied over the session
+  brackets?: ParticipantBracketUsage[]; // Billed minutes per multiplier bracket
+}
+
+export interface ParticipantBracketUsage {
+  multiplier: number; // Bracket multiplier (e.g., 1.25)
+  peak_participant_count: number; // Highest participant count billed in this bracket
+  minutes: number; // Billed minutes at this multiplier
+}
+
+/**
+ * Billed time spent at one participant count (input to bracket pricing)
+ */
+export interface ParticipantCountSegment {
+  participant_count: number;
+  minutes: number;
 }
 
 // ============================================
@@ -227,6 +377,22 @@ export interface Caption {
   confidence: number;
   is_final: boolean;
   speaker_name?: string; // Name of the person speaking (for speaker identification)
+  utterance_id?: string; // Shared by the captions (one per language) of the same utterance
+  glossary_spans?: GlossarySpan[]; // Glossary hits in `text`, set when a glossary is active
+}
+
+/**
+ * A glossary hit in a caption (offsets into the caption text after the glossary was applied)
+ * - replaced: the source term was replaced by the glossary translation
+ * - confirmed: the glossary translation was already used
+ * - protected: a do-not-translate term was kept as-is
+ */
+export interface GlossarySpan {
+  start: number;
+  end: number;
+  term_id: string;
+  source_term: string;
+  action: 'replaced' | 'confirmed' | 'protected';
 }
 
 // ============================================
@@ -287,7 +453,7 @@ export interface HostSetupForm {
   source_language: string;
   target_languages: string[];
   tier?: SubscriptionTier; // Only for PAYG users
-  glossary_id?: string;
+  glossaries?: GlossaryRef[];
   tts_enabled: boolean;
   confidence_threshold: number;
   show_partial_results: boolean;
@@ -0,0 +1,267 @@
+/**
+ * App Message Bus
+ *
+ * Typed messaging between the host's app instance and the participants' app
+ * instances in the same meeting. The host broadcasts session configuration
+ * (languages, TTS, request settings) and language-request outcomes;
+ * participants report which caption language they are viewing and submit
+ * language requests.
+ *
+ * Implementations:
+ * - ZoomAppMessageBus: Zoom Apps SDK `connect` + `sendMessage`/`postMessage`,
+ *   received through `onMessage`
+ * - BroadcastChannelMessageBus: same-origin BroadcastChannel, so a host tab and
+ *   participant tabs on one machine can talk during local testing
+ *
+ * Usage:
+ * ```typescript
+ * import { createAppMessageBus } from '../utils/appMessageBus';
+ *
+ * const bus = createAppMessageBus();
+ * await bus.connect({ sender_id: userContext.userId, role: 'participant' });
+ * const unsubscribe = bus.onMessage((message, sender) => console.log(message.type, sender.sender_id));
+ * await bus.send({ type: 'participant_language', participant_name: 'Ana', language_code: 'es' });
+ * ```
+ *
+ * The bus follows the Zoom driver selection (see zoomDriver.getZoomDriverKind):
+ * the SDK bus inside Zoom, the BroadcastChannel stand-in otherwise.
+ */
+
+import zoomSdk from '@zoom/appssdk';
+import type { JSONObject, OnMessageEvent } from '@zoom/appssdk';
+import type { LanguageRequestStatus, Session } from '../types';
+import type { ParticipantAdmissionStatus } from './participantAdmission';
+import { ZoomDriverKind, getZoomDriverKind } from './zoomDriver';
+
+// ============================================
+// Types
+// ============================================
+
+export type AppMessageBusKind = 'zoom' | 'broadcast-channel';
+
+export type AppInstanceRole = 'host' | 'participant';
+
+/** Session settings participants need to mirror the host's session */
+export type SessionConfigUpdate = Pick<
+  Session,
+  | 'status'
+  | 'source_language'
+  | 'target_languages'
+  | 'disabled_languages'
+  | 'tts_enabled'
+  | 'show_partial_results'
+  | 'confidence_threshold'
+  | 'low_confidence_policy'
+  | 'allow_language_requests'
+  | 'allow_participant_overage'
+  | 'glossaries'
+>;
+
+export type AppMessage =
+  // Host -> participants
+  | { type: 'session_config'; session_id: string; config: SessionConfigUpdate }
+  | {
+      type: 'language_request_update';
+      request_id: string;
+      language_code: string;
+      status: LanguageRequestStatus;
+      participant_ids: string[]; // Requesters the update is addressed to
+    }
+  | {
+      type: 'participant_admission';
+      participant_id: string;
+      status: ParticipantAdmissionStatus;
+      queue_position?: number; // 1-based, while queued
+    }
+  // Participant -> host
+  | { type: 'session_config_request' }
+  | { type: 'language_request'; participant_name: string; language_code: string; reason?: string }
+  | { type: 'participant_language'; participant_name: string; language_code: string | null }; // null = stopped viewing
+
+export type AppMessageType = AppMessage['type'];
+
+/** Who sent a message (the sender's Zoom participant/user ID and app role) */
+export interface AppMessageSender {
+  sender_id: string;
+  role: AppInstanceRole;
+}
+
+export interface AppMessageEnvelope extends AppMessageSender {
+  version: number;
+  message: AppMessage;
+}
+
+export type AppMessageListener = (message: AppMessage, sender: AppMessageSender) => void;
+
+export interface AppMessageBus {
+  readonly kind: AppMessageBusKind;
+  readonly isConnected: boolean;
+  /** Open the channel; messages are stamped with `self` and own messages are ignored */
+  connect: (self: AppMessageSender) => Promise<void>;
+  disconnect: () => void;
+  send: (message: AppMessage) => Promise<void>;
+  onMessage: (listener: AppMessageListener) => () => void;
+}
+
+export const APP_MESSAGE_VERSION = 1;
+
+const APP_MESSAGE_TYPES: AppMessageType[] = [
+  'session_config',
+  'language_request_update',
+  'participant_admission',
+  'session_config_request',
+  'language_request',
+  'participant_language'
+];
+
+// ============================================
+// Wire Format
+// ============================================
+
+/**
+ * Validate an incoming payload; anything from another app version or of an
+ * unknown type is dropped
+ */
+export function parseAppMessageEnvelope(payload: unknown): AppMessageEnvelope | null {
+  if (typeof payload !== 'object' || payload === null) return null;
+
+  const envelope = payload as Partial<AppMessageEnvelope>;
+  if (envelope.version !== APP_MESSAGE_VERSION) return null;
+  if (typeof envelope.sender_id !== 'string') return null;
+  if (envelope.role !== 'host' && envelope.role !== 'participant') return null;
+  if (!envelope.message || !APP_MESSAGE_TYPES.includes(envelope.message.type)) return null;
+
+  return envelope as AppMessageEnvelope;
+}
+
+// ============================================
+// Shared base
+// ============================================
+
+abstract class BaseAppMessageBus implements AppMessageBus {
+  abstract readonly kind: AppMessageBusKind;
+  protected self: AppMessageSender | null = null;
+  private listeners = new Set<AppMessageListener>();
+
+  get isConnected(): boolean {
+    return this.self !== null;
+  }
+
+  abstract connect(self: AppMessageSender): Promise<void>;
+  abstract disconnect(): void;
+  protected abstract deliver(envelope: AppMessageEnvelope): Promise<void>;
+
+  async send(message: AppMessage): Promise<void> {
+    if (!this.self) {
+      console.warn('[AppMessageBus] Cannot send - not connected:', message.type);
+      return;
+    }
+    await this.deliver({ version: APP_MESSAGE_VERSION, ...this.self, message });
+  }
+
+  onMessage(listener: AppMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected receive(payload: unknown): void {
+    const envelope = parseAppMessageEnvelope(payload);
+    if (!envelope) {
+      console.warn('[AppMessageBus] Ignoring unrecognized message:', payload);
+      return;
+    }
+    if (envelope.sender_id === this.self?.sender_id) return;
+
+    const { message, sender_id, role } = envelope;
+    this.listeners.forEach(listener => listener(message, { sender_id, role }));
+  }
+}
+
+// ============================================
+// Zoom Apps SDK
+// ============================================
+
+/**
+ * Requires the Zoom driver to have configured the SDK with the messaging
+ * capabilities (connect, postMessage, sendMessage, onMessage).
+ */
+export class ZoomAppMessageBus extends BaseAppMessageBus {
+  readonly kind = 'zoom';
+  private listening = false;
+
+  async connect(self: AppMessageSender): Promise<void> {
+    if (!this.listening) {
+      this.listening = true;
+      zoomSdk.onMessage((event: OnMessageEvent) => {
+        if (this.self) this.receive(event.payload);
+      });
+    }
+
+    await zoomSdk.connect();
+    this.self = self;
+    console.log('[AppMessageBus] Connected via Zoom SDK as', self.role);
+  }
+
+  disconnect(): void {
+    // The SDK has no per-listener removal for onMessage; incoming messages are dropped instead
+    this.self = null;
+  }
+
+  protected async deliver(envelope: AppMessageEnvelope): Promise<void> {
+    const payload = envelope as unknown as JSONObject;
+    try {
+      // Broadcast to every participant's instance (desktop client 5.15.5+)
+      await zoomSdk.sendMessage({ payload });
+    } catch (error) {
+      // Older clients can only reach the connected instance
+      console.warn('[AppMessageBus] sendMessage failed, falling back to postMessage:', error);
+      await zoomSdk.postMessage(payload);
+    }
+  }
+}
+
+// ============================================
+// BroadcastChannel stand-in
+// ============================================
+
+export const APP_MESSAGE_CHANNEL = 'meetingsync-app-messages';
+
+export class BroadcastChannelMessageBus extends BaseAppMessageBus {
+  readonly kind = 'broadcast-channel';
+  private channel: BroadcastChannel | null = null;
+  private channelName: string;
+
+  constructor(channelName: string = APP_MESSAGE_CHANNEL) {
+    super();
+    this.channelName = channelName;
+  }
+
+  async connect(self: AppMessageSender): Promise<void> {
+    if (!this.channel) {
+      this.channel = new BroadcastChannel(this.channelName);
+      this.channel.onmessage = event => this.receive(event.data);
+    }
+    this.self = self;
+    console.log('[AppMessageBus] Connected via BroadcastChannel as', self.role);
+  }
+
+  disconnect(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.self = null;
+  }
+
+  protected async deliver(envelope: AppMessageEnvelope): Promise<void> {
+    this.channel?.postMessage(envelope);
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+export function createAppMessageBus(driverKind: ZoomDriverKind = getZoomDriverKind()): AppMessageBus {
+  return driverKind === 'zoom' ? new ZoomAppMessageBus() : new BroadcastChannelMessageBus();
+}
@@ -0,0 +1,111 @@
+/**
+ * Caption Confidence
+ *
+ * Applies the host's confidence threshold to captions. A final caption whose
+ * confidence is below the session's `confidence_threshold` (a percentage) is
+ * low-confidence, and participants see it according to the session's
+ * `low_confidence_policy`:
+ * - hide: the caption isn't shown
+ * - dim: the caption is greyed out
+ * - flag: the caption is marked with a "?"
+ *
+ * Interim captions are left alone; their confidence settles with the final
+ * caption.
+ *
+ * The host sees the rolling low-confidence rate of the latest source-language
+ * captions while the session runs (a high rate usually means speakers are too
+ * fast or unclear), and the session's overall rate is recorded on the Session
+ * when it ends.
+ *
+ * Usage:
+ * ```typescript
+ * import { getConfidencePolicy, applyConfidencePolicy, getLowConfidenceMark } from '../utils/captionConfidence';
+ *
+ * const policy = getConfidencePolicy(session);
+ * const shown = applyConfidencePolicy(captions, policy);
+ * const mark = getLowConfidenceMark(caption, policy); // 'dim' | 'flag' | null
+ * ```
+ */
+
+import type { Caption, LowConfidencePolicy, Session } from '../types';
+
+// ============================================
+// Types
+// ============================================
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 80;
+
+export const DEFAULT_LOW_CONFIDENCE_POLICY: LowConfidencePolicy = 'flag';
+
+/** Source-language captions the host's rolling rate covers */
+export const LOW_CONFIDENCE_WINDOW = 20;
+
+/** Rolling rate above which the host is prompted to ask speakers to slow down */
+export const LOW_CONFIDENCE_ALERT_RATE = 0.25;
+
+export interface ConfidencePolicy {
+  threshold: number; // Percentage (0-100)
+  policy: LowConfidencePolicy;
+}
+
+export interface RollingConfidenceRate {
+  rate: number; // Share of the window below the threshold (0-1)
+  sample_size: number;
+}
+
+export function getConfidencePolicy(session: Session | null): ConfidencePolicy {
+  return {
+    threshold: session?.confidence_threshold ?? DEFAULT_CONFIDENCE_THRESHOLD,
+    policy: session?.low_confidence_policy ?? DEFAULT_LOW_CONFIDENCE_POLICY
+  };
+}
+
+// ============================================
+// Participant Display
+// ============================================
+
+export function isLowConfidence(caption: Caption, threshold: number): boolean {
+  return caption.is_final && caption.confidence * 100 < threshold;
+}
+
+/** Captions a participant sees: low-confidence captions are dropped under the 'hide' policy */
+export function applyConfidencePolicy(captions: Caption[], { threshold, policy }: ConfidencePolicy): Caption[] {
+  return policy === 'hide' ? captions.filter(caption => !isLowConfidence(caption, threshold)) : captions;
+}
+
+/** How a shown caption is marked, or null when it is not low-confidence */
+export function getLowConfidenceMark(
+  caption: Caption,
+  { threshold, policy }: ConfidencePolicy
+): Exclude<LowConfidencePolicy, 'hide'> | null {
+  if (policy === 'hide' || !isLowConfidence(caption, threshold)) return null;
+  return policy;
+}
+
+// ============================================
+// Rates
+// ============================================
+
+/** Share of confidences (0-1) below the threshold percentage; 0 without any */
+export function getLowConfidenceRate(confidences: number[], threshold: number): number {
+  if (confidences.length === 0) return 0;
+  return confidences.filter(confidence => confidence * 100 < threshold).length / confidences.length;
+}
+
+/**
+ * Low-confidence rate of the latest final captions in the session's source
+ * language (what the speakers said, before translation)
+ */
+export function getRollingLowConfidenceRate(captions: Caption[], session: Session): RollingConfidenceRate {
+  const recent = captions
+    .filter(caption => caption.is_final && caption.language === session.source_language)
+    .slice(-LOW_CONFIDENCE_WINDOW);
+
+  return {
+    rate: getLowConfidenceRate(
+      recent.map(caption => caption.confidence),
+      getConfidencePolicy(session).threshold
+    ),
+    sample_size: recent.length
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Caption Revisions
+ *
+ * Speech recognition sends interim (non-final) captions while an utterance
+ * is still being spoken and revises them as it hears more, until a final
+ * caption settles the text. Interim captions are therefore revisable: an
+ * update for the same utterance and language replaces the caption already in
+ * the list, in place, instead of being appended.
+ *
+ * A caption's revision key is its `utterance_id` (or its `id` when the
+ * transport doesn't set one) plus its language. A final caption can still be
+ * corrected by a later final one; an interim caption arriving after the final
+ * one is stale and ignored.
+ *
+ * Participants only see interim captions when the host enabled
+ * `show_partial_results` for the session.
+ *
+ * Usage:
+ * ```typescript
+ * import { mergeCaption, getVisibleCaptions } from '../utils/captionRevisions';
+ *
+ * setCaptions(prev => mergeCaption(prev, caption));
+ * const shown = getVisibleCaptions(captions, session.show_partial_results ?? true);
+ * ```
+ */
+
+import type { Caption } from '../types';
+
+export function getCaptionRevisionKey(caption: Caption): string {
+  return `${caption.utterance_id ?? caption.id}|${caption.language}`;
+}
+
+/**
+ * Add a caption to the list, revising the caption of the same utterance if
+ * there is one
+ */
+export function mergeCaption(captions: Caption[], caption: Caption): Caption[] {
+  const key = getCaptionRevisionKey(caption);
+  let index = -1;
+  for (let i = captions.length - 1; i >= 0; i--) {
+    if (getCaptionRevisionKey(captions[i]) === key) {
+      index = i;
+      break;
+    }
+  }
+
+  if (index === -1) return [...captions, caption];
+  if (captions[index].is_final && !caption.is_final) return captions;
+
+  const revised = [...captions];
+  revised[index] = caption;
+  return revised;
+}
+
+/** Captions a participant sees: interim captions only with partial results on */
+export function getVisibleCaptions(captions: Caption[], showPartialResults: boolean): Caption[] {
+  return showPartialResults ? captions : captions.filter(caption => caption.is_final);
+}
@@ -0,0 +1,469 @@
+/**
+ * Caption Transport Layer
+ *
+ * Pluggable source of live `Caption` events for SessionProvider.
+ * Every transport is subscribed with a session ID and the set of languages
+ * the session currently translates into, and emits captions as they arrive.
+ *
+ * Implementations:
+ * - WebSocketCaptionTransport: bidirectional socket, languages updated in place
+ * - SSECaptionTransport: Server-Sent Events, reconnects when languages change
+ * - MockCaptionTransport: in-process generator backed by MOCK_CAPTION_SCRIPTS
+ *
+ * Usage:
+ * ```typescript
+ * import { createCaptionTransport } from '../utils/captionTransport';
+ *
+ * const transport = createCaptionTransport();
+ * const unsubscribe = transport.onCaption(caption => console.log(caption.text));
+ * transport.connect({ session_id: 'session_123', languages: ['en', 'es'] });
+ * ```
+ *
+ * The transport is selected from `VITE_CAPTION_TRANSPORT` (mock | websocket | sse)
+ * and `VITE_CAPTION_SERVER_URL`. Run `npm run mock:captions` to start the local
+ * stand-in translation server on http://localhost:8787.
+ */
+
+import type { Caption } from '../types';
+import { MOCK_CAPTION_SCRIPTS, MOCK_SPEAKERS } from './mockData';
+
+// ============================================
+// Types
+// ============================================
+
+export type CaptionTransportKind = 'mock' | 'websocket' | 'sse';
+
+export type CaptionTransportStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed' | 'error';
+
+export interface CaptionSubscription {
+  session_id: string;
+  languages: string[]; // Source language plus every active target language
+}
+
+export interface CaptionTransport {
+  readonly kind: CaptionTransportKind;
+  readonly status: CaptionTransportStatus;
+  connect: (subscription: CaptionSubscription) => void;
+  disconnect: () => void;
+  updateLanguages: (languages: string[]) => void;
+  onCaption: (listener: (caption: Caption) => void) => () => void;
+  onStatusChange: (listener: (status: CaptionTransportStatus) => void) => () => void;
+}
+
+export interface CaptionTransportConfig {
+  kind: CaptionTransportKind;
+  url?: string;
+}
+
+export const DEFAULT_CAPTION_SERVER_URL = 'http://localhost:8787';
+
+// ============================================
+// Wire Format
+// ============================================
+
+/**
+ * Servers may send either a bare Caption or an envelope `{ type: 'caption', caption }`.
+ * Anything else (heartbeats, acks) is ignored.
+ */
+export function parseCaptionMessage(data: string): Caption | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    console.warn('[CaptionTransport] Ignoring non-JSON message:', data);
+    return null;
+  }
+
+  const candidate = isEnvelope(payload) ? payload.caption : payload;
+  return isCaption(candidate) ? candidate : null;
+}
+
+function isEnvelope(value: unknown): value is { type: 'caption'; caption: unknown } {
+  return typeof value === 'object' && value !== null && (value as { type?: unknown }).type === 'caption';
+}
+
+function isCaption(value: unknown): value is Caption {
+  if (typeof value !== 'object' || value === null) return false;
+  const c = value as Record<string, unknown>;
+  return (
+    typeof c.id === 'string' &&
+    typeof c.session_id === 'string' &&
+    typeof c.timestamp === 'string' &&
+    typeof c.text === 'string' &&
+    typeof c.language === 'string' &&
+    typeof c.confidence === 'number' &&
+    typeof c.is_final === 'boolean'
+  );
+}
+
+// ============================================
+// Base Transport
+// ============================================
+
+abstract class BaseCaptionTransport implements CaptionTransport {
+  abstract readonly kind: CaptionTransportKind;
+
+  protected subscription: CaptionSubscription | null = null;
+  private currentStatus: CaptionTransportStatus = 'idle';
+  private captionListeners: Array<(caption: Caption) => void> = [];
+  private statusListeners: Array<(status: CaptionTransportStatus) => void> = [];
+
+  get status(): CaptionTransportStatus {
+    return this.currentStatus;
+  }
+
+  connect(subscription: CaptionSubscription): void {
+    this.subscription = { ...subscription, languages: [...subscription.languages] };
+    this.open();
+  }
+
+  disconnect(): void {
+    this.close();
+    this.subscription = null;
+    this.setStatus('closed');
+  }
+
+  updateLanguages(languages: string[]): void {
+    if (!this.subscription) return;
+    if (languages.join(',') === this.subscription.languages.join(',')) return;
+    this.subscription = { ...this.subscription, languages: [...languages] };
+    this.languagesChanged();
+  }
+
+  onCaption(listener: (caption: Caption) => void): () => void {
+    this.captionListeners.push(listener);
+    return () => {
+      this.captionListeners = this.captionListeners.filter(l => l !== listener);
+    };
+  }
+
+  onStatusChange(listener: (status: CaptionTransportStatus) => void): () => void {
+    this.statusListeners.push(listener);
+    return () => {
+      this.statusListeners = this.statusListeners.filter(l => l !== listener);
+    };
+  }
+
+  protected abstract open(): void;
+  protected abstract close(): void;
+  protected abstract languagesChanged(): void;
+
+  protected emit(caption: Caption): void {
+    // Drop captions for other sessions or languages we are no longer subscribed to
+    if (!this.subscription) return;
+    if (caption.session_id !== this.subscription.session_id) return;
+    if (!this.subscription.languages.includes(caption.language)) return;
+
+    this.captionListeners.forEach(listener => listener(caption));
+  }
+
+  protected setStatus(status: CaptionTransportStatus): void {
+    if (status === this.currentStatus) return;
+    this.currentStatus = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+// ============================================
+// WebSocket Transport
+// ============================================
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+
+/**
+ * Connects to `<url>/captions` (http(s) is rewritten to ws(s)) and sends a
+ * `subscribe` message on open and whenever the language set changes.
+ */
+export class WebSocketCaptionTransport extends BaseCaptionTransport {
+  readonly kind = 'websocket' as const;
+
+  private socket: WebSocket | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly url: string;
+
+  constructor(url: string = DEFAULT_CAPTION_SERVER_URL) {
+    super();
+    this.url = url;
+  }
+
+  connect(subscription: CaptionSubscription): void {
+    this.reconnectAttempts = 0;
+    super.connect(subscription);
+  }
+
+  protected open(): void {
+    this.close();
+    if (!this.subscription) return;
+
+    const socketUrl = `${this.url.replace(/^http/, 'ws').replace(/\/$/, '')}/captions`;
+    this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    const socket = new WebSocket(socketUrl);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setStatus('open');
+      this.sendSubscription();
+      console.log('[CaptionTransport] WebSocket connected:', socketUrl);
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data !== 'string') return;
+      const caption = parseCaptionMessage(event.data);
+      if (caption) this.emit(caption);
+    };
+
+    socket.onerror = () => {
+      console.error('[CaptionTransport] WebSocket error:', socketUrl);
+      this.setStatus('error');
+    };
+
+    socket.onclose = () => {
+      // Only reconnect if this socket was not closed deliberately
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+  }
+
+  protected close(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+  }
+
+  protected languagesChanged(): void {
+    this.sendSubscription();
+  }
+
+  private sendSubscription(): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN || !this.subscription) return;
+    this.socket.send(JSON.stringify({ type: 'subscribe', ...this.subscription }));
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.subscription) return;
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts += 1;
+    this.setStatus('reconnecting');
+    console.warn(`[CaptionTransport] WebSocket closed, reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+}
+
+// ============================================
+// Server-Sent Events Transport
+// ============================================
+
+/**
+ * Listens on `<url>/sessions/:session_id/captions?languages=en,es`.
+ * EventSource cannot change its query after opening, so a language change
+ * re-opens the stream. EventSource handles reconnection on its own.
+ */
+export class SSECaptionTransport extends BaseCaptionTransport {
+  readonly kind = 'sse' as const;
+
+  private source: EventSource | null = null;
+  private readonly url: string;
+
+  constructor(url: string = DEFAULT_CAPTION_SERVER_URL) {
+    super();
+    this.url = url;
+  }
+
+  protected open(): void {
+    this.close();
+    if (!this.subscription) return;
+
+    const { session_id, languages } = this.subscription;
+    const streamUrl = `${this.url.replace(/\/$/, '')}/sessions/${encodeURIComponent(session_id)}/captions?languages=${encodeURIComponent(languages.join(','))}`;
+    this.setStatus('connecting');
+
+    const source = new EventSource(streamUrl);
+    this.source = source;
+
+    source.onopen = () => {
+      this.setStatus('open');
+      console.log('[CaptionTransport] SSE stream opened:', streamUrl);
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      const caption = parseCaptionMessage(event.data);
+      if (caption) this.emit(caption);
+    };
+    source.onmessage = handleMessage;
+    source.addEventListener('caption', handleMessage);
+
+    source.onerror = () => {
+      // readyState CONNECTING means the browser is already retrying
+      this.setStatus(source.readyState === EventSource.CONNECTING ? 'reconnecting' : 'error');
+    };
+  }
+
+  protected close(): void {
+    if (this.source) {
+      this.source.close();
+      this.source = null;
+    }
+  }
+
+  protected languagesChanged(): void {
+    this.open();
+  }
+}
+
+// ============================================
+// In-Process Mock Transport
+// ============================================
+
+export interface MockCaptionTransportOptions {
+  intervalMs?: number; // Delay between utterances
+  backlog?: number; // Utterances replayed immediately on connect
+  interimSteps?: number; // Interim (revisable) captions sent before each live utterance's final caption
+}
+
+/** The first `fraction` of a caption's words (characters for unspaced scripts) */
+function truncateForInterim(text: string, fraction: number): string {
+  if (!text.includes(' ')) return text.slice(0, Math.max(1, Math.ceil(text.length * fraction)));
+  const words = text.split(' ');
+  return words.slice(0, Math.max(1, Math.ceil(words.length * fraction))).join(' ');
+}
+
+/**
+ * Generates scripted captions in every subscribed language without a server.
+ * Each tick emits the same utterance index for all languages so translations
+ * line up, mimicking a real translation backend. Live utterances are first
+ * sent as growing interim captions, then as the final caption.
+ */
+export class MockCaptionTransport extends BaseCaptionTransport {
+  readonly kind = 'mock' as const;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private interimTimers: ReturnType<typeof setTimeout>[] = [];
+  private utteranceIndex = 0;
+  private replayedSessionId: string | null = null;
+  private readonly intervalMs: number;
+  private readonly backlog: number;
+  private readonly interimSteps: number;
+
+  constructor(options: MockCaptionTransportOptions = {}) {
+    super();
+    this.intervalMs = options.intervalMs ?? 6000;
+    this.backlog = options.backlog ?? 6;
+    this.interimSteps = options.interimSteps ?? 2;
+  }
+
+  protected open(): void {
+    this.close();
+    if (!this.subscription) return;
+    this.setStatus('open');
+
+    // Replay a short history once per session so a freshly opened view is not empty
+    if (this.replayedSessionId !== this.subscription.session_id) {
+      this.replayedSessionId = this.subscription.session_id;
+      const now = Date.now();
+      for (let i = this.backlog; i > 0; i--) {
+        this.emitUtterance(new Date(now - i * this.intervalMs));
+      }
+    }
+
+    this.timer = setInterval(() => this.emitUtterance(new Date(), true), this.intervalMs);
+  }
+
+  protected close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.interimTimers.forEach(timer => clearTimeout(timer));
+    this.interimTimers = [];
+  }
+
+  protected languagesChanged(): void {
+    // Nothing to renegotiate: the next tick uses the new language set
+  }
+
+  private emitUtterance(at: Date, live: boolean = false): void {
+    if (!this.subscription) return;
+
+    const index = this.utteranceIndex++;
+    const speaker = MOCK_SPEAKERS[index % MOCK_SPEAKERS.length];
+    const confidence = parseFloat((0.75 + Math.random() * 0.23).toFixed(2)); // Occasionally below the default threshold
+    const steps = live ? this.interimSteps : 0;
+    const stepMs = Math.min(700, this.intervalMs / (steps + 2));
+
+    const emitStep = (step: number) => {
+      if (!this.subscription) return;
+      const isFinal = step === steps;
+
+      this.subscription.languages.forEach(language => {
+        const script = MOCK_CAPTION_SCRIPTS[language] || MOCK_CAPTION_SCRIPTS.en;
+        const text = script[index % script.length];
+        this.emit({
+          id: `${this.subscription!.session_id}_${language}_${index}`,
+          session_id: this.subscription!.session_id,
+          timestamp: at.toISOString(),
+          text: isFinal ? text : truncateForInterim(text, (step + 1) / (steps + 1)),
+          language,
+          // Recognition is less sure of interim text
+          confidence: isFinal ? confidence : parseFloat((confidence * 0.9).toFixed(2)),
+          is_final: isFinal,
+          speaker_name: speaker,
+          utterance_id: `${this.subscription!.session_id}_${index}`
+        });
+      });
+    };
+
+    emitStep(0);
+    for (let step = 1; step <= steps; step++) {
+      const timer = setTimeout(() => {
+        this.interimTimers = this.interimTimers.filter(item => item !== timer);
+        emitStep(step);
+      }, step * stepMs);
+      this.interimTimers.push(timer);
+    }
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+/**
+ * Read transport selection from Vite env, defaulting to the in-process mock
+ */
+export function getCaptionTransportConfig(): CaptionTransportConfig {
+  const kind = import.meta.env.VITE_CAPTION_TRANSPORT;
+  return {
+    kind: kind === 'websocket' || kind === 'sse' ? kind : 'mock',
+    url: import.meta.env.VITE_CAPTION_SERVER_URL || DEFAULT_CAPTION_SERVER_URL
+  };
+}
+
+export function createCaptionTransport(config: CaptionTransportConfig = getCaptionTransportConfig()): CaptionTransport {
+  console.log('[CaptionTransport] Using transport:', config.kind, config.kind === 'mock' ? '' : config.url);
+
+  switch (config.kind) {
+    case 'websocket':
+      return new WebSocketCaptionTransport(config.url);
+    case 'sse':
+      return new SSECaptionTransport(config.url);
+    case 'mock':
+    default:
+      return new MockCaptionTransport();
+  }
+}
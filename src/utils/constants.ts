@@ -156,12 +156,21 @@ export const ZOOM_SDK_CONFIG = {
   version: '0.16.29',
   capabilities: [
     'getMeetingContext',
+    'getMeetingUUID',
     'getUserContext',
     'getRunningContext',
     'shareApp',
     'sendAppInvitation',
+    'sendAppInvitationToAllParticipants',
     'onShareApp',
     'onMeeting',
+    'onParticipantChange',
+    'onMyUserContextChange',
+    'onRunningContextChange',
+    'connect',
+    'postMessage',
+    'sendMessage',
+    'onMessage',
     'authorize'
   ],
   popoutSize: {
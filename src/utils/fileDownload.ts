@@ -0,0 +1,35 @@
+/**
+ * File Download
+ *
+ * Saves generated content (exports, transcripts) through a temporary object
+ * URL and anchor click, so it lands in the browser's downloads folder.
+ *
+ * Usage:
+ * ```typescript
+ * import { downloadFile } from '../utils/fileDownload';
+ *
+ * downloadFile('a,b\n1,2', 'terms.csv', 'text/csv;charset=utf-8');
+ * ```
+ */
+
+/** Strip characters that are not allowed in file names on common platforms */
+export function sanitizeFileName(name: string, fallback: string = 'export'): string {
+  const cleaned = name.replace(/[<>:"/\\|?*]+/g, '_').replace(/\s+/g, ' ').trim();
+  return cleaned || fallback;
+}
+
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.style.display = 'none';
+
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+
+  // Revoke after the click has been handled so the download can start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+  console.log('[FileDownload] Downloaded', fileName);
+}
@@ -0,0 +1,195 @@
+/**
+ * Glossary Composition
+ *
+ * Sessions and templates reference an ordered list of glossaries (GlossaryRef[]),
+ * e.g. a general medical glossary plus a product-specific one. This module
+ * merges them into the effective glossary a session enforces.
+ *
+ * Precedence rules:
+ * - Earlier glossaries win: when two glossaries translate a term into the same
+ *   language differently, the earlier glossary's translation is used and the
+ *   disagreement is reported as a conflict
+ * - Languages are merged: a later glossary still supplies translations for
+ *   languages the earlier ones don't cover
+ * - Do-not-translate wins against a later translation (and a later
+ *   do-not-translate loses against an earlier translation), reported as a conflict
+ * - Drafts are not enforced, so they neither override nor conflict
+ *
+ * Each effective entry records which glossary supplied it and each of its
+ * translations, for the merged view in GlossaryStackPreviewModal.
+ *
+ * Usage:
+ * ```typescript
+ * import { composeGlossaryStack } from '../utils/glossaryComposition';
+ *
+ * const { entries, conflicts } = composeGlossaryStack(session.glossaries ?? []);
+ * const engine = new GlossaryEngine(entries.map(item => item.entry));
+ * ```
+ */
+
+import type { GlossaryEntry, GlossaryRef } from '../types';
+import { getTermKey } from './glossaryEntries';
+import { getEnforcedEntries, isDoNotTranslate } from './glossaryEngine';
+import { getBlockingLintIssues } from './glossaryLinter';
+import { findGlossaryVersion, getCurrentGlossaryVersion, getLatestVersion, listGlossaryVersions } from './glossaryVersions';
+
+// ============================================
+// Types
+// ============================================
+
+/** One glossary of a stack, resolved to the version it enforces */
+export interface GlossaryLayer {
+  glossary_id: string;
+  version: number;
+  name: string;
+  entries: GlossaryEntry[]; // Enforced (non-draft) entries
+}
+
+export interface ComposedGlossaryEntry {
+  entry: GlossaryEntry; // The effective entry
+  glossary_id: string; // Earliest glossary defining the term
+  translation_sources: Record<string, string>; // Language -> glossary that supplied the translation
+}
+
+export interface GlossaryConflictSide {
+  glossary_id: string;
+  term: string; // The source term itself for do-not-translate entries
+}
+
+export interface GlossaryConflict {
+  source_term: string;
+  language: string;
+  winner: GlossaryConflictSide;
+  overridden: GlossaryConflictSide;
+}
+
+export interface ComposedGlossary {
+  layers: GlossaryLayer[];
+  entries: ComposedGlossaryEntry[];
+  conflicts: GlossaryConflict[];
+}
+
+// ============================================
+// Composition
+// ============================================
+
+/** Translation an entry gives for a language (the source term when it's do-not-translate) */
+function getTarget(entry: GlossaryEntry, language: string): string | undefined {
+  return isDoNotTranslate(entry) ? entry.source_term : entry.translations[language]?.term;
+}
+
+/**
+ * Merge layers in precedence order (first layer wins)
+ */
+export function composeGlossaries(layers: GlossaryLayer[]): ComposedGlossary {
+  const entries: ComposedGlossaryEntry[] = [];
+  const conflicts: GlossaryConflict[] = [];
+  const byTerm = new Map<string, ComposedGlossaryEntry>();
+
+  layers.forEach(layer => {
+    layer.entries.forEach(entry => {
+      const key = getTermKey(entry.source_term);
+      const current = byTerm.get(key);
+      if (!current) {
+        const composed: ComposedGlossaryEntry = {
+          entry,
+          glossary_id: layer.glossary_id,
+          translation_sources: Object.fromEntries(
+            Object.keys(entry.translations).map(language => [language, layer.glossary_id])
+          )
+        };
+        byTerm.set(key, composed);
+        entries.push(composed);
+        return;
+      }
+
+      const languages = new Set([...Object.keys(current.entry.translations), ...Object.keys(entry.translations)]);
+      const addedTranslations: GlossaryEntry['translations'] = {};
+      languages.forEach(language => {
+        const winning = getTarget(current.entry, language);
+        const incoming = getTarget(entry, language);
+        if (incoming === undefined) return;
+
+        if (winning === undefined) {
+          // A later do-not-translate entry adds nothing; the earlier entry decides how the term is handled
+          if (!isDoNotTranslate(entry)) addedTranslations[language] = entry.translations[language];
+          return;
+        }
+
+        if (getTermKey(winning) !== getTermKey(incoming)) {
+          conflicts.push({
+            source_term: current.entry.source_term,
+            language,
+            winner: { glossary_id: current.translation_sources[language] ?? current.glossary_id, term: winning },
+            overridden: { glossary_id: layer.glossary_id, term: incoming }
+          });
+        }
+      });
+
+      if (Object.keys(addedTranslations).length === 0) return;
+      current.entry = {
+        ...current.entry,
+        translations: { ...current.entry.translations, ...addedTranslations },
+        part_of_speech: current.entry.part_of_speech ?? entry.part_of_speech,
+        context_notes: current.entry.context_notes || entry.context_notes
+      };
+      Object.keys(addedTranslations).forEach(language => {
+        current.translation_sources[language] = layer.glossary_id;
+      });
+    });
+  });
+
+  return { layers, entries, conflicts };
+}
+
+// ============================================
+// Stacks
+// ============================================
+
+/**
+ * Resolve refs to the glossary versions they enforce; unknown glossaries are skipped
+ */
+export function resolveGlossaryLayers(stack: GlossaryRef[]): GlossaryLayer[] {
+  return stack.flatMap(ref => {
+    const history = listGlossaryVersions(ref.glossary_id);
+    const version =
+      (ref.version !== undefined ? findGlossaryVersion(history, ref.version) : undefined) ?? getLatestVersion(history);
+    if (!version) {
+      console.warn('[GlossaryComposition] Unknown glossary, skipping:', ref.glossary_id);
+      return [];
+    }
+    if (ref.version !== undefined && version.version !== ref.version) {
+      console.warn(`[GlossaryComposition] ${ref.glossary_id} has no version ${ref.version}, using latest`);
+    }
+
+    return [
+      {
+        glossary_id: ref.glossary_id,
+        version: version.version,
+        name: version.name,
+        entries: getEnforcedEntries(version.entries)
+      }
+    ];
+  });
+}
+
+export function composeGlossaryStack(stack: GlossaryRef[]): ComposedGlossary {
+  return composeGlossaries(resolveGlossaryLayers(stack));
+}
+
+/**
+ * Pin every glossary without a version to its current version
+ */
+export function pinGlossaryStack(stack: GlossaryRef[]): GlossaryRef[] {
+  return stack.map(ref => ({ ...ref, version: ref.version ?? getCurrentGlossaryVersion(ref.glossary_id) }));
+}
+
+/**
+ * Lint errors per glossary of the stack (only glossaries with errors are listed);
+ * any of these block activating the stack
+ */
+export function getGlossaryStackErrors(stack: GlossaryRef[]): Array<{ glossary_id: string; error_count: number }> {
+  return resolveGlossaryLayers(stack)
+    .map(layer => ({ glossary_id: layer.glossary_id, error_count: getBlockingLintIssues(layer.entries).length }))
+    .filter(item => item.error_count > 0);
+}
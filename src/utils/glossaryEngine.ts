@@ -0,0 +1,312 @@
+/**
+ * Glossary Engine
+ *
+ * Applies the session's glossary to caption text and counts how often each
+ * term is hit, so hosts can see which glossary entries actually matter.
+ *
+ * Matching rules:
+ * - Whole words only (no matches inside longer words); terms written in CJK
+ *   scripts match anywhere, since those languages don't separate words
+ * - Case-insensitive, except all-caps terms (acronyms like "MRI") which match
+ *   exactly; replacements follow the matched text's capitalization
+ * - Inflection-aware: plural and possessive endings (-s, -es, 's) still match
+ * - Longest match first: overlapping candidates go to the longest span, so
+ *   "blood pressure cuff" wins over "blood pressure"
+ *
+ * For captions in a language the entry has a translation for, the source term
+ * and any forbidden variants are replaced with the glossary translation
+ * ("replaced") and existing uses of the translation are annotated
+ * ("confirmed"). Do-not-translate entries (flagged, or translated identically
+ * to the source term) are kept as-is ("protected"), which also shields them
+ * from shorter overlapping entries. Draft entries are not enforced.
+ *
+ * Usage:
+ * ```typescript
+ * import { GlossaryEngine } from '../utils/glossaryEngine';
+ *
+ * const engine = new GlossaryEngine(entries);
+ * const caption = engine.apply(incomingCaption); // text rewritten, glossary_spans set
+ * const stats = summarizeGlossaryHits(engine.getHitCounts(), engine.getEntries());
+ * ```
+ */
+
+import type { Caption, GlossaryEntry, GlossarySpan } from '../types';
+import { getTermKey } from './glossaryEntries';
+
+// ============================================
+// Types
+// ============================================
+
+type GlossaryAction = GlossarySpan['action'];
+
+export interface GlossaryRule {
+  entry: GlossaryEntry;
+  action: GlossaryAction;
+  phrase: string; // Text the pattern matches
+  replacement: string; // Text a 'replaced' match is rewritten to
+  pattern: RegExp;
+}
+
+export interface GlossaryTermHits {
+  term_id: string;
+  source_term: string;
+  replaced: number;
+  confirmed: number;
+  protected: number;
+}
+
+/** Hit counts keyed by entry ID */
+export type GlossaryHitCounts = Record<string, GlossaryTermHits>;
+
+export interface GlossaryHitSummary {
+  total_hits: number;
+  terms_used: number;
+  term_count: number;
+  coverage: number; // Share of enforced entries hit at least once (0-1)
+  top_terms: Array<GlossaryTermHits & { total: number }>; // Most hit first
+}
+
+// ============================================
+// Compilation
+// ============================================
+
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+const INFLECTION_SUFFIX = "(?:'s|’s|es|s)?";
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isAllCaps(text: string): boolean {
+  return /\p{L}/u.test(text) && text === text.toUpperCase() && text !== text.toLowerCase();
+}
+
+export function isDoNotTranslate(entry: GlossaryEntry): boolean {
+  if (entry.do_not_translate) return true;
+  const translations = Object.values(entry.translations);
+  return (
+    translations.length > 0 &&
+    translations.every(translation => getTermKey(translation.term) === getTermKey(entry.source_term))
+  );
+}
+
+/** Entries enforced in sessions: everything except drafts */
+export function getEnforcedEntries(entries: GlossaryEntry[]): GlossaryEntry[] {
+  return entries.filter(entry => entry.status !== 'draft');
+}
+
+function buildPattern(phrase: string): RegExp | null {
+  const trimmed = phrase.trim();
+  if (!trimmed) return null;
+
+  const body = trimmed.split(/\s+/).map(escapeRegExp).join('\\s+');
+  const flags = isAllCaps(trimmed) ? 'gu' : 'giu';
+
+  if (CJK_PATTERN.test(trimmed)) return new RegExp(body, flags);
+  return new RegExp(`(?<!${WORD_CHAR})${body}${INFLECTION_SUFFIX}(?!${WORD_CHAR})`, flags);
+}
+
+/**
+ * Rules that apply to captions in `language`
+ */
+export function compileGlossary(entries: GlossaryEntry[], language: string): GlossaryRule[] {
+  const rules: GlossaryRule[] = [];
+  const addRule = (entry: GlossaryEntry, action: GlossaryAction, phrase: string, replacement: string = phrase) => {
+    const pattern = buildPattern(phrase);
+    if (pattern) rules.push({ entry, action, phrase, replacement, pattern });
+  };
+
+  getEnforcedEntries(entries).forEach(entry => {
+    const translation = entry.translations[language];
+    if (isDoNotTranslate(entry) || (translation && getTermKey(translation.term) === getTermKey(entry.source_term))) {
+      addRule(entry, 'protected', entry.source_term);
+    } else if (translation) {
+      addRule(entry, 'replaced', entry.source_term, translation.term);
+      translation.forbidden_variants.forEach(variant => addRule(entry, 'replaced', variant, translation.term));
+      addRule(entry, 'confirmed', translation.term);
+    }
+  });
+
+  return rules;
+}
+
+// ============================================
+// Application
+// ============================================
+
+interface Candidate {
+  start: number;
+  end: number;
+  matched: string;
+  rule: GlossaryRule;
+}
+
+// On identical spans, keeping a term beats confirming it, which beats replacing it
+const ACTION_PRIORITY: Record<GlossaryAction, number> = { protected: 0, confirmed: 1, replaced: 2 };
+
+/** Carry the matched text's capitalization over to the replacement */
+function matchCase(replacement: string, matched: string, phrase: string): string {
+  if (matched.length > 1 && isAllCaps(matched) && !isAllCaps(phrase)) return replacement.toUpperCase();
+
+  const first = matched.charAt(0);
+  const sourceFirst = phrase.trim().charAt(0);
+  if (first !== first.toLowerCase() && sourceFirst === sourceFirst.toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+/**
+ * Apply rules to a text: returns the rewritten text and the hit spans (in the rewritten text)
+ */
+export function applyGlossaryRules(text: string, rules: GlossaryRule[]): { text: string; spans: GlossarySpan[] } {
+  const candidates: Candidate[] = [];
+  rules.forEach(rule => {
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index ?? 0;
+      candidates.push({ start, end: start + match[0].length, matched: match[0], rule });
+    }
+  });
+
+  candidates.sort(
+    (a, b) =>
+      b.end - b.start - (a.end - a.start) ||
+      a.start - b.start ||
+      ACTION_PRIORITY[a.rule.action] - ACTION_PRIORITY[b.rule.action]
+  );
+
+  const accepted: Candidate[] = [];
+  candidates.forEach(candidate => {
+    if (accepted.every(other => candidate.end <= other.start || candidate.start >= other.end)) {
+      accepted.push(candidate);
+    }
+  });
+  accepted.sort((a, b) => a.start - b.start);
+
+  let output = '';
+  let cursor = 0;
+  const spans: GlossarySpan[] = accepted.map(({ start, end, matched, rule }) => {
+    const replacement =
+      rule.action === 'replaced' ? matchCase(rule.replacement, matched, rule.phrase) : matched;
+    output += text.slice(cursor, start);
+    const spanStart = output.length;
+    output += replacement;
+    cursor = end;
+
+    return {
+      start: spanStart,
+      end: output.length,
+      term_id: rule.entry.id,
+      source_term: rule.entry.source_term,
+      action: rule.action
+    };
+  });
+  output += text.slice(cursor);
+
+  return { text: output, spans };
+}
+
+// ============================================
+// Hit counts
+// ============================================
+
+/**
+ * Add a caption's spans to the running counts (returns a new object)
+ */
+export function countGlossaryHits(counts: GlossaryHitCounts, spans: GlossarySpan[]): GlossaryHitCounts {
+  const next = { ...counts };
+  spans.forEach(span => {
+    const current = next[span.term_id] ?? {
+      term_id: span.term_id,
+      source_term: span.source_term,
+      replaced: 0,
+      confirmed: 0,
+      protected: 0
+    };
+    next[span.term_id] = { ...current, [span.action]: current[span.action] + 1 };
+  });
+  return next;
+}
+
+export function getTotalHits(hits: GlossaryTermHits): number {
+  return hits.replaced + hits.confirmed + hits.protected;
+}
+
+/**
+ * Effectiveness summary: total hits, coverage of the glossary and the most hit terms
+ */
+export function summarizeGlossaryHits(
+  counts: GlossaryHitCounts,
+  entries: GlossaryEntry[],
+  topCount: number = 5
+): GlossaryHitSummary {
+  const used = Object.values(counts)
+    .map(hits => ({ ...hits, total: getTotalHits(hits) }))
+    .filter(hits => hits.total > 0)
+    .sort((a, b) => b.total - a.total || a.source_term.localeCompare(b.source_term));
+  const termCount = getEnforcedEntries(entries).length;
+
+  return {
+    total_hits: used.reduce((sum, hits) => sum + hits.total, 0),
+    terms_used: used.length,
+    term_count: termCount,
+    coverage: termCount > 0 ? used.length / termCount : 0,
+    top_terms: used.slice(0, topCount)
+  };
+}
+
+// ============================================
+// Stateful wrapper
+// ============================================
+
+/**
+ * Holds a glossary, caches compiled rules per language and counts hits on final captions
+ */
+export class GlossaryEngine {
+  private entries: GlossaryEntry[];
+  private rulesByLanguage = new Map<string, GlossaryRule[]>();
+  private counts: GlossaryHitCounts = {};
+
+  constructor(entries: GlossaryEntry[] = []) {
+    this.entries = getEnforcedEntries(entries);
+  }
+
+  get isEmpty(): boolean {
+    return this.entries.length === 0;
+  }
+
+  /** Enforced (non-draft) entries */
+  getEntries(): GlossaryEntry[] {
+    return this.entries;
+  }
+
+  private getRules(language: string): GlossaryRule[] {
+    let rules = this.rulesByLanguage.get(language);
+    if (!rules) {
+      rules = compileGlossary(this.entries, language);
+      this.rulesByLanguage.set(language, rules);
+    }
+    return rules;
+  }
+
+  /**
+   * Apply the glossary to a caption; hits are counted only once the caption is final
+   */
+  apply(caption: Caption): Caption {
+    if (this.isEmpty) return caption;
+
+    const { text, spans } = applyGlossaryRules(caption.text, this.getRules(caption.language));
+    if (caption.is_final) this.counts = countGlossaryHits(this.counts, spans);
+
+    return { ...caption, text, glossary_spans: spans };
+  }
+
+  getHitCounts(): GlossaryHitCounts {
+    return this.counts;
+  }
+
+  resetHitCounts(): void {
+    this.counts = {};
+  }
+}
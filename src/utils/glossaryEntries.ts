@@ -0,0 +1,213 @@
+/**
+ * Glossary Entries
+ *
+ * Helpers for the multilingual glossary model: one GlossaryEntry per source
+ * term, carrying a translation (plus forbidden variants) for each target
+ * language. Entries are matched by source term, case-insensitively, so merging
+ * an import adds new languages to existing entries instead of duplicating them.
+ *
+ * A glossary's `term_count` is never set by hand: it is the number of entries,
+ * applied with `withTermCount` wherever glossaries and entries meet.
+ *
+ * Usage:
+ * ```typescript
+ * import { mergeGlossaryEntries, withTermCount } from '../utils/glossaryEntries';
+ *
+ * const entries = mergeGlossaryEntries(existing, imported);
+ * const updated = withTermCount(glossary, entries);
+ * ```
+ */
+
+import type { Glossary, GlossaryEntry, GlossaryEntryStatus, GlossaryTranslation, PartOfSpeech } from '../types';
+
+// ============================================
+// Labels & parsing
+// ============================================
+
+export const PART_OF_SPEECH_LABELS: Record<PartOfSpeech, string> = {
+  noun: 'Noun',
+  proper_noun: 'Proper noun',
+  verb: 'Verb',
+  adjective: 'Adjective',
+  adverb: 'Adverb',
+  phrase: 'Phrase',
+  acronym: 'Acronym',
+  other: 'Other'
+};
+
+export const GLOSSARY_ENTRY_STATUS_LABELS: Record<GlossaryEntryStatus, string> = {
+  draft: 'Draft',
+  approved: 'Approved'
+};
+
+const PART_OF_SPEECH_ALIASES: Record<string, PartOfSpeech> = {
+  n: 'noun',
+  'proper noun': 'proper_noun',
+  'proper name': 'proper_noun',
+  v: 'verb',
+  adj: 'adjective',
+  adv: 'adverb',
+  abbreviation: 'acronym',
+  abbr: 'acronym'
+};
+
+const STATUS_ALIASES: Record<string, GlossaryEntryStatus> = {
+  draft: 'draft',
+  pending: 'draft',
+  new: 'draft',
+  approved: 'approved',
+  final: 'approved',
+  reviewed: 'approved'
+};
+
+function normalizeLabel(value: string): string {
+  return value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+/**
+ * Part of speech from a label or abbreviation ("Noun", "adj", "proper_noun"); null if unknown
+ */
+export function parsePartOfSpeech(value: string): PartOfSpeech | null {
+  const normalized = normalizeLabel(value);
+  if (!normalized) return null;
+  if (normalized in PART_OF_SPEECH_ALIASES) return PART_OF_SPEECH_ALIASES[normalized];
+
+  const code = normalized.replace(/ /g, '_') as PartOfSpeech;
+  return code in PART_OF_SPEECH_LABELS ? code : null;
+}
+
+export function parseEntryStatus(value: string): GlossaryEntryStatus | null {
+  return STATUS_ALIASES[normalizeLabel(value)] ?? null;
+}
+
+/** Forbidden variants are stored in files as a "; " or "|" separated list */
+export function splitVariants(value: string): string[] {
+  return value
+    .split(/[;|]/)
+    .map(variant => variant.trim())
+    .filter(Boolean);
+}
+
+export function formatVariants(variants: string[]): string {
+  return variants.join('; ');
+}
+
+// ============================================
+// Queries
+// ============================================
+
+export function getTermKey(term: string): string {
+  return term.trim().toLowerCase();
+}
+
+export function findEntryBySource(entries: GlossaryEntry[], sourceTerm: string): GlossaryEntry | undefined {
+  const key = getTermKey(sourceTerm);
+  return entries.find(entry => getTermKey(entry.source_term) === key);
+}
+
+/**
+ * Target languages with at least one translation, sorted
+ */
+export function getEntryLanguages(entries: GlossaryEntry[]): string[] {
+  return Array.from(new Set(entries.flatMap(entry => Object.keys(entry.translations)))).sort();
+}
+
+/** "Receta (ES), Ordonnance (FR)"; do-not-translate entries read "SyncPro (all languages)" */
+export function formatEntryTranslations(entry: GlossaryEntry): string {
+  if (entry.do_not_translate) return `${entry.source_term} (all languages)`;
+  return Object.entries(entry.translations)
+    .map(([language, translation]) => `${translation.term} (${language.toUpperCase()})`)
+    .join(', ');
+}
+
+export function countTranslations(entries: GlossaryEntry[]): number {
+  return entries.reduce((sum, entry) => sum + Object.keys(entry.translations).length, 0);
+}
+
+/**
+ * The glossary with `term_count` derived from its entries
+ */
+export function withTermCount(glossary: Omit<Glossary, 'term_count'>, entries: GlossaryEntry[]): Glossary {
+  return { ...glossary, term_count: entries.length };
+}
+
+// ============================================
+// Updates
+// ============================================
+
+export function setEntryTranslation(
+  entry: GlossaryEntry,
+  language: string,
+  translation: GlossaryTranslation
+): GlossaryEntry {
+  return { ...entry, translations: { ...entry.translations, [language]: translation } };
+}
+
+export function removeEntryTranslation(entry: GlossaryEntry, language: string): GlossaryEntry {
+  const translations = { ...entry.translations };
+  delete translations[language];
+  return { ...entry, translations };
+}
+
+/**
+ * Split incoming entries into what the glossary does not have yet (new
+ * entries, or new languages for existing ones) and a count of translations
+ * that already exist and are skipped
+ */
+export function partitionNewGlossaryEntries(
+  incoming: GlossaryEntry[],
+  existing: GlossaryEntry[]
+): { added: GlossaryEntry[]; duplicate_count: number } {
+  const added: GlossaryEntry[] = [];
+  let duplicateCount = 0;
+
+  incoming.forEach(entry => {
+    const current = findEntryBySource(existing, entry.source_term);
+    if (!current) {
+      added.push(entry);
+      return;
+    }
+
+    const newLanguages = Object.keys(entry.translations).filter(language => !(language in current.translations));
+    duplicateCount += Object.keys(entry.translations).length - newLanguages.length;
+    if (newLanguages.length > 0) {
+      const translations: Record<string, GlossaryTranslation> = {};
+      newLanguages.forEach(language => {
+        translations[language] = entry.translations[language];
+      });
+      added.push({ ...entry, translations });
+    } else if (Object.keys(entry.translations).length === 0) {
+      duplicateCount++; // Do-not-translate entry already present
+    }
+  });
+
+  return { added, duplicate_count: duplicateCount };
+}
+
+/**
+ * Add incoming entries to a glossary: translations for a source term the
+ * glossary already has are added to that entry (existing languages win),
+ * other entries are appended
+ */
+export function mergeGlossaryEntries(existing: GlossaryEntry[], incoming: GlossaryEntry[]): GlossaryEntry[] {
+  const merged = [...existing];
+
+  incoming.forEach(entry => {
+    const index = merged.findIndex(current => getTermKey(current.source_term) === getTermKey(entry.source_term));
+    if (index === -1) {
+      merged.push(entry);
+      return;
+    }
+
+    const current = merged[index];
+    merged[index] = {
+      ...current,
+      translations: { ...entry.translations, ...current.translations },
+      part_of_speech: current.part_of_speech ?? entry.part_of_speech,
+      context_notes: current.context_notes || entry.context_notes,
+      do_not_translate: current.do_not_translate || entry.do_not_translate
+    };
+  });
+
+  return merged;
+}
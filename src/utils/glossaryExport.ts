@@ -0,0 +1,233 @@
+/**
+ * Glossary Export
+ *
+ * Serializes glossary entries to CSV, XLSX, JSON or TBX and downloads the file.
+ * The CSV, XLSX and TBX output reads back in through glossaryParser.ts.
+ *
+ * CSV and XLSX have one row per source term + target language (with the
+ * forbidden variants of that translation); do-not-translate entries are a
+ * single row whose translation is the source term and whose language is blank.
+ * JSON keeps the entry structure; TBX has one termEntry per entry, with
+ * forbidden variants as deprecated terms.
+ *
+ * Options:
+ * - include_metadata: part of speech and status (all formats), glossary
+ *   details such as tags and dates (JSON), title and export note in the TBX header
+ * - include_notes: per-entry context notes
+ *
+ * Usage:
+ * ```typescript
+ * import { exportGlossary } from '../utils/glossaryExport';
+ *
+ * exportGlossary({ glossary, entries }, { format: 'xlsx', include_metadata: true, include_notes: true }, 'medical_terms');
+ * ```
+ */
+
+import type { Glossary, GlossaryEntry } from '../types';
+import { formatVariants } from './glossaryEntries';
+import { writeXlsxSheet, escapeXml } from './xlsx';
+import { downloadFile, sanitizeFileName } from './fileDownload';
+
+// ============================================
+// Types
+// ============================================
+
+export type GlossaryExportFormat = 'csv' | 'xlsx' | 'json' | 'tbx';
+
+export interface GlossaryExportOptions {
+  format: GlossaryExportFormat;
+  include_metadata: boolean;
+  include_notes: boolean;
+  source_language?: string; // Language of the source terms (TBX), defaults to 'en'
+}
+
+export interface GlossaryExportInput {
+  glossary?: Pick<Glossary, 'name' | 'description' | 'tags' | 'languages' | 'created_at' | 'updated_at'>;
+  entries: GlossaryEntry[];
+}
+
+export interface GlossaryExportFile {
+  content: string | Uint8Array;
+  extension: string;
+  mime_type: string;
+}
+
+export const GLOSSARY_EXPORT_EXTENSIONS: Record<GlossaryExportFormat, string> = {
+  csv: '.csv',
+  xlsx: '.xlsx',
+  json: '.json',
+  tbx: '.tbx'
+};
+
+const MIME_TYPES: Record<GlossaryExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+  tbx: 'application/x-tbx+xml'
+};
+
+// ============================================
+// Serializers
+// ============================================
+
+/** Target languages of an entry, in a stable order */
+function entryLanguages(entry: GlossaryEntry): string[] {
+  return Object.keys(entry.translations).sort();
+}
+
+/**
+ * Header + one row per translation; the column set follows the options
+ */
+export function getGlossaryExportRows(entries: GlossaryEntry[], options: GlossaryExportOptions): string[][] {
+  const header = ['Source Term', 'Translation', 'Language', 'Forbidden Variants'];
+  if (options.include_metadata) header.push('Part of Speech', 'Status');
+  if (options.include_notes) header.push('Notes');
+
+  const rows = entries.flatMap(entry => {
+    const translations = entryLanguages(entry).map(language => [
+      entry.source_term,
+      entry.translations[language].term,
+      language,
+      formatVariants(entry.translations[language].forbidden_variants)
+    ]);
+    if (entry.do_not_translate || translations.length === 0) {
+      translations.unshift([entry.source_term, entry.source_term, '', '']);
+    }
+
+    return translations.map(row => {
+      if (options.include_metadata) row.push(entry.part_of_speech ?? '', entry.status);
+      if (options.include_notes) row.push(entry.context_notes);
+      return row;
+    });
+  });
+
+  return [header, ...rows];
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** CSV with a UTF-8 BOM so Excel detects the encoding */
+export function serializeGlossaryCsv(rows: string[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function serializeGlossaryJson(
+  input: GlossaryExportInput,
+  options: GlossaryExportOptions,
+  exportedAt: string = new Date().toISOString()
+): string {
+  const entries = input.entries.map(entry => ({
+    source_term: entry.source_term,
+    translations: entry.translations,
+    ...(entry.do_not_translate && { do_not_translate: true }),
+    ...(options.include_metadata && { part_of_speech: entry.part_of_speech, status: entry.status }),
+    ...(options.include_notes && { context_notes: entry.context_notes })
+  }));
+
+  const glossary = options.include_metadata && input.glossary
+    ? {
+        name: input.glossary.name,
+        description: input.glossary.description,
+        tags: input.glossary.tags,
+        languages: input.glossary.languages,
+        created_at: input.glossary.created_at,
+        updated_at: input.glossary.updated_at,
+        exported_at: exportedAt
+      }
+    : undefined;
+
+  return JSON.stringify({ glossary, term_count: entries.length, entries }, null, 2);
+}
+
+/**
+ * TBX (v2, martif) with one termEntry per entry and one langSet per
+ * translation; forbidden variants are deprecated terms of their langSet
+ */
+export function serializeGlossaryTbx(
+  input: GlossaryExportInput,
+  options: GlossaryExportOptions,
+  exportedAt: string = new Date().toISOString()
+): string {
+  const sourceLanguage = options.source_language ?? 'en';
+  const tig = (term: string, termNote: string = '') => `<tig><term>${escapeXml(term)}</term>${termNote}</tig>`;
+  const deprecated = '<termNote type="administrativeStatus">deprecatedTerm-admn-sts</termNote>';
+
+  const entries = input.entries.map((entry, index) => {
+    const note =
+      options.include_notes && entry.context_notes
+        ? [`      <descrip type="context">${escapeXml(entry.context_notes)}</descrip>`]
+        : [];
+    const partOfSpeech =
+      options.include_metadata && entry.part_of_speech
+        ? `<termNote type="partOfSpeech">${escapeXml(entry.part_of_speech)}</termNote>`
+        : '';
+    const langSets = entryLanguages(entry).map(language => {
+      const translation = entry.translations[language];
+      const variants = translation.forbidden_variants.map(variant => tig(variant, deprecated)).join('');
+      return `      <langSet xml:lang="${escapeXml(language)}">${tig(translation.term)}${variants}</langSet>`;
+    });
+
+    return [
+      `    <termEntry id="c${index + 1}">`,
+      ...note,
+      `      <langSet xml:lang="${escapeXml(sourceLanguage)}">${tig(entry.source_term, partOfSpeech)}</langSet>`,
+      ...(entry.do_not_translate ? [] : langSets),
+      '    </termEntry>'
+    ].join('\n');
+  });
+
+  const title = options.include_metadata && input.glossary ? escapeXml(input.glossary.name) : 'Glossary';
+  const sourceDesc = options.include_metadata
+    ? `<sourceDesc><p>Exported from MeetingSync on ${escapeXml(exportedAt)}</p></sourceDesc>`
+    : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<martif type="TBX" xml:lang="${escapeXml(sourceLanguage)}">`,
+    `  <martifHeader><fileDesc><titleStmt><title>${title}</title></titleStmt>${sourceDesc}</fileDesc></martifHeader>`,
+    '  <text><body>',
+    ...entries,
+    '  </body></text>',
+    '</martif>',
+    ''
+  ].join('\n');
+}
+
+export function serializeGlossary(input: GlossaryExportInput, options: GlossaryExportOptions): GlossaryExportFile {
+  let content: string | Uint8Array;
+  switch (options.format) {
+    case 'csv':
+      content = serializeGlossaryCsv(getGlossaryExportRows(input.entries, options));
+      break;
+    case 'xlsx':
+      content = writeXlsxSheet(getGlossaryExportRows(input.entries, options), input.glossary?.name ?? 'Glossary');
+      break;
+    case 'json':
+      content = serializeGlossaryJson(input, options);
+      break;
+    case 'tbx':
+      content = serializeGlossaryTbx(input, options);
+      break;
+  }
+
+  return { content, extension: GLOSSARY_EXPORT_EXTENSIONS[options.format], mime_type: MIME_TYPES[options.format] };
+}
+
+// ============================================
+// Download
+// ============================================
+
+/**
+ * Serialize and download; returns the saved file name
+ */
+export function exportGlossary(input: GlossaryExportInput, options: GlossaryExportOptions, fileName: string): string {
+  const file = serializeGlossary(input, options);
+  const baseName = sanitizeFileName(fileName.replace(/\.(csv|xlsx|json|tbx)$/i, ''), 'glossary');
+  const fullName = `${baseName}${file.extension}`;
+
+  downloadFile(file.content, fullName, file.mime_type);
+  console.log(`[GlossaryExport] Exported ${input.entries.length} entries as ${options.format}`);
+  return fullName;
+}
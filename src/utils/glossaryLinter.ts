@@ -0,0 +1,361 @@
+/**
+ * Glossary Linter
+ *
+ * Quality checks for glossary entries, run on import (GlossaryImportModal) and
+ * on demand in GlossaryEditPage:
+ * - Duplicate source terms: an error when the duplicates give different
+ *   targets for the same language, a warning otherwise (quick fixes: merge,
+ *   delete the later duplicates)
+ * - Whitespace: leading/trailing, repeated or non-breaking spaces in terms
+ *   (quick fix: trim)
+ * - Targets in the wrong script, e.g. a Latin-script Russian translation
+ *   (error; quick fix: delete the translation)
+ * - Terms contained in longer terms: informational, since the engine matches
+ *   the longest term and the shorter one won't apply inside it
+ *
+ * Errors block activation: a session can't start with (or switch to) a
+ * glossary whose enforced entries have errors. Drafts are not enforced, so
+ * their issues are reported but don't block.
+ *
+ * Usage:
+ * ```typescript
+ * import { lintGlossary, applyGlossaryLintFix } from '../utils/glossaryLinter';
+ *
+ * const issues = lintGlossary(entries);
+ * const fixed = applyGlossaryLintFix(entries, issues[0], issues[0].fixes[0]);
+ * ```
+ */
+
+import type { GlossaryEntry } from '../types';
+import { LANGUAGES } from './constants';
+import { getTermKey, mergeGlossaryEntries, removeEntryTranslation } from './glossaryEntries';
+import { getEnforcedEntries } from './glossaryEngine';
+
+// ============================================
+// Types
+// ============================================
+
+export type GlossaryLintSeverity = 'error' | 'warning' | 'info';
+
+export type GlossaryLintCode = 'duplicate_source' | 'whitespace' | 'wrong_script' | 'contained_term';
+
+export type GlossaryLintFix = 'merge_duplicates' | 'trim' | 'delete';
+
+export interface GlossaryLintIssue {
+  id: string; // Stable key for lists
+  code: GlossaryLintCode;
+  severity: GlossaryLintSeverity;
+  message: string;
+  entry_ids: string[]; // Affected entries; duplicates are listed in glossary order
+  language?: string; // Set when the issue concerns one translation
+  fixes: GlossaryLintFix[];
+}
+
+/** Most severe first */
+export const GLOSSARY_LINT_SEVERITIES: GlossaryLintSeverity[] = ['error', 'warning', 'info'];
+
+export const GLOSSARY_LINT_SEVERITY_LABELS: Record<GlossaryLintSeverity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+  info: 'Suggestions'
+};
+
+export const GLOSSARY_LINT_FIX_LABELS: Record<GlossaryLintFix, string> = {
+  merge_duplicates: 'Merge',
+  trim: 'Trim',
+  delete: 'Delete'
+};
+
+// ============================================
+// Checks
+// ============================================
+
+// Scripts expected in each non-Latin target language; other known languages are Latin-script
+const LANGUAGE_SCRIPTS: Record<string, string[]> = {
+  ja: ['Han', 'Hiragana', 'Katakana'],
+  zh: ['Han'],
+  ko: ['Hangul', 'Han'],
+  ar: ['Arabic'],
+  fa: ['Arabic'],
+  ur: ['Arabic'],
+  ru: ['Cyrillic'],
+  uk: ['Cyrillic'],
+  bg: ['Cyrillic'],
+  sr: ['Cyrillic', 'Latin'],
+  el: ['Greek'],
+  he: ['Hebrew'],
+  hi: ['Devanagari'],
+  bn: ['Bengali'],
+  ta: ['Tamil'],
+  te: ['Telugu'],
+  th: ['Thai']
+};
+
+const scriptPatterns = new Map<string, RegExp | null>();
+
+function getScriptPattern(language: string): RegExp | null {
+  if (!scriptPatterns.has(language)) {
+    const scripts =
+      LANGUAGE_SCRIPTS[language] ?? (LANGUAGES.some(lang => lang.code === language) ? ['Latin'] : null);
+    scriptPatterns.set(
+      language,
+      scripts ? new RegExp(scripts.map(script => `\\p{Script=${script}}`).join('|'), 'u') : null
+    );
+  }
+  return scriptPatterns.get(language) ?? null;
+}
+
+/** True when the text has letters and none of them are in the language's script */
+function isWrongScript(text: string, language: string): boolean {
+  const pattern = getScriptPattern(language);
+  const letters = text.match(/\p{L}/gu) ?? [];
+  return pattern !== null && letters.length > 0 && !letters.some(letter => pattern.test(letter));
+}
+
+/** Collapse repeated, non-breaking and zero-width spaces and trim */
+export function normalizeWhitespace(text: string): string {
+  return text.replace(/[\s\u200b]+/g, ' ').trim();
+}
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+
+interface TokenizedTerm {
+  entry: GlossaryEntry;
+  key: string;
+  words: string[];
+  is_cjk: boolean; // Compared as a plain substring
+  anchors: string[]; // Words, or CJK characters, that any term containing it also has
+}
+
+function tokenizeTerm(entry: GlossaryEntry): TokenizedTerm {
+  const key = getTermKey(entry.source_term);
+  const words = key.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const characters = key.match(CJK_PATTERN) ?? [];
+  return { entry, key, words, is_cjk: characters.length > 0, anchors: characters.length > 0 ? characters : words };
+}
+
+/** Whole-word containment; terms without spaces in CJK scripts are compared as plain substrings */
+function containsTerm(longer: TokenizedTerm, shorter: TokenizedTerm): boolean {
+  if (shorter.is_cjk) return longer.key.includes(shorter.key);
+
+  const { words } = longer;
+  const part = shorter.words;
+  if (part.length === 0 || part.length >= words.length) return false;
+  return words.some((_, start) => part.every((word, offset) => words[start + offset] === word));
+}
+
+function quote(text: string): string {
+  return `“${text}”`;
+}
+
+function lintDuplicates(entries: GlossaryEntry[]): GlossaryLintIssue[] {
+  const groups = new Map<string, GlossaryEntry[]>();
+  entries.forEach(entry => {
+    const key = getTermKey(normalizeWhitespace(entry.source_term));
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  });
+
+  const issues: GlossaryLintIssue[] = [];
+  groups.forEach(group => {
+    if (group.length < 2) return;
+
+    const conflicts = Array.from(new Set(group.flatMap(entry => Object.keys(entry.translations))))
+      .sort()
+      .map(language => ({
+        language,
+        targets: Array.from(
+          new Set(
+            group
+              .map(entry => entry.translations[language]?.term)
+              .filter((term): term is string => term !== undefined)
+              .map(term => normalizeWhitespace(term))
+          )
+        )
+      }))
+      .filter(({ targets }) => new Set(targets.map(getTermKey)).size > 1);
+
+    const name = quote(group[0].source_term.trim());
+    const message =
+      conflicts.length > 0
+        ? `${name} appears ${group.length} times with different targets: ${conflicts
+            .map(({ language, targets }) => `${targets.join(' / ')} (${language.toUpperCase()})`)
+            .join(', ')}`
+        : `${name} appears ${group.length} times`;
+
+    issues.push({
+      id: `duplicate_source:${group.map(entry => entry.id).join(',')}`,
+      code: 'duplicate_source',
+      severity: conflicts.length > 0 ? 'error' : 'warning',
+      message,
+      entry_ids: group.map(entry => entry.id),
+      fixes: ['merge_duplicates', 'delete']
+    });
+  });
+
+  return issues;
+}
+
+function lintWhitespace(entry: GlossaryEntry): GlossaryLintIssue[] {
+  const terms = [
+    entry.source_term,
+    ...Object.values(entry.translations).flatMap(translation => [translation.term, ...translation.forbidden_variants])
+  ];
+  const untidy = terms.filter(term => term !== normalizeWhitespace(term));
+  if (untidy.length === 0) return [];
+
+  return [
+    {
+      id: `whitespace:${entry.id}`,
+      code: 'whitespace',
+      severity: 'warning',
+      message: `${quote(normalizeWhitespace(entry.source_term))} has extra whitespace in ${untidy
+        .map(term => quote(term))
+        .join(', ')}`,
+      entry_ids: [entry.id],
+      fixes: ['trim']
+    }
+  ];
+}
+
+function lintScripts(entry: GlossaryEntry): GlossaryLintIssue[] {
+  return Object.entries(entry.translations)
+    .filter(([language, translation]) => {
+      // Targets kept in the source form (brand names, acronyms) are do-not-translate, not mistakes
+      if (getTermKey(translation.term) === getTermKey(entry.source_term)) return false;
+      return isWrongScript(translation.term, language);
+    })
+    .map(([language, translation]) => ({
+      id: `wrong_script:${entry.id}:${language}`,
+      code: 'wrong_script' as const,
+      severity: 'error' as const,
+      message: `${quote(translation.term)} is not written in the script used for ${
+        LANGUAGES.find(lang => lang.code === language)?.name ?? language.toUpperCase()
+      } (target of ${quote(entry.source_term.trim())})`,
+      entry_ids: [entry.id],
+      language,
+      fixes: ['delete' as const]
+    }));
+}
+
+function lintContainedTerms(entries: GlossaryEntry[]): GlossaryLintIssue[] {
+  const terms = entries.map(tokenizeTerm);
+
+  // Terms by each word and CJK character they have, in glossary order
+  const index = new Map<string, TokenizedTerm[]>();
+  terms.forEach(term => {
+    new Set([...term.words, ...(term.key.match(CJK_PATTERN) ?? [])]).forEach(anchor => {
+      const list = index.get(anchor);
+      if (list) list.push(term);
+      else index.set(anchor, [term]);
+    });
+  });
+
+  const issues: GlossaryLintIssue[] = [];
+  terms.forEach(shorter => {
+    // A containing term has every anchor of the shorter one; only the rarest needs checking
+    const candidates = shorter.anchors
+      .map(anchor => index.get(anchor) ?? [])
+      .reduce<TokenizedTerm[] | null>((rarest, list) => (rarest && rarest.length <= list.length ? rarest : list), null);
+
+    candidates?.forEach(longer => {
+      if (shorter === longer || shorter.key === longer.key) return;
+      if (!containsTerm(longer, shorter)) return;
+
+      issues.push({
+        id: `contained_term:${shorter.entry.id}:${longer.entry.id}`,
+        code: 'contained_term',
+        severity: 'info',
+        message: `${quote(shorter.entry.source_term.trim())} is part of ${quote(
+          longer.entry.source_term.trim()
+        )}; where both match, only the longer term is applied`,
+        entry_ids: [shorter.entry.id, longer.entry.id],
+        fixes: []
+      });
+    });
+  });
+  return issues;
+}
+
+/**
+ * All issues in a glossary, most severe first
+ */
+export function lintGlossary(entries: GlossaryEntry[]): GlossaryLintIssue[] {
+  const issues = [
+    ...lintDuplicates(entries),
+    ...entries.flatMap(entry => [...lintWhitespace(entry), ...lintScripts(entry)]),
+    ...lintContainedTerms(entries)
+  ];
+
+  return issues.sort(
+    (a, b) => GLOSSARY_LINT_SEVERITIES.indexOf(a.severity) - GLOSSARY_LINT_SEVERITIES.indexOf(b.severity)
+  );
+}
+
+export function getLintIssueCounts(issues: GlossaryLintIssue[]): Record<GlossaryLintSeverity, number> {
+  const counts: Record<GlossaryLintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  issues.forEach(issue => {
+    counts[issue.severity]++;
+  });
+  return counts;
+}
+
+/**
+ * Hard errors in the entries a session would enforce; any of these block activation
+ */
+export function getBlockingLintIssues(entries: GlossaryEntry[]): GlossaryLintIssue[] {
+  return lintGlossary(getEnforcedEntries(entries)).filter(issue => issue.severity === 'error');
+}
+
+// ============================================
+// Quick fixes
+// ============================================
+
+function trimEntry(entry: GlossaryEntry): GlossaryEntry {
+  return {
+    ...entry,
+    source_term: normalizeWhitespace(entry.source_term),
+    translations: Object.fromEntries(
+      Object.entries(entry.translations).map(([language, translation]) => [
+        language,
+        {
+          term: normalizeWhitespace(translation.term),
+          forbidden_variants: translation.forbidden_variants.map(normalizeWhitespace).filter(Boolean)
+        }
+      ])
+    )
+  };
+}
+
+/**
+ * Apply one of an issue's quick fixes:
+ * - merge_duplicates: fold the duplicates into the first one (its targets win)
+ * - trim: normalize whitespace in the entry's terms
+ * - delete: remove the translation the issue is about, or the later duplicates
+ */
+export function applyGlossaryLintFix(
+  entries: GlossaryEntry[],
+  issue: GlossaryLintIssue,
+  fix: GlossaryLintFix
+): GlossaryEntry[] {
+  if (!issue.fixes.includes(fix)) throw new Error(`Fix "${fix}" does not apply to ${issue.code} issues`);
+
+  const [firstId, ...laterIds] = issue.entry_ids;
+  switch (fix) {
+    case 'merge_duplicates': {
+      const group = entries.filter(entry => issue.entry_ids.includes(entry.id));
+      const [merged] = mergeGlossaryEntries([trimEntry(group[0])], group.slice(1).map(trimEntry));
+      return entries
+        .filter(entry => !laterIds.includes(entry.id))
+        .map(entry => (entry.id === firstId ? merged : entry));
+    }
+    case 'trim':
+      return entries.map(entry => (issue.entry_ids.includes(entry.id) ? trimEntry(entry) : entry));
+    case 'delete': {
+      const language = issue.language;
+      if (language !== undefined) {
+        return entries.map(entry => (entry.id === firstId ? removeEntryTranslation(entry, language) : entry));
+      }
+      return entries.filter(entry => !laterIds.includes(entry.id));
+    }
+  }
+}
@@ -0,0 +1,533 @@
+/**
+ * Glossary File Parser
+ *
+ * Client-side parsing of glossary uploads into GlossaryEntry[]:
+ * - CSV: RFC 4180 quoting (embedded delimiters, quotes and newlines), UTF-8 BOM
+ *   stripped, delimiter sniffed from the first line (comma, semicolon or tab)
+ * - TSV: same rules with a tab delimiter
+ * - XLSX: first worksheet (see xlsx.ts)
+ * - TBX: TermBase eXchange (TBX v2 termEntry/langSet and v3 conceptEntry/langSec);
+ *   one row per target language of each concept, deprecated terms as forbidden variants
+ *
+ * Parsing is two-step so the import UI can show a preview and let the user fix
+ * the column mapping: `readGlossaryFile` produces a raw GlossaryTable (with the
+ * header row sniffed), `detectColumnMapping` guesses which column is which, and
+ * `mapGlossaryRows` turns the rows into entries plus per-row validation errors.
+ * Files are one row per source term + target language; rows sharing a source
+ * term become one multilingual entry. Repeated rows are skipped, but a row
+ * giving the same term a different target starts a separate entry so the
+ * glossary linter can report the conflict (see glossaryLinter.ts).
+ *
+ * Usage:
+ * ```typescript
+ * import { readGlossaryFile, detectColumnMapping, mapGlossaryRows } from '../utils/glossaryParser';
+ *
+ * const table = await readGlossaryFile(file);
+ * const mapping = detectColumnMapping(table, 'es');
+ * const { entries, errors } = mapGlossaryRows(table, mapping);
+ * ```
+ */
+
+import type { GlossaryEntry } from '../types';
+import { getTermKey, parseEntryStatus, parsePartOfSpeech, splitVariants } from './glossaryEntries';
+import { LANGUAGES } from './constants';
+import { readXlsxSheet } from './xlsx';
+
+// ============================================
+// Types
+// ============================================
+
+export type GlossaryFileFormat = 'csv' | 'tsv' | 'xlsx' | 'tbx';
+
+export interface GlossaryTable {
+  format: GlossaryFileFormat;
+  rows: string[][]; // All rows, header included, padded to the same width
+  has_header: boolean;
+  source_language?: string; // Declared by the file (TBX only)
+}
+
+/** Zero-based column indexes; null = not present in the file */
+export interface GlossaryColumnMapping {
+  source: number;
+  target: number;
+  notes: number | null;
+  language: number | null; // Per-row target language column
+  forbidden: number | null; // Forbidden variants of the translation
+  part_of_speech: number | null;
+  status: number | null; // Draft / approved
+  default_language: string; // Target language for rows without a language column
+}
+
+export interface GlossaryRowError {
+  row: number; // 1-based row in the file (header included)
+  message: string;
+}
+
+export interface GlossaryParseResult {
+  entries: GlossaryEntry[];
+  errors: GlossaryRowError[];
+}
+
+export const GLOSSARY_FILE_ACCEPT = '.csv,.tsv,.txt,.xlsx,.tbx,.xml';
+export const MAX_GLOSSARY_FILE_BYTES = 10 * 1024 * 1024; // 10MB
+export const MAX_GLOSSARY_TERM_LENGTH = 200;
+
+// ============================================
+// Format detection
+// ============================================
+
+export function detectGlossaryFormat(fileName: string): GlossaryFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'csv':
+      return 'csv';
+    case 'tsv':
+    case 'txt':
+      return 'tsv';
+    case 'xlsx':
+      return 'xlsx';
+    case 'tbx':
+    case 'xml':
+      return 'tbx';
+    default:
+      return null;
+  }
+}
+
+// ============================================
+// Delimited text (CSV / TSV)
+// ============================================
+
+/**
+ * Pick the delimiter that occurs most often in the first line, outside quotes
+ */
+export function sniffDelimiter(text: string): string {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && char in counts) counts[char]++;
+  }
+
+  return Object.keys(counts).reduce((best, delimiter) => (counts[delimiter] > counts[best] ? delimiter : best), ',');
+}
+
+/**
+ * RFC 4180 parser: quoted fields may contain delimiters, newlines and doubled quotes
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char !== '"') field += char;
+      else if (input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else inQuotes = false;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// ============================================
+// TBX
+// ============================================
+
+export const TBX_HEADERS = ['Source Term', 'Translation', 'Language', 'Notes', 'Forbidden Variants', 'Part of Speech'];
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+function tbxElements(parent: Document | Element, ...localNames: string[]): Element[] {
+  return localNames.flatMap(name => Array.from(parent.getElementsByTagNameNS('*', name)));
+}
+
+function tbxLanguage(element: Element): string {
+  return (element.getAttributeNS(XML_NS, 'lang') || element.getAttribute('xml:lang') || '').toLowerCase();
+}
+
+/** Notes and definitions directly attached to an element (not to nested terms) */
+function tbxNotes(element: Element): string[] {
+  return Array.from(element.children)
+    .filter(child => child.localName === 'note' || child.localName === 'descrip')
+    .map(child => child.textContent?.trim() ?? '')
+    .filter(Boolean);
+}
+
+interface TbxTerm {
+  text: string;
+  forbidden: boolean; // Deprecated or superseded
+  part_of_speech: string;
+}
+
+/** Terms of a langSet / langSec, with their administrative status and part of speech */
+function tbxTerms(langSet: Element): TbxTerm[] {
+  const groups = tbxElements(langSet, 'tig', 'ntig', 'termSec');
+  return (groups.length > 0 ? groups : [langSet])
+    .map(group => {
+      const termNote = (type: string) =>
+        tbxElements(group, 'termNote')
+          .find(note => note.getAttribute('type') === type)
+          ?.textContent?.trim() ?? '';
+      return {
+        text: tbxElements(group, 'term')[0]?.textContent?.trim() ?? '',
+        forbidden: /^(deprecated|superseded)/i.test(termNote('administrativeStatus')),
+        part_of_speech: termNote('partOfSpeech')
+      };
+    })
+    .filter(term => term.text);
+}
+
+/**
+ * Flatten a TBX document into rows with the TBX_HEADERS columns. In each
+ * language the first term not marked deprecated is the translation; the
+ * deprecated ones become its forbidden variants.
+ * The source language is `sourceLanguage` if the concept has it, else the
+ * document's xml:lang, else the concept's first language.
+ */
+export function parseTbx(text: string, sourceLanguage?: string): GlossaryTable {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a valid TBX file (malformed XML)');
+  }
+
+  const documentLanguage = tbxLanguage(doc.documentElement);
+  const entries = tbxElements(doc, 'termEntry', 'conceptEntry');
+  if (entries.length === 0) throw new Error('TBX file contains no term entries');
+
+  const rows: string[][] = [TBX_HEADERS];
+  let detectedSource: string | undefined;
+
+  entries.forEach(entry => {
+    const languages = tbxElements(entry, 'langSet', 'langSec').map(langSet => {
+      const terms = tbxTerms(langSet);
+      const preferred = terms.find(term => !term.forbidden) ?? terms[0];
+      return {
+        code: tbxLanguage(langSet),
+        term: preferred?.text ?? '',
+        part_of_speech: preferred?.part_of_speech ?? '',
+        forbidden: terms.filter(term => term.forbidden && term !== preferred).map(term => term.text),
+        notes: tbxNotes(langSet)
+      };
+    });
+    if (languages.length === 0) return;
+
+    const source =
+      languages.find(lang => lang.code === sourceLanguage) ??
+      languages.find(lang => lang.code === documentLanguage) ??
+      languages[0];
+    detectedSource = detectedSource ?? source.code;
+
+    const entryNotes = [...tbxNotes(entry), ...source.notes];
+    if (languages.length === 1) {
+      // Single-language concept: a do-not-translate term
+      rows.push([source.term, source.term, '', entryNotes.join('; '), '', source.part_of_speech]);
+      return;
+    }
+    languages
+      .filter(lang => lang !== source)
+      .forEach(lang =>
+        rows.push([
+          source.term,
+          lang.term,
+          lang.code,
+          [...entryNotes, ...lang.notes].join('; '),
+          lang.forbidden.join('; '),
+          source.part_of_speech || lang.part_of_speech
+        ])
+      );
+  });
+
+  return { format: 'tbx', rows, has_header: true, source_language: detectedSource };
+}
+
+// ============================================
+// Header sniffing & column detection
+// ============================================
+
+type MappedField = 'source' | 'target' | 'notes' | 'language' | 'forbidden' | 'part_of_speech' | 'status';
+
+const HEADER_ALIASES: Record<MappedField, string[]> = {
+  source: ['source', 'source term', 'term', 'original', 'source text'],
+  target: ['target', 'target term', 'translation', 'translated term', 'target text'],
+  notes: ['notes', 'note', 'comment', 'comments', 'description', 'definition', 'context', 'context notes'],
+  language: ['language', 'lang', 'target language', 'locale', 'language code'],
+  forbidden: ['forbidden', 'forbidden variants', 'forbidden terms', 'deprecated', 'deprecated terms', 'do not use'],
+  part_of_speech: ['part of speech', 'pos', 'word class'],
+  status: ['status', 'approval status']
+};
+
+function normalizeHeader(cell: string): string {
+  return cell.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+function headerField(cell: string): MappedField | null {
+  const normalized = normalizeHeader(cell);
+  const fields = Object.keys(HEADER_ALIASES) as MappedField[];
+  return fields.find(field => HEADER_ALIASES[field].includes(normalized)) ?? null;
+}
+
+/**
+ * Resolve a language code or English/native name to a supported language code
+ */
+export function resolveLanguageCode(value: string): string | null {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return null;
+
+  const language = LANGUAGES.find(
+    lang =>
+      lang.code === normalized ||
+      lang.name.toLowerCase() === normalized ||
+      lang.native_name.toLowerCase() === normalized
+  );
+  if (language) return language.code;
+
+  // Regional variants ("es-MX", "pt_BR") fall back to the base language
+  const base = normalized.split(/[-_]/)[0];
+  return base !== normalized && LANGUAGES.some(lang => lang.code === base) ? base : null;
+}
+
+/**
+ * A first row is a header if it names a known field, or names two languages
+ * (bilingual sheets headed e.g. "English, Spanish")
+ */
+export function sniffHeaderRow(row: string[] | undefined): boolean {
+  if (!row) return false;
+  if (row.some(cell => headerField(cell) !== null)) return true;
+  return row.filter(cell => resolveLanguageCode(cell) !== null).length >= 2;
+}
+
+/**
+ * Guess the column mapping from the header (or column order without one):
+ * named columns first, then language-named columns as source/target, then
+ * source = A, target = B, notes = C
+ */
+export function detectColumnMapping(table: GlossaryTable, defaultLanguage: string = 'es'): GlossaryColumnMapping {
+  const width = table.rows[0]?.length ?? 0;
+  const found: Partial<Record<MappedField, number>> = {};
+  let defaultTarget = defaultLanguage;
+
+  if (table.has_header) {
+    const header = table.rows[0];
+    header.forEach((cell, index) => {
+      const field = headerField(cell);
+      if (field && found[field] === undefined) found[field] = index;
+    });
+
+    header.forEach((cell, index) => {
+      if (headerField(cell) !== null) return;
+      const code = resolveLanguageCode(cell);
+      if (!code) return;
+
+      if (found.source === undefined) {
+        found.source = index;
+      } else if (found.target === undefined) {
+        found.target = index;
+        defaultTarget = code;
+      }
+    });
+  }
+
+  const taken = () => Object.values(found);
+  const nextFree = () => {
+    for (let index = 0; index < width; index++) {
+      if (!taken().includes(index)) return index;
+    }
+    return null;
+  };
+
+  const source = found.source ?? nextFree() ?? 0;
+  found.source = source;
+  const target = found.target ?? nextFree() ?? Math.min(1, Math.max(0, width - 1));
+  found.target = target;
+  const notes = found.notes ?? (table.has_header ? null : nextFree());
+
+  return {
+    source,
+    target,
+    notes,
+    language: found.language ?? null,
+    forbidden: found.forbidden ?? null,
+    part_of_speech: found.part_of_speech ?? null,
+    status: found.status ?? null,
+    default_language: defaultTarget
+  };
+}
+
+/**
+ * Column label for mapping dropdowns: the header text, or a spreadsheet letter
+ */
+export function getColumnLabel(table: GlossaryTable, index: number): string {
+  const letter = String.fromCharCode(65 + (index % 26));
+  const name = index < 26 ? letter : `${String.fromCharCode(64 + Math.floor(index / 26))}${letter}`;
+  const header = table.has_header ? table.rows[0][index]?.trim() : '';
+  return header ? `${header} (Column ${name})` : `Column ${name}`;
+}
+
+/**
+ * Data rows (header excluded) with their 1-based row number in the file
+ */
+export function getGlossaryDataRows(table: GlossaryTable): Array<{ row: number; cells: string[] }> {
+  const offset = table.has_header ? 1 : 0;
+  return table.rows.slice(offset).map((cells, index) => ({ row: index + offset + 1, cells }));
+}
+
+// ============================================
+// Reading & mapping
+// ============================================
+
+function padRows(rows: string[][]): string[][] {
+  // Trailing blank rows are common in spreadsheet exports
+  let end = rows.length;
+  while (end > 0 && rows[end - 1].every(cell => cell.trim() === '')) end--;
+
+  const trimmed = rows.slice(0, end);
+  const width = trimmed.reduce((max, row) => Math.max(max, row.length), 0);
+  return trimmed.map(row => [...row, ...Array<string>(width - row.length).fill('')]);
+}
+
+/**
+ * Read an uploaded file into a raw table; throws with a user-facing message
+ * for unsupported, oversized, empty or malformed files
+ */
+export async function readGlossaryFile(file: File, sourceLanguage?: string): Promise<GlossaryTable> {
+  const format = detectGlossaryFormat(file.name);
+  if (!format) throw new Error('Unsupported file type. Upload a CSV, TSV, XLSX or TBX file.');
+  if (file.size > MAX_GLOSSARY_FILE_BYTES) throw new Error('File is larger than the 10MB limit.');
+
+  let table: GlossaryTable;
+  switch (format) {
+    case 'csv': {
+      const text = await file.text();
+      const rows = parseDelimited(text, sniffDelimiter(text));
+      table = { format, rows, has_header: sniffHeaderRow(rows[0]) };
+      break;
+    }
+    case 'tsv': {
+      const rows = parseDelimited(await file.text(), '\t');
+      table = { format, rows, has_header: sniffHeaderRow(rows[0]) };
+      break;
+    }
+    case 'xlsx': {
+      const rows = await readXlsxSheet(await file.arrayBuffer());
+      table = { format, rows, has_header: sniffHeaderRow(rows[0]) };
+      break;
+    }
+    case 'tbx':
+      table = parseTbx(await file.text(), sourceLanguage);
+      break;
+  }
+
+  table.rows = padRows(table.rows);
+  if (getGlossaryDataRows(table).length === 0) throw new Error('The file contains no glossary rows.');
+
+  console.log(`[GlossaryParser] Read ${file.name} (${format}): ${table.rows.length} rows, header: ${table.has_header}`);
+  return table;
+}
+
+/**
+ * Turn table rows into entries, one per source term (case-insensitive) with a
+ * translation per row language. Imported entries are approved unless a status
+ * column says otherwise. Blank rows are skipped silently; rows with a missing
+ * or over-long term, an unknown language or status, or that repeat an earlier
+ * source term + language are reported and left out.
+ */
+export function mapGlossaryRows(
+  table: GlossaryTable,
+  mapping: GlossaryColumnMapping,
+  now: number = Date.now()
+): GlossaryParseResult {
+  const entries: GlossaryEntry[] = [];
+  const errors: GlossaryRowError[] = [];
+  const entriesByTerm = new Map<string, GlossaryEntry[]>();
+  const rowByTranslation = new Map<string, number>(); // First row of each term + language + target
+  const cell = (cells: string[], index: number | null) => (index !== null ? (cells[index] ?? '').trim() : '');
+
+  getGlossaryDataRows(table).forEach(({ row, cells }) => {
+    if (cells.every(value => value.trim() === '')) return;
+
+    const sourceTerm = cell(cells, mapping.source);
+    const translation = cell(cells, mapping.target);
+    const notes = cell(cells, mapping.notes);
+    const languageCell = cell(cells, mapping.language);
+    const targetLanguage = languageCell ? resolveLanguageCode(languageCell) : mapping.default_language;
+    const statusCell = cell(cells, mapping.status);
+    const status = statusCell ? parseEntryStatus(statusCell) : 'approved';
+    const partOfSpeechCell = cell(cells, mapping.part_of_speech);
+    const forbiddenVariants = splitVariants(cell(cells, mapping.forbidden));
+
+    const rowErrors: string[] = [];
+    if (!sourceTerm) rowErrors.push('Missing source term');
+    if (!translation) rowErrors.push('Missing translation');
+    if ([sourceTerm, translation, ...forbiddenVariants].some(term => term.length > MAX_GLOSSARY_TERM_LENGTH)) {
+      rowErrors.push(`Term longer than ${MAX_GLOSSARY_TERM_LENGTH} characters`);
+    }
+    if (!targetLanguage) rowErrors.push(`Unknown language "${languageCell}"`);
+    if (!status) rowErrors.push(`Unknown status "${statusCell}"`);
+
+    const termKey = getTermKey(sourceTerm);
+    const key = `${termKey}|${targetLanguage}|${getTermKey(translation)}`;
+    const firstRow = rowByTranslation.get(key);
+    if (rowErrors.length === 0 && firstRow !== undefined) {
+      rowErrors.push(`Duplicate of row ${firstRow}`);
+    }
+
+    if (rowErrors.length > 0 || !targetLanguage || !status) {
+      rowErrors.forEach(message => errors.push({ row, message }));
+      return;
+    }
+
+    rowByTranslation.set(key, row);
+    // A translation identical to the source term marks a do-not-translate entry
+    const doNotTranslate = getTermKey(translation) === termKey;
+    const termEntries = entriesByTerm.get(termKey) ?? [];
+    let entry = doNotTranslate
+      ? termEntries[0]
+      : termEntries.find(candidate => !(targetLanguage in candidate.translations));
+    if (!entry) {
+      entry = { id: `entry_${now}_${row}`, source_term: sourceTerm, translations: {}, context_notes: '', status };
+      entriesByTerm.set(termKey, [...termEntries, entry]);
+      entries.push(entry);
+    }
+
+    if (doNotTranslate) entry.do_not_translate = true;
+    else entry.translations[targetLanguage] = { term: translation, forbidden_variants: forbiddenVariants };
+    if (status === 'draft') entry.status = 'draft';
+    if (partOfSpeechCell && !entry.part_of_speech) entry.part_of_speech = parsePartOfSpeech(partOfSpeechCell) ?? 'other';
+    if (notes && !entry.context_notes.split('; ').includes(notes)) {
+      entry.context_notes = entry.context_notes ? `${entry.context_notes}; ${notes}` : notes;
+    }
+  });
+
+  return { entries, errors };
+}
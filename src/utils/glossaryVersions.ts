@@ -0,0 +1,285 @@
+/**
+ * Glossary Versions
+ *
+ * Version history for glossaries: every save in GlossaryEditPage appends a
+ * GlossaryVersion with the author, timestamp, a full snapshot of the entries
+ * and a summary of what changed. Histories are persisted to localStorage.
+ *
+ * - Diff: entries are matched by ID, then by source term, so editing a term
+ *   shows as a change rather than a removal plus an addition
+ * - Rollback: an older version is restored by saving its content as a new
+ *   version, so history is append-only and a rollback can itself be undone
+ * - Pinning: sessions and templates store a version per glossary (GlossaryRef),
+ *   resolved by `resolveGlossaryLayers` (glossaryComposition.ts), so later
+ *   edits don't change how past sessions were captioned
+ *
+ * Sample glossaries without stored history start at version 1 from mock data.
+ *
+ * Usage:
+ * ```typescript
+ * import { appendGlossaryVersion, diffGlossaryEntries } from '../utils/glossaryVersions';
+ *
+ * const history = appendGlossaryVersion(current, { glossary_id, name, entries }, { id: user.id, name: user.name });
+ * const diff = diffGlossaryEntries(history[0].entries, history[1].entries);
+ * ```
+ */
+
+import type { GlossaryEntry, GlossaryRef, GlossaryVersion } from '../types';
+import { MOCK_GLOSSARIES, MOCK_GLOSSARY_ENTRIES } from './mockData';
+import { getTermKey } from './glossaryEntries';
+
+// ============================================
+// Types
+// ============================================
+
+export const GLOSSARY_VERSIONS_KEY = 'meetingsync-glossary-versions';
+
+/** Version histories keyed by glossary ID, oldest version first */
+export type GlossaryVersionHistories = Record<string, GlossaryVersion[]>;
+
+export interface GlossaryVersionAuthor {
+  id: string;
+  name: string;
+}
+
+export type GlossaryVersionContent = Pick<GlossaryVersion, 'glossary_id' | 'name' | 'description' | 'entries'>;
+
+export type GlossaryEntryField =
+  | 'source_term'
+  | 'translations'
+  | 'part_of_speech'
+  | 'context_notes'
+  | 'status'
+  | 'do_not_translate';
+
+export interface GlossaryEntryChange {
+  before: GlossaryEntry;
+  after: GlossaryEntry;
+  fields: GlossaryEntryField[];
+}
+
+export interface GlossaryDiff {
+  added: GlossaryEntry[];
+  removed: GlossaryEntry[];
+  changed: GlossaryEntryChange[];
+  unchanged_count: number;
+}
+
+export const GLOSSARY_ENTRY_FIELD_LABELS: Record<GlossaryEntryField, string> = {
+  source_term: 'Source term',
+  translations: 'Translations',
+  part_of_speech: 'Part of speech',
+  context_notes: 'Notes',
+  status: 'Status',
+  do_not_translate: 'Do not translate'
+};
+
+// ============================================
+// Diff
+// ============================================
+
+/** Stable JSON for comparisons: object keys sorted, so translation order doesn't count as a change */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, current) =>
+    current && typeof current === 'object' && !Array.isArray(current)
+      ? Object.fromEntries(Object.entries(current).sort(([a], [b]) => a.localeCompare(b)))
+      : current
+  );
+}
+
+function changedFields(before: GlossaryEntry, after: GlossaryEntry): GlossaryEntryField[] {
+  const fields = Object.keys(GLOSSARY_ENTRY_FIELD_LABELS) as GlossaryEntryField[];
+  return fields.filter(field => canonical(before[field] ?? null) !== canonical(after[field] ?? null));
+}
+
+/**
+ * Entries added, removed and changed going from `before` to `after`
+ */
+export function diffGlossaryEntries(before: GlossaryEntry[], after: GlossaryEntry[]): GlossaryDiff {
+  const unmatched = [...before];
+  const diff: GlossaryDiff = { added: [], removed: [], changed: [], unchanged_count: 0 };
+
+  after.forEach(entry => {
+    let index = unmatched.findIndex(candidate => candidate.id === entry.id);
+    if (index === -1) {
+      index = unmatched.findIndex(candidate => getTermKey(candidate.source_term) === getTermKey(entry.source_term));
+    }
+    if (index === -1) {
+      diff.added.push(entry);
+      return;
+    }
+
+    const [previous] = unmatched.splice(index, 1);
+    const fields = changedFields(previous, entry);
+    if (fields.length > 0) diff.changed.push({ before: previous, after: entry, fields });
+    else diff.unchanged_count++;
+  });
+
+  diff.removed = unmatched;
+  return diff;
+}
+
+export function hasGlossaryChanges(diff: GlossaryDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+/**
+ * "2 added, 1 removed, 3 changed" (plus renames and description edits)
+ */
+export function summarizeGlossaryChanges(
+  diff: GlossaryDiff,
+  previous?: Pick<GlossaryVersion, 'name' | 'description'>,
+  next?: Pick<GlossaryVersion, 'name' | 'description'>
+): string {
+  const parts: string[] = [];
+  if (diff.added.length > 0) parts.push(`${diff.added.length} added`);
+  if (diff.removed.length > 0) parts.push(`${diff.removed.length} removed`);
+  if (diff.changed.length > 0) parts.push(`${diff.changed.length} changed`);
+  if (previous && next && previous.name !== next.name) parts.push('renamed');
+  if (previous && next && (previous.description ?? '') !== (next.description ?? '')) parts.push('description updated');
+
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
+
+// ============================================
+// History
+// ============================================
+
+export function getLatestVersion(history: GlossaryVersion[]): GlossaryVersion | undefined {
+  return history[history.length - 1];
+}
+
+export function findGlossaryVersion(history: GlossaryVersion[], version: number): GlossaryVersion | undefined {
+  return history.find(item => item.version === version);
+}
+
+/**
+ * Append a version for `content`. Saves that change nothing (entries, name
+ * or description) return the history unchanged.
+ */
+export function appendGlossaryVersion(
+  history: GlossaryVersion[],
+  content: GlossaryVersionContent,
+  author: GlossaryVersionAuthor,
+  now: Date = new Date(),
+  restoredFrom?: number
+): GlossaryVersion[] {
+  const latest = getLatestVersion(history);
+  const diff = diffGlossaryEntries(latest?.entries ?? [], content.entries);
+  const summary = latest ? summarizeGlossaryChanges(diff, latest, content) : 'Initial version';
+  if (latest && summary === 'No changes') return history;
+
+  const version: GlossaryVersion = {
+    ...content,
+    version: (latest?.version ?? 0) + 1,
+    author_id: author.id,
+    author_name: author.name,
+    created_at: now.toISOString(),
+    summary: restoredFrom !== undefined ? `Rolled back to version ${restoredFrom} (${summary})` : summary,
+    ...(restoredFrom !== undefined && { restored_from: restoredFrom })
+  };
+
+  console.log(`[GlossaryVersions] ${content.glossary_id} v${version.version}: ${version.summary}`);
+  return [...history, version];
+}
+
+/**
+ * Restore an older version's content as a new version
+ */
+export function rollbackGlossary(
+  history: GlossaryVersion[],
+  version: number,
+  author: GlossaryVersionAuthor,
+  now: Date = new Date()
+): GlossaryVersion[] {
+  const target = findGlossaryVersion(history, version);
+  if (!target) throw new Error(`Glossary version ${version} not found`);
+
+  const { glossary_id, name, description, entries } = target;
+  return appendGlossaryVersion(history, { glossary_id, name, description, entries }, author, now, version);
+}
+
+// ============================================
+// Storage
+// ============================================
+
+export function loadGlossaryVersions(): GlossaryVersionHistories {
+  try {
+    const raw = localStorage.getItem(GLOSSARY_VERSIONS_KEY);
+    return raw ? (JSON.parse(raw) as GlossaryVersionHistories) : {};
+  } catch (error) {
+    console.warn('[GlossaryVersions] Discarding unreadable version history:', error);
+    return {};
+  }
+}
+
+export function saveGlossaryVersions(histories: GlossaryVersionHistories): void {
+  try {
+    localStorage.setItem(GLOSSARY_VERSIONS_KEY, JSON.stringify(histories));
+  } catch (error) {
+    console.warn('[GlossaryVersions] Failed to save version history:', error);
+  }
+}
+
+/**
+ * Stored history of a glossary; sample glossaries start at version 1 from mock data
+ */
+export function getGlossaryHistory(histories: GlossaryVersionHistories, glossaryId: string): GlossaryVersion[] {
+  if (histories[glossaryId]) return histories[glossaryId];
+
+  const glossary = MOCK_GLOSSARIES.find(g => g.id === glossaryId);
+  if (!glossary) return [];
+
+  return [
+    {
+      glossary_id: glossary.id,
+      version: 1,
+      author_id: glossary.user_id,
+      author_name: 'Glossary owner',
+      created_at: glossary.updated_at,
+      summary: 'Initial version',
+      name: glossary.name,
+      description: glossary.description,
+      entries: MOCK_GLOSSARY_ENTRIES[glossary.id] ?? []
+    }
+  ];
+}
+
+/**
+ * Stored history of one glossary, for pickers outside the glossary editor
+ */
+export function listGlossaryVersions(glossaryId: string): GlossaryVersion[] {
+  return getGlossaryHistory(loadGlossaryVersions(), glossaryId);
+}
+
+/** Latest version number of a glossary, used to pin sessions when they start */
+export function getCurrentGlossaryVersion(glossaryId: string): number | undefined {
+  return getLatestVersion(listGlossaryVersions(glossaryId))?.version;
+}
+
+/**
+ * Latest version of every glossary with a history (sample glossaries included),
+ * for choosing glossaries outside the Glossaries tab
+ */
+export function listLatestGlossaryVersions(): GlossaryVersion[] {
+  const histories = loadGlossaryVersions();
+  const ids = Array.from(new Set([...MOCK_GLOSSARIES.map(glossary => glossary.id), ...Object.keys(histories)]));
+  return ids
+    .map(id => getLatestVersion(getGlossaryHistory(histories, id)))
+    .filter((version): version is GlossaryVersion => version !== undefined);
+}
+
+export function getGlossaryName(glossaryId: string): string {
+  return getLatestVersion(listGlossaryVersions(glossaryId))?.name ?? glossaryId;
+}
+
+/** "Medical Terms v3", or just the name when following the latest version */
+export function formatGlossaryRef(ref: GlossaryRef): string {
+  const name = getGlossaryName(ref.glossary_id);
+  return ref.version !== undefined ? `${name} v${ref.version}` : name;
+}
+
+/** "Version 3 · 10/18/2026 · 2 added" */
+export function formatGlossaryVersionLabel(version: GlossaryVersion): string {
+  return `Version ${version.version} · ${new Date(version.created_at).toLocaleDateString()} · ${version.summary}`;
+}
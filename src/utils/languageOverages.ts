@@ -0,0 +1,122 @@
+/**
+ * Language Overage Tracking (V1 Pricing)
+ *
+ * Keeps `Session.overages` in step with the session's active target languages
+ * (`target_languages` minus `disabled_languages`). Each tier includes
+ * `translationLimit` target languages; every language beyond that is billed at
+ * the tier's overage rate only while it is active.
+ *
+ * Rules:
+ * - Adding a language past the limit opens a LanguageOverage at the current minute
+ * - Removing or disabling an overage language closes its LanguageOverage (removed_at_minutes)
+ * - Removing an included language frees a slot: the earliest open overage is
+ *   closed, since that language is now covered by the tier
+ * - Re-adding or re-enabling a language opens a fresh LanguageOverage (history is preserved)
+ *
+ * Usage:
+ * ```typescript
+ * const overages = reconcileLanguageOverages(session, ['es', 'fr', 'de'], 12.5);
+ * const { overages: priced, overage_cost } = priceLanguageOverages(overages, 30, 1.0);
+ * ```
+ */
+
+import type { LanguageOverage, Session } from '../types';
+import { calculateOverageCost } from './constants';
+import { pricingConfig } from './pricingManager';
+import { getActiveTargetLanguages } from './sessionLanguages';
+
+/**
+ * Number of target languages included in a tier before overage applies
+ */
+export function getIncludedTranslationCount(tierId: string): number {
+  return pricingConfig.getPaygTierLanguageLimits(tierId).translations;
+}
+
+export function isOverageActive(overage: LanguageOverage): boolean {
+  return overage.removed_at_minutes === undefined;
+}
+
+/**
+ * Open and close LanguageOverage records for a change from the session's
+ * current active languages to `nextLanguages`
+ * @param nextLanguages - Active target languages after the change
+ * @param atMinutes - Session time of the change, in minutes from session start
+ */
+export function reconcileLanguageOverages(
+  session: Pick<Session, 'tier' | 'target_languages' | 'disabled_languages' | 'overages'>,
+  nextLanguages: string[],
+  atMinutes: number
+): LanguageOverage[] {
+  const limit = getIncludedTranslationCount(session.tier);
+  const overageRate = pricingConfig.getPaygTierOverageRate(session.tier);
+  const previousLanguages = getActiveTargetLanguages(session);
+  const minute = parseFloat(atMinutes.toFixed(2));
+
+  const close = (overage: LanguageOverage): LanguageOverage => ({ ...overage, removed_at_minutes: minute });
+
+  // 1. Close overages for languages that are no longer active
+  const overages = (session.overages || []).map(overage =>
+    isOverageActive(overage) && !nextLanguages.includes(overage.language_code) ? close(overage) : overage
+  );
+
+  // 2. Open overages for newly added languages that land beyond the limit
+  let activeCount = previousLanguages.filter(code => nextLanguages.includes(code)).length;
+  nextLanguages
+    .filter(code => !previousLanguages.includes(code))
+    .forEach(code => {
+      activeCount += 1;
+      if (activeCount > limit) {
+        overages.push({
+          language_code: code,
+          added_at_minutes: minute,
+          overage_rate: overageRate,
+          calculated_cost: 0
+        });
+      }
+    });
+
+  // 3. If included slots were freed, close the earliest open overages
+  const allowedOpen = Math.max(0, nextLanguages.length - limit);
+  const openIndexes = overages
+    .map((overage, index) => (isOverageActive(overage) ? index : -1))
+    .filter(index => index >= 0)
+    .sort((a, b) => overages[a].added_at_minutes - overages[b].added_at_minutes);
+
+  openIndexes.slice(0, Math.max(0, openIndexes.length - allowedOpen)).forEach(index => {
+    overages[index] = close(overages[index]);
+  });
+
+  return overages;
+}
+
+/**
+ * Close every open overage (used when the session ends)
+ */
+export function closeAllLanguageOverages(overages: LanguageOverage[], atMinutes: number): LanguageOverage[] {
+  const minute = parseFloat(atMinutes.toFixed(2));
+  return overages.map(overage => (isOverageActive(overage) ? { ...overage, removed_at_minutes: minute } : overage));
+}
+
+/**
+ * Update each overage's calculated_cost and return the total overage cost
+ * @param durationMinutes - Current session duration in minutes (end of open overages)
+ * @param multiplierValue - Participant multiplier applied to overage time, or a
+ *   function giving the multiplier for each overage's own interval
+ */
+export function priceLanguageOverages(
+  overages: LanguageOverage[],
+  durationMinutes: number,
+  multiplierValue: number | ((overage: LanguageOverage) => number)
+): { overages: LanguageOverage[]; overage_cost: number } {
+  const priced = overages.map(overage => ({
+    ...overage,
+    calculated_cost: calculateOverageCost(
+      overage,
+      durationMinutes,
+      typeof multiplierValue === 'function' ? multiplierValue(overage) : multiplierValue
+    )
+  }));
+  const total = priced.reduce((sum, overage) => sum + overage.calculated_cost, 0);
+
+  return { overages: priced, overage_cost: parseFloat(total.toFixed(2)) };
+}
@@ -0,0 +1,127 @@
+/**
+ * Language Request Queue
+ *
+ * Pure helpers for the host-side queue of participant language requests.
+ * SessionProvider keeps the queue in state; participants submit requests and
+ * receive the outcome over the app message bus.
+ *
+ * Rules:
+ * - A request for a language that already has a pending request is batched
+ *   into it (one entry per participant; the requester count is shown to the host)
+ * - Pending requests expire after LANGUAGE_REQUEST_TTL_MS without a decision
+ * - Resolved requests (approved/denied/expired) stay in the queue as history
+ *
+ * Usage:
+ * ```typescript
+ * let queue = enqueueLanguageRequest([], { session_id, language_code: 'ja', requester });
+ * queue = resolveLanguageRequest(queue, queue[0].id, 'approved');
+ * const preview = estimateLanguageRequestCost(session, 'ja');
+ * ```
+ */
+
+import type { LanguageRequest, LanguageRequestStatus, LanguageRequester, Session } from '../types';
+import { pricingConfig } from './pricingManager';
+import { getIncludedTranslationCount } from './languageOverages';
+import { getActiveTargetLanguages } from './sessionLanguages';
+
+/** Pending requests expire after 5 minutes */
+export const LANGUAGE_REQUEST_TTL_MS = 5 * 60 * 1000;
+
+export function isLanguageRequestPending(request: LanguageRequest): boolean {
+  return request.status === 'pending';
+}
+
+/**
+ * Add a participant's request, batching it into a pending request for the same language
+ */
+export function enqueueLanguageRequest(
+  queue: LanguageRequest[],
+  input: { session_id: string; language_code: string; requester: LanguageRequester },
+  now: number = Date.now()
+): LanguageRequest[] {
+  const existing = queue.find(
+    request => isLanguageRequestPending(request) && request.language_code === input.language_code
+  );
+
+  if (existing) {
+    if (existing.requesters.some(r => r.participant_id === input.requester.participant_id)) return queue;
+    return queue.map(request =>
+      request.id === existing.id ? { ...request, requesters: [...request.requesters, input.requester] } : request
+    );
+  }
+
+  return [
+    ...queue,
+    {
+      id: `langreq_${now}_${input.language_code}`,
+      session_id: input.session_id,
+      language_code: input.language_code,
+      status: 'pending',
+      requesters: [input.requester],
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + LANGUAGE_REQUEST_TTL_MS).toISOString()
+    }
+  ];
+}
+
+/**
+ * Close a pending request with a decision; resolved requests are left unchanged
+ */
+export function resolveLanguageRequest(
+  queue: LanguageRequest[],
+  requestId: string,
+  status: Exclude<LanguageRequestStatus, 'pending'>,
+  now: number = Date.now()
+): LanguageRequest[] {
+  return queue.map(request =>
+    request.id === requestId && isLanguageRequestPending(request)
+      ? { ...request, status, resolved_at: new Date(now).toISOString() }
+      : request
+  );
+}
+
+/**
+ * Pending requests whose expiry has passed
+ */
+export function getExpiredLanguageRequests(queue: LanguageRequest[], now: number = Date.now()): LanguageRequest[] {
+  return queue.filter(request => isLanguageRequestPending(request) && Date.parse(request.expires_at) <= now);
+}
+
+/**
+ * Pending requests, most requested language first
+ */
+export function getPendingLanguageRequests(queue: LanguageRequest[]): LanguageRequest[] {
+  return queue
+    .filter(isLanguageRequestPending)
+    .sort((a, b) => b.requesters.length - a.requesters.length || a.created_at.localeCompare(b.created_at));
+}
+
+export interface LanguageRequestCostPreview {
+  is_overage: boolean; // Approving adds a language beyond the tier limit
+  hourly_cost: number; // Additional cost per hour (0 when within the limit)
+  current_language_count: number;
+  tier_limit: number;
+}
+
+/**
+ * Preview the cost of approving a language: the tier's overage rate scaled by the
+ * session's current participant multiplier, if the language lands beyond the limit
+ */
+export function estimateLanguageRequestCost(
+  session: Pick<Session, 'tier' | 'target_languages' | 'disabled_languages' | 'participant_multiplier_value'>,
+  languageCode: string
+): LanguageRequestCostPreview {
+  const activeLanguages = getActiveTargetLanguages(session);
+  const tierLimit = getIncludedTranslationCount(session.tier);
+  const isOverage = !activeLanguages.includes(languageCode) && activeLanguages.length >= tierLimit;
+  const hourlyCost = isOverage
+    ? pricingConfig.getPaygTierOverageRate(session.tier) * (session.participant_multiplier_value ?? 1)
+    : 0;
+
+  return {
+    is_overage: isOverage,
+    hourly_cost: parseFloat(hourlyCost.toFixed(2)),
+    current_language_count: activeLanguages.length,
+    tier_limit: tierLimit
+  };
+}
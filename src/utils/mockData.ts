@@ -6,11 +6,13 @@ import type {
   Session,
   Template,
   Glossary,
+  GlossaryEntry,
   Invoice,
   Participant,
   Caption
 } from '../types';
 import { PRICING_TIERS } from './constants';
+import { withTermCount } from './glossaryEntries';
 
 // ============================================
 // MOCK USERS
@@ -21,6 +23,7 @@ export const MOCK_USER_PAYG_STARTER: User = {
   name: 'John Doe (Starter)',
   email: 'john.starter@company.com',
   zoom_account_type: 2, // Licensed (Pro account)
+  zoom_account_id: 'zoom_acct_001',
   billing_type: 'payg',
   subscription_tier: 'starter', // PAYG Starter tier (see PRICING_TIERS for current rate and limits)
   unpaid_usage: 15.75, // Current month usage (postpaid)
@@ -38,6 +41,7 @@ export const MOCK_USER_PAYG_PROFESSIONAL: User = {
   name: 'John Doe (Professional)',
   email: 'john.professional@company.com',
   zoom_account_type: 2, // Licensed (Pro account)
+  zoom_account_id: 'zoom_acct_001',
   billing_type: 'payg',
   subscription_tier: 'professional', // PAYG Professional tier (see PRICING_TIERS for current rate and limits)
   unpaid_usage: 23.50, // Current month usage (postpaid)
@@ -55,6 +59,7 @@ export const MOCK_USER_PAYG_ENTERPRISE: User = {
   name: 'John Doe (Enterprise)',
   email: 'john.enterprise@company.com',
   zoom_account_type: 2, // Licensed (Pro account)
+  zoom_account_id: 'zoom_acct_001',
   billing_type: 'payg',
   subscription_tier: 'enterprise', // PAYG Enterprise tier (see PRICING_TIERS for current rate and limits)
   unpaid_usage: 47.50, // Current month usage (postpaid)
@@ -73,6 +78,7 @@ export const MOCK_USER_FREE_TRIAL: User = {
   name: 'Jane FreeTrial',
   email: 'jane.freetrial@company.com',
   zoom_account_type: 2,
+  zoom_account_id: 'zoom_acct_001',
   billing_type: 'payg',
   subscription_tier: undefined,
   unpaid_usage: 0,
@@ -92,6 +98,7 @@ export const MOCK_USER_PAYG_NO_TIER: User = {
   name: 'Alex Johnson (PAYG - No Tier)',
   email: 'alex.johnson@company.com',
   zoom_account_type: 2, // Licensed (Pro account)
+  zoom_account_id: 'zoom_acct_001',
   billing_type: 'payg',
   subscription_tier: undefined, // No tier selected yet - should show tier selection
   unpaid_usage: 0, // No usage yet
@@ -110,6 +117,7 @@ export const MOCK_USER_FREE_TIER: User = {
   name: 'Jane Smith',
   email: 'jane.smith@company.com',
   zoom_account_type: 2, // Licensed (required for MeetingSync)
+  zoom_account_id: 'zoom_acct_001',
   billing_type: 'payg',
   subscription_tier: undefined, // No tier - on free tier
   is_free_tier: true, // Free tier user (15 min/day forever)
@@ -151,7 +159,7 @@ export const MOCK_SESSIONS: Session[] = [
     meeting_type: 'business',
     source_language: 'en',
     target_languages: ['es', 'fr', 'de', 'zh'],
-    glossary_name: 'Product Names',
+    glossaries: [{ glossary_id: 'gloss_product_001', version: 1 }],
     participant_count_total: 24,
     participant_count_viewing: 12,
     tier: 'professional',
@@ -173,7 +181,7 @@ export const MOCK_SESSIONS: Session[] = [
     meeting_type: 'business',
     source_language: 'en',
     target_languages: ['es', 'pt'],
-    glossary_name: 'Product Names',
+    glossaries: [{ glossary_id: 'gloss_product_001', version: 1 }],
     participant_count_total: 8,
     participant_count_viewing: 3,
     tier: 'professional',
@@ -195,8 +203,7 @@ export const MOCK_SESSIONS: Session[] = [
     meeting_type: 'medical',
     source_language: 'en',
     target_languages: ['es', 'fr', 'de', 'zh'],
-    glossary_id: 'gloss_medical_001',
-    glossary_name: 'Medical Terms',
+    glossaries: [{ glossary_id: 'gloss_medical_001', version: 1 }],
     participant_count_total: 45,
     participant_count_viewing: 38,
     tier: 'professional',
@@ -322,6 +329,7 @@ export const MOCK_TEMPLATES: Template[] = [
     meeting_type: 'business',
     tts_enabled: false,
     confidence_threshold: 80,
+    low_confidence_policy: 'flag',
     show_partial_results: true,
     host_instructions: 'Please mute when not speaking.',
     last_used: '2025-10-09T10:30:00Z',
@@ -334,9 +342,10 @@ export const MOCK_TEMPLATES: Template[] = [
     source_language: 'en',
     target_languages: ['es', 'fr', 'de', 'zh', 'ja', 'pt', 'it', 'ru', 'ko', 'ar', 'hi', 'nl'],
     meeting_type: 'general',
-    glossary_id: 'gloss_product_001',
+    glossaries: [{ glossary_id: 'gloss_product_001' }],
     tts_enabled: true,
     confidence_threshold: 75,
+    low_confidence_policy: 'flag',
     show_partial_results: true,
     host_instructions: 'Translation is available in 12 languages. Select your preferred language from the Apps panel.',
     last_used: '2025-09-22T11:00:00Z',
@@ -349,25 +358,79 @@ export const MOCK_TEMPLATES: Template[] = [
     source_language: 'en',
     target_languages: ['es', 'pt'],
     meeting_type: 'business',
-    glossary_id: 'gloss_product_001',
+    glossaries: [{ glossary_id: 'gloss_product_001' }],
     tts_enabled: false,
     confidence_threshold: 85,
+    low_confidence_policy: 'flag',
     show_partial_results: false,
     last_used: undefined,
     created_at: '2025-09-01T14:00:00Z'
   }
 ];
 
+// Colleagues in the mock Zoom account, for sharing templates
+export const MOCK_ACCOUNT_MEMBERS: Array<Pick<User, 'id' | 'name' | 'email'>> = [
+  { id: 'user_dept_lead_001', name: 'Priya Raman', email: 'priya.raman@company.com' },
+  { id: 'user_coord_001', name: 'Marco Silva', email: 'marco.silva@company.com' },
+  { id: 'user_coord_002', name: 'Aiko Tanaka', email: 'aiko.tanaka@company.com' }
+];
+
+// Account library templates owned by colleagues
+export const MOCK_SHARED_TEMPLATES: Template[] = [
+  {
+    id: 'template_shared_001',
+    user_id: 'user_dept_lead_001',
+    name: 'Patient Consultation (Clinic Standard)',
+    source_language: 'en',
+    target_languages: ['es', 'zh', 'ar'],
+    meeting_type: 'medical',
+    glossaries: [{ glossary_id: 'gloss_medical_001', version: 1 }],
+    tts_enabled: true,
+    confidence_threshold: 85,
+    low_confidence_policy: 'flag',
+    show_partial_results: false,
+    host_instructions: 'Interpretation is provided for your convenience. Ask the clinician to repeat anything unclear.',
+    created_at: '2025-09-20T09:00:00Z',
+    sharing: {
+      account_id: 'zoom_acct_001',
+      owner_name: 'Priya Raman',
+      account_role: 'viewer',
+      members: [{ user_id: 'user_coord_001', name: 'Marco Silva', role: 'editor' }],
+      shared_at: '2025-09-20T09:30:00Z'
+    }
+  },
+  {
+    id: 'template_shared_002',
+    user_id: 'user_coord_001',
+    name: 'Quarterly Partner Briefing',
+    source_language: 'en',
+    target_languages: ['de', 'fr', 'ja'],
+    meeting_type: 'business',
+    glossaries: [{ glossary_id: 'gloss_product_001' }],
+    tts_enabled: false,
+    confidence_threshold: 80,
+    low_confidence_policy: 'flag',
+    show_partial_results: true,
+    created_at: '2025-10-02T15:00:00Z',
+    sharing: {
+      account_id: 'zoom_acct_001',
+      owner_name: 'Marco Silva',
+      account_role: 'editor',
+      members: [],
+      shared_at: '2025-10-02T15:10:00Z'
+    }
+  }
+];
+
 // ============================================
 // MOCK GLOSSARIES
 // ============================================
 
-export const MOCK_GLOSSARIES: Glossary[] = [
+const GLOSSARY_DETAILS: Omit<Glossary, 'term_count'>[] = [
   {
     id: 'gloss_medical_001',
     user_id: 'user_sub_001',
     name: 'Medical Terms',
-    term_count: 250,
     tags: ['medical', 'healthcare', 'hospital'],
     languages: ['all'],
     created_at: '2025-09-25T09:00:00Z',
@@ -377,7 +440,6 @@ export const MOCK_GLOSSARIES: Glossary[] = [
     id: 'gloss_product_001',
     user_id: 'user_sub_001',
     name: 'Product Names',
-    term_count: 45,
     tags: ['technical', 'business', 'product'],
     languages: ['all'],
     created_at: '2025-09-10T12:00:00Z',
@@ -387,7 +449,6 @@ export const MOCK_GLOSSARIES: Glossary[] = [
     id: 'gloss_legal_001',
     user_id: 'user_sub_001',
     name: 'Legal Terminology',
-    term_count: 180,
     tags: ['legal', 'contracts', 'compliance'],
     languages: ['all'],
     created_at: '2025-08-15T14:00:00Z',
@@ -395,6 +456,174 @@ export const MOCK_GLOSSARIES: Glossary[] = [
   }
 ];
 
+// Entries of the sample glossaries, keyed by glossary ID
+export const MOCK_GLOSSARY_ENTRIES: Record<string, GlossaryEntry[]> = {
+  gloss_medical_001: [
+    {
+      id: 'term_001',
+      source_term: 'MRI',
+      translations: {
+        es: { term: 'Resonancia Magnética', forbidden_variants: ['IRM'] },
+        fr: { term: 'IRM', forbidden_variants: [] },
+        de: { term: 'MRT', forbidden_variants: [] },
+        ja: { term: 'MRI検査', forbidden_variants: [] }
+      },
+      part_of_speech: 'acronym',
+      context_notes: 'Medical imaging technique',
+      status: 'approved'
+    },
+    {
+      id: 'term_002',
+      source_term: 'CT Scan',
+      translations: {
+        es: { term: 'Tomografía Computarizada', forbidden_variants: ['Escáner CT'] },
+        fr: { term: 'Tomodensitométrie', forbidden_variants: [] }
+      },
+      part_of_speech: 'noun',
+      context_notes: 'Computed tomography',
+      status: 'approved'
+    },
+    {
+      id: 'term_003',
+      source_term: 'Diagnosis',
+      translations: {
+        es: { term: 'Diagnóstico', forbidden_variants: [] },
+        fr: { term: 'Diagnostic', forbidden_variants: [] },
+        de: { term: 'Diagnose', forbidden_variants: [] }
+      },
+      part_of_speech: 'noun',
+      context_notes: 'Medical determination',
+      status: 'approved'
+    },
+    {
+      id: 'term_004',
+      source_term: 'Prescription',
+      translations: {
+        es: { term: 'Receta', forbidden_variants: ['Prescripción'] },
+        fr: { term: 'Ordonnance', forbidden_variants: ['Prescription'] }
+      },
+      part_of_speech: 'noun',
+      context_notes: 'Written medication order',
+      status: 'approved'
+    },
+    {
+      id: 'term_005',
+      source_term: 'Anesthesia',
+      translations: {
+        es: { term: 'Anestesia', forbidden_variants: [] },
+        fr: { term: 'Anesthésie', forbidden_variants: [] }
+      },
+      part_of_speech: 'noun',
+      context_notes: 'Loss of sensation',
+      status: 'approved'
+    },
+    {
+      id: 'term_006',
+      source_term: 'Surgery',
+      translations: {
+        fr: { term: 'Chirurgie', forbidden_variants: [] },
+        de: { term: 'Operation', forbidden_variants: [] }
+      },
+      part_of_speech: 'noun',
+      context_notes: 'Operative procedure',
+      status: 'approved'
+    },
+    {
+      id: 'term_007',
+      source_term: 'Vital Signs',
+      translations: {
+        es: { term: 'Signos Vitales', forbidden_variants: [] },
+        de: { term: 'Vitalzeichen', forbidden_variants: [] }
+      },
+      part_of_speech: 'noun',
+      context_notes: 'Basic health measurements',
+      status: 'approved'
+    },
+    {
+      id: 'term_008',
+      source_term: 'Blood Pressure',
+      translations: {
+        es: { term: 'Presión Arterial', forbidden_variants: ['Presión de la sangre'] },
+        de: { term: 'Blutdruck', forbidden_variants: [] }
+      },
+      part_of_speech: 'noun',
+      context_notes: 'Arterial pressure',
+      status: 'draft'
+    }
+  ],
+  gloss_product_001: [
+    {
+      id: 'term_101',
+      source_term: 'SyncPro',
+      translations: {},
+      part_of_speech: 'proper_noun',
+      context_notes: 'Brand name',
+      status: 'approved',
+      do_not_translate: true
+    },
+    {
+      id: 'term_102',
+      source_term: 'CloudSync',
+      translations: {},
+      part_of_speech: 'proper_noun',
+      context_notes: 'Brand name',
+      status: 'approved',
+      do_not_translate: true
+    },
+    {
+      id: 'term_103',
+      source_term: 'Dashboard',
+      translations: {
+        es: { term: 'Panel de control', forbidden_variants: ['Tablero'] },
+        fr: { term: 'Tableau de bord', forbidden_variants: [] }
+      },
+      part_of_speech: 'noun',
+      context_notes: 'Main product screen',
+      status: 'approved'
+    }
+  ],
+  gloss_legal_001: [
+    {
+      id: 'term_201',
+      source_term: 'Litigation',
+      translations: {
+        es: { term: 'Litigio', forbidden_variants: [] },
+        fr: { term: 'Contentieux', forbidden_variants: ['Litigation'] }
+      },
+      part_of_speech: 'noun',
+      context_notes: 'Court proceedings',
+      status: 'approved'
+    },
+    {
+      id: 'term_202',
+      source_term: 'Plaintiff',
+      translations: {
+        es: { term: 'Demandante', forbidden_variants: [] },
+        fr: { term: 'Plaignant', forbidden_variants: [] }
+      },
+      part_of_speech: 'noun',
+      context_notes: 'Party bringing the case',
+      status: 'approved'
+    },
+    {
+      id: 'term_203',
+      source_term: 'Defendant',
+      translations: {
+        es: { term: 'Demandado', forbidden_variants: [] },
+        fr: { term: 'Défendeur', forbidden_variants: [] }
+      },
+      part_of_speech: 'noun',
+      context_notes: 'Party being sued',
+      status: 'approved'
+    }
+  ]
+};
+
+// term_count follows the entries above
+export const MOCK_GLOSSARIES: Glossary[] = GLOSSARY_DETAILS.map(glossary =>
+  withTermCount(glossary, MOCK_GLOSSARY_ENTRIES[glossary.id] ?? [])
+);
+
 // ============================================
 // MOCK INVOICES
 // ============================================
@@ -620,6 +849,235 @@ export const MOCK_CAPTIONS: Caption[] = [
   }
 ];
 
+// ============================================
+// MOCK CAPTION SCRIPTS (for caption transport)
+// ============================================
+
+export const MOCK_SPEAKERS: string[] = ['John Smith', 'Maria Garcia', 'David Chen', 'Sarah Johnson', 'Alex Rodriguez'];
+
+/**
+ * Scripted meeting lines per language, index-aligned so that line N in every
+ * language is a translation of the same utterance. Used by MockCaptionTransport.
+ */
+export const MOCK_CAPTION_SCRIPTS: Record<string, string[]> = {
+  'en': [
+    'Hello everyone, thank you for joining today\'s meeting.',
+    'Let\'s discuss this quarter\'s performance and set next quarter\'s goals.',
+    'We exceeded our sales targets by 15%. Thanks to the entire team\'s efforts.',
+    'The marketing department is planning a new campaign.',
+    'Customer satisfaction survey results came out better than expected.',
+    'We need to complete the project plan by next week.',
+    'Please feel free to share any questions or comments.'
+  ],
+  'es': [
+    'Hola a todos, gracias por unirse a la reunión de hoy.',
+    'Hablemos sobre el rendimiento de este trimestre y establezcamos los objetivos del próximo.',
+    'Superamos nuestros objetivos de ventas en un 15%. Gracias a los esfuerzos de todo el equipo.',
+    'El departamento de marketing está planeando una nueva campaña.',
+    'Los resultados de la encuesta de satisfacción del cliente salieron mejor de lo esperado.',
+    'Necesitamos completar el plan del proyecto para la próxima semana.',
+    'Por favor, comparta libremente cualquier pregunta o comentario.'
+  ],
+  'fr': [
+    'Bonjour tout le monde, merci de vous joindre à la réunion d\'aujourd\'hui.',
+    'Discutons des performances de ce trimestre et fixons les objectifs du prochain.',
+    'Nous avons dépassé nos objectifs de vente de 15%. Merci aux efforts de toute l\'équipe.',
+    'Le département marketing planifie une nouvelle campagne.',
+    'Les résultats de l\'enquête de satisfaction client sont sortis mieux que prévu.',
+    'Nous devons terminer le plan de projet d\'ici la semaine prochaine.',
+    'N\'hésitez pas à partager vos questions ou commentaires.'
+  ],
+  'de': [
+    'Hallo alle zusammen, danke, dass Sie am heutigen Meeting teilnehmen.',
+    'Lassen Sie uns die Leistung dieses Quartals besprechen und die Ziele für das nächste setzen.',
+    'Wir haben unsere Verkaufsziele um 15% übertroffen. Dank der Bemühungen des gesamten Teams.',
+    'Die Marketingabteilung plant eine neue Kampagne.',
+    'Die Ergebnisse der Kundenzufriedenheitsumfrage fielen besser aus als erwartet.',
+    'Wir müssen den Projektplan bis nächste Woche fertigstellen.',
+    'Bitte teilen Sie gerne Fragen oder Kommentare mit.'
+  ],
+  'pt': [
+    'Olá pessoal, obrigado por participarem da reunião de hoje.',
+    'Vamos discutir o desempenho deste trimestre e definir as metas do próximo.',
+    'Superamos nossas metas de vendas em 15%. Graças aos esforços de toda a equipe.',
+    'O departamento de marketing está planejando uma nova campanha.',
+    'Os resultados da pesquisa de satisfação do cliente saíram melhor que o esperado.',
+    'Precisamos completar o plano do projeto até a próxima semana.',
+    'Por favor, sintam-se à vontade para compartilhar perguntas ou comentários.'
+  ],
+  'zh': [
+    '大家好，感谢大家参加今天的会议。',
+    '让我们讨论本季度的业绩并设定下季度的目标。',
+    '我们超额完成了销售目标15%。感谢整个团队的努力。',
+    '市场部正在策划一个新的营销活动。',
+    '客户满意度调查结果比预期要好。',
+    '我们需要在下周前完成项目计划。',
+    '请随时分享任何问题或意见。'
+  ],
+  'ja': [
+    'こんにちは皆さん、今日の会議にご参加いただきありがとうございます。',
+    'この四半期の業績について話し合い、来四半期の目標を設定しましょう。',
+    '売上目標を15%上回りました。チーム全体の努力のおかげです。',
+    'マーケティング部門では新しいキャンペーンを計画しています。',
+    '顧客満足度調査の結果は予想より良好でした。',
+    '来週までにプロジェクト計画を完成させる必要があります。',
+    'ご質問やコメントがございましたら、お気軽にお聞かせください。'
+  ],
+  'ko': [
+    '안녕하세요 여러분, 오늘 회의에 참석해 주셔서 감사합니다.',
+    '이번 분기 실적에 대해 논의하고 다음 분기 목표를 설정하겠습니다.',
+    '매출 목표를 15% 초과 달성했습니다. 팀 전체의 노력 덕분입니다.',
+    '마케팅 부서에서 새로운 캠페인을 기획하고 있습니다.',
+    '고객 만족도 조사 결과가 예상보다 좋게 나왔습니다.',
+    '다음 주까지 프로젝트 계획서를 완성해야 합니다.',
+    '질문이나 의견이 있으시면 언제든지 말씀해 주세요.'
+  ],
+  'ar': [
+    'مرحباً بالجميع، شكراً لانضمامكم لاجتماع اليوم.',
+    'دعونا نناقش أداء هذا الربع ونضع أهداف الربع القادم.',
+    'تجاوزنا أهداف المبيعات بنسبة 15%. بفضل جهود الفريق بأكمله.',
+    'قسم التسويق يخطط لحملة جديدة.',
+    'نتائج استطلاع رضا العملاء جاءت أفضل من المتوقع.',
+    'نحتاج لإكمال خطة المشروع بحلول الأسبوع القادم.',
+    'يرجى مشاركة أي أسئلة أو تعليقات بحرية.'
+  ],
+  'hi': [
+    'सभी को नमस्कार, आज की बैठक में शामिल होने के लिए धन्यवाद।',
+    'आइए इस तिमाही के प्रदर्शन पर चर्चा करें और अगली तिमाही के लक्ष्य निर्धारित करें।',
+    'हमने अपने बिक्री लक्ष्यों को 15% से अधिक पार किया है। पूरी टीम के प्रयासों के लिए धन्यवाद।',
+    'मार्केटिंग विभाग एक नए अभियान की योजना बना रहा है।',
+    'ग्राहक संतुष्टि सर्वेक्षण के परिणाम अपेक्षा से बेहतर आए हैं।',
+    'हमें अगले सप्ताह तक प्रोजेक्ट प्लान पूरा करना होगा।',
+    'कृपया कोई भी प्रश्न या टिप्पणी साझा करने में संकोच न करें।'
+  ],
+  'ru': [
+    'Привет всем, спасибо за участие в сегодняшней встрече.',
+    'Давайте обсудим результаты этого квартала и поставим цели на следующий.',
+    'Мы превысили наши цели продаж на 15%. Благодаря усилиям всей команды.',
+    'Отдел маркетинга планирует новую кампанию.',
+    'Результаты опроса удовлетворенности клиентов оказались лучше ожидаемых.',
+    'Нам нужно завершить план проекта к следующей неделе.',
+    'Пожалуйста, не стесняйтесь делиться вопросами или комментариями.'
+  ],
+  'it': [
+    'Ciao a tutti, grazie per aver partecipato alla riunione di oggi.',
+    'Discutiamo delle prestazioni di questo trimestre e impostiamo gli obiettivi del prossimo.',
+    'Abbiamo superato i nostri obiettivi di vendita del 15%. Grazie agli sforzi di tutto il team.',
+    'Il dipartimento marketing sta pianificando una nuova campagna.',
+    'I risultati del sondaggio sulla soddisfazione dei clienti sono risultati migliori del previsto.',
+    'Dobbiamo completare il piano del progetto entro la prossima settimana.',
+    'Non esitate a condividere domande o commenti.'
+  ],
+  'tr': [
+    'Herkese merhaba, bugünkü toplantıya katıldığınız için teşekkürler.',
+    'Bu çeyreğin performansını tartışalım ve gelecek çeyrek için hedefler belirleyelim.',
+    'Satış hedeflerimizi %15 aştık. Tüm ekibin çabalarına teşekkürler.',
+    'Pazarlama departmanı yeni bir kampanya planlıyor.',
+    'Müşteri memnuniyeti anketi beklenenden daha iyi sonuçlandı.',
+    'Proje planını gelecek haftaya kadar tamamlamamız gerekiyor.',
+    'Lütfen sorularınızı veya yorumlarınızı paylaşmaktan çekinmeyin.'
+  ],
+  'vi': [
+    'Xin chào mọi người, cảm ơn đã tham gia cuộc họp hôm nay.',
+    'Hãy thảo luận về hiệu suất quý này và đặt mục tiêu cho quý tới.',
+    'Chúng ta đã vượt mục tiêu doanh số 15%. Cảm ơn nỗ lực của cả đội.',
+    'Phòng marketing đang lên kế hoạch cho chiến dịch mới.',
+    'Kết quả khảo sát sự hài lòng của khách hàng tốt hơn mong đợi.',
+    'Chúng ta cần hoàn thành kế hoạch dự án trước tuần sau.',
+    'Vui lòng chia sẻ bất kỳ câu hỏi hoặc ý kiến nào.'
+  ],
+  'pl': [
+    'Witam wszystkich, dziękuję za udział w dzisiejszym spotkaniu.',
+    'Omówmy wyniki tego kwartału i ustalmy cele na kolejny.',
+    'Przekroczyliśmy cele sprzedażowe o 15%. Dzięki wysiłkom całego zespołu.',
+    'Dział marketingu planuje nową kampanię.',
+    'Wyniki ankiety satysfakcji klientów są lepsze niż oczekiwano.',
+    'Musimy ukończyć plan projektu do przyszłego tygodnia.',
+    'Proszę śmiało zadawać pytania lub zgłaszać uwagi.'
+  ],
+  'nl': [
+    'Hallo allemaal, bedankt voor jullie aanwezigheid bij de vergadering van vandaag.',
+    'Laten we de prestaties van dit kwartaal bespreken en doelen stellen voor het volgende.',
+    'We hebben onze verkoopdoelen met 15% overtroffen. Dank aan het hele team.',
+    'De marketingafdeling plant een nieuwe campagne.',
+    'De resultaten van het klanttevredenheidsonderzoek waren beter dan verwacht.',
+    'We moeten het projectplan uiterlijk volgende week afronden.',
+    'Voel je vrij om vragen of opmerkingen te delen.'
+  ],
+  'th': [
+    'สวัสดีทุกคน ขอบคุณที่เข้าร่วมประชุมวันนี้',
+    'เรามาพูดคุยเกี่ยวกับผลประกอบการไตรมาสนี้และตั้งเป้าหมายสำหรับไตรมาสหน้า',
+    'เราทำยอดขายเกินเป้าหมาย 15% ขอบคุณความพยายามของทุกคนในทีม',
+    'ฝ่ายการตลาดกำลังวางแผนแคมเปญใหม่',
+    'ผลสำรวจความพึงพอใจของลูกค้าดีกว่าที่คาดไว้',
+    'เราต้องทำแผนโครงการให้เสร็จภายในสัปดาห์หน้า',
+    'หากมีคำถามหรือข้อคิดเห็นใด ๆ กรุณาแจ้งได้เลย'
+  ],
+  'sv': [
+    'Hej allihopa, tack för att ni deltar i dagens möte.',
+    'Låt oss diskutera detta kvartals resultat och sätta mål för nästa.',
+    'Vi överträffade våra försäljningsmål med 15%. Tack till hela teamet.',
+    'Marknadsavdelningen planerar en ny kampanj.',
+    'Resultaten från kundnöjdhetsundersökningen var bättre än väntat.',
+    'Vi måste slutföra projektplanen till nästa vecka.',
+    'Dela gärna med er av frågor eller kommentarer.'
+  ],
+  'el': [
+    'Γεια σε όλους, ευχαριστώ που ήρθατε στη σημερινή συνάντηση.',
+    'Ας συζητήσουμε την απόδοση αυτού του τριμήνου και να θέσουμε στόχους για το επόμενο.',
+    'Υπερβήκαμε τους στόχους πωλήσεων κατά 15%. Ευχαριστώ όλη την ομάδα.',
+    'Το τμήμα μάρκετινγκ σχεδιάζει μια νέα καμπάνια.',
+    'Τα αποτελέσματα της έρευνας ικανοποίησης πελατών ήταν καλύτερα από το αναμενόμενο.',
+    'Πρέπει να ολοκληρώσουμε το σχέδιο του έργου μέχρι την επόμενη εβδομάδα.',
+    'Παρακαλώ μοιραστείτε ερωτήσεις ή σχόλια.'
+  ],
+  'cs': [
+    'Dobrý den všem, děkuji za účast na dnešní schůzce.',
+    'Pojďme diskutovat o výsledcích tohoto čtvrtletí a stanovit cíle na příští.',
+    'Překročili jsme prodejní cíle o 15 %. Díky úsilí celého týmu.',
+    'Marketingové oddělení plánuje novou kampaň.',
+    'Výsledky průzkumu spokojenosti zákazníků byly lepší, než se očekávalo.',
+    'Musíme dokončit projektový plán do příštího týdne.',
+    'Neváhejte sdílet jakékoli dotazy nebo připomínky.'
+  ],
+  'hu': [
+    'Üdvözlök mindenkit, köszönöm, hogy eljöttek a mai megbeszélésre.',
+    'Beszéljük meg az aktuális negyedév teljesítményét, és tűzzük ki a következő negyedév céljait.',
+    'Az értékesítési céljainkat 15%-kal túlteljesítettük. Köszönet az egész csapatnak.',
+    'A marketing osztály új kampányt tervez.',
+    'Az ügyfél-elégedettségi felmérés eredményei jobbak lettek a vártnál.',
+    'A projekttervet a jövő hétig be kell fejeznünk.',
+    'Kérem, osszák meg kérdéseiket vagy észrevételeiket.'
+  ],
+  'ro': [
+    'Bună ziua tuturor, mulțumesc că ați venit la ședința de azi.',
+    'Să discutăm performanța acestui trimestru și să stabilim obiectivele pentru următorul.',
+    'Am depășit obiectivele de vânzări cu 15%. Mulțumesc întregii echipe.',
+    'Departamentul de marketing planifică o nouă campanie.',
+    'Rezultatele sondajului de satisfacție a clienților au fost mai bune decât se aștepta.',
+    'Trebuie să finalizăm planul de proiect până săptămâna viitoare.',
+    'Vă rog să împărtășiți orice întrebări sau comentarii.'
+  ],
+  'da': [
+    'Hej alle sammen, tak fordi I deltager i dagens møde.',
+    'Lad os diskutere dette kvartals resultater og sætte mål for det næste.',
+    'Vi har overgået vores salgsmål med 15%. Tak til hele teamet.',
+    'Marketingafdelingen planlægger en ny kampagne.',
+    'Resultaterne af kundetilfredshedsundersøgelsen var bedre end forventet.',
+    'Vi skal have færdiggjort projektplanen inden næste uge.',
+    'Del gerne spørgsmål eller kommentarer.'
+  ],
+  'fi': [
+    'Hei kaikki, kiitos että osallistuitte tämän päivän kokoukseen.',
+    'Keskustellaan tämän neljänneksen tuloksista ja asetetaan tavoitteet seuraavalle.',
+    'Ylitimme myyntitavoitteemme 15 prosentilla. Kiitos koko tiimille.',
+    'Markkinointiosasto suunnittelee uutta kampanjaa.',
+    'Asiakastyytyväisyyskyselyn tulokset olivat odotettua paremmat.',
+    'Projektisuunnitelma pitää saada valmiiksi ensi viikkoon mennessä.',
+    'Kysykää tai kommentoikaa vapaasti.'
+  ]
+};
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -41,6 +41,8 @@ export interface SessionDetail {
   metrics: {
     total_messages: number;
     avg_confidence: number;
+    low_confidence_rate?: number; // Share of lines below confidence_threshold (0-1)
+    confidence_threshold?: number;
     languages_used: number;
     peak_concurrent_users: number;
   };
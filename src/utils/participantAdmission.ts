@@ -0,0 +1,98 @@
+/**
+ * Participant Admission (V1 Pricing)
+ *
+ * Decides whether a new participant can join a running session, based on the
+ * host's `allow_participant_overage` setting and the participant scaling
+ * brackets (see pricing.config.ts `participantScaling`).
+ *
+ * Rules:
+ * - Overage disallowed: the session is capped at `baseThreshold` participants;
+ *   anyone beyond waits in the admission queue until a seat frees up
+ * - Overage allowed: the first time a join would move the session into a new
+ *   (higher) multiplier bracket, the host is asked to approve the projected cost
+ *   increase; once approved, that bracket admits freely. If the host denies,
+ *   later arrivals for that bracket wait in the queue without re-prompting.
+ *
+ * Usage:
+ * ```typescript
+ * const decision = decideParticipantAdmission(session, participants.length, { approved: 1.0, denied: null });
+ * if (decision.action === 'prompt') showQuotaModal(decision.from_multiplier, decision.to_multiplier);
+ * ```
+ */
+
+import type { Session } from '../types';
+import { pricingConfig } from './pricingManager';
+import { isOverageActive } from './languageOverages';
+
+export type ParticipantAdmissionStatus = 'admitted' | 'queued';
+
+export interface BracketApprovals {
+  approved: number; // Highest multiplier the host has accepted this session
+  denied: number | null; // Lowest multiplier the host turned down, if any
+}
+
+export type AdmissionDecision =
+  | { action: 'admit' }
+  | { action: 'queue'; reason: 'cap_reached' | 'bracket_denied' }
+  | { action: 'prompt'; from_multiplier: number; to_multiplier: number };
+
+/** Host prompt for the participant whose admission would cross into a new bracket */
+export interface PendingBracketApproval {
+  participant_id: string;
+  participant_name: string;
+  current_count: number;
+  from_multiplier: number;
+  to_multiplier: number;
+  hourly_cost_delta: number;
+}
+
+export const INITIAL_BRACKET_APPROVALS: BracketApprovals = { approved: 1.0, denied: null };
+
+/**
+ * Maximum participants for a session, or null when overage is allowed
+ */
+export function getParticipantCap(session: Pick<Session, 'allow_participant_overage'>): number | null {
+  return session.allow_participant_overage ? null : pricingConfig.getParticipantScalingConfig().baseThreshold;
+}
+
+export function getBracketMultiplier(participantCount: number): number {
+  return pricingConfig.calculateParticipantMultiplier(participantCount).multiplier;
+}
+
+/**
+ * Decide what happens to the next participant given the current admitted count
+ */
+export function decideParticipantAdmission(
+  session: Pick<Session, 'allow_participant_overage'>,
+  currentCount: number,
+  approvals: BracketApprovals
+): AdmissionDecision {
+  const cap = getParticipantCap(session);
+  if (cap !== null) {
+    return currentCount < cap ? { action: 'admit' } : { action: 'queue', reason: 'cap_reached' };
+  }
+
+  const nextMultiplier = getBracketMultiplier(currentCount + 1);
+  if (nextMultiplier <= approvals.approved) return { action: 'admit' };
+  if (approvals.denied !== null && nextMultiplier >= approvals.denied) {
+    return { action: 'queue', reason: 'bracket_denied' };
+  }
+
+  return { action: 'prompt', from_multiplier: getBracketMultiplier(currentCount), to_multiplier: nextMultiplier };
+}
+
+/**
+ * Projected extra cost per hour of moving the session from one multiplier to another:
+ * the tier rate plus every active overage language, scaled by the multiplier increase
+ */
+export function projectBracketCostDelta(
+  session: Pick<Session, 'tier' | 'overages'>,
+  fromMultiplier: number,
+  toMultiplier: number
+): number {
+  const activeOverages = (session.overages || []).filter(isOverageActive).length;
+  const hourlyRate =
+    pricingConfig.getPaygTierRate(session.tier) + activeOverages * pricingConfig.getPaygTierOverageRate(session.tier);
+
+  return parseFloat((hourlyRate * (toMultiplier - fromMultiplier)).toFixed(2));
+}
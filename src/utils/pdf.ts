@@ -0,0 +1,265 @@
+/**
+ * PDF Writer
+ *
+ * Minimal, dependency-free PDF 1.4 writer for text documents such as
+ * transcript exports. Pages hold positioned text and rules; no fonts are
+ * embedded, so the file stays small:
+ * - Latin text uses the standard Helvetica fonts (WinAnsi encoding)
+ * - Japanese, Chinese and Korean text uses the CJK fonts PDF viewers provide
+ *   (Adobe-Japan1 / GB1 / Korea1 collections with UCS-2 CMaps)
+ *
+ * Characters none of these fonts cover (e.g. Cyrillic, Arabic, Devanagari)
+ * are written as "?"; check `canRenderPdfText` first to warn about them.
+ * Text widths for wrapping are estimates, since no font metrics are bundled.
+ *
+ * Coordinates are in points from the top-left corner of the page; y is the
+ * text baseline.
+ *
+ * Usage:
+ * ```typescript
+ * import { writePdf, wrapPdfText, PDF_PAGE_SIZES } from '../utils/pdf';
+ *
+ * const bytes = writePdf([{ texts: [{ x: 40, y: 60, text: 'Hello', size: 12, bold: true }] }], {
+ *   ...PDF_PAGE_SIZES.a4_portrait,
+ *   title: 'Transcript'
+ * });
+ * ```
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface PdfText {
+  x: number;
+  y: number; // Baseline, from the top of the page
+  text: string;
+  size: number;
+  bold?: boolean; // Latin text only; CJK fonts have a single weight
+  language?: string; // Picks the CJK font for Han-only text (ja, zh, ko)
+}
+
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}
+
+export interface PdfDocumentOptions {
+  width: number;
+  height: number;
+  title?: string;
+}
+
+export const PDF_PAGE_SIZES = {
+  a4_portrait: { width: 595.28, height: 841.89 },
+  a4_landscape: { width: 841.89, height: 595.28 }
+};
+
+type CjkFont = 'ja' | 'zh' | 'ko';
+
+// Predefined CJK fonts: base font, CMap (Unicode in, CIDs out) and character collection
+const CJK_FONTS: Record<CjkFont, { base_font: string; encoding: string; ordering: string; supplement: number }> = {
+  ja: { base_font: 'HeiseiMin-W3', encoding: 'UniJIS-UCS2-H', ordering: 'Japan1', supplement: 2 },
+  zh: { base_font: 'STSong-Light', encoding: 'UniGB-UCS2-H', ordering: 'GB1', supplement: 2 },
+  ko: { base_font: 'HYSMyeongJo-Medium', encoding: 'UniKS-UCS2-H', ordering: 'Korea1', supplement: 1 }
+};
+
+// Windows-1252 bytes 0x80-0x9F, which differ from Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// ============================================
+// Text
+// ============================================
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303f\uff00-\uffef]/u;
+
+function winAnsiCode(char: string): number | null {
+  const code = char.charCodeAt(0);
+  if (char.length === 1 && ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff))) return code;
+  return WIN_ANSI_EXTRAS[char] ?? null;
+}
+
+/** The CJK font a text needs, or null for Latin text */
+function getCjkFont(text: string, language?: string): CjkFont | null {
+  if (!CJK_PATTERN.test(text)) return null;
+  if (/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text)) return 'ja';
+  if (/\p{Script=Hangul}/u.test(text)) return 'ko';
+  return language === 'ja' || language === 'ko' ? language : 'zh';
+}
+
+/**
+ * Whether the text can be shown with the fonts this writer uses
+ */
+export function canRenderPdfText(text: string): boolean {
+  return getCjkFont(text) !== null || Array.from(text).every(char => winAnsiCode(char) !== null || /\s/.test(char));
+}
+
+/** Estimated width in points (Helvetica-like proportions; CJK characters are full width) */
+export function measurePdfText(text: string, size: number): number {
+  return Array.from(text).reduce((width, char) => {
+    if (CJK_PATTERN.test(char)) return width + size;
+    if (/[il.,;:!|'`]/.test(char)) return width + size * 0.28;
+    if (/[mwMW@]/.test(char)) return width + size * 0.85;
+    if (/[A-Z]/.test(char)) return width + size * 0.67;
+    return width + size * 0.53;
+  }, 0);
+}
+
+/**
+ * Break text into lines that fit `maxWidth`; CJK text (no spaces) breaks
+ * between characters
+ */
+export function wrapPdfText(text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  // Words keep their trailing space; CJK characters are their own tokens
+  const tokens = text.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}][、。」』）]?|\S+\s*|\s+/gu) ?? [];
+  tokens.forEach(match => {
+    let token = match;
+    if (line && measurePdfText((line + token).trimEnd(), size) > maxWidth) {
+      lines.push(line.trimEnd());
+      line = '';
+    }
+    // Break words longer than a whole line
+    while (measurePdfText(token.trimEnd(), size) > maxWidth && token.length > 1) {
+      let cut = token.length - 1;
+      while (cut > 1 && measurePdfText(token.slice(0, cut), size) > maxWidth) cut--;
+      lines.push(token.slice(0, cut));
+      token = token.slice(cut);
+    }
+    line += line || token.trim() ? token : '';
+  });
+
+  if (line.trim()) lines.push(line.trimEnd());
+  return lines.length > 0 ? lines : [''];
+}
+
+/** PDF literal string in WinAnsi, with non-ASCII bytes as octal escapes */
+function latinString(text: string): string {
+  const body = Array.from(text)
+    .map(char => {
+      const code = winAnsiCode(char) ?? (/\s/.test(char) ? 0x20 : 0x3f);
+      if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+      return code < 0x80 ? String.fromCharCode(code) : `\\${code.toString(8).padStart(3, '0')}`;
+    })
+    .join('');
+  return `(${body})`;
+}
+
+/** UTF-16BE hex string; with a byte order mark for metadata strings */
+function utf16Hex(text: string, withBom: boolean = false): string {
+  const units = Array.from(text).map(char => (char.length === 1 ? char.charCodeAt(0) : 0x3f));
+  return `<${withBom ? 'FEFF' : ''}${units.map(unit => unit.toString(16).padStart(4, '0').toUpperCase()).join('')}>`;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+// ============================================
+// Document
+// ============================================
+
+/**
+ * Serialize pages into a PDF file
+ */
+export function writePdf(pages: PdfPage[], options: PdfDocumentOptions): Uint8Array {
+  const objects: string[] = []; // Object n is objects[n - 1]
+  const addObject = (body: string) => objects.push(body);
+  const reserveObject = () => objects.push('');
+
+  reserveObject(); // 1: catalog
+  reserveObject(); // 2: page tree
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'); // 3
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'); // 4
+
+  // CJK fonts, added when first used
+  const cjkFontIds: Partial<Record<CjkFont, number>> = {};
+  const getCjkFontId = (font: CjkFont): number => {
+    const existing = cjkFontIds[font];
+    if (existing) return existing;
+
+    const { base_font, encoding, ordering, supplement } = CJK_FONTS[font];
+    const descriptorId = addObject(
+      `<< /Type /FontDescriptor /FontName /${base_font} /Flags 6 /FontBBox [-123 -257 1001 910] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 700 /StemV 80 >>`
+    );
+    const cidFontId = addObject(
+      `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${base_font} /CIDSystemInfo << /Registry (Adobe) /Ordering (${ordering}) /Supplement ${supplement} >> /FontDescriptor ${descriptorId} 0 R /DW 1000 /W [1 95 500] >>`
+    );
+    const fontId = addObject(
+      `<< /Type /Font /Subtype /Type0 /BaseFont /${base_font}-${encoding} /Encoding /${encoding} /DescendantFonts [${cidFontId} 0 R] >>`
+    );
+    cjkFontIds[font] = fontId;
+    return fontId;
+  };
+
+  const pageIds = pages.map(page => {
+    const commands: string[] = [];
+    (page.rules ?? []).forEach(rule => {
+      commands.push(
+        `0.8 G 0.5 w ${formatNumber(rule.x1)} ${formatNumber(options.height - rule.y1)} m ${formatNumber(rule.x2)} ${formatNumber(
+          options.height - rule.y2
+        )} l S`
+      );
+    });
+
+    page.texts.forEach(item => {
+      const cjkFont = getCjkFont(item.text, item.language);
+      const fontName = cjkFont ? `C${getCjkFontId(cjkFont)}` : item.bold ? 'F2' : 'F1';
+      const encoded = cjkFont ? utf16Hex(item.text) : latinString(item.text);
+      commands.push(
+        `BT /${fontName} ${formatNumber(item.size)} Tf 1 0 0 1 ${formatNumber(item.x)} ${formatNumber(
+          options.height - item.y
+        )} Tm ${encoded} Tj ET`
+      );
+    });
+
+    const content = commands.join('\n');
+    const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return addObject(`PAGE:${contentId}`); // Resources are filled in once all fonts are known
+  });
+
+  const cjkResources = Object.values(cjkFontIds)
+    .map(id => `/C${id} ${id} 0 R`)
+    .join(' ');
+  pageIds.forEach(pageId => {
+    const contentId = objects[pageId - 1].slice('PAGE:'.length);
+    objects[pageId - 1] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(options.width)} ${formatNumber(options.height)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R ${cjkResources} >> >> /Contents ${contentId} 0 R >>`;
+  });
+
+  objects[0] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  const infoId = addObject(
+    `<< /Producer (MeetingSync)${options.title ? ` /Title ${utf16Hex(options.title, true)}` : ''} >>`
+  );
+
+  // Everything above is ASCII, so string offsets are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+}
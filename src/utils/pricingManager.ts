@@ -21,6 +21,7 @@ import {
   isValidPricingConfig,
   validatePricingConfig
 } from '../config/pricing.config';
+import type { ParticipantBillingMode, ParticipantCountSegment, ParticipantMultiplier } from '../types';
 
 export class PricingConfigManager {
   private config: PricingConfiguration;
@@ -218,6 +219,62 @@ export class PricingConfigManager {
     return { ...this.config.participantScaling };
   }
 
+  /**
+   * Get how participant multipliers are applied over a session
+   */
+  getParticipantBillingMode(): ParticipantBillingMode {
+    return this.config.participantScaling.billingMode || 'time_weighted';
+  }
+
+  /**
+   * Calculate the multiplier billed over a session from its participant-count segments
+   *
+   * - 'time_weighted': each segment is billed at its own bracket; `multiplier` is the
+   *   time-weighted average and `brackets` holds the minutes per bracket
+   * - 'peak': the bracket of the highest count applies to all minutes
+   */
+  calculateBilledParticipantMultiplier(
+    segments: ParticipantCountSegment[],
+    mode: ParticipantBillingMode = this.getParticipantBillingMode()
+  ): ParticipantMultiplier {
+    const totalMinutes = segments.reduce((sum, segment) => sum + segment.minutes, 0);
+    const peakCount = segments.reduce((max, segment) => Math.max(max, segment.participant_count), 0);
+    const currentCount = segments.length > 0 ? segments[segments.length - 1].participant_count : 0;
+
+    if (mode === 'peak' || totalMinutes === 0) {
+      const multiplierData = this.calculateParticipantMultiplier(mode === 'peak' ? peakCount : currentCount);
+      return {
+        ...multiplierData,
+        billing_mode: mode,
+        brackets: [{ multiplier: multiplierData.multiplier, peak_participant_count: peakCount, minutes: totalMinutes }]
+      };
+    }
+
+    // Group billed minutes by bracket multiplier
+    const brackets = new Map<number, { peak_participant_count: number; minutes: number }>();
+    segments.forEach(segment => {
+      const { multiplier } = this.calculateParticipantMultiplier(segment.participant_count);
+      const bracket = brackets.get(multiplier) || { peak_participant_count: 0, minutes: 0 };
+      bracket.peak_participant_count = Math.max(bracket.peak_participant_count, segment.participant_count);
+      bracket.minutes += segment.minutes;
+      brackets.set(multiplier, bracket);
+    });
+
+    const weightedMultiplier = segments.reduce(
+      (sum, segment) => sum + this.calculateParticipantMultiplier(segment.participant_count).multiplier * segment.minutes,
+      0
+    ) / totalMinutes;
+
+    return {
+      ...this.calculateParticipantMultiplier(currentCount),
+      multiplier: parseFloat(weightedMultiplier.toFixed(4)),
+      billing_mode: mode,
+      brackets: [...brackets.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([multiplier, bracket]) => ({ multiplier, ...bracket }))
+    };
+  }
+
   // ============================================
   // UI Text and Formatting
   // ============================================
@@ -0,0 +1,174 @@
+/**
+ * Scheduled Sessions
+ *
+ * Translation set up ahead of time for a known Zoom meeting: a host picks the
+ * languages, glossaries and options (optionally from a template), and
+ * HostSetup loads them (and optionally starts the session) when the app opens
+ * in that meeting. Schedules are persisted to localStorage per host.
+ *
+ * Matching against the meeting the app is running in (ZoomMeetingContext):
+ * - A schedule with a meeting UUID only matches that occurrence of the meeting
+ * - Otherwise the meeting ID must match (spaces and dashes ignored) and the
+ *   meeting must be opened within SCHEDULE_MATCH_WINDOW_HOURS of the
+ *   scheduled start, so a recurring meeting's schedule only applies to the
+ *   occurrence it was made for
+ * - Schedules a session was already started from don't match again
+ * - When several match, the UUID match wins, then the closest start time
+ *
+ * Usage:
+ * ```typescript
+ * import { loadScheduledSessions, findScheduledSession } from '../utils/scheduledSessions';
+ *
+ * const schedule = findScheduledSession(loadScheduledSessions(user.id), meetingContext);
+ * if (schedule?.auto_start) startSession(...);
+ * ```
+ */
+
+import type { ScheduledSession, ZoomMeetingContext } from '../types';
+
+// ============================================
+// Types
+// ============================================
+
+export const SCHEDULED_SESSIONS_KEY = 'meetingsync-scheduled-sessions';
+
+/** How long before or after its scheduled start a schedule matches by meeting ID */
+export const SCHEDULE_MATCH_WINDOW_HOURS = 12;
+
+export type ScheduledSessionStatus = 'upcoming' | 'ready' | 'started' | 'missed';
+
+export const SCHEDULED_SESSION_STATUS_LABELS: Record<ScheduledSessionStatus, string> = {
+  upcoming: 'Upcoming',
+  ready: 'Ready',
+  started: 'Started',
+  missed: 'Missed'
+};
+
+export type ScheduledSessionInput = Pick<
+  ScheduledSession,
+  'meeting_id' | 'meeting_uuid' | 'meeting_topic' | 'scheduled_start' | 'template_id' | 'config' | 'auto_start'
+>;
+
+// ============================================
+// Matching
+// ============================================
+
+/** "123 4567 8901" and "123-4567-8901" are the same meeting */
+export function normalizeMeetingId(meetingId: string): string {
+  return meetingId.replace(/[\s-]/g, '');
+}
+
+function hoursFromStart(schedule: ScheduledSession, now: Date): number {
+  return (now.getTime() - new Date(schedule.scheduled_start).getTime()) / (60 * 60 * 1000);
+}
+
+export function getScheduledSessionStatus(schedule: ScheduledSession, now: Date = new Date()): ScheduledSessionStatus {
+  if (schedule.started_at) return 'started';
+  const hours = hoursFromStart(schedule, now);
+  if (hours < -SCHEDULE_MATCH_WINDOW_HOURS) return 'upcoming';
+  return hours > SCHEDULE_MATCH_WINDOW_HOURS ? 'missed' : 'ready';
+}
+
+/**
+ * The schedule to apply in the meeting the app is running in, if any
+ */
+export function findScheduledSession(
+  schedules: ScheduledSession[],
+  meeting: ZoomMeetingContext,
+  now: Date = new Date()
+): ScheduledSession | null {
+  const meetingId = normalizeMeetingId(meeting.meetingID);
+  const candidates = schedules.filter(schedule => {
+    if (schedule.started_at) return false;
+    if (schedule.meeting_uuid) return schedule.meeting_uuid === meeting.meetingUUID;
+    return (
+      normalizeMeetingId(schedule.meeting_id) === meetingId &&
+      Math.abs(hoursFromStart(schedule, now)) <= SCHEDULE_MATCH_WINDOW_HOURS
+    );
+  });
+
+  const rank = (schedule: ScheduledSession) => (schedule.meeting_uuid ? 0 : 1);
+  candidates.sort(
+    (a, b) => rank(a) - rank(b) || Math.abs(hoursFromStart(a, now)) - Math.abs(hoursFromStart(b, now))
+  );
+  return candidates[0] ?? null;
+}
+
+// ============================================
+// Schedules
+// ============================================
+
+export function createScheduledSession(input: ScheduledSessionInput, userId: string, now: Date = new Date()): ScheduledSession {
+  if (!normalizeMeetingId(input.meeting_id)) throw new Error('Enter the Zoom meeting ID');
+  if (Number.isNaN(new Date(input.scheduled_start).getTime())) throw new Error('Enter when the meeting starts');
+  if (input.config.target_languages.length === 0) throw new Error('Select at least one target language');
+
+  return {
+    ...input,
+    id: `schedule_${now.getTime()}`,
+    user_id: userId,
+    created_at: now.toISOString()
+  };
+}
+
+export function updateScheduledSession(
+  schedule: ScheduledSession,
+  input: ScheduledSessionInput,
+  now: Date = new Date()
+): ScheduledSession {
+  const updated = createScheduledSession(input, schedule.user_id, now);
+  // Editing a schedule re-arms it, e.g. after moving it to the next occurrence
+  return {
+    ...updated,
+    id: schedule.id,
+    started_at: undefined,
+    created_at: schedule.created_at,
+    updated_at: now.toISOString()
+  };
+}
+
+export function markScheduledSessionStarted(
+  schedules: ScheduledSession[],
+  scheduleId: string,
+  now: Date = new Date()
+): ScheduledSession[] {
+  return schedules.map(schedule =>
+    schedule.id === scheduleId ? { ...schedule, started_at: now.toISOString() } : schedule
+  );
+}
+
+/** Soonest first */
+export function sortScheduledSessions(schedules: ScheduledSession[]): ScheduledSession[] {
+  return [...schedules].sort(
+    (a, b) => new Date(a.scheduled_start).getTime() - new Date(b.scheduled_start).getTime()
+  );
+}
+
+// ============================================
+// Storage
+// ============================================
+
+function loadAllScheduledSessions(): ScheduledSession[] {
+  try {
+    const raw = localStorage.getItem(SCHEDULED_SESSIONS_KEY);
+    return raw ? (JSON.parse(raw) as ScheduledSession[]) : [];
+  } catch (error) {
+    console.warn('[ScheduledSessions] Discarding unreadable schedules:', error);
+    return [];
+  }
+}
+
+/** A host's schedules */
+export function loadScheduledSessions(userId: string): ScheduledSession[] {
+  return loadAllScheduledSessions().filter(schedule => schedule.user_id === userId);
+}
+
+/** Replace a host's schedules, keeping other hosts' */
+export function saveScheduledSessions(userId: string, schedules: ScheduledSession[]): void {
+  try {
+    const others = loadAllScheduledSessions().filter(schedule => schedule.user_id !== userId);
+    localStorage.setItem(SCHEDULED_SESSIONS_KEY, JSON.stringify([...others, ...schedules]));
+  } catch (error) {
+    console.warn('[ScheduledSessions] Failed to save schedules:', error);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Session History
+ *
+ * Ended sessions recorded on this device, newest first: the billed Session
+ * (listed in the Activity tab) and its SessionDetail with the full
+ * transcript (SessionDetailPage). SessionProvider adds a session when it is
+ * stopped. Only the latest MAX_HISTORY_SESSIONS are kept, since transcripts
+ * are large.
+ *
+ * Usage:
+ * ```typescript
+ * import { addSessionToHistory, getSessionDetail } from '../utils/sessionHistory';
+ *
+ * addSessionToHistory(endedSession, buildSessionDetail(endedSession, lines, participants));
+ * const detail = getSessionDetail(sessionId);
+ * ```
+ */
+
+import type { Session } from '../types';
+import type { SessionDetail } from './mockSessionDetails';
+
+export const SESSION_HISTORY_KEY = 'meetingsync-session-history';
+
+export const MAX_HISTORY_SESSIONS = 20;
+
+export interface SessionHistoryEntry {
+  session: Session;
+  detail: SessionDetail;
+}
+
+export function loadSessionHistory(): SessionHistoryEntry[] {
+  try {
+    const raw = localStorage.getItem(SESSION_HISTORY_KEY);
+    return raw ? (JSON.parse(raw) as SessionHistoryEntry[]) : [];
+  } catch (error) {
+    console.warn('[SessionHistory] Discarding unreadable history:', error);
+    return [];
+  }
+}
+
+/** A user's ended sessions, newest first */
+export function getHistorySessions(userId: string): Session[] {
+  return loadSessionHistory()
+    .filter(entry => entry.session.user_id === userId)
+    .map(entry => entry.session);
+}
+
+export function getSessionDetail(sessionId: string): SessionDetail | null {
+  return loadSessionHistory().find(entry => entry.session.id === sessionId)?.detail ?? null;
+}
+
+export function addSessionToHistory(session: Session, detail: SessionDetail): void {
+  const history = [{ session, detail }, ...loadSessionHistory().filter(entry => entry.session.id !== session.id)];
+
+  try {
+    localStorage.setItem(SESSION_HISTORY_KEY, JSON.stringify(history.slice(0, MAX_HISTORY_SESSIONS)));
+    console.log(`[SessionHistory] Added session ${session.id} (${detail.transcript.length} transcript lines)`);
+  } catch (error) {
+    console.warn('[SessionHistory] Failed to save session:', error);
+  }
+}
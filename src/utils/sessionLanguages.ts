@@ -0,0 +1,39 @@
+/**
+ * Session Language Helpers
+ *
+ * A session's `target_languages` lists every language the host configured;
+ * `disabled_languages` marks the ones temporarily paused mid-session. Only
+ * active languages are translated, streamed and billed.
+ *
+ * Usage:
+ * ```typescript
+ * const active = getActiveTargetLanguages(session);
+ * const fallback = getFallbackLanguage(session, 'fr');
+ * ```
+ */
+
+import type { Session } from '../types';
+
+/**
+ * Target languages currently being translated (configured and not disabled)
+ */
+export function getActiveTargetLanguages(session: Pick<Session, 'target_languages' | 'disabled_languages'>): string[] {
+  const disabled = session.disabled_languages || [];
+  return session.target_languages.filter(code => !disabled.includes(code));
+}
+
+export function isLanguageDisabled(session: Pick<Session, 'disabled_languages'>, languageCode: string): boolean {
+  return (session.disabled_languages || []).includes(languageCode);
+}
+
+/**
+ * Language to move viewers to when `unavailableCode` is removed or disabled:
+ * the first remaining active target language, otherwise the source language
+ */
+export function getFallbackLanguage(
+  session: Pick<Session, 'source_language' | 'target_languages' | 'disabled_languages'>,
+  unavailableCode: string
+): string {
+  const remaining = getActiveTargetLanguages(session).filter(code => code !== unavailableCode);
+  return remaining[0] || session.source_language;
+}
@@ -0,0 +1,321 @@
+/**
+ * Session Meter (V1 Pricing)
+ *
+ * Framework-free billing engine for a translation session. The meter is fed
+ * timestamped events (start, pause, resume, participant join/leave, language
+ * add/remove, stop) and derives elapsed billable time and the cost breakdown
+ * from them. Nothing here reads React state or the wall clock directly, so the
+ * same event log always produces the same bill.
+ *
+ * Billing rules (PAYG):
+ * - Only time between start/resume and pause/stop is billed
+ * - Base cost = tier rate × billed hours × participant multiplier
+ * - The multiplier follows the participant billing mode captured at start:
+ *   'time_weighted' bills each interval at the bracket active during it,
+ *   'peak' applies the session's peak bracket to all time
+ * - Languages beyond the tier limit accrue LanguageOverage intervals
+ *   (see languageOverages.ts), priced with the multiplier over their own interval
+ * - Unbilled sessions (daily free tier) track time and overages but cost nothing
+ *
+ * Usage:
+ * ```typescript
+ * import { SessionMeter } from '../utils/sessionMeter';
+ *
+ * const meter = new SessionMeter(() => fakeNow); // injectable clock
+ * meter.record({ type: 'start', tier: 'starter', billed: true, languages: ['es'], participant_ids: [] });
+ * meter.record({ type: 'participant_join', participant_id: 'p1' });
+ * const { elapsed_seconds, cost } = meter.getBreakdown();
+ *
+ * // Or fold an event log directly:
+ * const breakdown = computeSessionMeter(events, Date.now());
+ * ```
+ */
+
+import type {
+  LanguageOverage,
+  ParticipantBillingMode,
+  ParticipantCountSegment,
+  ParticipantMultiplier,
+  Session,
+  SubscriptionTier
+} from '../types';
+import { pricingConfig } from './pricingManager';
+import { reconcileLanguageOverages, closeAllLanguageOverages, priceLanguageOverages } from './languageOverages';
+
+// ============================================
+// Types
+// ============================================
+
+/** Returns the current time in epoch milliseconds */
+export type SessionClock = () => number;
+
+export const systemClock: SessionClock = () => Date.now();
+
+export type SessionMeterEvent =
+  | {
+      type: 'start';
+      at: number;
+      tier: SubscriptionTier;
+      billed: boolean; // false = time is tracked but not charged (daily free tier)
+      languages: string[]; // Active target languages at start
+      participant_ids: string[];
+      participant_billing_mode?: ParticipantBillingMode; // Defaults to the pricing config's mode
+    }
+  | { type: 'pause'; at: number }
+  | { type: 'resume'; at: number }
+  | { type: 'participant_join'; at: number; participant_id: string }
+  | { type: 'participant_leave'; at: number; participant_id: string }
+  | { type: 'language_add'; at: number; language_code: string }
+  | { type: 'language_remove'; at: number; language_code: string }
+  | { type: 'stop'; at: number };
+
+/** An event as passed to `SessionMeter.record`; `at` defaults to the meter's clock */
+export type SessionMeterInput = (SessionMeterEvent extends infer E ? (E extends unknown ? Omit<E, 'at'> : never) : never) & {
+  at?: number;
+};
+
+export type SessionMeterStatus = 'idle' | 'active' | 'paused' | 'ended';
+
+export interface SessionMeterBreakdown {
+  status: SessionMeterStatus;
+  elapsed_seconds: number; // Billed time (pauses excluded)
+  active_languages: string[];
+  participant_count: number;
+  peak_participant_count: number;
+  participant_multiplier: ParticipantMultiplier;
+  base_cost: number;
+  overages: LanguageOverage[];
+  overage_cost: number;
+  cost: number; // base_cost + overage_cost
+}
+
+// ============================================
+// Pure computation
+// ============================================
+
+interface CountSegment {
+  participant_count: number;
+  start_minute: number;
+  end_minute: number | null; // null while open
+}
+
+/**
+ * Clip participant-count segments to a window of billed minutes
+ */
+function clipSegments(segments: CountSegment[], fromMinute: number, toMinute: number): ParticipantCountSegment[] {
+  return segments
+    .map(segment => ({
+      participant_count: segment.participant_count,
+      minutes: Math.min(segment.end_minute ?? toMinute, toMinute) - Math.max(segment.start_minute, fromMinute)
+    }))
+    .filter(segment => segment.minutes > 0);
+}
+
+/**
+ * Fold an event log into a cost breakdown as of `now`.
+ * Events before the first 'start' or after 'stop' are ignored.
+ */
+export function computeSessionMeter(events: SessionMeterEvent[], now: number): SessionMeterBreakdown {
+  let status: SessionMeterStatus = 'idle';
+  let tier: SubscriptionTier = 'starter';
+  let billed = false;
+  let billingMode: ParticipantBillingMode = pricingConfig.getParticipantBillingMode();
+  const segments: CountSegment[] = [];
+  let languages: string[] = [];
+  let overages: LanguageOverage[] = [];
+  const participantIds = new Set<string>();
+  let peakParticipants = 0;
+  let elapsedMs = 0;
+  let runningSince: number | null = null;
+
+  const elapsedMinutesAt = (at: number) =>
+    (elapsedMs + (runningSince !== null ? Math.max(0, at - runningSince) : 0)) / 60000;
+
+  // Close the open participant-count segment and start a new one at the current count
+  const markParticipantCount = (at: number) => {
+    const minute = elapsedMinutesAt(at);
+    const open = segments[segments.length - 1];
+    if (open && open.participant_count === participantIds.size) return;
+    if (open) open.end_minute = minute;
+    segments.push({ participant_count: participantIds.size, start_minute: minute, end_minute: null });
+  };
+
+  const changeLanguages = (next: string[], at: number) => {
+    overages = reconcileLanguageOverages({ tier, target_languages: languages, overages }, next, elapsedMinutesAt(at));
+    languages = next;
+  };
+
+  for (const event of events) {
+    if (status === 'ended') break;
+    if (status === 'idle' && event.type !== 'start') continue;
+
+    switch (event.type) {
+      case 'start':
+        if (status !== 'idle') break;
+        status = 'active';
+        tier = event.tier;
+        billed = event.billed;
+        billingMode = event.participant_billing_mode ?? billingMode;
+        runningSince = event.at;
+        event.participant_ids.forEach(id => participantIds.add(id));
+        peakParticipants = participantIds.size;
+        markParticipantCount(event.at);
+        changeLanguages([...event.languages], event.at);
+        break;
+
+      case 'pause':
+        if (status !== 'active' || runningSince === null) break;
+        elapsedMs += Math.max(0, event.at - runningSince);
+        runningSince = null;
+        status = 'paused';
+        break;
+
+      case 'resume':
+        if (status !== 'paused') break;
+        runningSince = event.at;
+        status = 'active';
+        break;
+
+      case 'participant_join':
+        participantIds.add(event.participant_id);
+        peakParticipants = Math.max(peakParticipants, participantIds.size);
+        markParticipantCount(event.at);
+        break;
+
+      case 'participant_leave':
+        participantIds.delete(event.participant_id);
+        markParticipantCount(event.at);
+        break;
+
+      case 'language_add':
+        if (!languages.includes(event.language_code)) {
+          changeLanguages([...languages, event.language_code], event.at);
+        }
+        break;
+
+      case 'language_remove':
+        if (languages.includes(event.language_code)) {
+          changeLanguages(languages.filter(code => code !== event.language_code), event.at);
+        }
+        break;
+
+      case 'stop':
+        if (runningSince !== null) {
+          elapsedMs += Math.max(0, event.at - runningSince);
+          runningSince = null;
+        }
+        overages = closeAllLanguageOverages(overages, elapsedMs / 60000);
+        status = 'ended';
+        break;
+    }
+  }
+
+  const elapsedMinutes = elapsedMinutesAt(now);
+  const multiplierOver = (fromMinute: number, toMinute: number) =>
+    pricingConfig.calculateBilledParticipantMultiplier(clipSegments(segments, fromMinute, toMinute), billingMode);
+  const participantMultiplier = multiplierOver(0, elapsedMinutes);
+  const isBilled = status !== 'idle' && billed;
+
+  // In 'peak' mode every overage uses the session peak; otherwise its own interval's brackets
+  const overageMultiplier = (overage: LanguageOverage) =>
+    billingMode === 'peak'
+      ? participantMultiplier.multiplier
+      : multiplierOver(overage.added_at_minutes, overage.removed_at_minutes ?? elapsedMinutes).multiplier;
+
+  const baseCost = isBilled
+    ? pricingConfig.getPaygTierRate(tier) * (elapsedMinutes / 60) * participantMultiplier.multiplier
+    : 0;
+  const priced = isBilled
+    ? priceLanguageOverages(overages, elapsedMinutes, overageMultiplier)
+    : { overages, overage_cost: 0 };
+
+  return {
+    status,
+    elapsed_seconds: Math.floor(elapsedMinutes * 60),
+    active_languages: languages,
+    participant_count: participantIds.size,
+    peak_participant_count: peakParticipants,
+    participant_multiplier: participantMultiplier,
+    base_cost: parseFloat(baseCost.toFixed(2)),
+    overages: priced.overages,
+    overage_cost: priced.overage_cost,
+    cost: parseFloat((baseCost + priced.overage_cost).toFixed(2))
+  };
+}
+
+// ============================================
+// Stateful wrapper
+// ============================================
+
+/**
+ * Holds a session's event log and stamps new events with an injectable clock
+ */
+export class SessionMeter {
+  private events: SessionMeterEvent[] = [];
+  private clock: SessionClock;
+
+  constructor(clock: SessionClock = systemClock, events: SessionMeterEvent[] = []) {
+    this.clock = clock;
+    this.events = [...events];
+  }
+
+  /**
+   * Append an event, stamped with the clock unless `at` is given
+   */
+  record(input: SessionMeterInput): void {
+    this.events.push({ ...input, at: input.at ?? this.clock() } as SessionMeterEvent);
+  }
+
+  /**
+   * Replace the event log (e.g. when restoring a persisted session)
+   */
+  load(events: SessionMeterEvent[]): void {
+    this.events = [...events];
+  }
+
+  reset(): void {
+    this.events = [];
+  }
+
+  getEvents(): SessionMeterEvent[] {
+    return [...this.events];
+  }
+
+  now(): number {
+    return this.clock();
+  }
+
+  getBreakdown(now: number = this.clock()): SessionMeterBreakdown {
+    return computeSessionMeter(this.events, now);
+  }
+}
+
+// ============================================
+// Session mapping
+// ============================================
+
+/**
+ * Billing fields of a Session as rendered from a meter breakdown
+ */
+export function getSessionBillingFields(
+  breakdown: SessionMeterBreakdown
+): Pick<
+  Session,
+  | 'base_cost'
+  | 'overages'
+  | 'overage_cost'
+  | 'cost'
+  | 'participant_multiplier_value'
+  | 'participant_multiplier_data'
+  | 'peak_participant_count'
+> {
+  return {
+    base_cost: breakdown.base_cost,
+    overages: breakdown.overages,
+    overage_cost: breakdown.overage_cost,
+    cost: breakdown.cost,
+    participant_multiplier_value: breakdown.participant_multiplier.multiplier,
+    participant_multiplier_data: breakdown.participant_multiplier,
+    peak_participant_count: breakdown.peak_participant_count
+  };
+}
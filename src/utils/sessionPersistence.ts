@@ -0,0 +1,128 @@
+/**
+ * Session Persistence
+ *
+ * Snapshots the host's active session to localStorage so a reload of the
+ * Zoom side panel does not lose the session, its timer or its cost.
+ *
+ * On startup, SessionProvider classifies the stored snapshot:
+ * - 'resumable': saved recently in the same meeting; restored silently and the
+ *   time the panel was closed is counted (the meeting kept running, and the
+ *   restored SessionMeter event log bills it)
+ * - 'orphaned': left active/paused for longer than ORPHAN_THRESHOLD_MS, or from
+ *   a different meeting; the host chooses to resume or end it
+ *
+ * The host re-saves the snapshot every SNAPSHOT_HEARTBEAT_MS, so a session
+ * paused for a long time in an open panel is still resumable.
+ *
+ * Usage:
+ * ```typescript
+ * import { saveSessionSnapshot, loadSessionSnapshot } from '../utils/sessionPersistence';
+ *
+ * saveSessionSnapshot({ session, duration, participants, captions, meter_events: meter.getEvents() });
+ * const snapshot = loadSessionSnapshot();
+ * ```
+ */
+
+import type { Session, Participant, Caption } from '../types';
+import type { SessionMeterEvent } from './sessionMeter';
+
+export const SESSION_SNAPSHOT_KEY = 'meetingsync-active-session';
+export const SESSION_SNAPSHOT_VERSION = 2;
+
+/** Snapshots older than this are considered orphaned (10 minutes) */
+export const ORPHAN_THRESHOLD_MS = 10 * 60 * 1000;
+
+/** The snapshot is re-saved at least this often while a session runs, paused or not */
+export const SNAPSHOT_HEARTBEAT_MS = 60 * 1000;
+
+/** Captions are capped to keep the snapshot small */
+const MAX_SNAPSHOT_CAPTIONS = 50;
+
+export interface SessionSnapshot {
+  version: number;
+  saved_at: number; // Epoch ms of the last snapshot (acts as a heartbeat)
+  session: Session;
+  duration: number; // Elapsed session seconds at saved_at
+  participants: Participant[];
+  captions: Caption[];
+  meter_events: SessionMeterEvent[]; // Billing event log (source of truth for time and cost)
+}
+
+export type SnapshotState = 'resumable' | 'orphaned';
+
+/**
+ * Persist the current session state
+ */
+export function saveSessionSnapshot(
+  state: Pick<SessionSnapshot, 'session' | 'duration' | 'participants' | 'captions' | 'meter_events'>,
+  now: number = Date.now()
+): void {
+  const snapshot: SessionSnapshot = {
+    version: SESSION_SNAPSHOT_VERSION,
+    saved_at: now,
+    session: state.session,
+    duration: state.duration,
+    participants: state.participants,
+    captions: state.captions.slice(-MAX_SNAPSHOT_CAPTIONS),
+    meter_events: state.meter_events
+  };
+
+  try {
+    localStorage.setItem(SESSION_SNAPSHOT_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.warn('[SessionPersistence] Failed to save session snapshot:', error);
+  }
+}
+
+/**
+ * Load the stored snapshot, discarding anything unreadable or from another version
+ */
+export function loadSessionSnapshot(): SessionSnapshot | null {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(SESSION_SNAPSHOT_KEY);
+  } catch {
+    return null;
+  }
+  if (!raw) return null;
+
+  try {
+    const snapshot = JSON.parse(raw) as SessionSnapshot;
+    if (snapshot.version !== SESSION_SNAPSHOT_VERSION || !snapshot.session?.id) {
+      console.warn('[SessionPersistence] Discarding incompatible session snapshot');
+      clearSessionSnapshot();
+      return null;
+    }
+    return snapshot;
+  } catch (error) {
+    console.warn('[SessionPersistence] Discarding corrupt session snapshot:', error);
+    clearSessionSnapshot();
+    return null;
+  }
+}
+
+export function clearSessionSnapshot(): void {
+  try {
+    localStorage.removeItem(SESSION_SNAPSHOT_KEY);
+  } catch {
+    // Storage unavailable - nothing to clear
+  }
+}
+
+/**
+ * Decide whether a snapshot can be resumed silently or needs the host's decision
+ * @returns null if the snapshot holds no running session
+ */
+export function classifySessionSnapshot(
+  snapshot: SessionSnapshot,
+  meetingId: string | undefined,
+  now: number = Date.now()
+): SnapshotState | null {
+  const { status } = snapshot.session;
+  if (status !== 'active' && status !== 'paused') return null;
+
+  const isStale = now - snapshot.saved_at > ORPHAN_THRESHOLD_MS;
+  const isOtherMeeting = Boolean(meetingId) && snapshot.session.meeting_id !== meetingId;
+
+  return isStale || isOtherMeeting ? 'orphaned' : 'resumable';
+}
@@ -0,0 +1,242 @@
+/**
+ * Template Library
+ *
+ * Where session templates live: the user's own templates and the shared
+ * library of their Zoom account, so a department can standardize session
+ * setups. Both are persisted to localStorage until templates are stored
+ * server-side.
+ *
+ * Permissions on shared templates:
+ * - Viewer: use, duplicate and export
+ * - Editor: also edit the template's settings
+ * - Owner: also change who it's shared with, stop sharing and delete it
+ *
+ * Everyone in the account gets the template's account role; individual
+ * members can be granted a higher one. Only the user who created a template
+ * owns it. Personal templates of every host on this device share one storage
+ * key and are listed for their owner only.
+ *
+ * Usage:
+ * ```typescript
+ * import { getTemplateRole, canPerformTemplateAction } from '../utils/templateLibrary';
+ *
+ * const role = getTemplateRole(template, user);
+ * if (canPerformTemplateAction(role, 'edit')) startEditing(template);
+ * ```
+ */
+
+import type { Template, TemplateFields, TemplateMember, TemplateRole, TemplateSharing, User } from '../types';
+import { MOCK_SHARED_TEMPLATES, MOCK_TEMPLATES } from './mockData';
+
+// ============================================
+// Types
+// ============================================
+
+export const TEMPLATES_KEY = 'meetingsync-templates';
+export const SHARED_TEMPLATES_KEY = 'meetingsync-shared-templates';
+
+export type TemplateAction = 'use' | 'duplicate' | 'export' | 'edit' | 'share' | 'delete';
+
+export type TemplateUser = Pick<User, 'id' | 'name' | 'zoom_account_id'>;
+
+/** Shared libraries keyed by Zoom account ID */
+type SharedTemplateLibraries = Record<string, Template[]>;
+
+export const TEMPLATE_ROLE_LABELS: Record<TemplateRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+/** Settings for templates created from a form that doesn't ask for them */
+export const DEFAULT_TEMPLATE_SETTINGS: Pick<
+  TemplateFields,
+  'tts_enabled' | 'confidence_threshold' | 'low_confidence_policy' | 'show_partial_results'
+> = {
+  tts_enabled: false,
+  confidence_threshold: 80,
+  low_confidence_policy: 'flag',
+  show_partial_results: true
+};
+
+const TEMPLATE_ROLE_ACTIONS: Record<TemplateRole, TemplateAction[]> = {
+  viewer: ['use', 'duplicate', 'export'],
+  editor: ['use', 'duplicate', 'export', 'edit'],
+  owner: ['use', 'duplicate', 'export', 'edit', 'share', 'delete']
+};
+
+const TEMPLATE_ROLE_RANK: Record<TemplateRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+// ============================================
+// Permissions
+// ============================================
+
+/**
+ * The user's role on a template, or null when it isn't shared with them
+ */
+export function getTemplateRole(template: Template, user: TemplateUser): TemplateRole | null {
+  if (template.user_id === user.id) return 'owner';
+  const sharing = template.sharing;
+  if (!sharing || sharing.account_id !== user.zoom_account_id) return null;
+
+  const member = sharing.members.find(item => item.user_id === user.id);
+  return member && TEMPLATE_ROLE_RANK[member.role] > TEMPLATE_ROLE_RANK[sharing.account_role]
+    ? member.role
+    : sharing.account_role;
+}
+
+export function canPerformTemplateAction(role: TemplateRole | null, action: TemplateAction): boolean {
+  return role !== null && TEMPLATE_ROLE_ACTIONS[role].includes(action);
+}
+
+export function assertTemplatePermission(template: Template, user: TemplateUser, action: TemplateAction): void {
+  if (!canPerformTemplateAction(getTemplateRole(template, user), action)) {
+    throw new Error(`You don't have permission to ${action} "${template.name}"`);
+  }
+}
+
+// ============================================
+// Templates
+// ============================================
+
+function generateTemplateId(now: Date): string {
+  return `template_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getTemplateFields(template: Template): TemplateFields {
+  return {
+    name: template.name,
+    meeting_type: template.meeting_type,
+    source_language: template.source_language,
+    target_languages: template.target_languages,
+    ...(template.glossaries?.length && { glossaries: template.glossaries }),
+    tts_enabled: template.tts_enabled,
+    confidence_threshold: template.confidence_threshold,
+    low_confidence_policy: template.low_confidence_policy,
+    show_partial_results: template.show_partial_results,
+    ...(template.host_instructions && { host_instructions: template.host_instructions })
+  };
+}
+
+/** A new personal template owned by the user */
+export function createTemplate(fields: TemplateFields, user: TemplateUser, now: Date = new Date()): Template {
+  return {
+    ...fields,
+    id: generateTemplateId(now),
+    user_id: user.id,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString()
+  };
+}
+
+export function updateTemplate(template: Template, fields: TemplateFields, now: Date = new Date()): Template {
+  return { ...template, ...fields, updated_at: now.toISOString() };
+}
+
+/** A personal copy of a template, e.g. to adapt a shared one without editor access */
+export function duplicateTemplate(template: Template, user: TemplateUser, now: Date = new Date()): Template {
+  return createTemplate({ ...getTemplateFields(template), name: `${template.name} (Copy)` }, user, now);
+}
+
+/**
+ * Publish a personal template to the user's account library
+ */
+export function shareTemplate(
+  template: Template,
+  user: TemplateUser,
+  accountRole: TemplateSharing['account_role'] = 'viewer',
+  members: TemplateMember[] = [],
+  now: Date = new Date()
+): Template {
+  if (!user.zoom_account_id) throw new Error('Templates can only be shared within a Zoom account');
+  assertTemplatePermission(template, user, 'share');
+
+  return {
+    ...template,
+    user_id: user.id,
+    sharing: {
+      account_id: user.zoom_account_id,
+      owner_name: user.name,
+      account_role: accountRole,
+      members,
+      shared_at: template.sharing?.shared_at ?? now.toISOString()
+    }
+  };
+}
+
+/** Take a template out of the account library; it stays with its owner */
+export function unshareTemplate(template: Template): Template {
+  return { ...template, sharing: undefined };
+}
+
+/**
+ * Templates the user can start a session from: their own, then the account library
+ */
+export function listUsableTemplates(user: TemplateUser | null): Template[] {
+  if (!user) return [];
+  const shared = loadSharedTemplates(user.zoom_account_id);
+  return [...loadPersonalTemplates(user.id), ...shared.filter(template => getTemplateRole(template, user) !== null)];
+}
+
+// ============================================
+// Storage
+// ============================================
+
+/** Every host's personal templates, or null when none were saved on this device */
+function loadAllPersonalTemplates(): Template[] | null {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    return raw ? (JSON.parse(raw) as Template[]) : null;
+  } catch (error) {
+    console.warn('[TemplateLibrary] Discarding unreadable templates:', error);
+    return null;
+  }
+}
+
+/** A user's own templates; sample templates until something is saved */
+export function loadPersonalTemplates(userId: string): Template[] {
+  const stored = loadAllPersonalTemplates();
+  return stored
+    ? stored.filter(template => template.user_id === userId)
+    : MOCK_TEMPLATES.map(template => ({ ...template, user_id: userId }));
+}
+
+/** Replace a user's own templates, keeping other hosts' */
+export function savePersonalTemplates(userId: string, templates: Template[]): void {
+  try {
+    const others = (loadAllPersonalTemplates() ?? []).filter(template => template.user_id !== userId);
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify([...others, ...templates]));
+  } catch (error) {
+    console.warn('[TemplateLibrary] Failed to save templates:', error);
+  }
+}
+
+function loadSharedLibraries(): SharedTemplateLibraries {
+  try {
+    const raw = localStorage.getItem(SHARED_TEMPLATES_KEY);
+    if (raw) return JSON.parse(raw) as SharedTemplateLibraries;
+  } catch (error) {
+    console.warn('[TemplateLibrary] Discarding unreadable shared library:', error);
+  }
+
+  // Sample account libraries
+  const libraries: SharedTemplateLibraries = {};
+  MOCK_SHARED_TEMPLATES.forEach(template => {
+    const accountId = template.sharing?.account_id;
+    if (accountId) libraries[accountId] = [...(libraries[accountId] ?? []), template];
+  });
+  return libraries;
+}
+
+/** The account's shared library (empty for users outside an account) */
+export function loadSharedTemplates(accountId: string | undefined): Template[] {
+  return accountId ? loadSharedLibraries()[accountId] ?? [] : [];
+}
+
+export function saveSharedTemplates(accountId: string, templates: Template[]): void {
+  try {
+    localStorage.setItem(SHARED_TEMPLATES_KEY, JSON.stringify({ ...loadSharedLibraries(), [accountId]: templates }));
+  } catch (error) {
+    console.warn('[TemplateLibrary] Failed to save shared library:', error);
+  }
+}
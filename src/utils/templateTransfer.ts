@@ -0,0 +1,216 @@
+/**
+ * Template Transfer
+ *
+ * Versioned JSON format for exporting and importing session templates, e.g.
+ * to hand a department's standard setups to another Zoom account.
+ *
+ * Glossaries aren't embedded: each template lists the glossaries it uses with
+ * their name, pinned version, term count and languages. On import they are
+ * matched to this account's glossaries by ID, then by name; glossaries that
+ * can't be matched (or versions that don't exist here) are dropped or unpinned
+ * with a warning, so the host knows which glossaries still need importing.
+ *
+ * Files from a newer format version are rejected rather than half-read.
+ *
+ * Usage:
+ * ```typescript
+ * import { exportTemplates, parseTemplateFile } from '../utils/templateTransfer';
+ *
+ * exportTemplates(templates, 'department-templates');
+ * const { templates, warnings } = parseTemplateFile(await file.text());
+ * ```
+ */
+
+import type { GlossaryRef, LowConfidencePolicy, MeetingType, Template, TemplateFields } from '../types';
+import { LANGUAGES, MEETING_TYPES } from './constants';
+import { downloadFile, sanitizeFileName } from './fileDownload';
+import { getTemplateFields } from './templateLibrary';
+import { findGlossaryVersion, getLatestVersion, listGlossaryVersions, listLatestGlossaryVersions } from './glossaryVersions';
+import { getTermKey } from './glossaryEntries';
+
+// ============================================
+// Types
+// ============================================
+
+export const TEMPLATE_FILE_FORMAT = 'meetingsync-templates';
+export const TEMPLATE_FILE_VERSION = 1;
+export const TEMPLATE_FILE_EXTENSION = '.json';
+
+/** A glossary referenced by an exported template */
+export interface TemplateFileGlossary {
+  glossary_id: string;
+  version?: number; // Pinned version; absent when the template follows the latest
+  name: string;
+  term_count: number;
+  languages: string[]; // Target languages the glossary covers
+}
+
+export interface TemplateFileTemplate extends Omit<TemplateFields, 'glossaries'> {
+  glossaries: TemplateFileGlossary[]; // Ordered by precedence
+}
+
+export interface TemplateFile {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  version: number;
+  exported_at: string;
+  templates: TemplateFileTemplate[];
+}
+
+export interface TemplateImportResult {
+  templates: TemplateFields[];
+  warnings: string[];
+}
+
+// ============================================
+// Export
+// ============================================
+
+function describeGlossary(ref: GlossaryRef): TemplateFileGlossary {
+  const history = listGlossaryVersions(ref.glossary_id);
+  const version = (ref.version !== undefined ? findGlossaryVersion(history, ref.version) : undefined) ?? getLatestVersion(history);
+  const entries = version?.entries ?? [];
+
+  return {
+    glossary_id: ref.glossary_id,
+    ...(ref.version !== undefined && { version: ref.version }),
+    name: version?.name ?? ref.glossary_id,
+    term_count: entries.length,
+    languages: Array.from(new Set(entries.flatMap(entry => Object.keys(entry.translations)))).sort()
+  };
+}
+
+export function buildTemplateFile(templates: Template[], now: Date = new Date()): TemplateFile {
+  return {
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    exported_at: now.toISOString(),
+    templates: templates.map(template => ({
+      ...getTemplateFields(template),
+      glossaries: (template.glossaries ?? []).map(describeGlossary)
+    }))
+  };
+}
+
+/**
+ * Download templates as a template file; returns the file name used
+ */
+export function exportTemplates(templates: Template[], fileName: string): string {
+  const savedAs = `${sanitizeFileName(fileName, 'templates')}${TEMPLATE_FILE_EXTENSION}`;
+  downloadFile(JSON.stringify(buildTemplateFile(templates), null, 2), savedAs, 'application/json;charset=utf-8');
+  console.log(`[TemplateTransfer] Exported ${templates.length} template(s) as ${savedAs}`);
+  return savedAs;
+}
+
+// ============================================
+// Import
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isKnownLanguage(code: unknown): code is string {
+  return typeof code === 'string' && LANGUAGES.some(lang => lang.code === code);
+}
+
+/**
+ * Match an exported glossary to this account's glossaries: by ID, then by name
+ */
+function resolveGlossary(glossary: TemplateFileGlossary, templateName: string, warnings: string[]): GlossaryRef | null {
+  let glossaryId = glossary.glossary_id;
+  let history = listGlossaryVersions(glossaryId);
+
+  if (history.length === 0) {
+    const match = listLatestGlossaryVersions().find(version => getTermKey(version.name) === getTermKey(glossary.name));
+    if (!match) {
+      warnings.push(
+        `"${templateName}": glossary "${glossary.name}" (${glossary.term_count} terms) isn't available here and was removed; import it in Glossaries, then add it to the template`
+      );
+      return null;
+    }
+    warnings.push(`"${templateName}": glossary "${glossary.name}" was matched to this account's glossary by name`);
+    glossaryId = match.glossary_id;
+    history = listGlossaryVersions(glossaryId);
+  }
+
+  if (glossary.version === undefined) return { glossary_id: glossaryId };
+  if (findGlossaryVersion(history, glossary.version)) return { glossary_id: glossaryId, version: glossary.version };
+
+  warnings.push(
+    `"${templateName}": glossary "${glossary.name}" has no version ${glossary.version} here; the template will use the latest version`
+  );
+  return { glossary_id: glossaryId };
+}
+
+const LOW_CONFIDENCE_POLICIES: LowConfidencePolicy[] = ['hide', 'dim', 'flag'];
+
+function readTemplate(raw: unknown, index: number, warnings: string[]): TemplateFields {
+  const label = `Template ${index + 1}`;
+  if (!isRecord(raw)) throw new Error(`${label} is not a template`);
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) throw new Error(`${label} has no name`);
+  if (!isKnownLanguage(raw.source_language)) throw new Error(`"${name}" has an unsupported source language`);
+
+  const targets = Array.isArray(raw.target_languages) ? raw.target_languages : [];
+  const targetLanguages = targets.filter(isKnownLanguage);
+  if (targetLanguages.length < targets.length) {
+    warnings.push(`"${name}": ${targets.length - targetLanguages.length} unsupported target language(s) removed`);
+  }
+  if (targetLanguages.length === 0) throw new Error(`"${name}" has no supported target languages`);
+
+  const meetingType = MEETING_TYPES.some(type => type.value === raw.meeting_type)
+    ? (raw.meeting_type as MeetingType)
+    : 'general';
+  if (meetingType !== raw.meeting_type) warnings.push(`"${name}": unknown meeting type, using General Meeting`);
+
+  const glossaries = (Array.isArray(raw.glossaries) ? raw.glossaries : [])
+    .filter((glossary): glossary is TemplateFileGlossary => isRecord(glossary) && typeof glossary.glossary_id === 'string')
+    .map(glossary => resolveGlossary({ ...glossary, name: glossary.name ?? glossary.glossary_id }, name, warnings))
+    .filter((ref): ref is GlossaryRef => ref !== null);
+
+  const threshold = Number(raw.confidence_threshold);
+  return {
+    name,
+    meeting_type: meetingType,
+    source_language: raw.source_language,
+    target_languages: targetLanguages,
+    ...(glossaries.length > 0 && { glossaries }),
+    tts_enabled: raw.tts_enabled === true,
+    confidence_threshold: Number.isFinite(threshold) ? Math.min(100, Math.max(0, threshold)) : 80,
+    low_confidence_policy: LOW_CONFIDENCE_POLICIES.includes(raw.low_confidence_policy as LowConfidencePolicy)
+      ? (raw.low_confidence_policy as LowConfidencePolicy)
+      : 'flag',
+    show_partial_results: raw.show_partial_results !== false,
+    ...(typeof raw.host_instructions === 'string' && raw.host_instructions && { host_instructions: raw.host_instructions })
+  };
+}
+
+/**
+ * Read a template file. Throws when the file isn't a template file (or is
+ * from a newer format version) or a template is unusable; recoverable
+ * problems are returned as warnings.
+ */
+export function parseTemplateFile(text: string): TemplateImportResult {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  if (!isRecord(file) || file.format !== TEMPLATE_FILE_FORMAT) {
+    throw new Error('This file is not a MeetingSync template export');
+  }
+  if (typeof file.version !== 'number' || file.version > TEMPLATE_FILE_VERSION) {
+    throw new Error('This template file was exported by a newer version of MeetingSync');
+  }
+  if (!Array.isArray(file.templates) || file.templates.length === 0) {
+    throw new Error('This file contains no templates');
+  }
+
+  const warnings: string[] = [];
+  const templates = file.templates.map((template, index) => readTemplate(template, index, warnings));
+  console.log(`[TemplateTransfer] Read ${templates.length} template(s) with ${warnings.length} warning(s)`);
+  return { templates, warnings };
+}
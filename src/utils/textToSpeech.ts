@@ -0,0 +1,321 @@
+/**
+ * Text-to-Speech
+ *
+ * Speaks captions to participants. A `SpeechEngine` turns text into speech:
+ * - SpeechSynthesisEngine: the browser's Web Speech `speechSynthesis` API
+ * - SilentSpeechEngine: test stand-in that "speaks" for roughly as long as
+ *   the text would take, without audio
+ *
+ * `SpeechQueue` speaks final captions one after another. Each caption is
+ * spoken once (a corrected final caption isn't repeated). When captions
+ * arrive faster than they can be spoken, the queue falls behind; it then
+ * skips the oldest queued captions (beyond MAX_QUEUED_CAPTIONS, or older than
+ * MAX_CAPTION_AGE_MS when their turn comes) so listeners stay close to the
+ * meeting.
+ *
+ * Usage:
+ * ```typescript
+ * import { SpeechQueue, createSpeechEngine } from '../utils/textToSpeech';
+ *
+ * const queue = new SpeechQueue(createSpeechEngine());
+ * queue.setSettings({ rate: 1.2 });
+ * transport.onCaption(caption => queue.enqueue(caption));
+ * queue.stop();
+ * ```
+ *
+ * The engine is selected from `VITE_TTS_ENGINE` (speech | silent). When unset,
+ * speech synthesis is used wherever the browser supports it.
+ */
+
+import type { Caption } from '../types';
+import { getCaptionRevisionKey } from './captionRevisions';
+
+// ============================================
+// Types
+// ============================================
+
+export type SpeechEngineKind = 'speech' | 'silent';
+
+export interface SpeechVoice {
+  id: string; // voiceURI
+  name: string;
+  language: string; // BCP 47 tag, e.g. "es-MX"
+  is_default: boolean;
+}
+
+export interface SpeechSettings {
+  voice_id: string | null; // null: the engine's default voice for the language
+  rate: number; // 0.5-2
+  pitch: number; // 0-2
+  volume: number; // 0-1
+}
+
+export interface SpeechRequest {
+  text: string;
+  language: string;
+  settings: SpeechSettings;
+  onEnd: () => void; // Called when speaking finishes or fails, not when cancelled
+}
+
+export interface SpeechEngine {
+  readonly kind: SpeechEngineKind;
+  getVoices: () => SpeechVoice[];
+  onVoicesChanged: (listener: () => void) => () => void;
+  speak: (request: SpeechRequest) => void;
+  cancel: () => void;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voice_id: null,
+  rate: 1,
+  pitch: 1,
+  volume: 0.8
+};
+
+/** Captions waiting to be spoken; older ones are skipped beyond this */
+export const MAX_QUEUED_CAPTIONS = 3;
+
+/** Captions older than this when their turn comes are skipped */
+export const MAX_CAPTION_AGE_MS = 15000;
+
+/**
+ * Voices for a caption language ("zh" matches "zh-CN" and "zh-TW"), default
+ * voices first
+ */
+export function getVoicesForLanguage(voices: SpeechVoice[], language: string): SpeechVoice[] {
+  const base = language.toLowerCase().split(/[-_]/)[0];
+  return voices
+    .filter(voice => voice.language.toLowerCase().split(/[-_]/)[0] === base)
+    .sort((a, b) => Number(b.is_default) - Number(a.is_default));
+}
+
+// ============================================
+// Speech Synthesis Engine
+// ============================================
+
+export class SpeechSynthesisEngine implements SpeechEngine {
+  readonly kind = 'speech' as const;
+  private current: SpeechSynthesisUtterance | null = null;
+
+  getVoices(): SpeechVoice[] {
+    return window.speechSynthesis.getVoices().map(voice => ({
+      id: voice.voiceURI,
+      name: voice.name,
+      language: voice.lang,
+      is_default: voice.default
+    }));
+  }
+
+  onVoicesChanged(listener: () => void): () => void {
+    // Voices load asynchronously in most browsers
+    window.speechSynthesis.addEventListener('voiceschanged', listener);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', listener);
+  }
+
+  speak({ text, language, settings, onEnd }: SpeechRequest): void {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = language;
+    utterance.voice = window.speechSynthesis.getVoices().find(voice => voice.voiceURI === settings.voice_id) ?? null;
+    utterance.rate = settings.rate;
+    utterance.pitch = settings.pitch;
+    utterance.volume = settings.volume;
+
+    const finish = () => {
+      if (this.current !== utterance) return; // Cancelled
+      this.current = null;
+      onEnd();
+    };
+    utterance.onend = finish;
+    utterance.onerror = event => {
+      if (event.error !== 'interrupted' && event.error !== 'canceled') {
+        console.warn('[TextToSpeech] Speech failed:', event.error);
+      }
+      finish();
+    };
+
+    this.current = utterance;
+    window.speechSynthesis.speak(utterance);
+  }
+
+  cancel(): void {
+    this.current = null;
+    window.speechSynthesis.cancel();
+  }
+}
+
+// ============================================
+// Silent Engine
+// ============================================
+
+const SILENT_MS_PER_CHARACTER = 60;
+
+export class SilentSpeechEngine implements SpeechEngine {
+  readonly kind = 'silent' as const;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private voices: SpeechVoice[] = []) {}
+
+  getVoices(): SpeechVoice[] {
+    return this.voices;
+  }
+
+  onVoicesChanged(): () => void {
+    return () => {};
+  }
+
+  speak({ text, settings, onEnd }: SpeechRequest): void {
+    this.cancel();
+    const duration = Math.max(300, (text.length * SILENT_MS_PER_CHARACTER) / settings.rate);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      onEnd();
+    }, duration);
+  }
+
+  cancel(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+// ============================================
+// Queue
+// ============================================
+
+export interface SpeechQueueState {
+  speaking_id: string | null; // Caption being spoken
+  queued_count: number;
+  skipped_count: number; // Captions skipped because the queue fell behind
+}
+
+/**
+ * Speaks final captions in order, one at a time
+ */
+export class SpeechQueue {
+  private queue: Caption[] = [];
+  private heard = new Set<string>(); // Revision keys already queued, spoken or passed over
+  private speaking: Caption | null = null;
+  private skipped = 0;
+  private settings: SpeechSettings = DEFAULT_SPEECH_SETTINGS;
+  private listeners: Array<(state: SpeechQueueState) => void> = [];
+
+  constructor(
+    private engine: SpeechEngine,
+    private now: () => number = () => Date.now()
+  ) {}
+
+  getState(): SpeechQueueState {
+    return {
+      speaking_id: this.speaking?.id ?? null,
+      queued_count: this.queue.length,
+      skipped_count: this.skipped
+    };
+  }
+
+  onChange(listener: (state: SpeechQueueState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /** Applies from the next caption spoken */
+  setSettings(settings: Partial<SpeechSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  /**
+   * Queue a caption; interim captions and captions already heard are ignored
+   */
+  enqueue(caption: Caption): void {
+    if (!caption.is_final || !caption.text.trim()) return;
+    const key = getCaptionRevisionKey(caption);
+    if (this.heard.has(key)) return;
+    this.heard.add(key);
+
+    this.queue.push(caption);
+    while (this.queue.length > MAX_QUEUED_CAPTIONS) {
+      this.queue.shift();
+      this.skipped++;
+    }
+    this.next();
+    this.notify();
+  }
+
+  /**
+   * Mark captions as heard without speaking them (e.g. those shown before
+   * the participant started listening)
+   */
+  pass(captions: Caption[]): void {
+    captions.forEach(caption => this.heard.add(getCaptionRevisionKey(caption)));
+  }
+
+  /**
+   * Speak a caption right away, dropping the queue (replaying a caption)
+   */
+  speakNow(caption: Caption): void {
+    this.heard.add(getCaptionRevisionKey(caption));
+    this.queue = [];
+    this.engine.cancel();
+    this.speak(caption);
+    this.notify();
+  }
+
+  /** Stop speaking and drop the queue */
+  stop(): void {
+    this.queue = [];
+    this.speaking = null;
+    this.engine.cancel();
+    this.notify();
+  }
+
+  private next(): void {
+    if (this.speaking) return;
+
+    let caption = this.queue.shift();
+    while (caption && this.now() - new Date(caption.timestamp).getTime() > MAX_CAPTION_AGE_MS) {
+      this.skipped++;
+      caption = this.queue.shift();
+    }
+    if (caption) this.speak(caption);
+  }
+
+  private speak(caption: Caption): void {
+    this.speaking = caption;
+    this.engine.speak({
+      text: caption.text,
+      language: caption.language,
+      settings: this.settings,
+      onEnd: () => {
+        if (this.speaking !== caption) return;
+        this.speaking = null;
+        this.next();
+        this.notify();
+      }
+    });
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+export function isSpeechSynthesisSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+}
+
+export function getSpeechEngineKind(): SpeechEngineKind {
+  const kind = import.meta.env.VITE_TTS_ENGINE;
+  if (kind === 'silent') return 'silent';
+  return isSpeechSynthesisSupported() ? 'speech' : 'silent';
+}
+
+export function createSpeechEngine(kind: SpeechEngineKind = getSpeechEngineKind()): SpeechEngine {
+  console.log('[TextToSpeech] Using engine:', kind);
+  return kind === 'speech' && isSpeechSynthesisSupported() ? new SpeechSynthesisEngine() : new SilentSpeechEngine();
+}
@@ -0,0 +1,509 @@
+/**
+ * Transcript Export
+ *
+ * Serializes a session transcript to TXT, SRT, WebVTT, DOCX or PDF and
+ * downloads the file.
+ *
+ * Each line can carry the spoken (original) text plus any of the session's
+ * languages; a line spoken in a selected language shows what was said rather
+ * than a translation. TXT, SRT, WebVTT and DOCX stack the texts of a line;
+ * the PDF puts them side by side, one column per language (landscape when
+ * more than two columns are exported).
+ *
+ * Times: transcript timestamps are offsets from the meeting start.
+ * `time_offset_seconds` shifts them (e.g. -90 to line subtitles up with a
+ * recording started 90 s into the meeting); lines that end up before zero are
+ * dropped. TXT, DOCX and PDF can show the time of day each line was spoken
+ * instead (`time_format: 'clock'`, not shifted); subtitles always use offsets.
+ *
+ * Usage:
+ * ```typescript
+ * import { exportTranscript, DEFAULT_TRANSCRIPT_EXPORT_OPTIONS } from '../utils/transcriptExport';
+ *
+ * exportTranscript(session, { ...DEFAULT_TRANSCRIPT_EXPORT_OPTIONS, format: 'srt', languages: ['es'] }, 'planning');
+ * ```
+ */
+
+import type { SessionDetail, TranscriptLine } from './mockSessionDetails';
+import { getLanguageByCode } from './constants';
+import { buildZip, escapeXml } from './xlsx';
+import { PDF_PAGE_SIZES, PdfPage, canRenderPdfText, wrapPdfText, writePdf } from './pdf';
+import { downloadFile, sanitizeFileName } from './fileDownload';
+
+// ============================================
+// Types
+// ============================================
+
+export type TranscriptExportFormat = 'txt' | 'srt' | 'vtt' | 'docx' | 'pdf';
+
+export type TranscriptTimeFormat = 'elapsed' | 'clock';
+
+export interface TranscriptExportOptions {
+  format: TranscriptExportFormat;
+  languages: string[]; // Translations to include, in order
+  include_original: boolean; // What the speaker said, in their language
+  include_speakers: boolean;
+  include_confidence: boolean;
+  time_offset_seconds: number;
+  time_format: TranscriptTimeFormat; // TXT, DOCX and PDF only
+}
+
+export type TranscriptExportInput = Pick<
+  SessionDetail,
+  'meeting_title' | 'host_name' | 'meeting_date' | 'start_time' | 'end_time' | 'transcript'
+>;
+
+export interface TranscriptExportFile {
+  content: string | Uint8Array;
+  extension: string;
+  mime_type: string;
+}
+
+export const DEFAULT_TRANSCRIPT_EXPORT_OPTIONS: TranscriptExportOptions = {
+  format: 'txt',
+  languages: [],
+  include_original: true,
+  include_speakers: true,
+  include_confidence: false,
+  time_offset_seconds: 0,
+  time_format: 'elapsed'
+};
+
+export const TRANSCRIPT_EXPORT_EXTENSIONS: Record<TranscriptExportFormat, string> = {
+  txt: '.txt',
+  srt: '.srt',
+  vtt: '.vtt',
+  docx: '.docx',
+  pdf: '.pdf'
+};
+
+const MIME_TYPES: Record<TranscriptExportFormat, string> = {
+  txt: 'text/plain;charset=utf-8',
+  srt: 'application/x-subrip;charset=utf-8',
+  vtt: 'text/vtt;charset=utf-8',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf'
+};
+
+/** Side-by-side text columns that still fit a landscape page */
+export const PDF_MAX_COLUMNS = 4;
+
+// Subtitle cues last until the next line starts, within these bounds
+const MIN_CUE_SECONDS = 1.5;
+const MAX_CUE_SECONDS = 8;
+const READING_CHARACTERS_PER_SECOND = 15;
+
+// ============================================
+// Lines
+// ============================================
+
+interface LineText {
+  language: string;
+  text: string;
+  is_original: boolean;
+}
+
+interface TimedLine {
+  line: TranscriptLine;
+  start: number; // Seconds, after the offset
+  end: number;
+  texts: LineText[];
+}
+
+/** What a line reads in a language: the spoken text in its own language, else the translation */
+function getLineText(line: TranscriptLine, language: string): string | undefined {
+  return language === line.original_language ? line.original_text : line.translations[language];
+}
+
+/** The texts exported for a line; a selected language the line was spoken in isn't repeated */
+function getLineTexts(line: TranscriptLine, options: TranscriptExportOptions): LineText[] {
+  const texts: LineText[] = options.include_original
+    ? [{ language: line.original_language, text: line.original_text, is_original: true }]
+    : [];
+
+  options.languages.forEach(language => {
+    if (options.include_original && language === line.original_language) return;
+    const text = getLineText(line, language);
+    if (text) texts.push({ language, text, is_original: language === line.original_language });
+  });
+  return texts;
+}
+
+/** "HH:MM:SS" (or "MM:SS") to seconds */
+export function parseTranscriptTimestamp(timestamp: string): number {
+  return timestamp
+    .split(':')
+    .map(Number)
+    .reduce((total, part) => total * 60 + (Number.isFinite(part) ? part : 0), 0);
+}
+
+/**
+ * Lines with their shifted start and end times; lines shifted before zero
+ * are dropped, and lines with nothing to show are skipped
+ */
+function getTimedLines(transcript: TranscriptLine[], options: TranscriptExportOptions): TimedLine[] {
+  const starts = transcript.map(line => parseTranscriptTimestamp(line.timestamp) + options.time_offset_seconds);
+
+  return transcript.flatMap((line, index) => {
+    const texts = getLineTexts(line, options);
+    const longest = Math.max(0, ...texts.map(item => item.text.length));
+    const readingTime = Math.min(
+      MAX_CUE_SECONDS,
+      Math.max(MIN_CUE_SECONDS, longest / READING_CHARACTERS_PER_SECOND)
+    );
+    const nextStart = starts[index + 1] ?? Infinity;
+    const end = Math.min(starts[index] + readingTime, Math.max(nextStart, starts[index] + MIN_CUE_SECONDS));
+
+    if (texts.length === 0 || end <= 0) return [];
+    return [{ line, start: Math.max(0, starts[index]), end, texts }];
+  });
+}
+
+function getLanguageName(code: string): string {
+  return getLanguageByCode(code)?.name ?? code.toUpperCase();
+}
+
+function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}%`;
+}
+
+/** Label for a text when a line has several; the original is marked as such */
+function formatTextLabel(item: LineText): string {
+  return item.is_original ? `${getLanguageName(item.language)} (original)` : getLanguageName(item.language);
+}
+
+/** "HH:MM:SS" with an optional fraction separator for subtitle formats */
+function formatSeconds(seconds: number, fractionSeparator?: ',' | '.'): string {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  const time = `${pad(Math.floor(totalMs / 3600000))}:${pad(Math.floor(totalMs / 60000) % 60)}:${pad(
+    Math.floor(totalMs / 1000) % 60
+  )}`;
+  return fractionSeparator ? `${time}${fractionSeparator}${pad(totalMs % 1000, 3)}` : time;
+}
+
+/** Time shown next to a line in documents: shifted offset, or time of day */
+function formatLineTime(timed: TimedLine, input: TranscriptExportInput, options: TranscriptExportOptions): string {
+  if (options.time_format === 'elapsed') return formatSeconds(timed.start);
+
+  const [hours, minutes] = input.start_time.split(':').map(Number);
+  const clockSeconds =
+    ((hours || 0) * 3600 + (minutes || 0) * 60 + parseTranscriptTimestamp(timed.line.timestamp)) % 86400;
+  return formatSeconds(clockSeconds);
+}
+
+/** Speaker and confidence, as chosen in the options */
+function formatLineHeading(timed: TimedLine, options: TranscriptExportOptions): string {
+  return [
+    options.include_speakers ? timed.line.speaker_name : '',
+    options.include_confidence ? `(${formatConfidence(timed.line.confidence)})` : ''
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function formatDocumentHeader(input: TranscriptExportInput): string[] {
+  return [
+    input.meeting_title,
+    `Host: ${input.host_name}`,
+    `Date: ${input.meeting_date}, ${input.start_time} – ${input.end_time}`
+  ];
+}
+
+// ============================================
+// Serializers
+// ============================================
+
+export function serializeTranscriptTxt(input: TranscriptExportInput, options: TranscriptExportOptions): string {
+  const blocks = getTimedLines(input.transcript, options).map(timed => {
+    const heading = formatLineHeading(timed, options);
+    const lines = [`[${formatLineTime(timed, input, options)}]${heading ? ` ${heading}` : ''}`];
+    timed.texts.forEach(item => {
+      lines.push(timed.texts.length > 1 ? `  ${formatTextLabel(item)}: ${item.text}` : `  ${item.text}`);
+    });
+    return lines.join('\n');
+  });
+
+  return [formatDocumentHeader(input).join('\n'), ...blocks].join('\n\n') + '\n';
+}
+
+/**
+ * SubRip: numbered cues, one text line per language (prefixed with the
+ * language code when there are several), speaker on the first line
+ */
+export function serializeTranscriptSrt(input: TranscriptExportInput, options: TranscriptExportOptions): string {
+  const cues = getTimedLines(input.transcript, options).map((timed, index) => {
+    const heading = formatLineHeading(timed, options);
+    const texts = timed.texts.map(item =>
+      timed.texts.length > 1 ? `[${item.language.toUpperCase()}] ${item.text}` : item.text
+    );
+    if (heading) texts[0] = `${heading}: ${texts[0]}`;
+
+    return [
+      String(index + 1),
+      `${formatSeconds(timed.start, ',')} --> ${formatSeconds(timed.end, ',')}`,
+      ...texts
+    ].join('\n');
+  });
+
+  return cues.join('\n\n') + '\n';
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * WebVTT: speakers as voice spans, translations as language spans, and
+ * confidence as a NOTE before each cue (notes aren't displayed)
+ */
+export function serializeTranscriptVtt(input: TranscriptExportInput, options: TranscriptExportOptions): string {
+  const cues = getTimedLines(input.transcript, options).map(timed => {
+    const lines: string[] = [];
+    if (options.include_confidence) lines.push(`NOTE confidence ${formatConfidence(timed.line.confidence)}`, '');
+
+    const texts = timed.texts.map(item =>
+      timed.texts.length > 1 ? `<lang ${item.language}>${escapeVtt(item.text)}</lang>` : escapeVtt(item.text)
+    );
+    if (options.include_speakers) {
+      // Voice names end at ">" and can't contain it
+      texts[0] = `<v ${escapeVtt(timed.line.speaker_name).replace(/&gt;/g, '')}>${texts[0]}`;
+    }
+
+    lines.push(timed.line.id, `${formatSeconds(timed.start, '.')} --> ${formatSeconds(timed.end, '.')}`, ...texts);
+    return lines.join('\n');
+  });
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+function docxParagraph(
+  text: string,
+  style: { bold?: boolean; size?: number; color?: string; language?: string; indent?: boolean; space_after?: number } = {}
+): string {
+  const runProperties = [
+    style.bold ? '<w:b/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${style.size * 2}"/>` : '', // Half-points
+    style.language ? `<w:lang w:val="${style.language}" w:eastAsia="${style.language}"/>` : ''
+  ].join('');
+  const paragraphProperties =
+    `<w:spacing w:after="${style.space_after ?? 80}"/>` + (style.indent ? '<w:ind w:left="360"/>' : '');
+
+  return (
+    `<w:p><w:pPr>${paragraphProperties}</w:pPr>` +
+    `<w:r>${runProperties ? `<w:rPr>${runProperties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`
+  );
+}
+
+/**
+ * Word document: meeting details, then a heading (time, speaker, confidence)
+ * and one paragraph per language for each line
+ */
+export function serializeTranscriptDocx(input: TranscriptExportInput, options: TranscriptExportOptions): Uint8Array {
+  const [title, ...details] = formatDocumentHeader(input);
+  const paragraphs = [
+    docxParagraph(title, { bold: true, size: 18, space_after: 120 }),
+    ...details.map((detail, index) =>
+      docxParagraph(detail, { color: '555555', space_after: index === details.length - 1 ? 320 : 40 })
+    )
+  ];
+
+  getTimedLines(input.transcript, options).forEach(timed => {
+    const heading = formatLineHeading(timed, options);
+    paragraphs.push(
+      docxParagraph(`${formatLineTime(timed, input, options)}${heading ? `  ${heading}` : ''}`, {
+        bold: true,
+        space_after: 40
+      })
+    );
+    timed.texts.forEach((item, index) => {
+      const label = timed.texts.length > 1 ? `${formatTextLabel(item)}: ` : '';
+      paragraphs.push(
+        docxParagraph(`${label}${item.text}`, {
+          language: item.language,
+          indent: true,
+          space_after: index === timed.texts.length - 1 ? 200 : 40
+        })
+      );
+    });
+  });
+
+  const relationshipsNs = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      content:
+        `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content:
+        `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${relationshipsNs}/officeDocument" Target="word/document.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'word/document.xml',
+      content: `${XML_DECLARATION}<w:document xmlns:w="${WORD_NS}"><w:body>${paragraphs.join('')}</w:body></w:document>`
+    }
+  ]);
+}
+
+/** Columns of the PDF export: the original (if included), then each language */
+function getPdfColumns(options: TranscriptExportOptions): Array<{ language: string | null; title: string }> {
+  return [
+    ...(options.include_original ? [{ language: null, title: 'Original' }] : []),
+    ...options.languages.map(language => ({ language, title: getLanguageName(language) }))
+  ];
+}
+
+/**
+ * Languages whose text the PDF fonts can't show (see pdf.ts); those
+ * characters come out as "?"
+ */
+export function getPdfUnsupportedLanguages(transcript: TranscriptLine[], options: TranscriptExportOptions): string[] {
+  const languages = new Set<string>();
+  transcript.forEach(line => {
+    if (options.include_original && !canRenderPdfText(line.original_text)) languages.add(line.original_language);
+    options.languages.forEach(language => {
+      const text = getLineText(line, language);
+      if (text && !canRenderPdfText(text)) languages.add(language);
+    });
+  });
+  return Array.from(languages);
+}
+
+/**
+ * Side-by-side PDF: a time/speaker column and one column per language, each
+ * line's row as tall as its longest text; rows don't split across pages
+ */
+export function serializeTranscriptPdf(input: TranscriptExportInput, options: TranscriptExportOptions): Uint8Array {
+  const columns = getPdfColumns(options);
+  if (columns.length === 0) throw new Error('Select at least one language to export');
+  if (columns.length > PDF_MAX_COLUMNS) {
+    throw new Error(`PDF exports show up to ${PDF_MAX_COLUMNS} languages side by side`);
+  }
+
+  const pageSize = columns.length > 2 ? PDF_PAGE_SIZES.a4_landscape : PDF_PAGE_SIZES.a4_portrait;
+  const margin = 40;
+  const gutter = 14;
+  const metaWidth = 90;
+  const fontSize = 9;
+  const lineHeight = 12;
+  const columnWidth = (pageSize.width - margin * 2 - metaWidth - gutter * columns.length) / columns.length;
+  const columnX = (index: number) => margin + metaWidth + gutter + index * (columnWidth + gutter);
+  const bottom = pageSize.height - margin;
+
+  const page: PdfPage = { texts: [], rules: [] };
+  const pages: PdfPage[] = [page];
+  let current = page;
+  let y = margin + 16;
+
+  // Column titles, repeated at the top of every page
+  const addColumnHeaders = () => {
+    current.texts.push({ x: margin, y, text: 'Time', size: fontSize, bold: true });
+    columns.forEach((column, index) => {
+      current.texts.push({ x: columnX(index), y, text: column.title, size: fontSize, bold: true });
+    });
+    y += 6;
+    current.rules?.push({ x1: margin, y1: y, x2: pageSize.width - margin, y2: y });
+    y += lineHeight + 2;
+  };
+
+  // Meeting details on the first page
+  const [title, ...details] = formatDocumentHeader(input);
+  page.texts.push({ x: margin, y, text: title, size: 16, bold: true });
+  details.forEach(detail => {
+    y += 14;
+    page.texts.push({ x: margin, y, text: detail, size: 10 });
+  });
+  y += 24;
+  addColumnHeaders();
+
+  getTimedLines(input.transcript, options).forEach(timed => {
+    const meta = [formatLineTime(timed, input, options)];
+    if (options.include_speakers) meta.push(...wrapPdfText(timed.line.speaker_name, fontSize, metaWidth));
+    if (options.include_confidence) meta.push(formatConfidence(timed.line.confidence));
+
+    const cells = columns.map(column => {
+      const language = column.language ?? timed.line.original_language;
+      const text = column.language ? getLineText(timed.line, column.language) ?? '' : timed.line.original_text;
+      return { language, lines: text ? wrapPdfText(text, fontSize, columnWidth) : [] };
+    });
+    const rowLines = Math.max(meta.length, ...cells.map(cell => cell.lines.length));
+    const rowHeight = rowLines * lineHeight;
+
+    if (y + rowHeight > bottom) {
+      current = { texts: [], rules: [] };
+      pages.push(current);
+      y = margin + fontSize;
+      addColumnHeaders();
+    }
+
+    meta.forEach((text, index) => {
+      current.texts.push({ x: margin, y: y + index * lineHeight, text, size: fontSize, bold: index === 0 });
+    });
+    cells.forEach((cell, columnIndex) => {
+      cell.lines.forEach((text, index) => {
+        current.texts.push({
+          x: columnX(columnIndex),
+          y: y + index * lineHeight,
+          text,
+          size: fontSize,
+          language: cell.language
+        });
+      });
+    });
+
+    y += rowHeight;
+    current.rules?.push({ x1: margin, y1: y - lineHeight + 5, x2: pageSize.width - margin, y2: y - lineHeight + 5 });
+    y += 6;
+  });
+
+  return writePdf(pages, { ...pageSize, title: input.meeting_title });
+}
+
+/**
+ * Serialize a transcript in the chosen format
+ */
+export function serializeTranscript(input: TranscriptExportInput, options: TranscriptExportOptions): TranscriptExportFile {
+  const file = { extension: TRANSCRIPT_EXPORT_EXTENSIONS[options.format], mime_type: MIME_TYPES[options.format] };
+
+  switch (options.format) {
+    case 'txt':
+      return { ...file, content: serializeTranscriptTxt(input, options) };
+    case 'srt':
+      return { ...file, content: serializeTranscriptSrt(input, options) };
+    case 'vtt':
+      return { ...file, content: serializeTranscriptVtt(input, options) };
+    case 'docx':
+      return { ...file, content: serializeTranscriptDocx(input, options) };
+    case 'pdf':
+      return { ...file, content: serializeTranscriptPdf(input, options) };
+  }
+}
+
+/**
+ * Serialize and download a transcript; returns the saved file name
+ */
+export function exportTranscript(input: TranscriptExportInput, options: TranscriptExportOptions, fileName: string): string {
+  if (!options.include_original && options.languages.length === 0) {
+    throw new Error('Select at least one language to export');
+  }
+
+  const file = serializeTranscript(input, options);
+  const baseName = sanitizeFileName(fileName.replace(/\.(txt|srt|vtt|docx|pdf)$/i, ''), 'transcript');
+  const fullName = `${baseName}${file.extension}`;
+
+  downloadFile(file.content, fullName, file.mime_type);
+  console.log(`[TranscriptExport] Exported ${input.transcript.length} lines as ${options.format}`);
+  return fullName;
+}
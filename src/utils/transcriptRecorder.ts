@@ -0,0 +1,310 @@
+/**
+ * Transcript Recorder
+ *
+ * Keeps the full transcript of the host's running session. SessionProvider's
+ * caption list only holds the latest captions for display; the recorder
+ * receives every final caption and groups the captions of one utterance (one
+ * per language) into a TranscriptLine, the shape SessionDetailPage and the
+ * transcript exports read.
+ *
+ * Grouping: captions with the same `utterance_id` belong together; captions
+ * without one are grouped by timestamp and speaker. The caption in the
+ * session's source language is the line's original text, the others its
+ * translations.
+ *
+ * Persistence: utterances are written to localStorage in chunks of
+ * TRANSCRIPT_CHUNK_SIZE as they arrive (only chunks that changed are
+ * rewritten), so a side panel reload or an orphaned session keeps its
+ * transcript. The chunks are removed once the session is in the history.
+ *
+ * Usage:
+ * ```typescript
+ * import { TranscriptRecorder, buildSessionDetail } from '../utils/transcriptRecorder';
+ *
+ * const recorder = new TranscriptRecorder();
+ * recorder.start(session.id, session.source_language, session.date_time_start);
+ * transport.onCaption(caption => recorder.record(caption));
+ * const detail = buildSessionDetail(endedSession, recorder.getLines(), participants);
+ * ```
+ */
+
+import type { Caption, Participant, Session } from '../types';
+import type { SessionDetail, SessionParticipant, TranscriptLine } from './mockSessionDetails';
+
+// ============================================
+// Types
+// ============================================
+
+export const TRANSCRIPT_STORAGE_PREFIX = 'meetingsync-transcript-';
+
+/** Utterances per stored chunk */
+export const TRANSCRIPT_CHUNK_SIZE = 50;
+
+/** One utterance as recorded: its text in each language that arrived */
+interface RecordedUtterance {
+  key: string;
+  timestamp: string; // ISO time of the first caption
+  speaker_name?: string;
+  texts: Record<string, { text: string; confidence: number }>;
+}
+
+interface TranscriptManifest {
+  source_language: string;
+  started_at: string;
+  chunk_count: number;
+}
+
+function manifestKey(sessionId: string): string {
+  return `${TRANSCRIPT_STORAGE_PREFIX}${sessionId}`;
+}
+
+function chunkKey(sessionId: string, chunk: number): string {
+  return `${TRANSCRIPT_STORAGE_PREFIX}${sessionId}-${chunk}`;
+}
+
+function getUtteranceKey(caption: Caption): string {
+  return caption.utterance_id ?? `${caption.timestamp}|${caption.speaker_name ?? ''}`;
+}
+
+// ============================================
+// Lines
+// ============================================
+
+/** Seconds since the session started, as "HH:MM:SS" */
+function formatElapsed(timestamp: string, startedAt: string): string {
+  const seconds = Math.max(0, Math.floor((new Date(timestamp).getTime() - new Date(startedAt).getTime()) / 1000));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
+
+function toTranscriptLine(
+  utterance: RecordedUtterance,
+  index: number,
+  sourceLanguage: string,
+  startedAt: string
+): TranscriptLine {
+  // The source language is what was spoken; without it, the first language that arrived stands in
+  const languages = Object.keys(utterance.texts);
+  const originalLanguage = utterance.texts[sourceLanguage] ? sourceLanguage : languages[0];
+  const translations: Record<string, string> = {};
+  languages
+    .filter(language => language !== originalLanguage)
+    .forEach(language => {
+      translations[language] = utterance.texts[language].text;
+    });
+
+  return {
+    id: `tr_${String(index + 1).padStart(3, '0')}`,
+    timestamp: formatElapsed(utterance.timestamp, startedAt),
+    speaker_name: utterance.speaker_name ?? 'Speaker',
+    original_language: originalLanguage,
+    original_text: utterance.texts[originalLanguage].text,
+    translations,
+    confidence: utterance.texts[originalLanguage].confidence
+  };
+}
+
+// ============================================
+// Storage
+// ============================================
+
+function loadUtterances(sessionId: string): { manifest: TranscriptManifest; utterances: RecordedUtterance[] } | null {
+  try {
+    const raw = localStorage.getItem(manifestKey(sessionId));
+    if (!raw) return null;
+
+    const manifest = JSON.parse(raw) as TranscriptManifest;
+    const utterances: RecordedUtterance[] = [];
+    for (let chunk = 0; chunk < manifest.chunk_count; chunk++) {
+      const chunkRaw = localStorage.getItem(chunkKey(sessionId, chunk));
+      if (chunkRaw) utterances.push(...(JSON.parse(chunkRaw) as RecordedUtterance[]));
+    }
+    return { manifest, utterances };
+  } catch (error) {
+    console.warn('[TranscriptRecorder] Discarding unreadable transcript:', error);
+    return null;
+  }
+}
+
+/**
+ * The stored transcript of a session (e.g. an orphaned session being ended)
+ */
+export function loadRecordedTranscript(sessionId: string): TranscriptLine[] {
+  const stored = loadUtterances(sessionId);
+  if (!stored) return [];
+
+  const { manifest, utterances } = stored;
+  return utterances.map((utterance, index) =>
+    toTranscriptLine(utterance, index, manifest.source_language, manifest.started_at)
+  );
+}
+
+/**
+ * Remove a session's stored transcript chunks
+ */
+export function clearRecordedTranscript(sessionId: string): void {
+  try {
+    const raw = localStorage.getItem(manifestKey(sessionId));
+    const chunkCount = raw ? (JSON.parse(raw) as TranscriptManifest).chunk_count : 0;
+    for (let chunk = 0; chunk < chunkCount; chunk++) {
+      localStorage.removeItem(chunkKey(sessionId, chunk));
+    }
+    localStorage.removeItem(manifestKey(sessionId));
+  } catch (error) {
+    console.warn('[TranscriptRecorder] Failed to clear transcript:', error);
+  }
+}
+
+// ============================================
+// Recorder
+// ============================================
+
+/**
+ * Accumulates the final captions of one session at a time
+ */
+export class TranscriptRecorder {
+  private sessionId: string | null = null;
+  private sourceLanguage = '';
+  private startedAt = '';
+  private utterances: RecordedUtterance[] = [];
+  private utteranceIndex = new Map<string, number>(); // Utterance key -> position
+
+  /**
+   * Start recording a session; picks up its stored transcript, if any
+   * (after a reload or when resuming an orphaned session)
+   */
+  start(sessionId: string, sourceLanguage: string, startedAt: string): void {
+    const stored = loadUtterances(sessionId);
+
+    this.sessionId = sessionId;
+    this.sourceLanguage = sourceLanguage;
+    this.startedAt = startedAt;
+    this.utterances = stored?.utterances ?? [];
+    this.utteranceIndex = new Map(this.utterances.map((utterance, index) => [utterance.key, index]));
+
+    if (stored) console.log(`[TranscriptRecorder] Restored ${this.utterances.length} utterances for ${sessionId}`);
+  }
+
+  /**
+   * Add a caption; interim captions and captions of other sessions are ignored
+   */
+  record(caption: Caption): void {
+    if (!caption.is_final || caption.session_id !== this.sessionId) return;
+
+    const key = getUtteranceKey(caption);
+    let index = this.utteranceIndex.get(key);
+    if (index === undefined) {
+      index = this.utterances.length;
+      this.utteranceIndex.set(key, index);
+      this.utterances.push({ key, timestamp: caption.timestamp, speaker_name: caption.speaker_name, texts: {} });
+    }
+
+    const utterance = this.utterances[index];
+    utterance.texts[caption.language] = { text: caption.text, confidence: caption.confidence };
+    utterance.speaker_name = utterance.speaker_name ?? caption.speaker_name;
+    this.saveChunk(Math.floor(index / TRANSCRIPT_CHUNK_SIZE));
+  }
+
+  getLines(): TranscriptLine[] {
+    return this.utterances.map((utterance, index) =>
+      toTranscriptLine(utterance, index, this.sourceLanguage, this.startedAt)
+    );
+  }
+
+  /**
+   * Stop recording and remove the stored transcript
+   */
+  clear(): void {
+    if (this.sessionId) clearRecordedTranscript(this.sessionId);
+    this.sessionId = null;
+    this.utterances = [];
+    this.utteranceIndex = new Map();
+  }
+
+  private saveChunk(chunk: number): void {
+    if (!this.sessionId) return;
+
+    const manifest: TranscriptManifest = {
+      source_language: this.sourceLanguage,
+      started_at: this.startedAt,
+      chunk_count: Math.ceil(this.utterances.length / TRANSCRIPT_CHUNK_SIZE)
+    };
+    const utterances = this.utterances.slice(chunk * TRANSCRIPT_CHUNK_SIZE, (chunk + 1) * TRANSCRIPT_CHUNK_SIZE);
+
+    try {
+      localStorage.setItem(chunkKey(this.sessionId, chunk), JSON.stringify(utterances));
+      localStorage.setItem(manifestKey(this.sessionId), JSON.stringify(manifest));
+    } catch (error) {
+      console.warn('[TranscriptRecorder] Failed to save transcript chunk:', error);
+    }
+  }
+}
+
+// ============================================
+// Session Detail
+// ============================================
+
+function formatLocalDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatLocalTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * The activity history record of an ended session. Participants are those
+ * present when it ended; each has viewed the lines available in their language.
+ */
+export function buildSessionDetail(
+  session: Session,
+  transcript: TranscriptLine[],
+  participants: Participant[]
+): SessionDetail {
+  const start = new Date(session.date_time_start);
+  const end = session.date_time_end ? new Date(session.date_time_end) : new Date();
+
+  const sessionParticipants: SessionParticipant[] = participants.map(participant => {
+    const joined = new Date(participant.joined_at);
+    const language = participant.language_selected;
+    return {
+      id: participant.id,
+      name: participant.name,
+      joined_at: formatLocalTime(joined),
+      left_at: formatLocalTime(end),
+      duration_minutes: Math.max(0, Math.round((end.getTime() - joined.getTime()) / 60000)),
+      language_selected: language,
+      messages_viewed: transcript.filter(
+        line => line.original_language === language || line.translations[language] !== undefined
+      ).length
+    };
+  });
+
+  const languages = new Set(transcript.flatMap(line => [line.original_language, ...Object.keys(line.translations)]));
+  const avgConfidence =
+    transcript.length > 0 ? transcript.reduce((sum, line) => sum + line.confidence, 0) / transcript.length : 0;
+
+  return {
+    id: session.id,
+    meeting_title: session.meeting_title,
+    host_name: session.host_name,
+    meeting_date: formatLocalDate(start),
+    start_time: formatLocalTime(start),
+    end_time: formatLocalTime(end),
+    duration_minutes: Math.round((session.duration_hours ?? 0) * 60),
+    source_language: session.source_language,
+    target_languages: session.target_languages,
+    transcript,
+    participants: sessionParticipants,
+    metrics: {
+      total_messages: transcript.length,
+      avg_confidence: Math.round(avgConfidence * 100) / 100,
+      low_confidence_rate: session.low_confidence_rate,
+      confidence_threshold: session.confidence_threshold,
+      languages_used: languages.size,
+      peak_concurrent_users: Math.max(session.peak_participant_count ?? 0, session.participant_count_total)
+    }
+  };
+}
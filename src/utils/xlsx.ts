@@ -0,0 +1,390 @@
+/**
+ * XLSX (SpreadsheetML) Reader / Writer
+ *
+ * Minimal, dependency-free support for single-sheet .xlsx files.
+ * An .xlsx file is a zip archive of XML parts; on read, entries are inflated
+ * with the browser's DecompressionStream and the XML is read with DOMParser,
+ * so reading runs client-side only. Written workbooks use stored (uncompressed)
+ * zip entries and inline strings, with a bold header row.
+ *
+ * Reading supports shared strings (including rich text runs), inline strings,
+ * numbers, booleans and formula results. Styles, dates and merged cells are
+ * read as their raw cell values.
+ *
+ * The zip writer is shared with other Office Open XML exports (DOCX
+ * transcripts in transcriptExport.ts).
+ *
+ * Usage:
+ * ```typescript
+ * import { readXlsxSheet, writeXlsxSheet } from '../utils/xlsx';
+ *
+ * const rows = await readXlsxSheet(await file.arrayBuffer()); // string[][]
+ * const bytes = writeXlsxSheet([['Source Term', 'Translation'], ['MRI', 'RM']], 'Glossary');
+ * ```
+ */
+
+// ============================================
+// Zip container
+// ============================================
+
+interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressed_size: number;
+  local_header_offset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Read the central directory (located through the end-of-central-directory record)
+ */
+function readZipEntries(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The EOCD record is 22 bytes plus an optional comment of up to 64KB
+  let eocd = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid XLSX file (zip directory not found)');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Not a valid XLSX file (corrupt zip directory)');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressed_size: view.getUint32(offset + 20, true),
+      local_header_offset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readZipText(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const offset = entry.local_header_offset;
+  if (view.getUint32(offset, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Not a valid XLSX file (corrupt entry ${entry.name})`);
+  }
+
+  // Local header name/extra lengths can differ from the central directory's
+  const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+  const data = bytes.subarray(dataStart, dataStart + entry.compressed_size);
+
+  switch (entry.method) {
+    case 0:
+      return new TextDecoder().decode(data);
+    case 8:
+      return new TextDecoder().decode(await inflateRaw(data));
+    default:
+      throw new Error(`Unsupported XLSX compression method ${entry.method}`);
+  }
+}
+
+// ============================================
+// SpreadsheetML
+// ============================================
+
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a valid XLSX file (malformed XML)');
+  }
+  return doc;
+}
+
+/** Elements by local name, whatever namespace prefix the producer used */
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+/** Text of a string item, joining rich text runs and skipping phonetic hints */
+function readStringItem(item: Element): string {
+  return elements(item, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('');
+}
+
+/** "C12" -> 2 (zero-based column) */
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/[0-9]/g, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Path of the first worksheet, resolved through the workbook relationships
+ */
+async function findFirstSheetPath(bytes: Uint8Array, entries: Map<string, ZipEntry>): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbookEntry = entries.get('xl/workbook.xml');
+  const relsEntry = entries.get('xl/_rels/workbook.xml.rels');
+  if (!workbookEntry || !relsEntry) return fallback;
+
+  const sheet = elements(parseXml(await readZipText(bytes, workbookEntry)), 'sheet')[0];
+  const relationshipId = sheet?.getAttributeNS(RELATIONSHIPS_NS, 'id') || sheet?.getAttribute('r:id');
+  if (!relationshipId) return fallback;
+
+  const relationship = elements(parseXml(await readZipText(bytes, relsEntry)), 'Relationship').find(
+    rel => rel.getAttribute('Id') === relationshipId
+  );
+  const target = relationship?.getAttribute('Target');
+  if (!target) return fallback;
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Read the first worksheet as rows of cell text; gaps are filled with ''
+ */
+export async function readXlsxSheet(buffer: ArrayBuffer): Promise<string[][]> {
+  const bytes = new Uint8Array(buffer);
+  const entries = readZipEntries(bytes);
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? elements(parseXml(await readZipText(bytes, sharedStringsEntry)), 'si').map(readStringItem)
+    : [];
+
+  const sheetEntry = entries.get(await findFirstSheetPath(bytes, entries));
+  if (!sheetEntry) throw new Error('XLSX file has no worksheet');
+
+  const rows: string[][] = [];
+  elements(parseXml(await readZipText(bytes, sheetEntry)), 'row').forEach(rowElement => {
+    const rowNumber = Number(rowElement.getAttribute('r')) || rows.length + 1;
+    const cells: string[] = [];
+
+    elements(rowElement, 'c').forEach(cell => {
+      const ref = cell.getAttribute('r');
+      const col = ref ? columnIndex(ref) : cells.length;
+      const type = cell.getAttribute('t');
+      const value = elements(cell, 'v')[0]?.textContent ?? '';
+
+      let text: string;
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = elements(cell, 'is').map(readStringItem).join('');
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = value;
+
+      while (cells.length < col) cells.push('');
+      cells[col] = text;
+    });
+
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  });
+
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return rows.map(row => [...row, ...Array<string>(width - row.length).fill('')]);
+}
+
+// ============================================
+// Writing
+// ============================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a zip archive with stored (uncompressed) entries
+ */
+export function buildZip(files: Array<{ name: string; content: string }>): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, 20, true); // Version needed
+    localView.setUint16(8, 0, true); // Stored
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true); // Version needed
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  const centralSize = centrals.reduce((sum, entry) => sum + entry.length, 0);
+  const eocd = new Uint8Array(22);
+  const eocdView = new DataView(eocd.buffer);
+  eocdView.setUint32(0, EOCD_SIGNATURE, true);
+  eocdView.setUint16(8, files.length, true);
+  eocdView.setUint16(10, files.length, true);
+  eocdView.setUint32(12, centralSize, true);
+  eocdView.setUint32(16, offset, true);
+
+  const zip = new Uint8Array(offset + centralSize + eocd.length);
+  let position = 0;
+  [...locals, ...centrals, eocd].forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+}
+
+/** Escape text for XML, dropping control characters XML 1.0 cannot carry */
+export function escapeXml(text: string): string {
+  const printable = Array.from(text)
+    .filter(char => char >= ' ' || char === '\t' || char === '\n' || char === '\r')
+    .join('');
+  return printable
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** 2 -> "C" */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+/**
+ * Build a single-sheet workbook; the first row is styled as a bold header
+ */
+export function writeXlsxSheet(rows: string[][], sheetName: string = 'Sheet1'): Uint8Array {
+  // Excel sheet names: max 31 characters, no []:*?/\
+  const safeSheetName = sheetName.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet1';
+
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const style = rowIndex === 0 ? ' s="1"' : '';
+      const cells = row
+        .map(
+          (cell, colIndex) =>
+            `<c r="${columnName(colIndex)}${rowIndex + 1}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`
+        )
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      content:
+        `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content:
+        `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content:
+        `${XML_DECLARATION}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}">` +
+        `<sheets><sheet name="${escapeXml(safeSheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content:
+        `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `<Relationship Id="rId2" Type="${RELATIONSHIPS_NS}/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/styles.xml',
+      content:
+        `${XML_DECLARATION}<styleSheet xmlns="${SPREADSHEET_NS}">` +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>'
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${sheetRows}</sheetData></worksheet>`
+    }
+  ]);
+}
@@ -0,0 +1,381 @@
+/**
+ * Zoom Driver Layer
+ *
+ * Everything useZoomSDK needs from the Zoom client goes through a `ZoomDriver`,
+ * so the same hook code runs inside Zoom and in the browser/test harness.
+ *
+ * Implementations:
+ * - ZoomSdkDriver: the real @zoom/appssdk (config with ZOOM_SDK_CONFIG.capabilities)
+ * - MockZoomDriver: scriptable in-memory contexts for development and tests
+ *
+ * Drivers also emit typed `ZoomMeetingEvent`s (meeting ended, participant
+ * joined/left, role changed, app shared/unshared, running context changed).
+ * The SDK driver translates onMeeting/onParticipantChange/... callbacks; the
+ * mock driver emits whatever a test scripts with `emit()`.
+ *
+ * Usage:
+ * ```typescript
+ * import { createZoomDriver, MockZoomDriver } from '../utils/zoomDriver';
+ *
+ * const driver = createZoomDriver();           // picked from VITE_ZOOM_DRIVER / user agent
+ * await driver.initialize();
+ * const meeting = await driver.getMeetingContext();
+ *
+ * // Scripted mock
+ * const mock = new MockZoomDriver({ user: { role: 'attendee' } });
+ * mock.setMeetingContext({ meetingID: 'other-meeting' });
+ *
+ * // Meeting events
+ * const unsubscribe = driver.onMeetingEvent(event => {
+ *   if (event.type === 'meeting_ended') stopSession();
+ * });
+ * mock.emit({ type: 'participant_joined', participant: { participantUUID: 'p1', screenName: 'Ana', role: 'attendee' } });
+ * ```
+ *
+ * The driver is selected from `VITE_ZOOM_DRIVER` (zoom | mock). When unset, the
+ * real SDK is used only if the app is running inside the Zoom client.
+ */
+
+import zoomSdk from '@zoom/appssdk';
+import type {
+  Apis,
+  ConfigResponse,
+  OnMeetingEvent,
+  OnMyUserContextChangeEvent,
+  OnParticipantChangeEvent,
+  OnRunningContextChangeEvent,
+  OnShareAppEvent
+} from '@zoom/appssdk';
+import { ZOOM_SDK_CONFIG } from './constants';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ZoomMeetingContext {
+  meetingID: string;
+  meetingTopic?: string;
+  meetingUUID?: string;
+}
+
+export interface ZoomUserContext {
+  userId: string;
+  displayName?: string;
+  email?: string;
+  role?: 'host' | 'cohost' | 'attendee';
+  accountId?: string;
+  screenName?: string;
+}
+
+/** Where the app is running, e.g. 'inMeeting', 'inWebinar', 'inMainClient' */
+export type ZoomRunningContext = string;
+
+export type ZoomDriverKind = 'zoom' | 'mock';
+
+export interface ZoomParticipant {
+  participantUUID: string;
+  screenName: string;
+  role: NonNullable<ZoomUserContext['role']>;
+}
+
+export type ZoomMeetingEvent =
+  | { type: 'meeting_ended' }
+  | { type: 'participant_joined'; participant: ZoomParticipant }
+  | { type: 'participant_left'; participant: ZoomParticipant }
+  | { type: 'role_changed'; role: NonNullable<ZoomUserContext['role']>; screenName?: string } // The app user's own role
+  | { type: 'app_shared' }
+  | { type: 'app_unshared' }
+  | { type: 'running_context_changed'; runningContext: ZoomRunningContext };
+
+export type ZoomMeetingEventListener = (event: ZoomMeetingEvent) => void;
+
+export interface ZoomDriver {
+  readonly kind: ZoomDriverKind;
+  /** Configure the SDK; must resolve before any other call */
+  initialize: () => Promise<{ runningContext: ZoomRunningContext }>;
+  getMeetingContext: () => Promise<ZoomMeetingContext>;
+  getUserContext: () => Promise<ZoomUserContext>;
+  getRunningContext: () => Promise<ZoomRunningContext>;
+  /** Invite every meeting participant to open the app */
+  shareApp: () => Promise<void>;
+  /** Subscribe to meeting events; returns an unsubscribe function */
+  onMeetingEvent: (listener: ZoomMeetingEventListener) => () => void;
+}
+
+/**
+ * Listener registry shared by the drivers
+ */
+class ZoomEventEmitter {
+  private listeners = new Set<ZoomMeetingEventListener>();
+
+  subscribe(listener: ZoomMeetingEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: ZoomMeetingEvent): void {
+    console.log('[ZoomDriver] Meeting event:', event.type);
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+// ============================================
+// Real Zoom Apps SDK
+// ============================================
+
+/**
+ * Map Zoom's role names ('host', 'coHost', 'attendee', 'panelist') to ours
+ */
+function toUserRole(role: string): NonNullable<ZoomUserContext['role']> {
+  if (role === 'host') return 'host';
+  if (role === 'coHost') return 'cohost';
+  return 'attendee';
+}
+
+export class ZoomSdkDriver implements ZoomDriver {
+  readonly kind = 'zoom';
+  private configResponse: ConfigResponse | null = null;
+  private events = new ZoomEventEmitter();
+  private listening = false;
+
+  async initialize() {
+    const { runningContext } = await this.configure();
+    this.listen();
+    return { runningContext };
+  }
+
+  private async configure(): Promise<ConfigResponse> {
+    this.configResponse = await zoomSdk.config({
+      capabilities: ZOOM_SDK_CONFIG.capabilities as Apis[],
+      popoutSize: ZOOM_SDK_CONFIG.popoutSize
+    });
+
+    if (this.configResponse.unsupportedApis.length > 0) {
+      console.warn('[ZoomDriver] Unsupported APIs in this client:', this.configResponse.unsupportedApis);
+    }
+    console.log('[ZoomDriver] SDK configured:', {
+      runningContext: this.configResponse.runningContext,
+      clientVersion: this.configResponse.clientVersion
+    });
+    return this.configResponse;
+  }
+
+  /**
+   * Translate SDK callbacks into ZoomMeetingEvents (registered once)
+   */
+  private listen() {
+    if (this.listening) return;
+    this.listening = true;
+
+    zoomSdk.onMeeting((event: OnMeetingEvent) => {
+      if (event.action === 'ended') this.events.emit({ type: 'meeting_ended' });
+    });
+
+    zoomSdk.onParticipantChange((event: OnParticipantChangeEvent) => {
+      event.participants.forEach(participant => {
+        this.events.emit({
+          type: participant.status === 'join' ? 'participant_joined' : 'participant_left',
+          participant: {
+            participantUUID: participant.participantUUID,
+            screenName: participant.screenName,
+            role: toUserRole(participant.role)
+          }
+        });
+      });
+    });
+
+    zoomSdk.onMyUserContextChange((event: OnMyUserContextChangeEvent) => {
+      this.events.emit({ type: 'role_changed', role: toUserRole(event.role), screenName: event.screenName });
+      // API permissions follow the role, so the SDK must be configured again
+      this.configure().catch(error => console.error('[ZoomDriver] Reconfigure after role change failed:', error));
+    });
+
+    zoomSdk.onShareApp((event: OnShareAppEvent) => {
+      this.events.emit({ type: event === 'start' ? 'app_shared' : 'app_unshared' });
+    });
+
+    zoomSdk.onRunningContextChange((event: OnRunningContextChangeEvent) => {
+      this.events.emit({ type: 'running_context_changed', runningContext: event.runningContext });
+    });
+  }
+
+  async getMeetingContext(): Promise<ZoomMeetingContext> {
+    const [context, uuid] = await Promise.all([
+      zoomSdk.getMeetingContext(),
+      zoomSdk.getMeetingUUID().catch(() => null)
+    ]);
+    return {
+      meetingID: context.meetingID,
+      meetingTopic: context.meetingTopic,
+      meetingUUID: uuid?.meetingUUID
+    };
+  }
+
+  async getUserContext(): Promise<ZoomUserContext> {
+    const context = await zoomSdk.getUserContext();
+    return {
+      userId: context.participantUUID,
+      displayName: context.screenName,
+      screenName: context.screenName,
+      role: toUserRole(context.role)
+    };
+  }
+
+  async getRunningContext(): Promise<ZoomRunningContext> {
+    const { context } = await zoomSdk.getRunningContext();
+    return context;
+  }
+
+  async shareApp(): Promise<void> {
+    await zoomSdk.sendAppInvitationToAllParticipants();
+  }
+
+  onMeetingEvent(listener: ZoomMeetingEventListener) {
+    return this.events.subscribe(listener);
+  }
+}
+
+// ============================================
+// Mock driver
+// ============================================
+
+export interface MockZoomDriverOptions {
+  meeting?: Partial<ZoomMeetingContext>;
+  user?: Partial<ZoomUserContext>;
+  runningContext?: ZoomRunningContext;
+  latencyMs?: number; // Simulated SDK round-trip
+}
+
+export const MOCK_MEETING_CONTEXT: ZoomMeetingContext = {
+  meetingID: 'mock-meeting-123',
+  meetingTopic: 'Mock Meeting for Development',
+  meetingUUID: 'mock-uuid-456'
+};
+
+export const MOCK_USER_CONTEXT: ZoomUserContext = {
+  userId: 'mock-user-001',
+  displayName: 'Host User',
+  email: 'test@meetingsync.local',
+  role: 'host',
+  accountId: 'mock-account-789',
+  screenName: 'Host User'
+};
+
+/**
+ * In-memory driver; contexts can be changed between calls and failures scripted
+ */
+export class MockZoomDriver implements ZoomDriver {
+  readonly kind = 'mock';
+  private meeting: ZoomMeetingContext;
+  private user: ZoomUserContext;
+  private runningContext: ZoomRunningContext;
+  private latencyMs: number;
+  private pendingFailure: Error | null = null;
+  private events = new ZoomEventEmitter();
+  shareCount = 0;
+
+  constructor(options: MockZoomDriverOptions = {}) {
+    this.meeting = { ...MOCK_MEETING_CONTEXT, ...options.meeting };
+    this.user = { ...MOCK_USER_CONTEXT, ...options.user };
+    this.runningContext = options.runningContext ?? 'inMeeting';
+    this.latencyMs = options.latencyMs ?? 0;
+  }
+
+  setMeetingContext(meeting: Partial<ZoomMeetingContext>): void {
+    this.meeting = { ...this.meeting, ...meeting };
+  }
+
+  setUserContext(user: Partial<ZoomUserContext>): void {
+    this.user = { ...this.user, ...user };
+  }
+
+  setRunningContext(runningContext: ZoomRunningContext): void {
+    this.runningContext = runningContext;
+  }
+
+  /**
+   * Make the next driver call reject with `message`
+   */
+  failNextCall(message: string): void {
+    this.pendingFailure = new Error(message);
+  }
+
+  private async respond<T>(value: T): Promise<T> {
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+    if (this.pendingFailure) {
+      const error = this.pendingFailure;
+      this.pendingFailure = null;
+      throw error;
+    }
+    return value;
+  }
+
+  initialize() {
+    console.log('[ZoomDriver] Using mock driver (no Zoom client)');
+    return this.respond({ runningContext: this.runningContext });
+  }
+
+  getMeetingContext() {
+    return this.respond({ ...this.meeting });
+  }
+
+  getUserContext() {
+    return this.respond({ ...this.user });
+  }
+
+  getRunningContext() {
+    return this.respond(this.runningContext);
+  }
+
+  async shareApp() {
+    await this.respond(undefined);
+    this.shareCount += 1;
+    console.log('[ZoomDriver] Mock: app invitation sent to all participants');
+  }
+
+  onMeetingEvent(listener: ZoomMeetingEventListener) {
+    return this.events.subscribe(listener);
+  }
+
+  /**
+   * Deliver a scripted meeting event to subscribers.
+   * Role and running-context events also update the mock's contexts.
+   */
+  emit(event: ZoomMeetingEvent): void {
+    if (event.type === 'role_changed') {
+      this.setUserContext({ role: event.role, ...(event.screenName ? { screenName: event.screenName } : {}) });
+    } else if (event.type === 'running_context_changed') {
+      this.setRunningContext(event.runningContext);
+    }
+    this.events.emit(event);
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+/**
+ * True when the page is loaded inside the Zoom client's embedded browser
+ */
+export function isRunningInZoomClient(): boolean {
+  return typeof navigator !== 'undefined' && /ZoomApps/i.test(navigator.userAgent);
+}
+
+export function getZoomDriverKind(): ZoomDriverKind {
+  const kind = import.meta.env.VITE_ZOOM_DRIVER;
+  if (kind === 'zoom' || kind === 'mock') return kind;
+  return isRunningInZoomClient() ? 'zoom' : 'mock';
+}
+
+export function createZoomDriver(
+  kind: ZoomDriverKind = getZoomDriverKind(),
+  mockOptions: MockZoomDriverOptions = {}
+): ZoomDriver {
+  console.log('[ZoomDriver] Using driver:', kind);
+  return kind === 'zoom' ? new ZoomSdkDriver() : new MockZoomDriver(mockOptions);
+}
@@ -6,6 +6,10 @@ interface ImportMetaEnv {
   readonly VITE_ZOOM_REDIRECT_URI: string
   readonly VITE_API_URL: string
   readonly VITE_ENV: 'development' | 'production'
+  readonly VITE_CAPTION_TRANSPORT?: 'mock' | 'websocket' | 'sse'
+  readonly VITE_CAPTION_SERVER_URL?: string
+  readonly VITE_ZOOM_DRIVER?: 'zoom' | 'mock'
+  readonly VITE_TTS_ENGINE?: 'speech' | 'silent'
 }
 
 interface ImportMeta {